@@ -1,7 +1,16 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, euint64, euint8, inEuint32, inEuint64, inEuint8 } from "@fhevm/solidity/lib/FHE.sol";
+import {
+    FHE,
+    euint32,
+    euint64,
+    euint8,
+    externalEuint32,
+    externalEuint64,
+    externalEuint8
+} from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /**
  * @title EncryptMultipleValues
@@ -15,7 +24,7 @@ import { FHE, euint32, euint64, euint8, inEuint32, inEuint64, inEuint8 } from "@
  * @custom:category encryption
  * @custom:concept Multi-field encryption, struct usage, type selection
  */
-contract EncryptMultipleValues {
+contract EncryptMultipleValues is SepoliaConfig {
     /**
      * @notice User profile with multiple encrypted fields
      * @dev Demonstrates organizing encrypted data in structs
@@ -39,6 +48,7 @@ contract EncryptMultipleValues {
      * @param encryptedBalance Large value (balance, amount, etc.)
      * @param encryptedScore Medium value (score, count, etc.)
      * @param encryptedLevel Small value (level, tier, category)
+     * @param inputProof One proof covering all three inputs, encrypted together client-side
      *
      * Type selection guide:
      * - euint8: 0-255 (flags, levels, categories)
@@ -49,14 +59,15 @@ contract EncryptMultipleValues {
      * ❌ INCORRECT: Always using euint64 wastes gas
      */
     function updateProfile(
-        inEuint64 calldata encryptedBalance,
-        inEuint32 calldata encryptedScore,
-        inEuint8 calldata encryptedLevel
+        externalEuint64 encryptedBalance,
+        externalEuint32 encryptedScore,
+        externalEuint8 encryptedLevel,
+        bytes calldata inputProof
     ) external {
-        // Convert all encrypted inputs
-        euint64 balance = FHE.asEuint64(encryptedBalance);
-        euint32 score = FHE.asEuint32(encryptedScore);
-        euint8 level = FHE.asEuint8(encryptedLevel);
+        // Verify and convert all encrypted inputs
+        euint64 balance = FHE.fromExternal(encryptedBalance, inputProof);
+        euint32 score = FHE.fromExternal(encryptedScore, inputProof);
+        euint8 level = FHE.fromExternal(encryptedLevel, inputProof);
 
         // Store in struct
         profiles[msg.sender] = UserProfile({
@@ -118,9 +129,10 @@ contract EncryptMultipleValues {
      * @notice Update just the balance
      * @dev Shows how to update individual encrypted fields
      * @param encryptedBalance New balance value
+     * @param inputProof Proof for the encrypted balance
      */
-    function updateBalance(inEuint64 calldata encryptedBalance) external {
-        euint64 balance = FHE.asEuint64(encryptedBalance);
+    function updateBalance(externalEuint64 encryptedBalance, bytes calldata inputProof) external {
+        euint64 balance = FHE.fromExternal(encryptedBalance, inputProof);
 
         profiles[msg.sender].balance = balance;
 
@@ -1,7 +1,8 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, inEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /**
  * @title EncryptSingleValue
@@ -15,7 +16,7 @@ import { FHE, euint32, inEuint32 } from "@fhevm/solidity/lib/FHE.sol";
  * @custom:category encryption
  * @custom:concept Single value encryption, access control basics
  */
-contract EncryptSingleValue {
+contract EncryptSingleValue is SepoliaConfig {
     /// @notice Mapping of user addresses to their encrypted values
     mapping(address => euint32) private userValues;
 
@@ -25,11 +26,12 @@ contract EncryptSingleValue {
     /**
      * @notice Store an encrypted value for the caller
      * @dev Demonstrates the complete encryption workflow
-     * @param encryptedValue The encrypted input value from the user
+     * @param encryptedValue The encrypted input handle from the user
+     * @param inputProof Proof that the caller encrypted the input for this contract
      *
      * ✅ CORRECT PATTERN:
      * 1. Accept encrypted input
-     * 2. Convert to euint32
+     * 2. Verify and convert to euint32 with FHE.fromExternal()
      * 3. Store in mapping
      * 4. Set access control (CRITICAL!)
      *
@@ -38,9 +40,9 @@ contract EncryptSingleValue {
      * ❌ Forgetting FHE.allow(value, user) - user won't be able to decrypt
      * ❌ Using plaintext instead of encrypted input
      */
-    function storeValue(inEuint32 calldata encryptedValue) external {
-        // Convert encrypted input to euint32
-        euint32 value = FHE.asEuint32(encryptedValue);
+    function storeValue(externalEuint32 encryptedValue, bytes calldata inputProof) external {
+        // Verify the input proof and convert to euint32
+        euint32 value = FHE.fromExternal(encryptedValue, inputProof);
 
         // Store the encrypted value
         userValues[msg.sender] = value;
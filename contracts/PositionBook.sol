@@ -0,0 +1,405 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+
+/**
+ * @title PositionBook
+ * @notice Encrypted per-pair positions of PrivateForexTrading traders and their P&L
+ * @dev An external library linked into PrivateForexTrading, which would not fit the
+ *      contract size limit with the position logic inlined. Library calls run with
+ *      DELEGATECALL, so positions stay in the trading contract's storage and
+ *      FHE.allowThis() grants the trading contract, exactly as if inlined.
+ *      The library never touches balances: it returns the P&L it booked on a
+ *      position, and the caller books it into the trader's balance. It does keep the
+ *      trader's total locked margin up to date, and hands the new handle back.
+ *
+ * @custom:category encryption
+ */
+library PositionBook {
+    /// @notice Largest number of decimals a pair's prices can have
+    /// @dev Rate changes are scaled to this many decimals, so one encrypted division
+    ///      by PNL_SCALE converts the P&L of any pair into collateral units
+    uint8 internal constant MAX_DECIMALS = 8;
+
+    /// @notice Scaled rate changes are divided by this to get P&L in collateral units
+    uint64 private constant PNL_SCALE = uint64(10) ** MAX_DECIMALS;
+
+    /**
+     * @notice A trader's encrypted net position in one currency pair
+     * @dev Sizes are sums of filled order amounts; at most one of long and short is
+     *      non-zero, since fills on the other side close the position first.
+     *      P&L is booked into the trader's encrypted balance against markRate, in
+     *      size × pips / 10^decimals of the pair, i.e. quote currency units counted as
+     *      collateral units, rounded down:
+     *      - A fill at a session rate other than markRate books the filled size's
+     *        change from markRate, so the size held afterwards is still valued from it
+     *      - mark() books the held size's change to a later session rate and moves
+     *        markRate there
+     *      Encrypted values cannot be negative, hence separate long/short and profit/loss.
+     *      The margin of every fill stays locked in the position until it is flat again,
+     *      as an encrypted partial close cannot be split into a share of the margin.
+     * @param encryptedLong Net long size (euint64)
+     * @param encryptedShort Net short size (euint64)
+     * @param encryptedRealizedProfit Sum of gains booked into the balance (euint64)
+     * @param encryptedRealizedLoss Sum of losses booked into the balance (euint64)
+     * @param encryptedMargin Margin locked by the fills of the open position (euint64)
+     * @param markRate Session rate in pips the position is valued from, 0 if never opened
+     *
+     * @custom:access-control-pattern Only the trader is granted access with FHE.allow()
+     */
+    struct Position {
+        euint64 encryptedLong;
+        euint64 encryptedShort;
+        euint64 encryptedRealizedProfit;
+        euint64 encryptedRealizedLoss;
+        euint64 encryptedMargin;
+        uint32 markRate;
+    }
+
+    /**
+     * @notice A settled order, as seen by the positions it may fill
+     * @dev The arrays are indexed by pair ID. Pairs without a session rate have an
+     *      uninitialized flag and a zero rate, and are skipped.
+     * @param isPair Encrypted flag per pair, true for the order's pair
+     * @param rates Session rate per pair in pips
+     * @param decimals Number of decimals in each pair's prices
+     * @param isSell Encrypted side of the order
+     * @param amount Encrypted filled amount, zero for unfilled orders
+     * @param margin Encrypted margin of the filled order, zero for unfilled orders
+     */
+    struct Fill {
+        ebool[] isPair;
+        uint32[] rates;
+        uint8[] decimals;
+        ebool isSell;
+        euint64 amount;
+        euint64 margin;
+    }
+
+    /**
+     * @notice Add a settled order to the trader's position in its pair
+     * @dev The pair and side are encrypted, so the sizes of the order's pair are
+     *      selected with the pair flags, updated once, and written back under the
+     *      same flags: every other position gets its own sizes back. A buy first
+     *      closes any short and the rest opens a long, and vice versa for a sell.
+     *      Positions in pairs quoted for the first time are opened at the session rate.
+     *      The fill's margin is locked in the position, and all of it is released once
+     *      the fill leaves the position flat.
+     * @param book The trader's positions by pair ID
+     * @param trader Owner of the positions
+     * @param fill The settled order
+     * @param lockedMargin Encrypted margin locked by all of the trader's positions
+     * @return profit Encrypted gain of the fill, uninitialized if none could be booked
+     * @return loss Encrypted loss of the fill, uninitialized if none could be booked
+     * @return newLockedMargin Encrypted margin locked by all of the trader's positions after the fill
+     */
+    function applyFill(
+        mapping(uint8 => Position) storage book,
+        address trader,
+        Fill memory fill,
+        // Only reachable by DELEGATECALL with the contract's own storage handle
+        // fhe-acl-ignore unchecked-sender-handle
+        euint64 lockedMargin
+    ) external returns (euint64 profit, euint64 loss, euint64 newLockedMargin) {
+        (profit, loss) = _bookFillPnl(book, trader, fill);
+
+        (euint64 long, euint64 short, euint64 margin) = _selectSizes(book, trader, fill);
+        (long, short) = _fillSizes(fill.isSell, fill.amount, long, short);
+        euint64 released;
+        (margin, released) = _lockMargin(fill.margin, long, short, margin);
+        _storeSizes(book, trader, fill.isPair, long, short, margin);
+
+        newLockedMargin = FHE.sub(FHE.add(lockedMargin, fill.margin), released);
+        FHE.allowThis(newLockedMargin);
+        FHE.allow(newLockedMargin, trader);
+    }
+
+    /**
+     * @notice Book the P&L of a position from its mark rate to a new rate
+     * @dev The rate change is public, so its sign picks in plaintext which side gains:
+     *      a rising rate is a profit on longs and a loss on shorts. Only the sizes are
+     *      encrypted, multiplied by the plaintext change.
+     * @param position The position to mark, opened and not at the new rate
+     * @param trader Owner of the position
+     * @param rate New mark rate in pips
+     * @param decimals Number of decimals in the pair's prices
+     * @return profit Encrypted gain in collateral units
+     * @return loss Encrypted loss in collateral units
+     *
+     * @custom:fhe-operation FHE.mul and FHE.div of encrypted sizes by plaintext values
+     */
+    function mark(
+        Position storage position,
+        address trader,
+        uint32 rate,
+        uint8 decimals
+    ) external returns (euint64 profit, euint64 loss) {
+        bool rising = rate > position.markRate;
+        uint64 change = rising ? rate - position.markRate : position.markRate - rate;
+        uint64 scale = uint64(10) ** decimals;
+        euint64 longPnl = FHE.div(FHE.mul(position.encryptedLong, change), scale);
+        euint64 shortPnl = FHE.div(FHE.mul(position.encryptedShort, change), scale);
+        (profit, loss) = rising ? (longPnl, shortPnl) : (shortPnl, longPnl);
+
+        euint64 newProfit = FHE.add(position.encryptedRealizedProfit, profit);
+        euint64 newLoss = FHE.add(position.encryptedRealizedLoss, loss);
+        position.encryptedRealizedProfit = newProfit;
+        position.encryptedRealizedLoss = newLoss;
+        position.markRate = rate;
+
+        FHE.allowThis(newProfit);
+        FHE.allow(newProfit, trader);
+        FHE.allowThis(newLoss);
+        FHE.allow(newLoss, trader);
+    }
+
+    /**
+     * @notice Net position sizes after a fill
+     * @param isSell Encrypted side of the order
+     * @param filledAmount Encrypted filled amount
+     * @param long Encrypted long size before the fill
+     * @param short Encrypted short size before the fill
+     * @return newLong Encrypted long size after the fill
+     * @return newShort Encrypted short size after the fill
+     *
+     * @custom:fhe-operation FHE.min to split a fill into a closing and an opening part
+     */
+    function _fillSizes(
+        ebool isSell,
+        euint64 filledAmount,
+        euint64 long,
+        euint64 short
+    ) private returns (euint64 newLong, euint64 newShort) {
+        euint64 bought = FHE.select(isSell, FHE.asEuint64(0), filledAmount);
+        euint64 sold = FHE.select(isSell, filledAmount, FHE.asEuint64(0));
+
+        euint64 closedShort = FHE.min(bought, short);
+        euint64 closedLong = FHE.min(sold, long);
+        newLong = FHE.sub(FHE.add(long, FHE.sub(bought, closedShort)), closedLong);
+        newShort = FHE.sub(FHE.add(short, FHE.sub(sold, closedLong)), closedShort);
+    }
+
+    /**
+     * @notice Margin locked in a position after a fill
+     * @dev At most one of the sizes is non-zero, so their sum is zero only when flat
+     * @param filledMargin Encrypted margin of the fill
+     * @param long Encrypted long size after the fill
+     * @param short Encrypted short size after the fill
+     * @param margin Encrypted margin locked before the fill
+     * @return newMargin Encrypted margin locked after the fill, zero if it is flat
+     * @return released Encrypted margin the fill released, all of it if flat, else zero
+     */
+    function _lockMargin(
+        euint64 filledMargin,
+        euint64 long,
+        euint64 short,
+        euint64 margin
+    ) private returns (euint64 newMargin, euint64 released) {
+        euint64 locked = FHE.add(margin, filledMargin);
+        euint64 zero = FHE.asEuint64(0);
+        ebool flat = FHE.eq(FHE.add(long, short), zero);
+        released = FHE.select(flat, locked, zero);
+        newMargin = FHE.select(flat, zero, locked);
+    }
+
+    /**
+     * @notice Sizes of the position in the pair the fill's flags select
+     * @param book The trader's positions by pair ID
+     * @param trader Owner of the positions
+     * @param fill The settled order
+     * @return long Encrypted long size in the selected pair
+     * @return short Encrypted short size in the selected pair
+     * @return margin Encrypted margin locked in the selected pair
+     */
+    function _selectSizes(
+        mapping(uint8 => Position) storage book,
+        address trader,
+        Fill memory fill
+    ) private returns (euint64 long, euint64 short, euint64 margin) {
+        long = FHE.asEuint64(0);
+        short = long;
+        margin = long;
+        for (uint8 i = 0; i < fill.isPair.length; i++) {
+            if (!FHE.isInitialized(fill.isPair[i])) {
+                continue;
+            }
+
+            Position storage position = book[i];
+            if (position.markRate == 0) {
+                _open(position, trader, fill.rates[i]);
+            }
+            long = FHE.select(fill.isPair[i], position.encryptedLong, long);
+            short = FHE.select(fill.isPair[i], position.encryptedShort, short);
+            margin = FHE.select(fill.isPair[i], position.encryptedMargin, margin);
+        }
+    }
+
+    /**
+     * @notice Write new sizes and margin to the position in the pair the flags select
+     * @param book The trader's positions by pair ID
+     * @param trader Owner of the positions
+     * @param isPair Encrypted flag per pair, true for the order's pair
+     * @param long Encrypted new long size
+     * @param short Encrypted new short size
+     * @param margin Encrypted new locked margin
+     */
+    function _storeSizes(
+        mapping(uint8 => Position) storage book,
+        address trader,
+        ebool[] memory isPair,
+        euint64 long,
+        euint64 short,
+        euint64 margin
+    ) private {
+        for (uint8 i = 0; i < isPair.length; i++) {
+            if (!FHE.isInitialized(isPair[i])) {
+                continue;
+            }
+
+            Position storage position = book[i];
+            euint64 newLong = FHE.select(isPair[i], long, position.encryptedLong);
+            euint64 newShort = FHE.select(isPair[i], short, position.encryptedShort);
+            euint64 newMargin = FHE.select(isPair[i], margin, position.encryptedMargin);
+            position.encryptedLong = newLong;
+            position.encryptedShort = newShort;
+            position.encryptedMargin = newMargin;
+
+            FHE.allowThis(newLong);
+            FHE.allow(newLong, trader);
+            FHE.allowThis(newShort);
+            FHE.allow(newShort, trader);
+            FHE.allowThis(newMargin);
+            FHE.allow(newMargin, trader);
+        }
+    }
+
+    /**
+     * @notice Book the P&L of a fill at the session rate against its position's mark rate
+     * @dev A position stays valued from its mark rate after a fill, so the change of the
+     *      filled size from the mark rate to the session rate is booked right away:
+     *      buying below the mark or selling above it is a profit, the reverse a loss.
+     *      Only pairs whose mark rate differs from the session rate take part, and
+     *      which ones do is public, so a trader whose positions are marked pays for
+     *      none of this.
+     * @param book The trader's positions by pair ID
+     * @param trader Owner of the positions
+     * @param fill The settled order
+     * @return profit Encrypted gain in collateral units, uninitialized if no position is stale
+     * @return loss Encrypted loss in collateral units, uninitialized if no position is stale
+     *
+     * @custom:fhe-operation FHE.mul of two encrypted values, FHE.xor to tell profit from loss
+     */
+    function _bookFillPnl(
+        mapping(uint8 => Position) storage book,
+        address trader,
+        Fill memory fill
+    ) private returns (euint64 profit, euint64 loss) {
+        euint64 change = FHE.asEuint64(0);
+        ebool fell = FHE.asEbool(false);
+        bool stale = false;
+        for (uint8 i = 0; i < fill.isPair.length; i++) {
+            (uint64 pairChange, bool pairFell) = _markChange(book[i], fill, i);
+            if (pairChange == 0) {
+                continue;
+            }
+            stale = true;
+            change = FHE.select(fill.isPair[i], FHE.asEuint64(pairChange), change);
+            fell = FHE.select(fill.isPair[i], FHE.asEbool(pairFell), fell);
+        }
+        if (!stale) {
+            return (profit, loss);
+        }
+
+        euint64 pnl = FHE.div(FHE.mul(fill.amount, change), PNL_SCALE);
+        ebool isProfit = FHE.xor(fill.isSell, fell);
+        profit = FHE.select(isProfit, pnl, FHE.asEuint64(0));
+        loss = FHE.select(isProfit, FHE.asEuint64(0), pnl);
+
+        _bookRealized(book, trader, fill, profit, loss);
+    }
+
+    /**
+     * @notice Add a fill's P&L to the realized P&L of the position the flags select
+     * @dev Only positions with a pending rate change can have a non-zero fill P&L
+     * @param book The trader's positions by pair ID
+     * @param trader Owner of the positions
+     * @param fill The settled order
+     * @param profit Encrypted gain in collateral units
+     * @param loss Encrypted loss in collateral units
+     */
+    function _bookRealized(
+        mapping(uint8 => Position) storage book,
+        address trader,
+        Fill memory fill,
+        euint64 profit,
+        euint64 loss
+    ) private {
+        for (uint8 i = 0; i < fill.isPair.length; i++) {
+            Position storage position = book[i];
+            (uint64 pairChange, ) = _markChange(position, fill, i);
+            if (pairChange == 0) {
+                continue;
+            }
+
+            euint64 newProfit = FHE.add(
+                position.encryptedRealizedProfit,
+                FHE.select(fill.isPair[i], profit, FHE.asEuint64(0))
+            );
+            euint64 newLoss = FHE.add(
+                position.encryptedRealizedLoss,
+                FHE.select(fill.isPair[i], loss, FHE.asEuint64(0))
+            );
+            position.encryptedRealizedProfit = newProfit;
+            position.encryptedRealizedLoss = newLoss;
+
+            FHE.allowThis(newProfit);
+            FHE.allow(newProfit, trader);
+            FHE.allowThis(newLoss);
+            FHE.allow(newLoss, trader);
+        }
+    }
+
+    /**
+     * @notice Public rate change of a position from its mark rate to the session rate
+     * @param position The position
+     * @param fill The settled order
+     * @param pairId Currency pair of the position
+     * @return change Change in pips scaled to MAX_DECIMALS, zero if the position is not
+     *                opened, its pair not quoted, or it is already at the session rate
+     * @return fell True if the session rate is below the mark rate
+     */
+    function _markChange(
+        Position storage position,
+        Fill memory fill,
+        uint8 pairId
+    ) private view returns (uint64 change, bool fell) {
+        uint32 markRate = position.markRate;
+        uint32 rate = fill.rates[pairId];
+        if (markRate == 0 || rate == 0) {
+            return (0, false);
+        }
+
+        fell = rate < markRate;
+        change = uint64(fell ? markRate - rate : rate - markRate) * uint64(10) ** (MAX_DECIMALS - fill.decimals[pairId]);
+    }
+
+    /**
+     * @notice Initialize a flat position with zero sizes, P&L and margin
+     * @param position The position to initialize
+     * @param trader Owner of the position
+     * @param rate Session rate in pips the position is valued from
+     */
+    function _open(Position storage position, address trader, uint32 rate) private {
+        euint64 zero = FHE.asEuint64(0);
+        position.encryptedLong = zero;
+        position.encryptedShort = zero;
+        position.encryptedRealizedProfit = zero;
+        position.encryptedRealizedLoss = zero;
+        position.encryptedMargin = zero;
+        position.markRate = rate;
+
+        FHE.allowThis(zero);
+        FHE.allow(zero, trader);
+    }
+}
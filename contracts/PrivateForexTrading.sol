@@ -1,8 +1,21 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint64, euint32, euint8, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import {
+    FHE,
+    euint64,
+    euint32,
+    euint8,
+    ebool,
+    externalEuint64,
+    externalEuint32,
+    externalEuint8,
+    externalEbool
+} from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { PositionBook } from "./PositionBook.sol";
 
 /**
  * @title PrivateForexTrading
@@ -10,9 +23,22 @@ import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
  * @dev Demonstrates key FHEVM concepts:
  *      - Encrypted data types (euint64, euint32, euint8)
  *      - Access control with FHE.allow() and FHE.allowThis()
- *      - Encrypted arithmetic operations (FHE.add)
+ *      - Encrypted arithmetic operations (FHE.add, FHE.sub)
+ *      - Encrypted order matching with comparisons and FHE.select()
+ *      - Buy and sell limit, stop and market orders with encrypted side and type
+ *      - Margin reserved from the encrypted balance at placement, with per-pair leverage,
+ *        and locked in the position while it is open
+ *      - Encrypted per-pair positions whose P&L is booked into the balance, kept in
+ *        the linked PositionBook library
  *      - Private order placement with hidden amounts and prices
- *      - Session-based trading with encrypted forex rates
+ *      - Cancelling orders and amending them with new encrypted inputs
+ *      - Client-side encrypted inputs verified with FHE.fromExternal()
+ *      - Session-based trading with encrypted forex rates, executed in bounded batches
+ *      - ERC-20 collateral deposits, and withdrawals checked against the encrypted
+ *        balance and settled through the decryption oracle
+ *      - An admin-managed registry of tradable currency pairs
+ *      - Role-based operations (admin, session operator, rate oracle, pauser) and
+ *        two-step ownership transfer
  *
  * @custom:category access-control
  * @custom:category encryption
@@ -24,10 +50,35 @@ import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
  *                  - Only authorized parties can access encrypted data
  */
 contract PrivateForexTrading is SepoliaConfig {
+    using SafeERC20 for IERC20;
 
-    /// @notice Contract owner who can manage trading sessions
+    /// @notice Contract owner: always an admin, and the account session volumes are shared with
+    /// @dev Changes hands through transferOwnership() and acceptOwnership()
     address public owner;
 
+    /// @notice Account that can accept ownership, zero if no transfer is pending
+    address public pendingOwner;
+
+    /// @notice Role that grants and revokes roles and manages the pair registry
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+
+    /// @notice Role that executes ended sessions and ends sessions in an emergency
+    bytes32 public constant SESSION_OPERATOR_ROLE = keccak256("SESSION_OPERATOR_ROLE");
+
+    /// @notice Role that starts sessions, publishing their forex rates
+    bytes32 public constant RATE_ORACLE_ROLE = keccak256("RATE_ORACLE_ROLE");
+
+    /// @notice Role that pauses and unpauses trading
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+
+    /// @notice Whether registration, deposits, new sessions and order placement are suspended
+    /// @dev Cancellation, execution and withdrawals keep working so traders can get out
+    bool public paused;
+
+    /// @notice ERC-20 stablecoin traders deposit as collateral
+    /// @dev One token unit is one unit of encrypted balance
+    IERC20 public immutable collateralToken;
+
     /// @notice Current active trading session ID
     uint32 public currentSession;
 
@@ -38,59 +89,133 @@ contract PrivateForexTrading is SepoliaConfig {
     /// @dev Sessions automatically expire after this duration
     uint256 constant SESSION_DURATION = 14400;
 
+    /// @notice Orders emergencyEndSession() cancels itself; executeBatch() cancels the rest
+    /// @dev Each cancellation releases margin with one FHE.sub, so this keeps the call well
+    ///      under the per-transaction HCU limit of the coprocessor
+    uint256 constant EMERGENCY_BATCH_SIZE = 20;
+
+    /// @notice Maximum number of currency pairs that can ever be listed
+    /// @dev Bounds the encrypted rate lookup, which costs FHE operations per pair for every order
+    uint8 public constant MAX_CURRENCY_PAIRS = 16;
+
+    /// @notice Largest number of decimals a pair's prices can have
+    /// @dev 10^8 pips still leaves room for prices up to 42 in a uint32; see PositionBook
+    uint8 public constant MAX_PAIR_DECIMALS = PositionBook.MAX_DECIMALS;
+
+    /// @notice Margin requirement of an unleveraged pair, in basis points of the order amount
+    /// @dev New pairs start at 1x leverage: an order reserves its full amount
+    uint16 public constant MAX_MARGIN_BPS = 10000;
+
+    /// @notice Lowest margin requirement a pair can have, in basis points (100x leverage)
+    uint16 public constant MIN_MARGIN_BPS = 100;
+
+    /**
+     * @notice A currency pair that can be traded
+     * @dev Pairs are identified by their index in the registry (the pair ID), which is
+     *      what orders encrypt as euint8. IDs are never reused: delisting only clears
+     *      `listed`, and listing the same symbol again restores its old ID.
+     *      Prices of a pair are integers in pips: price × 10^decimals,
+     *      so 11000 is EUR/USD 1.1000 and 15000 is USD/JPY 150.00
+     * @param symbol Display name as BASE/QUOTE, e.g. "EUR/USD"
+     * @param decimals Number of decimals in the pair's prices (one unit is one pip)
+     * @param listed Whether new sessions quote the pair and orders may use it
+     */
+    struct CurrencyPair {
+        string symbol;
+        uint8 decimals;
+        bool listed;
+    }
+
     /**
-     * @notice Supported currency pairs for trading
-     * @dev Using enum for gas efficiency and type safety
+     * @notice Direction of an order
+     * @dev Orders store it encrypted as an ebool that is true for Sell
      */
-    enum CurrencyPair {
-        EUR_USD,  // Euro / US Dollar
-        GBP_USD,  // British Pound / US Dollar
-        USD_JPY,  // US Dollar / Japanese Yen
-        AUD_USD,  // Australian Dollar / US Dollar
-        USD_CHF   // US Dollar / Swiss Franc
+    enum OrderSide {
+        Buy,
+        Sell
+    }
+
+    /**
+     * @notice How an order's target price is read at execution
+     * @dev Orders store it encrypted as a euint8. With R the session rate of the
+     *      pair and T the target price:
+     *      - Limit: a buy fills if R <= T, a sell if R >= T (the target or better)
+     *      - Stop: a buy fills if R >= T, a sell if R <= T (the rate has crossed T)
+     *      - Market: fills at the session rate, T is ignored
+     */
+    enum OrderType {
+        Limit,
+        Stop,
+        Market
     }
 
     /**
      * @notice Structure representing a private trading order
      * @dev All sensitive trading data is encrypted using FHE
      * @param encryptedAmount The encrypted trade amount (euint64)
-     * @param encryptedPrice The encrypted target price scaled by 10000 (euint32)
+     * @param encryptedPrice The encrypted target price in pips of the pair (euint32)
      * @param encryptedPairId The encrypted currency pair identifier (euint8)
+     * @param encryptedIsSell Encrypted side, true for a sell order (ebool)
+     * @param encryptedOrderType Encrypted OrderType value (euint8)
+     * @param encryptedFilled Encrypted matching result, set when the order is executed (ebool)
+     * @param encryptedMargin Encrypted margin reserved from the trader's balance while the order is open (euint64)
      * @param isExecuted Flag indicating if order has been processed
+     * @param isCancelled Flag indicating if the trader withdrew the order before execution
      * @param timestamp Block timestamp when order was placed
      * @param trader Address of the trader who placed the order
      *
      * @custom:encryption-pattern This struct demonstrates how to store multiple encrypted values
-     *                            while keeping metadata (isExecuted, timestamp, trader) public
+     *                            while keeping metadata (isExecuted, isCancelled, timestamp, trader) public
      */
     struct PrivateOrder {
         euint64 encryptedAmount;      // Encrypted trade amount
-        euint32 encryptedPrice;       // Encrypted target price (scaled by 10000)
+        euint32 encryptedPrice;       // Encrypted target price (in pips, see pairDecimals)
         euint8 encryptedPairId;       // Encrypted currency pair ID
+        ebool encryptedIsSell;        // Encrypted side (true = sell)
+        euint8 encryptedOrderType;    // Encrypted OrderType
+        ebool encryptedFilled;        // Encrypted fill result (after execution)
+        euint64 encryptedMargin;      // Encrypted margin reserved for the order
         bool isExecuted;
+        bool isCancelled;
         uint256 timestamp;
         address trader;
     }
 
     /**
      * @notice Structure representing a trading session
-     * @dev Sessions encapsulate a time-bound trading period with encrypted pricing
-     * @param sessionPrices Array of encrypted prices for all currency pairs
+     * @dev Sessions encapsulate a time-bound trading period with encrypted pricing.
+     *      The encrypted rates of the pairs listed at the start are kept in sessionRates
      * @param pricesSet Flag indicating if session prices have been initialized
      * @param sessionActive Flag indicating if session is currently active
      * @param startTime Unix timestamp when session began
      * @param endTime Unix timestamp when session will end
+     * @param endedEarly Flag set by emergencyEndSession(): the remaining orders are cancelled, not executed
      * @param activeTraders Array of trader addresses participating in this session
-     * @param totalVolume Total trading volume (currently unused, reserved for future use)
+     * @param totalVolume Encrypted sum of filled order amounts, decryptable by the owner
      */
     struct TradingSession {
-        euint32[5] sessionPrices;     // Encrypted prices for each currency pair
         bool pricesSet;
         bool sessionActive;
+        bool endedEarly;
         uint256 startTime;
         uint256 endTime;
         address[] activeTraders;
-        uint256 totalVolume;
+        euint64 totalVolume;
+    }
+
+    /**
+     * @notice Where the execution of a session stands
+     * @dev Execution walks activeTraders in order and each trader's orders in placement
+     *      order, one order at a time, so a batch can stop after any order.
+     * @param traderIndex Index in activeTraders of the next trader to process
+     * @param orderIndex Index of the next order of that trader
+     * @param settledOrders Orders settled so far; cancelled orders are skipped, not counted.
+     *                      After an emergency end, the orders it cancelled instead
+     */
+    struct ExecutionCursor {
+        uint256 traderIndex;
+        uint256 orderIndex;
+        uint256 settledOrders;
     }
 
     /**
@@ -98,19 +223,36 @@ contract PrivateForexTrading is SepoliaConfig {
      * @dev Demonstrates proper access control for user-specific encrypted data
      * @param encryptedBalance The trader's private balance (euint64)
      * @param totalTrades Encrypted count of total trades executed (euint32)
+     * @param encryptedReservedMargin Part of the balance reserved by open orders (euint64)
      * @param isRegistered Flag indicating if trader has completed registration
      * @param lastActivity Timestamp of trader's last interaction
      *
-     * @custom:access-control-pattern Access to encryptedBalance and totalTrades is granted
-     *                                only to the trader themselves using FHE.allow()
+     * @custom:access-control-pattern Access to encryptedBalance, totalTrades and
+     *                                encryptedReservedMargin is granted only to the
+     *                                trader themselves using FHE.allow()
      */
     struct TraderProfile {
         euint64 encryptedBalance;     // Private balance
         euint32 totalTrades;          // Encrypted trade count
+        euint64 encryptedReservedMargin; // Private margin held by open orders
         bool isRegistered;
         uint256 lastActivity;
     }
 
+    /**
+     * @notice A withdrawal waiting for the decryption oracle
+     * @dev The balance check runs under encryption; only its ebool result is
+     *      decrypted, since the token transfer needs a public amount anyway
+     * @param trader Trader who requested the withdrawal
+     * @param amount Requested amount in token units
+     * @param approved Encrypted balance check result, true if the amount was debited
+     */
+    struct Withdrawal {
+        address trader;
+        uint64 amount;
+        ebool approved;
+    }
+
     /// @notice Mapping of session ID to session data
     mapping(uint32 => TradingSession) public tradingSessions;
 
@@ -118,12 +260,62 @@ contract PrivateForexTrading is SepoliaConfig {
     /// @dev Nested mapping allows efficient lookup of orders per trader per session
     mapping(uint32 => mapping(address => PrivateOrder[])) public privateOrders;
 
+    /// @notice Mapping of session ID to how far its execution has progressed
+    /// @dev Reset when the session starts; complete once traderIndex reaches activeTraders.length
+    mapping(uint32 => ExecutionCursor) public executionCursors;
+
+    /// @notice Index + 1 of each trader in the session's activeTraders, keyed by session and trader
+    /// @dev Only valid if activeTraders still holds the trader at that index: a session restarted
+    ///      after emergencyEndSession() starts a new activeTraders array under the same ID
+    mapping(uint32 => mapping(address => uint256)) private activeTraderIndexes;
+
     /// @notice Mapping of trader address to their profile
     mapping(address => TraderProfile) public traderProfiles;
 
-    /// @notice Mapping of session ID to currency pair to encrypted rate
-    /// @dev Provides quick access to specific currency pair rates for a session
-    mapping(uint32 => mapping(CurrencyPair => euint32)) public sessionRates;
+    /// @notice Mapping of trader address to the part of their balance locked as margin by open positions
+    /// @dev Only the trader is granted access; read it with getMyEncryptedLockedMargin()
+    mapping(address => euint64) private encryptedLockedMargin;
+
+    /// @notice Mapping of session ID to pair ID to encrypted rate
+    /// @dev Only pairs listed when the session started have a rate
+    mapping(uint32 => mapping(uint8 => euint32)) public sessionRates;
+
+    /// @notice Mapping of session ID to pair ID to the session rate in pips
+    /// @dev The rates are public inputs of startTradingSession() anyway; positions are
+    ///      marked against them, and clients use them to value open positions
+    mapping(uint32 => mapping(uint8 => uint32)) public sessionQuotes;
+
+    /// @notice Mapping of trader address to pair ID to their position
+    mapping(address => mapping(uint8 => PositionBook.Position)) public positions;
+
+    /// @notice Mapping of decryption request ID to the withdrawal it settles
+    mapping(uint256 => Withdrawal) private withdrawals;
+
+    /// @notice Mapping of trader address to their pending withdrawal request ID + 1
+    /// @dev Zero means none is pending; the decryption oracle numbers requests from 0
+    mapping(address => uint256) public pendingWithdrawals;
+
+    /// @notice Currency pair registry, indexed by pair ID
+    mapping(uint8 => CurrencyPair) private currencyPairs;
+
+    /// @notice Mapping of pair ID to its margin requirement in basis points of the order amount
+    /// @dev Leverage is 10000 / margin: 10000 is 1x, 500 is 20x. Public, since it only
+    ///      describes the pair; what an order reserves stays encrypted
+    mapping(uint8 => uint16) public pairMarginBps;
+
+    /// @notice Number of pair IDs assigned so far, listed or not
+    uint8 public pairCount;
+
+    /// @notice Pair ID + 1 of each symbol ever listed, keyed by keccak256(symbol)
+    /// @dev Zero means the symbol was never listed
+    mapping(bytes32 => uint8) private pairIdsBySymbol;
+
+    /// @notice Members of each role, in no particular order
+    mapping(bytes32 => address[]) private roleMembers;
+
+    /// @notice Index + 1 of each member in roleMembers, keyed by role and account
+    /// @dev Zero means the account does not hold the role
+    mapping(bytes32 => mapping(address => uint256)) private roleMemberIndexes;
 
     // Events
 
@@ -142,6 +334,14 @@ contract PrivateForexTrading is SepoliaConfig {
      */
     event PrivateOrderPlaced(address indexed trader, uint32 indexed session, uint256 orderIndex);
 
+    /**
+     * @notice Emitted when a position's P&L is booked to a new mark rate
+     * @param trader Owner of the position
+     * @param pairId Currency pair of the position
+     * @param markRate Session rate in pips the position is now valued from
+     */
+    event PositionMarked(address indexed trader, uint8 indexed pairId, uint32 markRate);
+
     /**
      * @notice Emitted when an order is executed
      * @param trader Address of the trader whose order was executed
@@ -150,6 +350,45 @@ contract PrivateForexTrading is SepoliaConfig {
      */
     event OrderExecuted(address indexed trader, uint32 indexed session, uint256 orderIndex);
 
+    /**
+     * @notice Emitted after every execution transaction
+     * @param session The session ID
+     * @param settledOrders Orders settled by this transaction
+     * @param remainingTraders Traders with orders still to settle
+     */
+    event BatchExecuted(uint32 indexed session, uint256 settledOrders, uint256 remainingTraders);
+
+    /**
+     * @notice Emitted when the last order of a session is settled and the next session ID begins
+     * @param session The executed session ID
+     * @param settledOrders Orders settled over all batches
+     */
+    event SessionExecuted(uint32 indexed session, uint256 settledOrders);
+
+    /**
+     * @notice Emitted when the last open order of a session ended by emergencyEndSession() is cancelled
+     * @dev The session ID is not advanced, so the next session starts under the same ID
+     * @param session The cancelled session ID
+     * @param cancelledOrders Orders cancelled over all batches
+     */
+    event SessionCancelled(uint32 indexed session, uint256 cancelledOrders);
+
+    /**
+     * @notice Emitted when a trader cancels one of their orders
+     * @param trader Address of the trader who cancelled the order
+     * @param session The session ID
+     * @param orderIndex Index of the cancelled order
+     */
+    event OrderCancelled(address indexed trader, uint32 indexed session, uint256 orderIndex);
+
+    /**
+     * @notice Emitted when a trader replaces the amount and price of one of their orders
+     * @param trader Address of the trader who amended the order
+     * @param session The session ID
+     * @param orderIndex Index of the amended order
+     */
+    event OrderAmended(address indexed trader, uint32 indexed session, uint256 orderIndex);
+
     /**
      * @notice Emitted when session prices are updated
      * @param session The session ID
@@ -162,23 +401,128 @@ contract PrivateForexTrading is SepoliaConfig {
      */
     event TraderRegistered(address indexed trader);
 
+    /**
+     * @notice Emitted when a trader deposits collateral
+     * @param trader Address of the depositing trader
+     * @param amount Deposited amount in token units
+     */
+    event Deposited(address indexed trader, uint64 amount);
+
+    /**
+     * @notice Emitted when a trader requests a withdrawal
+     * @param trader Address of the withdrawing trader
+     * @param requestId Decryption request ID that will settle the withdrawal
+     * @param amount Requested amount in token units
+     */
+    event WithdrawalRequested(address indexed trader, uint256 indexed requestId, uint64 amount);
+
+    /**
+     * @notice Emitted when the decryption oracle settles a withdrawal
+     * @param trader Address of the withdrawing trader
+     * @param requestId Decryption request ID of the withdrawal
+     * @param amount Requested amount in token units
+     * @param approved Whether the balance covered the amount and the tokens were sent
+     */
+    event WithdrawalProcessed(address indexed trader, uint256 indexed requestId, uint64 amount, bool approved);
+
+    /**
+     * @notice Emitted when a currency pair is listed or listed again
+     * @param pairId ID orders use for the pair
+     * @param symbol Display name, e.g. "EUR/GBP"
+     * @param decimals Number of decimals in the pair's prices
+     */
+    event CurrencyPairListed(uint8 indexed pairId, string symbol, uint8 decimals);
+
+    /**
+     * @notice Emitted when a currency pair is delisted
+     * @param pairId ID of the delisted pair
+     */
+    event CurrencyPairDelisted(uint8 indexed pairId);
+
+    /**
+     * @notice Emitted when the margin requirement of a pair changes
+     * @param pairId ID of the pair
+     * @param marginBps New margin requirement in basis points of the order amount
+     */
+    event PairMarginUpdated(uint8 indexed pairId, uint16 marginBps);
+
+    /**
+     * @notice Emitted when an account is granted a role
+     * @param role The role, e.g. SESSION_OPERATOR_ROLE
+     * @param account Account that received the role
+     * @param sender Admin who granted it
+     */
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+
+    /**
+     * @notice Emitted when a role is taken away from an account
+     * @param role The role
+     * @param account Account that lost the role
+     * @param sender Admin who revoked it
+     */
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+
+    /**
+     * @notice Emitted when the owner proposes a new owner
+     * @param previousOwner Current owner
+     * @param newOwner Account that can now accept ownership
+     */
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+
+    /**
+     * @notice Emitted when ownership changes hands
+     * @param previousOwner Former owner
+     * @param newOwner New owner
+     */
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+
+    /**
+     * @notice Emitted when trading is paused
+     * @param account Pauser who paused it
+     */
+    event Paused(address account);
+
+    /**
+     * @notice Emitted when trading resumes
+     * @param account Pauser who unpaused it
+     */
+    event Unpaused(address account);
+
     // Modifiers
 
     /**
      * @notice Restricts function access to contract owner only
-     * @dev Used for administrative functions like starting sessions
+     * @dev Used for ownership transfer; everything else is guarded by roles
      */
     modifier onlyOwner() {
         require(msg.sender == owner, "Not authorized");
         _;
     }
 
+    /**
+     * @notice Restricts function access to holders of a role
+     * @dev Uses the same revert reason as onlyOwner, so clients decode both alike
+     * @param role The required role
+     */
+    modifier onlyRole(bytes32 role) {
+        _checkRole(role);
+        _;
+    }
+
+    /**
+     * @notice Restricts function access to when trading is not paused
+     */
+    modifier whenNotPaused() {
+        _checkNotPaused();
+        _;
+    }
+
     /**
      * @notice Restricts function access to registered traders only
      * @dev Ensures only traders who have completed registration can trade
      */
     modifier onlyRegisteredTrader() {
-        require(traderProfiles[msg.sender].isRegistered, "Trader not registered");
+        _checkRegisteredTrader();
         _;
     }
 
@@ -187,7 +531,7 @@ contract PrivateForexTrading is SepoliaConfig {
      * @dev Used to prevent actions that require an active trading session
      */
     modifier onlyDuringSession() {
-        require(isSessionActive(), "No active trading session");
+        _checkSession(true);
         _;
     }
 
@@ -196,18 +540,33 @@ contract PrivateForexTrading is SepoliaConfig {
      * @dev Used for functions that should only run between sessions
      */
     modifier onlyOutsideSession() {
-        require(!isSessionActive(), "Session currently active");
+        _checkSession(false);
         _;
     }
 
     /**
      * @notice Contract constructor
-     * @dev Initializes the contract with the deployer as owner and sets up initial session
+     * @dev Initializes the contract with the deployer as owner holding every role, sets up
+     *      initial session and lists the five major pairs as IDs 0-4. The admin can then hand
+     *      the operational roles to dedicated accounts.
+     * @param _collateralToken ERC-20 stablecoin traders deposit and withdraw
      */
-    constructor() {
+    constructor(address _collateralToken) {
+        require(_collateralToken != address(0), "Invalid collateral token");
         owner = msg.sender;
+        collateralToken = IERC20(_collateralToken);
+        _grantRole(ADMIN_ROLE, msg.sender);
+        _grantRole(SESSION_OPERATOR_ROLE, msg.sender);
+        _grantRole(RATE_ORACLE_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
         currentSession = 1;
         lastSessionTime = block.timestamp;
+
+        _listCurrencyPair("EUR/USD", 4);  // Euro / US Dollar
+        _listCurrencyPair("GBP/USD", 4);  // British Pound / US Dollar
+        _listCurrencyPair("USD/JPY", 2);  // US Dollar / Japanese Yen
+        _listCurrencyPair("AUD/USD", 4);  // Australian Dollar / US Dollar
+        _listCurrencyPair("USD/CHF", 4);  // US Dollar / Swiss Franc
     }
 
     /**
@@ -221,36 +580,37 @@ contract PrivateForexTrading is SepoliaConfig {
     function isSessionActive() public view returns (bool) {
         TradingSession storage session = tradingSessions[currentSession];
         return session.sessionActive &&
+               !session.endedEarly &&
                session.pricesSet &&
                block.timestamp >= session.startTime &&
                block.timestamp <= session.endTime;
     }
 
     /**
-     * @notice Register as a trader with an initial encrypted balance
+     * @notice Register as a trader with an empty encrypted balance
      * @dev This function demonstrates:
      *      - Converting plaintext to encrypted data using FHE.asEuint*
      *      - Setting up access control with FHE.allowThis() and FHE.allow()
      *      - Proper initialization of encrypted state variables
+     *      The balance is funded afterwards with deposit()
      *
-     * @param _initialBalance The initial balance to register with (will be encrypted)
-     *
-     * @custom:encryption-example Shows how to encrypt user input: FHE.asEuint64(_initialBalance)
+     * @custom:encryption-example Shows how to encrypt a constant: FHE.asEuint64(0)
      * @custom:access-control-example Demonstrates granting access to encrypted data:
      *                                - FHE.allowThis() grants access to the contract
      *                                - FHE.allow(data, user) grants access to specific user
      */
-    function registerTrader(uint64 _initialBalance) external {
+    function registerTrader() external whenNotPaused {
         require(!traderProfiles[msg.sender].isRegistered, "Already registered");
-        require(_initialBalance > 0, "Initial balance must be positive");
 
         // Encrypt the initial balance
-        euint64 encryptedBalance = FHE.asEuint64(_initialBalance);
+        euint64 encryptedBalance = FHE.asEuint64(0);
         euint32 encryptedTotalTrades = FHE.asEuint32(0);
+        euint64 encryptedReservedMargin = FHE.asEuint64(0);
 
         traderProfiles[msg.sender] = TraderProfile({
             encryptedBalance: encryptedBalance,
             totalTrades: encryptedTotalTrades,
+            encryptedReservedMargin: encryptedReservedMargin,
             isRegistered: true,
             lastActivity: block.timestamp
         });
@@ -260,10 +620,102 @@ contract PrivateForexTrading is SepoliaConfig {
         FHE.allow(encryptedBalance, msg.sender); // User can decrypt their own value
         FHE.allowThis(encryptedTotalTrades);
         FHE.allow(encryptedTotalTrades, msg.sender);
+        FHE.allowThis(encryptedReservedMargin);
+        FHE.allow(encryptedReservedMargin, msg.sender);
+
+        // Nothing is locked before the first fill: reuse the zero handle granted above
+        encryptedLockedMargin[msg.sender] = encryptedReservedMargin;
 
         emit TraderRegistered(msg.sender);
     }
 
+    /**
+     * @notice Deposit collateral tokens into the caller's encrypted balance
+     * @dev The caller must have approved this contract for `amount` first. The amount
+     *      is public, as it is in the token transfer; the resulting balance is not
+     * @param amount Amount in token units
+     *
+     * @custom:fhe-operation FHE.add of a plaintext amount to the encrypted balance
+     */
+    function deposit(uint64 amount) external onlyRegisteredTrader whenNotPaused {
+        require(amount > 0, "Amount must be positive");
+
+        collateralToken.safeTransferFrom(msg.sender, address(this), amount);
+
+        TraderProfile storage profile = traderProfiles[msg.sender];
+        euint64 newBalance = FHE.add(profile.encryptedBalance, amount);
+        profile.encryptedBalance = newBalance;
+        profile.lastActivity = block.timestamp;
+
+        FHE.allowThis(newBalance);
+        FHE.allow(newBalance, msg.sender);
+
+        emit Deposited(msg.sender, amount);
+    }
+
+    /**
+     * @notice Request a withdrawal of collateral tokens from the caller's encrypted balance
+     * @dev The balance check happens under encryption: the amount is debited only if
+     *      the balance not held as margin by open orders and positions covers it, else
+     *      nothing is. The check result is then sent to the decryption oracle, whose
+     *      callback transfers the tokens if it was approved.
+     *      Only that one bit is revealed, not the balance.
+     *      One withdrawal per trader can be pending at a time.
+     * @param amount Amount in token units
+     * @return requestId Decryption request ID, also emitted in WithdrawalRequested
+     *
+     * @custom:fhe-operation FHE.le + FHE.select for the encrypted sufficiency check
+     * @custom:decryption-pattern FHE.requestDecryption with an oracle callback
+     */
+    function requestWithdrawal(uint64 amount) external onlyRegisteredTrader returns (uint256 requestId) {
+        require(amount > 0, "Amount must be positive");
+        require(pendingWithdrawals[msg.sender] == 0, "Withdrawal already pending");
+
+        TraderProfile storage profile = traderProfiles[msg.sender];
+        ebool approved = FHE.le(FHE.asEuint64(amount), _availableBalance(msg.sender));
+        euint64 newBalance = FHE.sub(profile.encryptedBalance, FHE.select(approved, FHE.asEuint64(amount), FHE.asEuint64(0)));
+        profile.encryptedBalance = newBalance;
+        profile.lastActivity = block.timestamp;
+
+        FHE.allowThis(newBalance);
+        FHE.allow(newBalance, msg.sender);
+        FHE.allowThis(approved);
+        FHE.allow(approved, msg.sender);
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(approved);
+        requestId = FHE.requestDecryption(handles, this.settleWithdrawal.selector);
+
+        withdrawals[requestId] = Withdrawal({ trader: msg.sender, amount: amount, approved: approved });
+        pendingWithdrawals[msg.sender] = requestId + 1;
+
+        emit WithdrawalRequested(msg.sender, requestId, amount);
+    }
+
+    /**
+     * @notice Decryption oracle callback settling a withdrawal
+     * @dev Anyone can relay the call, but FHE.checkSignatures() only accepts the
+     *      oracle's signed result for this request, and a request settles once
+     * @param requestId Decryption request ID of the withdrawal
+     * @param cleartexts ABI-encoded decrypted balance check result
+     * @param decryptionProof KMS signatures over the result
+     */
+    function settleWithdrawal(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) external {
+        Withdrawal memory withdrawal = withdrawals[requestId];
+        require(withdrawal.trader != address(0), "Unknown withdrawal");
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        bool approved = abi.decode(cleartexts, (bool));
+        delete withdrawals[requestId];
+        delete pendingWithdrawals[withdrawal.trader];
+
+        if (approved) {
+            collateralToken.safeTransfer(withdrawal.trader, withdrawal.amount);
+        }
+
+        emit WithdrawalProcessed(withdrawal.trader, requestId, withdrawal.amount, approved);
+    }
+
     /**
      * @notice Start a new trading session with encrypted forex rates
      * @dev This function demonstrates:
@@ -271,26 +723,36 @@ contract PrivateForexTrading is SepoliaConfig {
      *      - Setting up access control for contract-owned encrypted data
      *      - Managing session state transitions
      *
-     * @param _forexRates Array of 5 forex rates (scaled by 10000) for:
-     *                    [0] EUR/USD, [1] GBP/USD, [2] USD/JPY, [3] AUD/USD, [4] USD/CHF
-     *                    Example: 11000 represents 1.1000
+     * @param _forexRates One forex rate in pips (see pairDecimals) per pair ID, pairCount in total.
+     *                    With the initial pairs: [0] EUR/USD, [1] GBP/USD, [2] USD/JPY, [3] AUD/USD, [4] USD/CHF
+     *                    Example: 11000 represents EUR/USD 1.1000, 15000 represents USD/JPY 150.00
+     *                    Entries of delisted pairs are ignored
      *
-     * @custom:security Only owner can start sessions
-     * @custom:timing Enforces SESSION_DURATION between sessions
+     * @custom:security Only the rate oracle can start sessions, since they publish the rates
+     * @custom:timing Enforces SESSION_DURATION between sessions, and that the previous
+     *               session has been executed to completion
      * @custom:encryption-pattern Shows how to encrypt an array of values
      */
     function startTradingSession(
-        uint32[5] memory _forexRates  // Rates for EUR/USD, GBP/USD, USD/JPY, AUD/USD, USD/CHF
-    ) external onlyOwner onlyOutsideSession {
+        uint32[] calldata _forexRates  // Rates indexed by pair ID
+    ) external onlyRole(RATE_ORACLE_ROLE) onlyOutsideSession whenNotPaused {
         require(block.timestamp >= lastSessionTime + SESSION_DURATION, "Too early for new session");
+        require(_forexRates.length == pairCount, "Wrong number of rates");
 
         TradingSession storage newSession = tradingSessions[currentSession];
+        // An ended session keeps sessionActive until its last batch is executed
+        require(!newSession.sessionActive, "Session currently active");
+
+        // Encrypt the rates of all listed pairs
+        for (uint8 i = 0; i < pairCount; i++) {
+            if (!currencyPairs[i].listed) {
+                continue;
+            }
+            require(_forexRates[i] > 0, "Rate must be positive");
 
-        // Encrypt all forex rates
-        for (uint i = 0; i < 5; i++) {
             euint32 encryptedRate = FHE.asEuint32(_forexRates[i]);
-            newSession.sessionPrices[i] = encryptedRate;
-            sessionRates[currentSession][CurrencyPair(i)] = encryptedRate;
+            sessionRates[currentSession][i] = encryptedRate;
+            sessionQuotes[currentSession][i] = _forexRates[i];
 
             // Set ACL permissions
             FHE.allowThis(encryptedRate);
@@ -298,10 +760,16 @@ contract PrivateForexTrading is SepoliaConfig {
 
         newSession.pricesSet = true;
         newSession.sessionActive = true;
+        newSession.endedEarly = false;
         newSession.startTime = block.timestamp;
         newSession.endTime = block.timestamp + SESSION_DURATION;
         newSession.activeTraders = new address[](0);
-        newSession.totalVolume = 0;
+        delete executionCursors[currentSession];
+
+        euint64 initialVolume = FHE.asEuint64(0);
+        newSession.totalVolume = initialVolume;
+        FHE.allowThis(initialVolume);
+        FHE.allow(initialVolume, owner);
 
         lastSessionTime = block.timestamp;
 
@@ -315,12 +783,17 @@ contract PrivateForexTrading is SepoliaConfig {
      *      - Order amount is encrypted (other traders can't see your position size)
      *      - Target price is encrypted (your trading strategy remains private)
      *      - Currency pair is encrypted (your trading focus is hidden)
+     *      - Side and order type are encrypted (nobody learns how you trade the pair)
+     *      - Margin for the order is reserved from your encrypted balance; an order the
+     *        unreserved balance cannot cover is stored with a zero amount (see _reserveMargin)
      *      - Access control ensures only you and the contract can see these values
      *
      * @param _amount Trade amount in USD (will be encrypted as euint64)
-     * @param _targetPrice Target price scaled by 10000 (will be encrypted as euint32)
-     *                     Example: 11500 represents a target price of 1.1500
-     * @param _currencyPairId Currency pair ID (0-4, will be encrypted as euint8)
+     * @param _targetPrice Target price in pips of the pair (will be encrypted as euint32)
+     *                     Example: 11500 represents EUR/USD 1.1500. Ignored for market orders
+     * @param _currencyPairId ID of a listed currency pair (will be encrypted as euint8)
+     * @param _side Buy or sell (will be encrypted as ebool)
+     * @param _orderType Limit, stop or market (will be encrypted as euint8)
      *
      * @custom:privacy-benefit Order details remain completely private on-chain
      * @custom:access-control Only the trader and contract can access encrypted order data
@@ -329,22 +802,95 @@ contract PrivateForexTrading is SepoliaConfig {
     function placePrivateOrder(
         uint64 _amount,
         uint32 _targetPrice,
-        uint8 _currencyPairId
-    ) external onlyRegisteredTrader onlyDuringSession {
+        uint8 _currencyPairId,
+        OrderSide _side,
+        OrderType _orderType
+    ) external onlyRegisteredTrader onlyDuringSession whenNotPaused {
         require(_amount > 0, "Amount must be positive");
-        require(_currencyPairId < 5, "Invalid currency pair");
-        require(_targetPrice > 0, "Target price must be positive");
+        require(isPairListed(_currencyPairId), "Invalid currency pair");
+        require(_orderType == OrderType.Market || _targetPrice > 0, "Target price must be positive");
 
         // Encrypt order details
-        euint64 encryptedAmount = FHE.asEuint64(_amount);
-        euint32 encryptedPrice = FHE.asEuint32(_targetPrice);
-        euint8 encryptedPairId = FHE.asEuint8(_currencyPairId);
+        _storePrivateOrder(
+            FHE.asEuint64(_amount),
+            FHE.asEuint32(_targetPrice),
+            FHE.asEuint8(_currencyPairId),
+            FHE.asEbool(_side == OrderSide.Sell),
+            FHE.asEuint8(uint8(_orderType))
+        );
+    }
+
+    /**
+     * @notice Place a private forex order from client-side encrypted inputs
+     * @dev Same as placePrivateOrder(uint64, uint32, uint8, OrderSide, OrderType), except the
+     *      values are encrypted by the trader before sending, so they never appear in calldata:
+     *      - The client encrypts amount, price, pair, side and type in one input bound to
+     *        this contract and the sender, producing five handles and one proof
+     *      - FHE.fromExternal() verifies the proof and converts each handle
+     *      - ACL permissions are granted exactly as in the plaintext overload
+     *
+     *      Amount, price, pair and type cannot be checked with require() while encrypted.
+     *      Clients validate them before encrypting (see scripts/lib/encryption.ts);
+     *      an order on a pair without a session rate or with an unknown type never fills.
+     *
+     * @param encryptedAmount Handle of the encrypted trade amount (euint64)
+     * @param encryptedTargetPrice Handle of the encrypted target price in pips of the pair (euint32)
+     * @param encryptedCurrencyPairId Handle of the encrypted currency pair ID (euint8)
+     * @param encryptedIsSell Handle of the encrypted side, true for a sell order (ebool)
+     * @param encryptedOrderType Handle of the encrypted OrderType value (euint8)
+     * @param inputProof Proof covering all five handles
+     *
+     * @custom:encryption-example Same input pattern as EncryptSingleValue.storeValue(),
+     *                            with several values sharing one proof
+     * @custom:privacy-benefit Order details are never visible, not even in the transaction input
+     */
+    function placePrivateOrder(
+        externalEuint64 encryptedAmount,
+        externalEuint32 encryptedTargetPrice,
+        externalEuint8 encryptedCurrencyPairId,
+        externalEbool encryptedIsSell,
+        externalEuint8 encryptedOrderType,
+        bytes calldata inputProof
+    ) external onlyRegisteredTrader onlyDuringSession whenNotPaused {
+        _storePrivateOrder(
+            FHE.fromExternal(encryptedAmount, inputProof),
+            FHE.fromExternal(encryptedTargetPrice, inputProof),
+            FHE.fromExternal(encryptedCurrencyPairId, inputProof),
+            FHE.fromExternal(encryptedIsSell, inputProof),
+            FHE.fromExternal(encryptedOrderType, inputProof)
+        );
+    }
+
+    /**
+     * @notice Record an encrypted order for the caller in the current session
+     * @dev Shared by both placePrivateOrder overloads. The margin is reserved first,
+     *      and the order stores the amount that was accepted
+     * @param encryptedAmount Encrypted trade amount
+     * @param encryptedPrice Encrypted target price (in pips of the pair)
+     * @param encryptedPairId Encrypted currency pair ID
+     * @param encryptedIsSell Encrypted side, true for a sell order
+     * @param encryptedOrderType Encrypted OrderType value
+     */
+    function _storePrivateOrder(
+        euint64 encryptedAmount,
+        euint32 encryptedPrice,
+        euint8 encryptedPairId,
+        ebool encryptedIsSell,
+        euint8 encryptedOrderType
+    ) private {
+        euint64 encryptedMargin;
+        (encryptedAmount, encryptedMargin) = _reserveMargin(msg.sender, encryptedAmount, encryptedPairId);
 
         PrivateOrder memory newOrder = PrivateOrder({
             encryptedAmount: encryptedAmount,
             encryptedPrice: encryptedPrice,
             encryptedPairId: encryptedPairId,
+            encryptedIsSell: encryptedIsSell,
+            encryptedOrderType: encryptedOrderType,
+            encryptedFilled: ebool.wrap(bytes32(0)),   // Uninitialized until the order is matched
+            encryptedMargin: encryptedMargin,
             isExecuted: false,
+            isCancelled: false,
             timestamp: block.timestamp,
             trader: msg.sender
         });
@@ -359,9 +905,15 @@ contract PrivateForexTrading is SepoliaConfig {
         FHE.allowThis(encryptedAmount);
         FHE.allowThis(encryptedPrice);
         FHE.allowThis(encryptedPairId);
+        FHE.allowThis(encryptedIsSell);
+        FHE.allowThis(encryptedOrderType);
+        FHE.allowThis(encryptedMargin);
         FHE.allow(encryptedAmount, msg.sender);
         FHE.allow(encryptedPrice, msg.sender);
         FHE.allow(encryptedPairId, msg.sender);
+        FHE.allow(encryptedIsSell, msg.sender);
+        FHE.allow(encryptedOrderType, msg.sender);
+        FHE.allow(encryptedMargin, msg.sender);
 
         // Update trader activity
         traderProfiles[msg.sender].lastActivity = block.timestamp;
@@ -369,77 +921,562 @@ contract PrivateForexTrading is SepoliaConfig {
         emit PrivateOrderPlaced(msg.sender, currentSession, orderIndex);
     }
 
+    /**
+     * @notice Withdraw one of your orders in the active session
+     * @dev The order stays in storage, so order indexes do not shift; it is skipped
+     *      at execution and gets no OrderExecuted event. Its encrypted values stay
+     *      decryptable by the trader. Its margin is released back to the balance.
+     *
+     * @param orderIndex Index of the order in your orders of the current session
+     *
+     * @custom:privacy-benefit Cancelling reveals that an order was withdrawn, not what it was
+     */
+    function cancelOrder(uint256 orderIndex) external onlyRegisteredTrader onlyDuringSession {
+        PrivateOrder storage order = _openOrder(orderIndex);
+        order.isCancelled = true;
+        _releaseMargin(msg.sender, order.encryptedMargin);
+
+        traderProfiles[msg.sender].lastActivity = block.timestamp;
+
+        emit OrderCancelled(msg.sender, currentSession, orderIndex);
+    }
+
+    /**
+     * @notice Replace the amount and target price of one of your orders in the active session
+     * @dev The new values arrive as client-side encrypted inputs, exactly like the
+     *      externalEuint overload of placePrivateOrder(); pair, side and type are kept. The order
+     *      keeps its index and therefore its place in the execution order.
+     *      The margin of the old amount is released before the new amount reserves
+     *      its own, so an amendment the balance cannot cover zeroes the order.
+     *      Previous handles are not revoked (the ACL has no revocation), they are
+     *      just no longer referenced by the order.
+     *
+     * @param orderIndex Index of the order in your orders of the current session
+     * @param encryptedAmount Handle of the new encrypted trade amount (euint64)
+     * @param encryptedTargetPrice Handle of the new encrypted target price in pips of the pair (euint32)
+     * @param inputProof Proof covering both handles
+     *
+     * @custom:access-control The new handles get the same ACL as a newly placed order
+     */
+    function amendOrder(
+        uint256 orderIndex,
+        externalEuint64 encryptedAmount,
+        externalEuint32 encryptedTargetPrice,
+        bytes calldata inputProof
+    ) external onlyRegisteredTrader onlyDuringSession whenNotPaused {
+        PrivateOrder storage order = _openOrder(orderIndex);
+        _releaseMargin(msg.sender, order.encryptedMargin);
+
+        (euint64 newAmount, euint64 newMargin) = _reserveMargin(
+            msg.sender,
+            FHE.fromExternal(encryptedAmount, inputProof),
+            order.encryptedPairId
+        );
+        euint32 newPrice = FHE.fromExternal(encryptedTargetPrice, inputProof);
+        order.encryptedAmount = newAmount;
+        order.encryptedPrice = newPrice;
+        order.encryptedMargin = newMargin;
+
+        FHE.allowThis(newAmount);
+        FHE.allowThis(newPrice);
+        FHE.allowThis(newMargin);
+        FHE.allow(newAmount, msg.sender);
+        FHE.allow(newPrice, msg.sender);
+        FHE.allow(newMargin, msg.sender);
+
+        traderProfiles[msg.sender].lastActivity = block.timestamp;
+
+        emit OrderAmended(msg.sender, currentSession, orderIndex);
+    }
+
+    /**
+     * @notice Look up an order of the caller in the current session that can still change
+     * @dev Orders of the current session are never executed while it is active,
+     *      so only cancellation has to be checked
+     * @param orderIndex Index of the order in the caller's orders
+     * @return order The order in storage
+     */
+    function _openOrder(uint256 orderIndex) private view returns (PrivateOrder storage order) {
+        PrivateOrder[] storage orders = privateOrders[currentSession][msg.sender];
+        require(orderIndex < orders.length, "Order not found");
+
+        order = orders[orderIndex];
+        require(!order.isCancelled, "Order cancelled");
+    }
+
+    /**
+     * @notice Reserve the margin an order needs from a trader's unreserved balance
+     * @dev The margin is the amount times the margin requirement of the order's pair,
+     *      rounded up. If the balance not yet reserved by other orders covers it, it is
+     *      added to the reservation; if not, amount and margin both become zero.
+     *      Either way the same operations run and an order is stored, so nobody can
+     *      tell an oversized order from an accepted one, or why it will not fill.
+     * @param trader Owner of the order
+     * @param encryptedAmount Encrypted trade amount requested
+     * @param encryptedPairId Encrypted currency pair ID of the order
+     * @return amount Encrypted amount the order keeps: the requested one or zero
+     * @return margin Encrypted margin reserved for the order, zero if it was not accepted
+     *
+     * @custom:fhe-operation FHE.le + FHE.select, so rejection is indistinguishable from acceptance
+     */
+    function _reserveMargin(
+        address trader,
+        euint64 encryptedAmount,
+        euint8 encryptedPairId
+    ) private returns (euint64 amount, euint64 margin) {
+        TraderProfile storage profile = traderProfiles[trader];
+        euint64 zero = FHE.asEuint64(0);
+
+        euint64 required = _requiredMargin(encryptedAmount, encryptedPairId);
+        euint64 available = _availableBalance(trader);
+        ebool accepted = FHE.le(required, available);
+
+        amount = FHE.select(accepted, encryptedAmount, zero);
+        margin = FHE.select(accepted, required, zero);
+
+        euint64 newReserved = FHE.add(profile.encryptedReservedMargin, margin);
+        profile.encryptedReservedMargin = newReserved;
+
+        FHE.allowThis(newReserved);
+        FHE.allow(newReserved, trader);
+    }
+
+    /**
+     * @notice Give an order's margin back to the trader's unreserved balance
+     * @param trader Owner of the order
+     * @param margin Encrypted margin the order reserved
+     */
+    function _releaseMargin(address trader, euint64 margin) private {
+        TraderProfile storage profile = traderProfiles[trader];
+        euint64 newReserved = FHE.sub(profile.encryptedReservedMargin, margin);
+        profile.encryptedReservedMargin = newReserved;
+
+        FHE.allowThis(newReserved);
+        FHE.allow(newReserved, trader);
+    }
+
+    /**
+     * @notice Compute the margin an encrypted amount requires on an encrypted pair
+     * @dev The pair ID is encrypted, so its margin requirement is selected over all
+     *      listed pairs like in _sessionRateFor(); unknown pairs require the full amount.
+     *      amount × bps / 10000 is split into whole and remaining multiples of 10000,
+     *      so that the product cannot overflow a euint64, and rounded up.
+     * @param encryptedAmount Encrypted trade amount
+     * @param encryptedPairId Encrypted currency pair ID
+     * @return margin Encrypted required margin
+     *
+     * @custom:fhe-operation FHE.div / FHE.rem by a plaintext divisor, FHE.mul of two encrypted values
+     */
+    function _requiredMargin(euint64 encryptedAmount, euint8 encryptedPairId) private returns (euint64 margin) {
+        euint64 marginBps = FHE.asEuint64(MAX_MARGIN_BPS);
+        for (uint8 i = 0; i < pairCount; i++) {
+            if (!currencyPairs[i].listed) {
+                continue;
+            }
+            marginBps = FHE.select(FHE.eq(encryptedPairId, i), FHE.asEuint64(pairMarginBps[i]), marginBps);
+        }
+
+        euint64 whole = FHE.mul(FHE.div(encryptedAmount, MAX_MARGIN_BPS), marginBps);
+        euint64 rest = FHE.mul(FHE.rem(encryptedAmount, MAX_MARGIN_BPS), marginBps);
+        margin = FHE.add(whole, FHE.div(FHE.add(rest, MAX_MARGIN_BPS - 1), MAX_MARGIN_BPS));
+    }
+
     /**
      * @notice Execute all private orders after a session ends
-     * @dev This function demonstrates batch processing of encrypted orders
-     *      In a production system, this would include:
-     *      - FHE comparisons to match orders against market prices
-     *      - Encrypted balance updates
-     *      - Settlement calculations on encrypted values
-     *
-     * @custom:note Current implementation marks orders as executed for demonstration
-     * @custom:fhe-operation Shows encrypted counter increment: FHE.add(counter, 1)
+     * @dev This function demonstrates batch processing of encrypted orders:
+     *      - Each order is matched against the session rate of its encrypted pair
+     *      - Margin of filled orders is locked in their position until it is closed
+     *      - Filled amounts accumulate into the session's encrypted totalVolume
+     *      - Each fill updates the position in its pair and books its P&L into the balance
+     *      Nobody, including the owner, learns which orders filled: the result of
+     *      each order is only decryptable by its trader.
+     *      Every order costs a fixed amount of FHE operations, so a session with more
+     *      than a few orders exceeds the coprocessor's per-transaction HCU limit here;
+     *      executeBatch() settles it over several transactions instead. Finishes a
+     *      session whose execution was started with executeBatch().
+     *
+     * @custom:fhe-operation Shows conditional updates without branching: FHE.select(filled, amount, 0)
      * @custom:timing Can only be called after session end time has passed
+     * @custom:security Only session operators can execute sessions
      */
-    function executePrivateOrders() external onlyOwner {
-        require(tradingSessions[currentSession].sessionActive, "No active session");
-        require(block.timestamp > tradingSessions[currentSession].endTime, "Session not yet ended");
+    function executePrivateOrders() external onlyRole(SESSION_OPERATOR_ROLE) {
+        _executeBatch(type(uint256).max);
+    }
 
+    /**
+     * @notice Settle up to maxOrders orders of the ended session, continuing where the last batch stopped
+     * @dev Progress is kept in executionCursors, so batches can be sent one after the other
+     *      by any session operator until the session completes: the batch that settles the
+     *      last order ends the session and emits SessionExecuted. Cancelled orders are
+     *      skipped without counting towards maxOrders. For a session ended with
+     *      emergencyEndSession(), batches cancel the remaining orders instead, and the
+     *      last one emits SessionCancelled.
+     * @param maxOrders Most orders to settle in this transaction
+     * @return completed True if the session is fully executed
+     *
+     * @custom:timing Can only be called after session end time has passed
+     * @custom:security Only session operators can execute sessions
+     */
+    function executeBatch(uint256 maxOrders) external onlyRole(SESSION_OPERATOR_ROLE) returns (bool completed) {
+        require(maxOrders > 0, "Invalid batch size");
+        return _executeBatch(maxOrders);
+    }
+
+    /**
+     * @notice Advance the execution cursor of the current session by up to maxOrders orders
+     * @dev The cursor is read and moved in storage by _executeNextOrder(), one order at a time
+     * @param maxOrders Most orders to settle
+     * @return completed True if every trader has been processed and the session ended
+     */
+    function _executeBatch(uint256 maxOrders) private returns (bool completed) {
         TradingSession storage session = tradingSessions[currentSession];
+        require(session.sessionActive, "No active session");
+        require(session.endedEarly || block.timestamp > session.endTime, "Session not yet ended");
+
+        ExecutionCursor storage cursor = executionCursors[currentSession];
+        uint256 settled = 0;
+        while (cursor.traderIndex < session.activeTraders.length && settled < maxOrders) {
+            if (_executeNextOrder(session, cursor)) {
+                settled++;
+            }
+        }
+        cursor.settledOrders += settled;
+
+        uint256 remainingTraders = session.activeTraders.length - cursor.traderIndex;
+        emit BatchExecuted(currentSession, settled, remainingTraders);
 
-        // Process orders for all active traders
-        for (uint i = 0; i < session.activeTraders.length; i++) {
-            address trader = session.activeTraders[i];
-            _processTraderOrders(trader);
+        if (remainingTraders != 0) {
+            return false;
         }
 
         // End current session
         session.sessionActive = false;
-        currentSession++;
+        if (session.endedEarly) {
+            emit SessionCancelled(currentSession, cursor.settledOrders);
+        } else {
+            emit SessionExecuted(currentSession, cursor.settledOrders);
+            currentSession++;
+        }
+        return true;
     }
 
     /**
-     * @notice Internal function to process a trader's orders
-     * @dev Demonstrates encrypted arithmetic: FHE.add() for incrementing trade counter
-     * @param trader Address of the trader whose orders to process
+     * @notice Settle the order under the execution cursor and move the cursor past it
+     * @dev Orders are settled in placement order, so each one sees the balance and
+     *      positions left by the previous fills. Cancelled and settled orders are skipped.
+     *      In a session ended early the order is cancelled and its margin released instead
+     * @param session The session being executed
+     * @param cursor Its execution cursor
+     * @return settled True if the order was settled or cancelled, false if it was skipped
      */
-    function _processTraderOrders(address trader) private {
+    function _executeNextOrder(
+        TradingSession storage session,
+        ExecutionCursor storage cursor
+    ) private returns (bool settled) {
+        address trader = session.activeTraders[cursor.traderIndex];
         PrivateOrder[] storage orders = privateOrders[currentSession][trader];
+        uint256 orderIndex = cursor.orderIndex;
+
+        if (orderIndex + 1 < orders.length) {
+            cursor.orderIndex = orderIndex + 1;
+        } else {
+            cursor.traderIndex++;
+            cursor.orderIndex = 0;
+        }
+
+        PrivateOrder storage order = orders[orderIndex];
+        if (order.isExecuted || order.isCancelled) {
+            return false;
+        }
+
+        if (session.endedEarly) {
+            order.isCancelled = true;
+            _releaseMargin(trader, order.encryptedMargin);
+
+            emit OrderCancelled(trader, currentSession, orderIndex);
+        } else {
+            order.isExecuted = true;
+            _settleOrder(trader, order);
+
+            emit OrderExecuted(trader, currentSession, orderIndex);
+        }
+        return true;
+    }
+
+    /**
+     * @notice Match one order against the session rates and settle it
+     * @dev An order fills when all of these hold, evaluated on encrypted values:
+     *      - its pair had a rate in the session and its amount is non-zero
+     *      - its type and side trigger at the session rate of its pair (see OrderType)
+     *      The balance check already happened when the margin was reserved at placement:
+     *      orders it did not cover have a zero amount. Buy and sell orders both lock
+     *      their margin in the position when they fill, and closing the position
+     *      releases it; the reservation is released either way.
+     *      The fill decision is an ebool, so every update goes through FHE.select()
+     *      and runs for filled and unfilled orders alike. The encrypted pair is compared
+     *      with each quoted pair once, and every lookup and update reuses those flags.
+     *
+     * @param trader Owner of the order
+     * @param order The order to settle
+     *
+     * @custom:fhe-operation FHE.le / FHE.and for matching, FHE.sub / FHE.add for settlement
+     */
+    function _settleOrder(address trader, PrivateOrder storage order) private {
+        ebool[] memory isPair = _pairFlags(order.encryptedPairId);
+        (euint32 marketRate, ebool quoted) = _sessionRateFor(isPair);
+
+        ebool validOrder = FHE.and(quoted, FHE.gt(order.encryptedAmount, uint64(0)));
+        ebool filled = FHE.and(validOrder, _priceMatches(order, marketRate));
+
+        // Unfilled orders settle a zero amount, keeping the fill decision hidden
+        euint64 filledAmount = FHE.select(filled, order.encryptedAmount, FHE.asEuint64(0));
+
+        _countFill(trader, filled, filledAmount);
+        euint64 filledMargin = _settleMargin(trader, order, filled);
+        _applyFill(trader, order, isPair, filledAmount, filledMargin);
+
+        order.encryptedFilled = filled;
+
+        // Every FHE operation returns a new handle: re-grant access or it can no longer be used or decrypted
+        FHE.allowThis(filled);
+        FHE.allow(filled, trader);
+    }
+
+    /**
+     * @notice Add a settled order to the trader's trade count and the session volume
+     * @param trader Owner of the order
+     * @param filled Encrypted fill result of the order
+     * @param filledAmount Encrypted filled amount, zero for unfilled orders
+     */
+    function _countFill(address trader, ebool filled, euint64 filledAmount) private {
+        TraderProfile storage profile = traderProfiles[trader];
+        TradingSession storage session = tradingSessions[currentSession];
+
+        euint32 newTrades = FHE.add(profile.totalTrades, FHE.select(filled, FHE.asEuint32(1), FHE.asEuint32(0)));
+        euint64 newVolume = FHE.add(session.totalVolume, filledAmount);
+        profile.totalTrades = newTrades;
+        session.totalVolume = newVolume;
+
+        FHE.allowThis(newTrades);
+        FHE.allow(newTrades, trader);
+        FHE.allowThis(newVolume);
+        FHE.allow(newVolume, owner);
+    }
+
+    /**
+     * @notice Release the reservation of a settled order
+     * @dev The balance is not debited: the margin of a fill is locked in its position
+     *      instead (see _applyFill)
+     * @param trader Owner of the order
+     * @param order The settled order
+     * @param filled Encrypted fill result of the order
+     * @return filledMargin Encrypted margin of the order if it filled, else zero
+     */
+    function _settleMargin(
+        address trader,
+        PrivateOrder storage order,
+        ebool filled
+    ) private returns (euint64 filledMargin) {
+        TraderProfile storage profile = traderProfiles[trader];
+
+        filledMargin = FHE.select(filled, order.encryptedMargin, FHE.asEuint64(0));
+        euint64 newReserved = FHE.sub(profile.encryptedReservedMargin, order.encryptedMargin);
+        profile.encryptedReservedMargin = newReserved;
+
+        FHE.allowThis(newReserved);
+        FHE.allow(newReserved, trader);
+    }
+
+    /**
+     * @notice Book the P&L of a position since its mark rate, at the latest session rate
+     * @dev Mark-to-market runs for one position per call, so its cost does not depend on
+     *      how many pairs there are, and settlement never waits for it: fills book their
+     *      own P&L against the mark rate (see PositionBook).
+     *      Anyone can mark a position, since the result only depends on public rates
+     *      and stays encrypted. Does nothing if the position is already at that rate.
+     * @param trader Owner of the position
+     * @param pairId Currency pair of the position
+     *
+     * @custom:fhe-operation FHE.mul and FHE.div of encrypted sizes by plaintext values
+     */
+    function markPosition(address trader, uint8 pairId) external {
+        PositionBook.Position storage position = positions[trader][pairId];
+        require(position.markRate != 0, "No position");
+
+        uint32 session = tradingSessions[currentSession].pricesSet ? currentSession : currentSession - 1;
+        uint32 rate = sessionQuotes[session][pairId];
+        require(rate != 0, "Pair not quoted");
+        if (rate == position.markRate) {
+            return;
+        }
 
-        for (uint j = 0; j < orders.length; j++) {
-            if (!orders[j].isExecuted) {
-                // In a real implementation, this would use FHE comparisons
-                // to check if encrypted target price matches encrypted market price
-                // Example: ebool matches = FHE.eq(orders[j].encryptedPrice, marketPrice);
-                orders[j].isExecuted = true;
+        (euint64 profit, euint64 loss) = PositionBook.mark(position, trader, rate, currencyPairs[pairId].decimals);
+        _bookPnl(trader, profit, loss);
 
-                // Demonstrate FHE arithmetic: increment encrypted trade counter
-                traderProfiles[trader].totalTrades = FHE.add(
-                    traderProfiles[trader].totalTrades,
-                    FHE.asEuint32(1)
-                );
+        emit PositionMarked(trader, pairId, rate);
+    }
 
-                emit OrderExecuted(trader, currentSession, j);
+    /**
+     * @notice Add a settled order to the trader's position in its pair and book its P&L
+     * @dev Only the pairs quoted in the session take part: their rates and decimals are
+     *      handed to PositionBook along with the pair flags. PositionBook also locks the
+     *      fill's margin in the trader's locked margin, less what closing the position frees.
+     * @param trader Owner of the order
+     * @param order The settled order
+     * @param isPair Encrypted flags from _pairFlags(), true for the order's pair
+     * @param filledAmount Encrypted filled amount, zero for unfilled orders
+     * @param filledMargin Encrypted margin of the order, zero for unfilled orders
+     */
+    function _applyFill(
+        address trader,
+        PrivateOrder storage order,
+        ebool[] memory isPair,
+        euint64 filledAmount,
+        euint64 filledMargin
+    ) private {
+        PositionBook.Fill memory fill = PositionBook.Fill({
+            isPair: isPair,
+            rates: new uint32[](isPair.length),
+            decimals: new uint8[](isPair.length),
+            isSell: order.encryptedIsSell,
+            amount: filledAmount,
+            margin: filledMargin
+        });
+        for (uint8 i = 0; i < isPair.length; i++) {
+            if (FHE.isInitialized(isPair[i])) {
+                fill.rates[i] = sessionQuotes[currentSession][i];
+                fill.decimals[i] = currencyPairs[i].decimals;
             }
         }
+
+        euint64 profit;
+        euint64 loss;
+        // PositionBook grants the new locked margin to the contract and the trader
+        // fhe-acl-ignore
+        (profit, loss, encryptedLockedMargin[trader]) = PositionBook.applyFill(
+            positions[trader],
+            trader,
+            fill,
+            encryptedLockedMargin[trader]
+        );
+        if (FHE.isInitialized(profit)) {
+            _bookPnl(trader, profit, loss);
+        }
+    }
+
+    /**
+     * @notice Part of a trader's balance not held as margin by open orders or positions
+     * @dev Losses are booked into the balance while the margin stays locked, so the
+     *      held margin can exceed the balance; nothing is available then
+     * @param trader The trader
+     * @return available Encrypted balance that new orders and withdrawals can use
+     */
+    function _availableBalance(address trader) private returns (euint64 available) {
+        TraderProfile storage profile = traderProfiles[trader];
+        euint64 held = FHE.add(profile.encryptedReservedMargin, encryptedLockedMargin[trader]);
+        ebool covered = FHE.le(held, profile.encryptedBalance);
+        available = FHE.select(covered, FHE.sub(profile.encryptedBalance, held), FHE.asEuint64(0));
+    }
+
+    /**
+     * @notice Credit profit to and debit loss from a trader's encrypted balance
+     * @dev The balance cannot go below zero: a loss larger than the balance takes all of it
+     * @param trader Trader the P&L belongs to
+     * @param profit Encrypted gain in collateral units
+     * @param loss Encrypted loss in collateral units
+     */
+    function _bookPnl(address trader, euint64 profit, euint64 loss) private {
+        TraderProfile storage profile = traderProfiles[trader];
+        euint64 credited = FHE.add(profile.encryptedBalance, profit);
+        euint64 newBalance = FHE.sub(credited, FHE.min(loss, credited));
+        profile.encryptedBalance = newBalance;
+
+        FHE.allowThis(newBalance);
+        FHE.allow(newBalance, trader);
+    }
+
+    /**
+     * @notice Evaluate an order's type and side against the session rate
+     * @dev Limit and stop orders compare in opposite directions, and so do buys and
+     *      sells: the rate must be at or below the target exactly for a buy limit or
+     *      a sell stop, i.e. when isLimit XOR isSell. Both comparisons are computed and
+     *      one is selected, so the type and side stay hidden. Unknown types never match.
+     * @param order The order to evaluate
+     * @param marketRate Encrypted session rate of the order's pair
+     * @return matches Encrypted flag, true if the order triggers at this rate
+     *
+     * @custom:fhe-operation FHE.xor on ebools, FHE.select between two comparisons
+     */
+    function _priceMatches(PrivateOrder storage order, euint32 marketRate) private returns (ebool matches) {
+        ebool isLimit = FHE.eq(order.encryptedOrderType, uint8(OrderType.Limit));
+        ebool isStop = FHE.eq(order.encryptedOrderType, uint8(OrderType.Stop));
+        ebool isMarket = FHE.eq(order.encryptedOrderType, uint8(OrderType.Market));
+
+        ebool crossed = FHE.select(
+            FHE.xor(isLimit, order.encryptedIsSell),
+            FHE.le(marketRate, order.encryptedPrice),
+            FHE.ge(marketRate, order.encryptedPrice)
+        );
+        matches = FHE.or(FHE.and(FHE.or(isLimit, isStop), crossed), isMarket);
+    }
+
+    /**
+     * @notice Compare an encrypted pair ID with every pair quoted in the session
+     * @dev The pair ID is encrypted, so nothing can be read by index. Settlement
+     *      computes these flags once per order and selects on them for the rate,
+     *      the position and its P&L. Pairs listed after the session started have
+     *      no rate and keep an uninitialized flag, so they are skipped everywhere
+     * @param encryptedPairId Encrypted currency pair ID
+     * @return isPair Encrypted flag per pair ID, true for the order's pair
+     */
+    function _pairFlags(euint8 encryptedPairId) private returns (ebool[] memory isPair) {
+        isPair = new ebool[](pairCount);
+        for (uint8 i = 0; i < pairCount; i++) {
+            if (FHE.isInitialized(sessionRates[currentSession][i])) {
+                isPair[i] = FHE.eq(encryptedPairId, i);
+            }
+        }
+    }
+
+    /**
+     * @notice Look up the session rate for an encrypted currency pair
+     * @dev The rate of every quoted pair is selected on its flag, so orders on
+     *      unquoted pairs (or on unknown IDs) get no rate and are not quoted.
+     * @param isPair Encrypted flags from _pairFlags()
+     * @return rate Encrypted session rate for that pair, zero if not quoted
+     * @return quoted Encrypted flag, true if the session has a rate for the pair
+     */
+    function _sessionRateFor(ebool[] memory isPair) private returns (euint32 rate, ebool quoted) {
+        rate = FHE.asEuint32(0);
+        quoted = FHE.asEbool(false);
+        for (uint8 i = 0; i < isPair.length; i++) {
+            if (!FHE.isInitialized(isPair[i])) {
+                continue;
+            }
+
+            rate = FHE.select(isPair[i], sessionRates[currentSession][i], rate);
+            quoted = FHE.or(quoted, isPair[i]);
+        }
     }
 
     /**
      * @notice Add trader to active traders list if not already present
-     * @dev Internal helper to manage session participants
+     * @dev Internal helper to manage session participants. Membership is checked in
+     *      constant time through activeTraderIndexes, so placing an order costs the
+     *      same however many traders the session has
      * @param trader Address of the trader to add
      */
     function _addToActiveTraders(address trader) private {
         TradingSession storage session = tradingSessions[currentSession];
 
         // Check if trader already in active list
-        for (uint i = 0; i < session.activeTraders.length; i++) {
-            if (session.activeTraders[i] == trader) {
-                return; // Already in list
-            }
+        uint256 index = activeTraderIndexes[currentSession][trader];
+        if (index != 0 && index <= session.activeTraders.length && session.activeTraders[index - 1] == trader) {
+            return; // Already in list
         }
 
         session.activeTraders.push(trader);
+        activeTraderIndexes[currentSession][trader] = session.activeTraders.length;
     }
 
     /**
@@ -480,6 +1517,17 @@ contract PrivateForexTrading is SepoliaConfig {
         return privateOrders[currentSession][trader].length;
     }
 
+    /**
+     * @notice Get a trader's order count in any session
+     * @dev Includes cancelled orders, so every index below the count is valid
+     * @param sessionNumber The session ID to query
+     * @param trader Address of the trader
+     * @return uint256 Number of orders placed by the trader in that session
+     */
+    function getSessionOrderCount(uint32 sessionNumber, address trader) external view returns (uint256) {
+        return privateOrders[sessionNumber][trader].length;
+    }
+
     /**
      * @notice Get trader profile information
      * @dev Returns only public profile data, not encrypted balances
@@ -515,6 +1563,49 @@ contract PrivateForexTrading is SepoliaConfig {
         return traderProfiles[msg.sender].totalTrades;
     }
 
+    /**
+     * @notice Get your own encrypted balance
+     * @dev Same user decryption pattern as getMyEncryptedTotalTrades():
+     *      the handle is only decryptable by the trader, who was granted
+     *      access with FHE.allow() at registration and on every balance update
+     *
+     * @return euint64 Your encrypted balance (decrypt with your private key)
+     *
+     * @custom:user-decryption The returned encrypted value can be decrypted client-side
+     * @custom:access-control Only registered traders can call this for themselves
+     */
+    function getMyEncryptedBalance() external view onlyRegisteredTrader returns (euint64) {
+        return traderProfiles[msg.sender].encryptedBalance;
+    }
+
+    /**
+     * @notice Get the encrypted part of your balance reserved as margin by open orders
+     * @dev Same user decryption pattern as getMyEncryptedBalance(); balance minus
+     *      reserved and locked margin is what new orders and withdrawals can use
+     *
+     * @return euint64 Your encrypted reserved margin (decrypt with your private key)
+     *
+     * @custom:user-decryption The returned encrypted value can be decrypted client-side
+     * @custom:access-control Only registered traders can call this for themselves
+     */
+    function getMyEncryptedReservedMargin() external view onlyRegisteredTrader returns (euint64) {
+        return traderProfiles[msg.sender].encryptedReservedMargin;
+    }
+
+    /**
+     * @notice Get the encrypted part of your balance locked as margin by open positions
+     * @dev Same user decryption pattern as getMyEncryptedBalance(). The margin of a fill
+     *      stays locked until its position is closed
+     *
+     * @return euint64 Your encrypted locked margin (decrypt with your private key)
+     *
+     * @custom:user-decryption The returned encrypted value can be decrypted client-side
+     * @custom:access-control Only registered traders can call this for themselves
+     */
+    function getMyEncryptedLockedMargin() external view onlyRegisteredTrader returns (euint64) {
+        return encryptedLockedMargin[msg.sender];
+    }
+
     /**
      * @notice Get session history information
      * @param sessionNumber The session ID to query
@@ -523,7 +1614,7 @@ contract PrivateForexTrading is SepoliaConfig {
      * @return startTime Session start timestamp
      * @return endTime Session end timestamp
      * @return traderCount Number of traders who participated
-     * @return totalVolume Total trading volume
+     * @return totalVolume Encrypted total filled volume (decryptable by the owner)
      */
     function getSessionHistory(uint32 sessionNumber) external view returns (
         bool sessionActive,
@@ -531,7 +1622,7 @@ contract PrivateForexTrading is SepoliaConfig {
         uint256 startTime,
         uint256 endTime,
         uint256 traderCount,
-        uint256 totalVolume
+        euint64 totalVolume
     ) {
         TradingSession storage session = tradingSessions[sessionNumber];
         return (
@@ -548,35 +1639,339 @@ contract PrivateForexTrading is SepoliaConfig {
      * @notice Check if specific currency pair rate exists for session
      * @dev Uses FHE.isInitialized() to check if encrypted value has been set
      * @param sessionNumber The session ID to check
-     * @param pair The currency pair to check
+     * @param pairId The currency pair ID to check
      * @return bool True if rate is initialized, false otherwise
      */
-    function hasRateForPair(uint32 sessionNumber, CurrencyPair pair) external view returns (bool) {
-        return FHE.isInitialized(sessionRates[sessionNumber][pair]);
+    function hasRateForPair(uint32 sessionNumber, uint8 pairId) external view returns (bool) {
+        return FHE.isInitialized(sessionRates[sessionNumber][pairId]);
+    }
+
+    /**
+     * @notice Price precision of a currency pair
+     * @dev Rates and target prices are price × 10^decimals, making one unit one pip:
+     *      4 decimals (pip 0.0001) for USD-quoted pairs and USD/CHF, 2 (pip 0.01) for USD/JPY.
+     *      Read by PairSpec in scripts/lib/pairs.ts
+     * @param pairId The currency pair ID, listed or delisted
+     * @return uint8 Number of decimals in the pair's prices
+     */
+    function pairDecimals(uint8 pairId) external view returns (uint8) {
+        require(pairId < pairCount, "Invalid currency pair");
+        return currencyPairs[pairId].decimals;
+    }
+
+    /**
+     * @notice Check if orders may use a currency pair
+     * @param pairId The currency pair ID
+     * @return bool True if the pair exists and is listed
+     */
+    function isPairListed(uint8 pairId) public view returns (bool) {
+        return pairId < pairCount && currencyPairs[pairId].listed;
+    }
+
+    /**
+     * @notice Get every currency pair ever listed, indexed by pair ID
+     * @dev Includes delisted pairs so that IDs line up with array positions
+     * @return pairs Symbol, decimals and listing status of each pair
+     */
+    function getCurrencyPairs() external view returns (CurrencyPair[] memory pairs) {
+        pairs = new CurrencyPair[](pairCount);
+        for (uint8 i = 0; i < pairCount; i++) {
+            pairs[i] = currencyPairs[i];
+        }
+    }
+
+    /**
+     * @notice List a new currency pair, or list a delisted one again
+     * @dev A symbol listed before keeps its pair ID, so historical orders still refer
+     *      to the same pair; its decimals are replaced. Only allowed between sessions,
+     *      since the rates of a session are fixed when it starts.
+     * @param symbol Display name as BASE/QUOTE in upper case, e.g. "EUR/GBP"
+     * @param decimals Number of decimals in the pair's prices (1 to MAX_PAIR_DECIMALS)
+     * @return pairId ID orders use for the pair
+     *
+     * @custom:security Only admins can manage pairs
+     */
+    function listCurrencyPair(
+        string calldata symbol,
+        uint8 decimals
+    ) external onlyRole(ADMIN_ROLE) onlyOutsideSession returns (uint8 pairId) {
+        return _listCurrencyPair(symbol, decimals);
+    }
+
+    /**
+     * @notice Stop quoting a currency pair in new sessions and accepting orders on it
+     * @dev Orders already placed on the pair are still matched against the rate of
+     *      their session
+     * @param pairId ID of a listed pair
+     *
+     * @custom:security Only admins can manage pairs
+     */
+    function delistCurrencyPair(uint8 pairId) external onlyRole(ADMIN_ROLE) onlyOutsideSession {
+        require(isPairListed(pairId), "Pair not listed");
+        currencyPairs[pairId].listed = false;
+
+        emit CurrencyPairDelisted(pairId);
+    }
+
+    /**
+     * @notice Set how much margin orders on a pair reserve, i.e. its leverage
+     * @dev Only allowed between sessions, so every order of a session was checked
+     *      against the same requirement. Delisted pairs keep theirs for relisting.
+     * @param pairId ID of a listed or delisted pair
+     * @param marginBps Margin in basis points of the order amount, from MIN_MARGIN_BPS
+     *                  (100x) to MAX_MARGIN_BPS (1x). Example: 500 is 20x leverage
+     *
+     * @custom:security Only admins can manage pairs
+     */
+    function setPairMargin(uint8 pairId, uint16 marginBps) external onlyRole(ADMIN_ROLE) onlyOutsideSession {
+        require(pairId < pairCount, "Invalid currency pair");
+        require(marginBps >= MIN_MARGIN_BPS && marginBps <= MAX_MARGIN_BPS, "Invalid margin");
+        pairMarginBps[pairId] = marginBps;
+
+        emit PairMarginUpdated(pairId, marginBps);
+    }
+
+    /**
+     * @notice Add a pair to the registry or relist it under its existing ID
+     * @dev Shared by the constructor and listCurrencyPair()
+     */
+    function _listCurrencyPair(string memory symbol, uint8 decimals) private returns (uint8 pairId) {
+        require(_isValidSymbol(symbol), "Invalid pair symbol");
+        require(decimals > 0 && decimals <= MAX_PAIR_DECIMALS, "Invalid pair decimals");
+
+        bytes32 key = keccak256(bytes(symbol));
+        if (pairIdsBySymbol[key] != 0) {
+            pairId = pairIdsBySymbol[key] - 1;
+            require(!currencyPairs[pairId].listed, "Pair already listed");
+        } else {
+            require(pairCount < MAX_CURRENCY_PAIRS, "Too many currency pairs");
+            pairId = pairCount++;
+            pairIdsBySymbol[key] = pairId + 1;
+            pairMarginBps[pairId] = MAX_MARGIN_BPS;
+        }
+
+        currencyPairs[pairId] = CurrencyPair({ symbol: symbol, decimals: decimals, listed: true });
+
+        emit CurrencyPairListed(pairId, symbol, decimals);
+    }
+
+    /**
+     * @notice Check that a symbol has the form BASE/QUOTE with two 3-letter upper case codes
+     */
+    function _isValidSymbol(string memory symbol) private pure returns (bool) {
+        bytes memory raw = bytes(symbol);
+        if (raw.length != 7 || raw[3] != "/") {
+            return false;
+        }
+        for (uint i = 0; i < 7; i++) {
+            if (i != 3 && (raw[i] < "A" || raw[i] > "Z")) {
+                return false;
+            }
+        }
+        return true;
     }
 
     /**
      * @notice Emergency function to end session early
-     * @dev Should only be used in exceptional circumstances
-     * @custom:security Requires owner privileges
+     * @dev Should only be used in exceptional circumstances. The session can no longer
+     *      be executed, so its open orders are cancelled and their margin released.
+     *      Cancelling goes through the execution cursor like executeBatch(): up to
+     *      EMERGENCY_BATCH_SIZE orders here, and executeBatch() cancels the rest. Once
+     *      the last one is cancelled, a new session can start under the same ID.
+     *      Only before its end time: once it has passed, executeBatch() may already
+     *      have filled orders of the session, which must then be executed to the end.
+     * @return completed True if every open order is cancelled
+     * @custom:security Only session operators can end sessions
+     */
+    function emergencyEndSession() external onlyRole(SESSION_OPERATOR_ROLE) returns (bool completed) {
+        TradingSession storage session = tradingSessions[currentSession];
+        require(session.sessionActive && !session.endedEarly, "No active session");
+        require(block.timestamp <= session.endTime, "Session already ended");
+        session.endedEarly = true;
+        session.endTime = block.timestamp;
+
+        return _executeBatch(EMERGENCY_BATCH_SIZE);
+    }
+
+    /**
+     * @notice Suspend registration, deposits, new sessions and order placement and amendment
+     * @dev Cancelling orders, executing ended sessions and withdrawing keep working,
+     *      so traders are never locked in
+     * @custom:security Only pausers can pause
+     */
+    function pause() external onlyRole(PAUSER_ROLE) {
+        require(!paused, "Contract paused");
+        paused = true;
+
+        emit Paused(msg.sender);
+    }
+
+    /**
+     * @notice Resume trading after pause()
+     * @custom:security Only pausers can unpause
      */
-    function emergencyEndSession() external onlyOwner {
-        require(tradingSessions[currentSession].sessionActive, "No active session");
-        tradingSessions[currentSession].sessionActive = false;
-        tradingSessions[currentSession].endTime = block.timestamp;
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        require(paused, "Contract not paused");
+        paused = false;
+
+        emit Unpaused(msg.sender);
     }
 
     /**
-     * @notice Update trader balance (for deposits/withdrawals)
-     * @dev Demonstrates updating encrypted values with proper access control
-     * @param _newBalance The new balance (will be encrypted)
+     * @notice Check if an account holds a role
+     * @param role ADMIN_ROLE, SESSION_OPERATOR_ROLE, RATE_ORACLE_ROLE or PAUSER_ROLE
+     * @param account Account to check
+     * @return bool True if the account holds the role
      */
-    function updateTraderBalance(uint64 _newBalance) external onlyRegisteredTrader {
-        euint64 encryptedNewBalance = FHE.asEuint64(_newBalance);
-        traderProfiles[msg.sender].encryptedBalance = encryptedNewBalance;
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return roleMemberIndexes[role][account] != 0;
+    }
 
-        // Reset access control for the new encrypted value
-        FHE.allowThis(encryptedNewBalance);
-        FHE.allow(encryptedNewBalance, msg.sender);
+    /**
+     * @notice Get every account holding a role
+     * @dev Order changes when members are revoked
+     * @param role The role to list
+     * @return members Accounts holding the role
+     */
+    function getRoleMembers(bytes32 role) external view returns (address[] memory members) {
+        return roleMembers[role];
+    }
+
+    /**
+     * @notice Give an account a role; granting a role the account holds does nothing
+     * @param role ADMIN_ROLE, SESSION_OPERATOR_ROLE, RATE_ORACLE_ROLE or PAUSER_ROLE
+     * @param account Account to grant it to
+     *
+     * @custom:security Only admins can grant roles
+     */
+    function grantRole(bytes32 role, address account) external onlyRole(ADMIN_ROLE) {
+        require(_isRole(role), "Unknown role");
+        require(account != address(0), "Invalid account");
+        _grantRole(role, account);
+    }
+
+    /**
+     * @notice Take a role away from an account; revoking a role it does not hold does nothing
+     * @dev The owner's admin role cannot be revoked, so there is always an admin.
+     *      Admins can revoke their own roles.
+     * @param role The role to revoke
+     * @param account Account to revoke it from
+     *
+     * @custom:security Only admins can revoke roles
+     */
+    function revokeRole(bytes32 role, address account) external onlyRole(ADMIN_ROLE) {
+        require(_isRole(role), "Unknown role");
+        require(role != ADMIN_ROLE || account != owner, "Cannot revoke owner");
+        _revokeRole(role, account);
+    }
+
+    /**
+     * @notice Propose a new owner, who becomes owner once they call acceptOwnership()
+     * @dev Two steps, so ownership cannot be lost to a mistyped address. Proposing
+     *      again replaces the pending owner; the zero address cancels the transfer.
+     * @param newOwner Account that can accept ownership
+     *
+     * @custom:security Only the owner can transfer ownership
+     */
+    function transferOwnership(address newOwner) external onlyOwner {
+        pendingOwner = newOwner;
+
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+
+    /**
+     * @notice Become the owner after the owner proposed you with transferOwnership()
+     * @dev The admin role moves from the previous owner to the new one; any other roles
+     *      of the previous owner are kept until an admin revokes them. Session volumes are
+     *      shared with whoever is owner when the session starts and settles.
+     */
+    function acceptOwnership() external {
+        require(msg.sender == pendingOwner, "Not pending owner");
+        address previousOwner = owner;
+        owner = msg.sender;
+        pendingOwner = address(0);
+
+        _revokeRole(ADMIN_ROLE, previousOwner);
+        _grantRole(ADMIN_ROLE, msg.sender);
+
+        emit OwnershipTransferred(previousOwner, msg.sender);
+    }
+
+    /**
+     * @notice Add an account to a role's members
+     */
+    function _grantRole(bytes32 role, address account) private {
+        if (hasRole(role, account)) {
+            return;
+        }
+        roleMembers[role].push(account);
+        roleMemberIndexes[role][account] = roleMembers[role].length;
+
+        emit RoleGranted(role, account, msg.sender);
+    }
+
+    /**
+     * @notice Remove an account from a role's members by swapping in the last member
+     */
+    function _revokeRole(bytes32 role, address account) private {
+        uint256 index = roleMemberIndexes[role][account];
+        if (index == 0) {
+            return;
+        }
+
+        address[] storage members = roleMembers[role];
+        address last = members[members.length - 1];
+        members[index - 1] = last;
+        roleMemberIndexes[role][last] = index;
+        members.pop();
+        delete roleMemberIndexes[role][account];
+
+        emit RoleRevoked(role, account, msg.sender);
+    }
+
+    /**
+     * @notice Check that a value is one of the four roles
+     */
+    function _isRole(bytes32 role) private pure returns (bool) {
+        return role == ADMIN_ROLE ||
+               role == SESSION_OPERATOR_ROLE ||
+               role == RATE_ORACLE_ROLE ||
+               role == PAUSER_ROLE;
+    }
+
+    /**
+     * @notice Revert unless the caller holds a role
+     * @dev The modifiers call these checks instead of inlining them into every function
+     *      they guard, which keeps the contract under the contract size limit
+     * @param role The required role
+     */
+    function _checkRole(bytes32 role) private view {
+        require(hasRole(role, msg.sender), "Not authorized");
+    }
+
+    /**
+     * @notice Revert if trading is paused
+     */
+    function _checkNotPaused() private view {
+        require(!paused, "Contract paused");
+    }
+
+    /**
+     * @notice Revert unless the caller is a registered trader
+     */
+    function _checkRegisteredTrader() private view {
+        require(traderProfiles[msg.sender].isRegistered, "Trader not registered");
+    }
+
+    /**
+     * @notice Revert unless a session is active, or unless none is
+     * @param active True to require an active session, false to require none
+     */
+    function _checkSession(bool active) private view {
+        if (active) {
+            require(isSessionActive(), "No active trading session");
+        } else {
+            require(!isSessionActive(), "Session currently active");
+        }
     }
 }
@@ -1,7 +1,8 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, inEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /**
  * @title UserDecryption
@@ -15,7 +16,7 @@ import { FHE, euint32, inEuint32 } from "@fhevm/solidity/lib/FHE.sol";
  * @custom:category user-decryption
  * @custom:concept Client-side decryption, privacy preservation
  */
-contract UserDecryption {
+contract UserDecryption is SepoliaConfig {
     /// @notice User's private encrypted value
     mapping(address => euint32) private userSecrets;
 
@@ -36,14 +37,15 @@ contract UserDecryption {
      * @notice Store a secret value
      * @dev Only the user can decrypt this value
      * @param encryptedSecret The secret to store
+     * @param inputProof Proof for the encrypted secret
      *
      * Privacy guarantee:
      * - Value is encrypted on-chain
      * - Only user with proper permissions can decrypt
      * - Even contract owner cannot see plaintext
      */
-    function storeSecret(inEuint32 calldata encryptedSecret) external {
-        euint32 secret = FHE.asEuint32(encryptedSecret);
+    function storeSecret(externalEuint32 encryptedSecret, bytes calldata inputProof) external {
+        euint32 secret = FHE.fromExternal(encryptedSecret, inputProof);
 
         userSecrets[msg.sender] = secret;
 
@@ -84,11 +86,12 @@ contract UserDecryption {
      * @notice Set a shared value (owner only)
      * @dev Demonstrates value that multiple users can decrypt
      * @param encryptedValue The value to share
+     * @param inputProof Proof for the encrypted value
      */
-    function setSharedValue(inEuint32 calldata encryptedValue) external {
+    function setSharedValue(externalEuint32 encryptedValue, bytes calldata inputProof) external {
         require(msg.sender == owner, "Only owner");
 
-        euint32 value = FHE.asEuint32(encryptedValue);
+        euint32 value = FHE.fromExternal(encryptedValue, inputProof);
         sharedValue = value;
 
         FHE.allowThis(value);
@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockStablecoin
+ * @notice Freely mintable USD stablecoin used as trading collateral on local and test networks
+ * @dev Has 0 decimals: one token unit is one USD of trader balance, which keeps
+ *      deposits and withdrawals in the same integer units as the encrypted balances.
+ *      Anyone can mint, so it must never back real value.
+ *
+ * @custom:category testing
+ */
+contract MockStablecoin is ERC20 {
+    constructor() ERC20("Mock USD", "mUSD") {}
+
+    /**
+     * @notice Whole USD, matching PrivateForexTrading balances
+     */
+    function decimals() public pure override returns (uint8) {
+        return 0;
+    }
+
+    /**
+     * @notice Mint tokens to any address (faucet)
+     * @param to Receiver of the tokens
+     * @param amount Amount in USD
+     */
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
@@ -0,0 +1,27 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { recordDeployResult } from "../scripts/lib/registry";
+
+/**
+ * @title MockStablecoin Deployment
+ * @notice Deploys the mintable collateral token PrivateForexTrading takes deposits in
+ * @dev Skipped when COLLATERAL_TOKEN names an existing ERC-20 to use instead
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const deployed = await deploy("MockStablecoin", {
+    from: deployer,
+    log: true,
+  });
+
+  if (deployed.newlyDeployed) {
+    recordDeployResult(hre, "MockStablecoin", deployed, deployer);
+  }
+};
+
+export default func;
+func.id = "deploy_mock_stablecoin";
+func.tags = ["MockStablecoin", "trading"];
+func.skip = async () => Boolean(process.env.COLLATERAL_TOKEN);
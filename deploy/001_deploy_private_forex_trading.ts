@@ -0,0 +1,44 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { recordDeployResult } from "../scripts/lib/registry";
+
+/**
+ * @title PrivateForexTrading Deployment
+ * @notice Deploys the main trading contract with the `deployer` named account
+ * @dev Idempotent: hardhat-deploy skips the deployment when the stored bytecode
+ *      matches the compiled artifact, so rerunning `npm run deploy` is safe.
+ *      The PositionBook library is deployed first and linked into the contract.
+ *      Collateral is the ERC-20 at COLLATERAL_TOKEN, else the MockStablecoin from
+ *      the previous step.
+ *      New deployments of both are also recorded in `deployments/<network>.json`.
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, get } = hre.deployments;
+  const collateral = process.env.COLLATERAL_TOKEN ?? (await get("MockStablecoin")).address;
+
+  const positionBook = await deploy("PositionBook", {
+    from: deployer,
+    log: true,
+  });
+
+  if (positionBook.newlyDeployed) {
+    recordDeployResult(hre, "PositionBook", positionBook, deployer);
+  }
+
+  const deployed = await deploy("PrivateForexTrading", {
+    from: deployer,
+    args: [collateral],
+    libraries: { PositionBook: positionBook.address },
+    log: true,
+  });
+
+  if (deployed.newlyDeployed) {
+    recordDeployResult(hre, "PrivateForexTrading", deployed, deployer);
+  }
+};
+
+export default func;
+func.id = "deploy_private_forex_trading";
+func.tags = ["PrivateForexTrading", "trading"];
+func.dependencies = ["MockStablecoin"];
@@ -0,0 +1,26 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { recordDeployResult } from "../scripts/lib/registry";
+
+/**
+ * @title EncryptSingleValue Deployment
+ * @notice Deploys the EncryptSingleValue example contract
+ * @dev No constructor arguments and no setup: each user stores their own value
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const deployed = await deploy("EncryptSingleValue", {
+    from: deployer,
+    log: true,
+  });
+
+  if (deployed.newlyDeployed) {
+    recordDeployResult(hre, "EncryptSingleValue", deployed, deployer);
+  }
+};
+
+export default func;
+func.id = "deploy_encrypt_single_value";
+func.tags = ["EncryptSingleValue", "examples"];
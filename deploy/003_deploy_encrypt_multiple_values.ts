@@ -0,0 +1,26 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { recordDeployResult } from "../scripts/lib/registry";
+
+/**
+ * @title EncryptMultipleValues Deployment
+ * @notice Deploys the EncryptMultipleValues example contract
+ * @dev Part of the `examples` tag: `npx hardhat deploy --tags examples`
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const deployed = await deploy("EncryptMultipleValues", {
+    from: deployer,
+    log: true,
+  });
+
+  if (deployed.newlyDeployed) {
+    recordDeployResult(hre, "EncryptMultipleValues", deployed, deployer);
+  }
+};
+
+export default func;
+func.id = "deploy_encrypt_multiple_values";
+func.tags = ["EncryptMultipleValues", "examples"];
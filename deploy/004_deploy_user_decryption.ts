@@ -0,0 +1,26 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { recordDeployResult } from "../scripts/lib/registry";
+
+/**
+ * @title UserDecryption Deployment
+ * @notice Deploys the UserDecryption example contract
+ * @dev The deployer becomes `owner`, the only account allowed to set and share the shared value
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const deployed = await deploy("UserDecryption", {
+    from: deployer,
+    log: true,
+  });
+
+  if (deployed.newlyDeployed) {
+    recordDeployResult(hre, "UserDecryption", deployed, deployer);
+  }
+};
+
+export default func;
+func.id = "deploy_user_decryption";
+func.tags = ["UserDecryption", "examples"];
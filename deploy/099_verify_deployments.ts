@@ -0,0 +1,88 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ForexTradingClient } from "../scripts/lib/client";
+
+/**
+ * Networks where source verification on a block explorer makes no sense
+ */
+const LOCAL_NETWORKS = ["hardhat", "localhost"];
+
+/**
+ * @title Post-Deploy Verification
+ * @notice Sanity-checks deployed contracts and verifies their source on public networks
+ * @dev Runs after every deployment step it depends on:
+ *      1. Each deployed address has code
+ *      2. PrivateForexTrading is owned by the `owner` named account, which holds the admin
+ *         role; set it per network in hardhat.config.ts once ownership has been transferred
+ *      3. UserDecryption, whose owner is fixed at deployment, is owned by the account that deployed it
+ *      4. Source verification via hardhat-verify when ETHERSCAN_API_KEY is set
+ *
+ * @custom:usage npx hardhat deploy --network sepolia --tags verify
+ */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer, owner: expectedOwner } = await hre.getNamedAccounts();
+  const { all, log } = hre.deployments;
+  const deployments = await all();
+
+  log("\n🔍 Verifying deployments...");
+
+  for (const [name, deployment] of Object.entries(deployments)) {
+    const code = await hre.ethers.provider.getCode(deployment.address);
+    if (code === "0x") {
+      throw new Error(`${name} has no code at ${deployment.address}`);
+    }
+    log(`   ✓ ${name} at ${deployment.address}`);
+  }
+
+  if (deployments.PrivateForexTrading) {
+    const signer = await hre.ethers.getSigner(deployer);
+    const client = ForexTradingClient.connect(deployments.PrivateForexTrading.address, signer);
+    const owner = await client.owner();
+
+    if (owner.toLowerCase() !== expectedOwner.toLowerCase()) {
+      throw new Error(`PrivateForexTrading owner is ${owner}, expected ${expectedOwner} (namedAccounts.owner)`);
+    }
+    if (!(await client.hasRole("admin", owner))) {
+      throw new Error(`PrivateForexTrading owner ${owner} does not hold the admin role`);
+    }
+    log(`   ✓ PrivateForexTrading owner ${owner}, session ${await client.currentSession()}`);
+
+    const pendingOwner = await client.pendingOwner();
+    if (pendingOwner) {
+      log(`   ℹ️  Ownership transfer to ${pendingOwner} pending until they accept it`);
+    }
+  }
+
+  if (deployments.UserDecryption) {
+    const userDecryption = await hre.ethers.getContractAt("UserDecryption", deployments.UserDecryption.address);
+    const owner: string = await userDecryption.owner();
+    const deployedBy = deployments.UserDecryption.receipt?.from ?? deployer;
+
+    if (owner.toLowerCase() !== deployedBy.toLowerCase()) {
+      throw new Error(`UserDecryption owner is ${owner}, expected its deployer ${deployedBy}`);
+    }
+    log(`   ✓ UserDecryption owner ${owner}`);
+  }
+
+  if (LOCAL_NETWORKS.includes(hre.network.name) || !process.env.ETHERSCAN_API_KEY) {
+    log("   ℹ️  Skipping source verification (local network or no ETHERSCAN_API_KEY)");
+    return;
+  }
+
+  for (const [name, deployment] of Object.entries(deployments)) {
+    try {
+      await hre.run("verify:verify", { address: deployment.address, constructorArguments: deployment.args ?? [] });
+      log(`   ✓ ${name} source verified`);
+    } catch (error: any) {
+      if (!/already verified/i.test(error.message)) {
+        throw error;
+      }
+      log(`   ✓ ${name} already verified`);
+    }
+  }
+};
+
+export default func;
+func.id = "verify_deployments";
+func.tags = ["verify"];
+func.dependencies = ["PrivateForexTrading", "examples"];
@@ -0,0 +1,98 @@
+// Generated by tools/export-frontend-abi.ts from the PrivateForexTrading artifact: run "npm run frontend:abi", do not edit
+const CONTRACT_ABI = [
+  {"inputs":[{"internalType":"address","name":"_collateralToken","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[],"name":"HandlesAlreadySavedForRequestID","type":"error"},
+  {"inputs":[],"name":"InvalidKMSSignatures","type":"error"},
+  {"inputs":[],"name":"NoHandleFoundForRequestID","type":"error"},
+  {"inputs":[{"internalType":"address","name":"token","type":"address"}],"name":"SafeERC20FailedOperation","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint32","name":"session","type":"uint32"},{"indexed":false,"internalType":"uint256","name":"settledOrders","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"remainingTraders","type":"uint256"}],"name":"BatchExecuted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint8","name":"pairId","type":"uint8"}],"name":"CurrencyPairDelisted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint8","name":"pairId","type":"uint8"},{"indexed":false,"internalType":"string","name":"symbol","type":"string"},{"indexed":false,"internalType":"uint8","name":"decimals","type":"uint8"}],"name":"CurrencyPairListed","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"requestID","type":"uint256"}],"name":"DecryptionFulfilled","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"trader","type":"address"},{"indexed":false,"internalType":"uint64","name":"amount","type":"uint64"}],"name":"Deposited","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"trader","type":"address"},{"indexed":true,"internalType":"uint32","name":"session","type":"uint32"},{"indexed":false,"internalType":"uint256","name":"orderIndex","type":"uint256"}],"name":"OrderAmended","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"trader","type":"address"},{"indexed":true,"internalType":"uint32","name":"session","type":"uint32"},{"indexed":false,"internalType":"uint256","name":"orderIndex","type":"uint256"}],"name":"OrderCancelled","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"trader","type":"address"},{"indexed":true,"internalType":"uint32","name":"session","type":"uint32"},{"indexed":false,"internalType":"uint256","name":"orderIndex","type":"uint256"}],"name":"OrderExecuted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferStarted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferred","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint8","name":"pairId","type":"uint8"},{"indexed":false,"internalType":"uint16","name":"marginBps","type":"uint16"}],"name":"PairMarginUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Paused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"trader","type":"address"},{"indexed":true,"internalType":"uint8","name":"pairId","type":"uint8"},{"indexed":false,"internalType":"uint32","name":"markRate","type":"uint32"}],"name":"PositionMarked","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint32","name":"session","type":"uint32"}],"name":"PricesUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"trader","type":"address"},{"indexed":true,"internalType":"uint32","name":"session","type":"uint32"},{"indexed":false,"internalType":"uint256","name":"orderIndex","type":"uint256"}],"name":"PrivateOrderPlaced","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleGranted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"role","type":"bytes32"},{"indexed":true,"internalType":"address","name":"account","type":"address"},{"indexed":true,"internalType":"address","name":"sender","type":"address"}],"name":"RoleRevoked","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint32","name":"session","type":"uint32"},{"indexed":false,"internalType":"uint256","name":"cancelledOrders","type":"uint256"}],"name":"SessionCancelled","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint32","name":"session","type":"uint32"},{"indexed":false,"internalType":"uint256","name":"settledOrders","type":"uint256"}],"name":"SessionExecuted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint32","name":"session","type":"uint32"},{"indexed":false,"internalType":"uint256","name":"startTime","type":"uint256"}],"name":"SessionStarted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"trader","type":"address"}],"name":"TraderRegistered","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Unpaused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"trader","type":"address"},{"indexed":true,"internalType":"uint256","name":"requestId","type":"uint256"},{"indexed":false,"internalType":"uint64","name":"amount","type":"uint64"},{"indexed":false,"internalType":"bool","name":"approved","type":"bool"}],"name":"WithdrawalProcessed","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"trader","type":"address"},{"indexed":true,"internalType":"uint256","name":"requestId","type":"uint256"},{"indexed":false,"internalType":"uint64","name":"amount","type":"uint64"}],"name":"WithdrawalRequested","type":"event"},
+  {"inputs":[],"name":"ADMIN_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MAX_CURRENCY_PAIRS","outputs":[{"internalType":"uint8","name":"","type":"uint8"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MAX_MARGIN_BPS","outputs":[{"internalType":"uint16","name":"","type":"uint16"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MAX_PAIR_DECIMALS","outputs":[{"internalType":"uint8","name":"","type":"uint8"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"MIN_MARGIN_BPS","outputs":[{"internalType":"uint16","name":"","type":"uint16"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"PAUSER_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"RATE_ORACLE_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"SESSION_OPERATOR_ROLE","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"acceptOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"orderIndex","type":"uint256"},{"internalType":"externalEuint64","name":"encryptedAmount","type":"bytes32"},{"internalType":"externalEuint32","name":"encryptedTargetPrice","type":"bytes32"},{"internalType":"bytes","name":"inputProof","type":"bytes"}],"name":"amendOrder","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"orderIndex","type":"uint256"}],"name":"cancelOrder","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"collateralToken","outputs":[{"internalType":"contract IERC20","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"currentSession","outputs":[{"internalType":"uint32","name":"","type":"uint32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint8","name":"pairId","type":"uint8"}],"name":"delistCurrencyPair","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint64","name":"amount","type":"uint64"}],"name":"deposit","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"emergencyEndSession","outputs":[{"internalType":"bool","name":"completed","type":"bool"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"maxOrders","type":"uint256"}],"name":"executeBatch","outputs":[{"internalType":"bool","name":"completed","type":"bool"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"executePrivateOrders","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint32","name":"","type":"uint32"}],"name":"executionCursors","outputs":[{"internalType":"uint256","name":"traderIndex","type":"uint256"},{"internalType":"uint256","name":"orderIndex","type":"uint256"},{"internalType":"uint256","name":"settledOrders","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getCurrencyPairs","outputs":[{"components":[{"internalType":"string","name":"symbol","type":"string"},{"internalType":"uint8","name":"decimals","type":"uint8"},{"internalType":"bool","name":"listed","type":"bool"}],"internalType":"struct PrivateForexTrading.CurrencyPair[]","name":"pairs","type":"tuple[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getCurrentSessionInfo","outputs":[{"internalType":"uint32","name":"session","type":"uint32"},{"internalType":"bool","name":"pricesSet","type":"bool"},{"internalType":"bool","name":"sessionActive","type":"bool"},{"internalType":"uint256","name":"startTime","type":"uint256"},{"internalType":"uint256","name":"endTime","type":"uint256"},{"internalType":"uint256","name":"activeTraderCount","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getMyEncryptedBalance","outputs":[{"internalType":"euint64","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getMyEncryptedLockedMargin","outputs":[{"internalType":"euint64","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getMyEncryptedReservedMargin","outputs":[{"internalType":"euint64","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"getMyEncryptedTotalTrades","outputs":[{"internalType":"euint32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"}],"name":"getRoleMembers","outputs":[{"internalType":"address[]","name":"members","type":"address[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint32","name":"sessionNumber","type":"uint32"}],"name":"getSessionHistory","outputs":[{"internalType":"bool","name":"sessionActive","type":"bool"},{"internalType":"bool","name":"pricesSet","type":"bool"},{"internalType":"uint256","name":"startTime","type":"uint256"},{"internalType":"uint256","name":"endTime","type":"uint256"},{"internalType":"uint256","name":"traderCount","type":"uint256"},{"internalType":"euint64","name":"totalVolume","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint32","name":"sessionNumber","type":"uint32"},{"internalType":"address","name":"trader","type":"address"}],"name":"getSessionOrderCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"trader","type":"address"}],"name":"getTraderOrderCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"trader","type":"address"}],"name":"getTraderProfile","outputs":[{"internalType":"bool","name":"isRegistered","type":"bool"},{"internalType":"uint256","name":"lastActivity","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"grantRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint32","name":"sessionNumber","type":"uint32"},{"internalType":"uint8","name":"pairId","type":"uint8"}],"name":"hasRateForPair","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"hasRole","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint8","name":"pairId","type":"uint8"}],"name":"isPairListed","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"isSessionActive","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"lastSessionTime","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"string","name":"symbol","type":"string"},{"internalType":"uint8","name":"decimals","type":"uint8"}],"name":"listCurrencyPair","outputs":[{"internalType":"uint8","name":"pairId","type":"uint8"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"trader","type":"address"},{"internalType":"uint8","name":"pairId","type":"uint8"}],"name":"markPosition","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"owner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"pairCount","outputs":[{"internalType":"uint8","name":"","type":"uint8"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint8","name":"pairId","type":"uint8"}],"name":"pairDecimals","outputs":[{"internalType":"uint8","name":"","type":"uint8"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint8","name":"","type":"uint8"}],"name":"pairMarginBps","outputs":[{"internalType":"uint16","name":"","type":"uint16"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"pause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"paused","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"pendingOwner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"pendingWithdrawals","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint64","name":"_amount","type":"uint64"},{"internalType":"uint32","name":"_targetPrice","type":"uint32"},{"internalType":"uint8","name":"_currencyPairId","type":"uint8"},{"internalType":"enum PrivateForexTrading.OrderSide","name":"_side","type":"uint8"},{"internalType":"enum PrivateForexTrading.OrderType","name":"_orderType","type":"uint8"}],"name":"placePrivateOrder","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"externalEuint64","name":"encryptedAmount","type":"bytes32"},{"internalType":"externalEuint32","name":"encryptedTargetPrice","type":"bytes32"},{"internalType":"externalEuint8","name":"encryptedCurrencyPairId","type":"bytes32"},{"internalType":"externalEbool","name":"encryptedIsSell","type":"bytes32"},{"internalType":"externalEuint8","name":"encryptedOrderType","type":"bytes32"},{"internalType":"bytes","name":"inputProof","type":"bytes"}],"name":"placePrivateOrder","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"uint8","name":"","type":"uint8"}],"name":"positions","outputs":[{"internalType":"euint64","name":"encryptedLong","type":"bytes32"},{"internalType":"euint64","name":"encryptedShort","type":"bytes32"},{"internalType":"euint64","name":"encryptedRealizedProfit","type":"bytes32"},{"internalType":"euint64","name":"encryptedRealizedLoss","type":"bytes32"},{"internalType":"euint64","name":"encryptedMargin","type":"bytes32"},{"internalType":"uint32","name":"markRate","type":"uint32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint32","name":"","type":"uint32"},{"internalType":"address","name":"","type":"address"},{"internalType":"uint256","name":"","type":"uint256"}],"name":"privateOrders","outputs":[{"internalType":"euint64","name":"encryptedAmount","type":"bytes32"},{"internalType":"euint32","name":"encryptedPrice","type":"bytes32"},{"internalType":"euint8","name":"encryptedPairId","type":"bytes32"},{"internalType":"ebool","name":"encryptedIsSell","type":"bytes32"},{"internalType":"euint8","name":"encryptedOrderType","type":"bytes32"},{"internalType":"ebool","name":"encryptedFilled","type":"bytes32"},{"internalType":"euint64","name":"encryptedMargin","type":"bytes32"},{"internalType":"bool","name":"isExecuted","type":"bool"},{"internalType":"bool","name":"isCancelled","type":"bool"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"address","name":"trader","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"protocolId","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"pure","type":"function"},
+  {"inputs":[],"name":"registerTrader","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint64","name":"amount","type":"uint64"}],"name":"requestWithdrawal","outputs":[{"internalType":"uint256","name":"requestId","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"role","type":"bytes32"},{"internalType":"address","name":"account","type":"address"}],"name":"revokeRole","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint32","name":"","type":"uint32"},{"internalType":"uint8","name":"","type":"uint8"}],"name":"sessionQuotes","outputs":[{"internalType":"uint32","name":"","type":"uint32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint32","name":"","type":"uint32"},{"internalType":"uint8","name":"","type":"uint8"}],"name":"sessionRates","outputs":[{"internalType":"euint32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint8","name":"pairId","type":"uint8"},{"internalType":"uint16","name":"marginBps","type":"uint16"}],"name":"setPairMargin","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"requestId","type":"uint256"},{"internalType":"bytes","name":"cleartexts","type":"bytes"},{"internalType":"bytes","name":"decryptionProof","type":"bytes"}],"name":"settleWithdrawal","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint32[]","name":"_forexRates","type":"uint32[]"}],"name":"startTradingSession","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"traderProfiles","outputs":[{"internalType":"euint64","name":"encryptedBalance","type":"bytes32"},{"internalType":"euint32","name":"totalTrades","type":"bytes32"},{"internalType":"euint64","name":"encryptedReservedMargin","type":"bytes32"},{"internalType":"bool","name":"isRegistered","type":"bool"},{"internalType":"uint256","name":"lastActivity","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint32","name":"","type":"uint32"}],"name":"tradingSessions","outputs":[{"internalType":"bool","name":"pricesSet","type":"bool"},{"internalType":"bool","name":"sessionActive","type":"bool"},{"internalType":"bool","name":"endedEarly","type":"bool"},{"internalType":"uint256","name":"startTime","type":"uint256"},{"internalType":"uint256","name":"endTime","type":"uint256"},{"internalType":"euint64","name":"totalVolume","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"newOwner","type":"address"}],"name":"transferOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"unpause","outputs":[],"stateMutability":"nonpayable","type":"function"}
+];
+
+// Orders per executeBatch() transaction, shared with the CLI and the keeper (scripts/lib/client.ts)
+const EXECUTION_BATCH_SIZE = 2;
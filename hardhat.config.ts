@@ -2,6 +2,7 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-chai-matchers";
 import "hardhat-deploy";
+import "@fhevm/hardhat-plugin";
 import * as dotenv from "dotenv";
 
 dotenv.config();
@@ -42,10 +43,14 @@ const config: HardhatUserConfig = {
   },
   paths: {
     sources: "./contracts",
+    deploy: "./deploy",
     tests: "./test",
     cache: "./cache",
     artifacts: "./artifacts",
   },
+  etherscan: {
+    apiKey: process.env.ETHERSCAN_API_KEY || "",
+  },
   typechain: {
     outDir: "typechain-types",
     target: "ethers-v6",
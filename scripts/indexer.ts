@@ -0,0 +1,115 @@
+import { OptionSpec, UsageError, formatOptions, parseOptions, splitArgs, toJson } from "./lib/cli";
+import { createHistoryServer } from "./lib/history-server";
+import { ForexIndexer, SyncResult, indexPath } from "./lib/indexer";
+import { getDeployment } from "./lib/registry";
+
+/**
+ * @title Event Indexer
+ * @notice Indexes PrivateForexTrading events of a network into data/index/<network>.json
+ * @dev Backfills from the deployment block, then optionally keeps tailing the chain
+ *      and serves the trade history over HTTP for the frontend. The interact CLI
+ *      reads the same file for `history` and `orders`.
+ *
+ * Usage: npx ts-node scripts/indexer.ts [options] --network <network-name>
+ *
+ * Examples:
+ *   npm run indexer -- --network sepolia
+ *   npm run indexer -- --network localhost --follow
+ *   npm run indexer -- --network sepolia --serve 8787
+ */
+
+const OPTIONS = {
+  network: { type: "string", description: "Hardhat network to index" },
+  address: { type: "address", description: "Contract address (defaults to the deployment registry)" },
+  "from-block": { type: "integer", description: "First block to index (defaults to the deployment block)" },
+  confirmations: { type: "integer", description: "Blocks to stay behind head", default: "0" },
+  "batch-size": { type: "integer", description: "Blocks per eth_getLogs request", default: "2000" },
+  follow: { type: "boolean", description: "Keep tailing new blocks after the backfill" },
+  interval: { type: "integer", description: "Polling interval in ms when following", default: "4000" },
+  serve: { type: "integer", description: "Serve the trade history on this port (implies --follow)" },
+  json: { type: "boolean", description: "Print sync results as JSON" },
+  help: { type: "boolean", description: "Show help" },
+} satisfies Record<string, OptionSpec>;
+
+function printHelp(): void {
+  console.log("🗃️  PrivateForexTrading Event Indexer\n");
+  console.log("Usage: npx ts-node scripts/indexer.ts [options]\n");
+  formatOptions(OPTIONS).forEach((line) => console.log(line));
+}
+
+function renderSync(result: SyncResult, json: boolean): void {
+  if (json) {
+    console.log(toJson(result));
+    return;
+  }
+
+  if (result.reorgedTo !== undefined) {
+    console.log(`🔀 Reorg detected, rolled back to block ${result.reorgedTo}`);
+  }
+  console.log(`✅ Indexed blocks ${result.fromBlock}-${result.toBlock}: ${result.newEvents} new events`);
+}
+
+async function main() {
+  const { command, options: raw } = splitArgs(process.argv.slice(2));
+  if (command !== undefined) {
+    throw new UsageError(`Unexpected argument: ${command}`);
+  }
+
+  const options = parseOptions(raw, OPTIONS);
+  if (options.help) {
+    printHelp();
+    return;
+  }
+
+  if (options.network) {
+    process.env.HARDHAT_NETWORK = options.network;
+  }
+  const { ethers, network } = await import("hardhat");
+
+  const deployment = getDeployment(network.name, "PrivateForexTrading");
+  const contract = options.address ?? process.env.CONTRACT_ADDRESS ?? deployment?.address;
+  if (!contract) {
+    throw new UsageError(`No PrivateForexTrading deployment recorded for "${network.name}". Pass --address`);
+  }
+
+  const sameDeployment = deployment?.address.toLowerCase() === contract.toLowerCase();
+  const fromBlock = options["from-block"] ?? (sameDeployment ? deployment.blockNumber : 0);
+  const { chainId } = await ethers.provider.getNetwork();
+
+  const indexer = new ForexIndexer(ethers.provider, {
+    network: network.name,
+    chainId: Number(chainId),
+    contract,
+    fromBlock,
+    confirmations: options.confirmations,
+    batchSize: options["batch-size"],
+  });
+
+  console.log(`🗃️  Indexing ${contract} on ${network.name} into ${indexPath(network.name)}`);
+  renderSync(await indexer.sync(), options.json);
+
+  if (!options.follow && options.serve === undefined) {
+    return;
+  }
+
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+  process.once("SIGTERM", () => controller.abort());
+
+  if (options.serve !== undefined) {
+    const server = createHistoryServer(() => indexer.history());
+    server.listen(options.serve, () => console.log(`🌐 Trade history API on http://localhost:${options.serve}`));
+    controller.signal.addEventListener("abort", () => server.close());
+  }
+
+  console.log(`👀 Following new blocks every ${options.interval}ms (Ctrl+C to stop)`);
+  await indexer.follow(options.interval, controller.signal, (result) => renderSync(result, options.json));
+  console.log("👋 Indexer stopped");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  });
@@ -1,258 +1,1235 @@
-import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MockStablecoin__factory, PrivateForexTrading__factory } from "../typechain-types";
+import {
+  OptionSpec,
+  ParsedOptions,
+  RawArgs,
+  UsageError,
+  formatDuration,
+  formatOptions,
+  formatTimestamp,
+  parseOptions,
+  splitArgs,
+  toJson,
+} from "./lib/cli";
+import { EXECUTION_BATCH_SIZE, ForexTradingClient, MyOrder, SessionInfo, TransactionResult } from "./lib/client";
+import { FhevmMockDecryptor, RelayerDecryptor, UserDecryptor } from "./lib/decryption";
+import { InputEncryptor, createRelayerEncryptor } from "./lib/encryption";
+import { decodeError } from "./lib/errors";
+import { IndexedSession, TradeHistory, indexPath, loadIndex } from "./lib/indexer";
+import { leverageToMarginBps, marginBpsToLeverage, previewMargin } from "./lib/margin";
+import { OrderSide, OrderType, describeOrder, parseOrderSide, parseOrderType } from "./lib/order-types";
+import { PairSpec, formatPrice, isPairSymbol, listedPairs, parsePrice } from "./lib/pairs";
+import { buildPortfolio, formatPnl } from "./lib/portfolio";
+import { rateProviderFromOptions } from "./lib/rates";
+import { abiHash, getDeployment, registryPath } from "./lib/registry";
+import { ROLE_DESCRIPTIONS, parseRole } from "./lib/roles";
+import { buildSettlementReport } from "./lib/settlement";
 
 /**
- * @title Contract Interaction Script
- * @notice Helper script to interact with deployed PrivateForexTrading contract
- * @dev Demonstrates how to call contract functions programmatically
+ * @title Contract Interaction CLI
+ * @notice Operator and trader CLI for a deployed PrivateForexTrading contract
+ * @dev Each subcommand maps to one contract interaction. Run through ts-node so
+ *      the arguments reach the script (`hardhat run` does not forward them):
  *
- * Usage: npx hardhat run scripts/interact.ts --network <network-name>
+ * Usage: npx ts-node scripts/interact.ts <command> [options] --network <network-name>
+ *
+ * Examples:
+ *   npm run interact -- status --network localhost
+ *   npm run interact -- faucet --amount 10000 --signer 1
+ *   npm run interact -- register --deposit 10000 --signer 1
+ *   npm run interact -- deposit --amount 5000 --signer 1
+ *   npm run interact -- withdraw --amount 2000 --signer 1
+ *   npm run interact -- start-session --rates 1.1000,1.2500,150.00,0.6500,0.9200
+ *   npm run interact -- start-session --feed rates.json
+ *   npm run interact -- place-order --side buy --amount 1000 --price 1.1000 --pair EUR/USD --signer 1 --json
+ *   npm run interact -- place-order --side sell --type stop --amount 1000 --price 149.50 --pair USD/JPY --signer 1 --plaintext
+ *   npm run interact -- place-order --side buy --type market --amount 500 --pair GBP/USD --signer 1
+ *   npm run interact -- my-orders --signer 1
+ *   npm run interact -- amend-order --order 0 --price 1.0950 --signer 1
+ *   npm run interact -- cancel-order --order 0 --signer 1
+ *   npm run interact -- stats --signer 1
+ *   npm run interact -- pairs
+ *   npm run interact -- list-pair --symbol EUR/GBP --decimals 4
+ *   npm run interact -- delist-pair --pair EUR/GBP
+ *   npm run interact -- settlement --session 1 --signer 1
+ *   npm run interact -- portfolio --signer 1
+ *   npm run interact -- execute --batch-size 2
+ *   npm run interact -- execution --session 3
  */
 
-async function main() {
-  console.log("🔧 PrivateForexTrading Interaction Script\n");
+/**
+ * Options accepted by every command
+ */
+const GLOBAL_OPTIONS = {
+  network: { type: "string", description: "Hardhat network to connect to" },
+  address: { type: "address", description: "Contract address (defaults to the deployment registry)" },
+  signer: { type: "string", description: "Signer account index or address", default: "0" },
+  json: { type: "boolean", description: "Print machine-readable JSON output" },
+  help: { type: "boolean", description: "Show help" },
+} satisfies Record<string, OptionSpec>;
 
-  // Get contract address from command line or environment
-  const contractAddress = process.env.CONTRACT_ADDRESS;
+/**
+ * Everything a command needs to talk to the contract
+ */
+interface CommandContext {
+  client: ForexTradingClient;
+  signer: HardhatEthersSigner;
+  network: string;
+  /**
+   * Block the contract was deployed in, where event queries start (0 if unknown)
+   */
+  deploymentBlock: number;
+  /**
+   * User decryption backend for the network, created on first use
+   */
+  decryptor(): Promise<UserDecryptor>;
+  /**
+   * Input encryption backend for the network, created on first use
+   */
+  encryptor(): Promise<InputEncryptor>;
+  /**
+   * Answer pending decryption requests on the FHEVM mock; a no-op on live networks,
+   * where the decryption oracle answers on its own
+   */
+  awaitDecryptionOracle(): Promise<void>;
+}
 
-  if (!contractAddress) {
-    console.error("❌ Error: CONTRACT_ADDRESS not set in environment");
-    console.log("Set it in .env file or export CONTRACT_ADDRESS=0x...");
-    process.exit(1);
-  }
+/**
+ * Typed command declaration
+ */
+interface CommandSpec<O extends Record<string, OptionSpec>, R> {
+  description: string;
+  options: O;
+  run(ctx: CommandContext, options: ParsedOptions<O>): Promise<R>;
+  render(result: R): void;
+}
+
+/**
+ * Type-erased command as stored in the command table
+ */
+interface Command {
+  description: string;
+  options: Record<string, OptionSpec>;
+  execute(raw: RawArgs["options"], connect: () => Promise<CommandContext>, json: boolean): Promise<void>;
+}
+
+/**
+ * @notice Bind a typed command declaration into the command table
+ * @dev Options are validated before connecting so usage errors fail fast
+ */
+function defineCommand<O extends Record<string, OptionSpec>, R>(spec: CommandSpec<O, R>): Command {
+  return {
+    description: spec.description,
+    options: spec.options,
+    async execute(raw, connect, json) {
+      const options = parseOptions(raw, spec.options, Object.keys(GLOBAL_OPTIONS));
+      const ctx = await connect();
+      const result = await spec.run(ctx, options);
+
+      if (json) {
+        console.log(toJson(result));
+      } else {
+        spec.render(result);
+      }
+    },
+  };
+}
 
-  console.log("📍 Contract address:", contractAddress);
+/**
+ * @notice Keep only the serializable parts of a transaction result
+ */
+function txSummary({ txHash, blockNumber }: TransactionResult) {
+  return { txHash, blockNumber };
+}
 
-  // Get signers
-  const [owner, trader1, trader2] = await ethers.getSigners();
-  console.log("👤 Owner address:", owner.address);
-  console.log("👤 Trader1 address:", trader1.address);
-  console.log("👤 Trader2 address:", trader2.address, "\n");
+/**
+ * @notice Print a transaction summary line
+ */
+function renderTx(result: { txHash: string; blockNumber: number }): void {
+  console.log(`   Transaction: ${result.txHash} (block ${result.blockNumber})`);
+}
 
-  // Get contract instance
-  const contract = await ethers.getContractAt("PrivateForexTrading", contractAddress);
+/**
+ * @notice Print a currency pair registry entry
+ */
+function renderPair(spec: PairSpec): void {
+  const status = spec.listed ? "listed" : "delisted";
+  console.log(`   #${spec.pair} ${spec.name} [${status}] ${spec.decimals} decimals, pip ${spec.pipSize}`);
+}
 
-  // Menu of actions
-  console.log("📋 Available Actions:");
-  console.log("1. Check contract status");
-  console.log("2. Register traders");
-  console.log("3. Start trading session");
-  console.log("4. Place orders");
-  console.log("5. Execute orders");
-  console.log("6. View session info");
+/**
+ * @notice Status column of a decrypted order
+ */
+function orderStatus(order: MyOrder): string {
+  if (order.isCancelled) return "🚫 cancelled";
+  if (!order.isExecuted) return "⏳ open     ";
+  return order.filled ? "✅ filled   " : "⏸️  unfilled ";
+}
 
-  // For demo purposes, let's execute a complete flow
-  await demonstrateCompleteFlow(contract, owner, trader1, trader2);
+/**
+ * @notice Target price of an order for display; market orders have none
+ */
+function orderPriceText(spec: PairSpec | undefined, targetPrice: number, orderType: number): string {
+  if (orderType === OrderType.Market) return "market";
+  return spec ? formatPrice(spec, targetPrice) : String(targetPrice);
 }
 
 /**
- * @notice Demonstrate a complete trading flow
- * @dev Shows all contract interactions in sequence
+ * @notice Read the current session and derive its timing
  */
-async function demonstrateCompleteFlow(
-  contract: any,
-  owner: any,
-  trader1: any,
-  trader2: any
-) {
-  console.log("\n🎯 Starting Complete Trading Flow Demo\n");
+async function readSession({ client, signer }: CommandContext): Promise<SessionSnapshot> {
+  const info = await client.getCurrentSessionInfo();
+  const latest = await signer.provider.getBlock("latest");
+  const now = latest ? latest.timestamp : Math.floor(Date.now() / 1000);
 
-  try {
-    // Step 1: Check current status
-    console.log("📊 Step 1: Checking contract status...");
-    const currentSession = await contract.currentSession();
-    const isActive = await contract.isSessionActive();
-    const contractOwner = await contract.owner();
-
-    console.log("   Current session:", currentSession.toString());
-    console.log("   Session active:", isActive);
-    console.log("   Contract owner:", contractOwner);
-
-    // Step 2: Register traders
-    console.log("\n👥 Step 2: Registering traders...");
-
-    const trader1Profile = await contract.getTraderProfile(trader1.address);
-    if (!trader1Profile.isRegistered) {
-      console.log("   Registering trader1 with 10,000 balance...");
-      const tx1 = await contract.connect(trader1).registerTrader(10000);
-      await tx1.wait();
-      console.log("   ✅ Trader1 registered");
-    } else {
-      console.log("   ℹ️ Trader1 already registered");
-    }
+  return {
+    ...info,
+    secondsRemaining: info.sessionActive ? Math.max(Number(info.endTime) - now, 0) : 0,
+  };
+}
+
+interface SessionSnapshot extends SessionInfo {
+  secondsRemaining: number;
+}
 
-    const trader2Profile = await contract.getTraderProfile(trader2.address);
-    if (!trader2Profile.isRegistered) {
-      console.log("   Registering trader2 with 20,000 balance...");
-      const tx2 = await contract.connect(trader2).registerTrader(20000);
-      await tx2.wait();
-      console.log("   ✅ Trader2 registered");
+/**
+ * @notice Print session information
+ */
+function renderSession(info: SessionSnapshot): void {
+  console.log("   Session ID:", info.session);
+  console.log("   Prices set:", info.pricesSet);
+  console.log("   Active:", info.sessionActive);
+  console.log("   Start time:", formatTimestamp(info.startTime));
+  console.log("   End time:", formatTimestamp(info.endTime));
+  console.log("   Active traders:", info.activeTraderCount);
+
+  if (info.sessionActive) {
+    if (info.secondsRemaining > 0) {
+      console.log("   Time remaining:", formatDuration(info.secondsRemaining));
     } else {
-      console.log("   ℹ️ Trader2 already registered");
+      console.log("   Status: Session ended, ready for execution");
     }
+  }
+}
+
+const COMMANDS: Record<string, Command> = {
+  status: defineCommand({
+    description: "Show contract owner and current session status",
+    options: {},
+    async run(ctx) {
+      const { client, network } = ctx;
+      return {
+        network,
+        contract: await client.getAddress(),
+        owner: await client.owner(),
+        pendingOwner: await client.pendingOwner(),
+        paused: await client.paused(),
+        isSessionActive: await client.isSessionActive(),
+        ...(await readSession(ctx)),
+      };
+    },
+    render(result) {
+      console.log("\n📊 Current Status:");
+      console.log("=====================================");
+      console.log("   Network:", result.network);
+      console.log("   Contract:", result.contract);
+      console.log("   Owner:", result.owner);
+      if (result.pendingOwner) {
+        console.log("   Pending owner:", result.pendingOwner);
+      }
+      if (result.paused) {
+        console.log("   ⏸️  Trading is paused");
+      }
+      console.log("   Accepting orders:", result.isSessionActive && !result.paused ? "Yes" : "No");
+      renderSession(result);
+      console.log("=====================================\n");
+    },
+  }),
+
+  register: defineCommand({
+    description: "Register the signer as a trader, optionally depositing collateral right away",
+    options: {
+      deposit: { type: "bigint", description: "Collateral to deposit after registering, in USD" },
+    },
+    async run({ client, signer }, { deposit }) {
+      const result = await client.registerTrader();
+      const funded = deposit !== undefined ? await client.deposit(deposit) : undefined;
+      return { trader: signer.address, deposited: funded?.amount ?? 0n, ...txSummary(funded ?? result) };
+    },
+    render(result) {
+      console.log(`✅ Trader ${result.trader} registered with balance ${result.deposited} USD`);
+      renderTx(result);
+    },
+  }),
+
+  faucet: defineCommand({
+    description: "Mint MockStablecoin collateral to the signer (local and test deployments only)",
+    options: {
+      amount: { type: "bigint", description: "Amount in USD", required: true },
+    },
+    async run({ client, signer }, { amount }) {
+      const token = MockStablecoin__factory.connect(await client.contract.collateralToken(), signer);
+      const tx = await token.mint(signer.address, amount);
+      const receipt = await tx.wait();
+
+      return {
+        account: signer.address,
+        minted: amount,
+        walletBalance: await token.balanceOf(signer.address),
+        txHash: tx.hash,
+        blockNumber: receipt?.blockNumber ?? 0,
+      };
+    },
+    render(result) {
+      console.log(`✅ Minted ${result.minted} mUSD to ${result.account}, wallet balance ${result.walletBalance}`);
+      renderTx(result);
+    },
+  }),
 
-    // Step 3: Start trading session (if not active)
-    if (!isActive) {
-      console.log("\n🚀 Step 3: Starting trading session...");
-      console.log("   Setting forex rates:");
-      const forexRates = [11000, 12500, 1500, 6500, 9200];
-      const pairNames = ["EUR/USD", "GBP/USD", "USD/JPY", "AUD/USD", "USD/CHF"];
+  deposit: defineCommand({
+    description: "Deposit collateral tokens into the signer's encrypted balance (approves first if needed)",
+    options: {
+      amount: { type: "bigint", description: "Amount in USD", required: true },
+    },
+    async run({ client, signer }, { amount }) {
+      const result = await client.deposit(amount);
+      return {
+        trader: result.trader,
+        amount: result.amount,
+        approved: result.approval !== undefined,
+        walletBalance: await client.getCollateralBalance(signer.address),
+        ...txSummary(result),
+      };
+    },
+    render(result) {
+      if (result.approved) {
+        console.log(`   Approved the contract to spend ${result.amount} USD`);
+      }
+      console.log(`✅ Deposited ${result.amount} USD, wallet balance ${result.walletBalance}`);
+      renderTx(result);
+    },
+  }),
 
-      forexRates.forEach((rate, index) => {
-        const displayRate = (rate / 10000).toFixed(4);
-        console.log(`   ${pairNames[index]}: ${displayRate}`);
+  withdraw: defineCommand({
+    description: "Withdraw collateral if the encrypted balance covers it, settled by the decryption oracle",
+    options: {
+      amount: { type: "bigint", description: "Amount in USD", required: true },
+      timeout: { type: "integer", description: "Seconds to wait for the decryption oracle", default: "300" },
+    },
+    async run({ client, signer, awaitDecryptionOracle }, { amount, timeout }) {
+      const request = await client.requestWithdrawal(amount);
+      await awaitDecryptionOracle();
+      const processed = await client.waitForWithdrawal(request.requestId, {
+        fromBlock: request.blockNumber,
+        timeoutMs: timeout * 1000,
       });
 
-      const tx = await contract.connect(owner).startTradingSession(forexRates);
-      await tx.wait();
-      console.log("   ✅ Trading session started");
-    } else {
-      console.log("\n📍 Step 3: Session already active, skipping start");
-    }
+      return {
+        trader: request.trader,
+        requestId: request.requestId,
+        amount: processed.amount,
+        approved: processed.approved,
+        walletBalance: await client.getCollateralBalance(signer.address),
+        txHash: processed.txHash,
+        blockNumber: processed.blockNumber,
+      };
+    },
+    render(result) {
+      if (result.approved) {
+        console.log(`✅ Withdrew ${result.amount} USD, wallet balance ${result.walletBalance}`);
+      } else {
+        console.log(`⛔ Withdrawal of ${result.amount} USD refused: your encrypted balance does not cover it`);
+      }
+      renderTx(result);
+    },
+  }),
 
-    // Step 4: Place orders
-    console.log("\n📝 Step 4: Placing private orders...");
+  "start-session": defineCommand({
+    description: "Start a trading session with forex rates (rate oracle only)",
+    options: {
+      rates: {
+        type: "string",
+        description: "Comma-separated decimal rates, one per listed pair in pair ID order (see pairs)",
+      },
+      feed: { type: "string", description: "Rate feed instead of --rates: http(s) URL, .json table or .csv ticks" },
+    },
+    async run({ client }, { rates, feed }) {
+      const listed = listedPairs(await client.getCurrencyPairs());
+      const quote = await rateProviderFromOptions(rates, feed).getRates(listed);
 
-    console.log("   Trader1 placing order for EUR/USD...");
-    const tx1 = await contract.connect(trader1).placePrivateOrder(
-      1000, // amount
-      11000, // target price
-      0 // EUR/USD
-    );
-    await tx1.wait();
-    console.log("   ✅ Order placed");
-
-    console.log("   Trader2 placing order for GBP/USD...");
-    const tx2 = await contract.connect(trader2).placePrivateOrder(
-      2000, // amount
-      12500, // target price
-      1 // GBP/USD
-    );
-    await tx2.wait();
-    console.log("   ✅ Order placed");
-
-    console.log("   Trader1 placing second order for USD/JPY...");
-    const tx3 = await contract.connect(trader1).placePrivateOrder(
-      1500, // amount
-      1500, // target price
-      2 // USD/JPY
+      const result = await client.startTradingSession(quote.rates);
+      return {
+        session: result.session,
+        source: quote.source,
+        rates: listed.map((spec, index) => ({
+          pair: spec.name,
+          rate: quote.rates[index],
+          price: formatPrice(spec, quote.rates[index]),
+        })),
+        ...txSummary(result),
+      };
+    },
+    render(result) {
+      console.log(`✅ Trading session ${result.session} started with rates from ${result.source}`);
+      result.rates.forEach(({ pair, price }) => console.log(`   ${pair}: ${price}`));
+      renderTx(result);
+    },
+  }),
+
+  "place-order": defineCommand({
+    description: "Place a private order in the active session",
+    options: {
+      side: { type: "string", description: "buy or sell", required: true },
+      type: { type: "string", description: "limit, stop or market", default: "limit" },
+      amount: { type: "bigint", description: "Trade amount in USD", required: true },
+      price: { type: "string", description: "Target price as a decimal, e.g. 1.0842 (not used by market orders)" },
+      pair: { type: "string", description: "Listed pair, e.g. EUR/USD, or its ID (see pairs)", required: true },
+      plaintext: { type: "boolean", description: "Send values unencrypted and let the contract encrypt them" },
+    },
+    async run({ client, encryptor }, { side, type, amount, price, pair, plaintext }) {
+      const orderSide = parseOrderSide(side);
+      const orderType = parseOrderType(type);
+      if (price === undefined && orderType !== OrderType.Market) {
+        throw new UsageError("--price is required for limit and stop orders");
+      }
+
+      const spec = await client.findPair(pair);
+      const targetPrice = orderType === OrderType.Market ? 0 : parsePrice(spec, price ?? "");
+      const order = { amount, targetPrice, pair: spec, side: orderSide, orderType };
+      const result = plaintext
+        ? await client.placePrivateOrder(order)
+        : await client.placeEncryptedOrder(order, await encryptor());
+
+      return {
+        trader: result.trader,
+        session: result.session,
+        orderIndex: result.orderIndex,
+        pair: result.pair.name,
+        side: result.side,
+        orderType: result.orderType,
+        amount,
+        price: order.targetPrice,
+        priceText: orderPriceText(spec, order.targetPrice, orderType),
+        encryptedInput: !plaintext,
+        ...txSummary(result),
+      };
+    },
+    render(result) {
+      console.log(`✅ Order #${result.orderIndex} placed in session ${result.session}`);
+      if (!result.encryptedInput) {
+        console.log("   ⚠️  Sent with --plaintext: all order details are visible in the transaction input");
+      }
+      const kind = describeOrder(result.side, result.orderType);
+      console.log(`   ${kind} ${result.pair}: ${result.amount} at ${result.priceText}`);
+      renderTx(result);
+    },
+  }),
+
+  "my-orders": defineCommand({
+    description: "Decrypt and list the signer's orders in a session",
+    options: {
+      session: { type: "integer", description: "Session ID (defaults to the current session)" },
+    },
+    async run({ client, decryptor }, { session }) {
+      const target = session ?? (await client.currentSession());
+      const orders = await client.decryptMyOrders(await decryptor(), target);
+      const pairs = await client.getCurrencyPairs();
+
+      return {
+        session: target,
+        orders: orders.map((order) => {
+          const spec = pairs.find((candidate) => candidate.pair === order.pair);
+          return {
+            ...order,
+            pairName: spec ? spec.name : "invalid pair",
+            kind: describeOrder(order.side, order.orderType),
+            priceText: orderPriceText(spec, order.targetPrice, order.orderType),
+          };
+        }),
+      };
+    },
+    render(result) {
+      console.log(`
+🔓 ${result.orders.length} orders in session ${result.session}:`);
+      result.orders.forEach((order) => {
+        console.log(
+          `   #${order.orderIndex} ${orderStatus(order)} ${order.kind} ${order.pairName}: ` +
+            `${order.amount} at ${order.priceText} (margin ${order.margin}), ` +
+            `placed ${formatTimestamp(order.timestamp)}`
+        );
+      });
+    },
+  }),
+
+  "cancel-order": defineCommand({
+    description: "Cancel one of the signer's orders in the active session",
+    options: {
+      order: { type: "integer", description: "Order index (see my-orders)", required: true },
+    },
+    async run({ client }, { order }) {
+      const result = await client.cancelOrder(order);
+      return { trader: result.trader, session: result.session, orderIndex: result.orderIndex, ...txSummary(result) };
+    },
+    render(result) {
+      console.log(`✅ Order #${result.orderIndex} in session ${result.session} cancelled`);
+      renderTx(result);
+    },
+  }),
+
+  "amend-order": defineCommand({
+    description: "Change the amount and/or target price of one of the signer's orders in the active session",
+    options: {
+      order: { type: "integer", description: "Order index (see my-orders)", required: true },
+      amount: { type: "bigint", description: "New trade amount in USD (default: unchanged)" },
+      price: { type: "string", description: "New target price as a decimal (default: unchanged)" },
+    },
+    async run({ client, decryptor, encryptor }, { order, amount, price }) {
+      if (amount === undefined && price === undefined) {
+        throw new UsageError("Give --amount, --price or both");
+      }
+
+      // The contract replaces both values, and the price needs the pair's decimals,
+      // so the current order is decrypted first
+      const current = (await client.decryptMyOrders(await decryptor())).find((entry) => entry.orderIndex === order);
+      if (!current) {
+        throw new UsageError(`You have no order #${order} in the current session (see my-orders)`);
+      }
+      const spec = await client.findPair(current.pair);
+      const amendment = {
+        amount: amount ?? current.amount,
+        targetPrice: price !== undefined ? parsePrice(spec, price) : current.targetPrice,
+        orderType: current.orderType,
+      };
+
+      const result = await client.amendOrder(order, amendment, await encryptor());
+      return {
+        trader: result.trader,
+        session: result.session,
+        orderIndex: result.orderIndex,
+        pair: spec.name,
+        kind: describeOrder(current.side, current.orderType),
+        amount: amendment.amount,
+        price: amendment.targetPrice,
+        priceText: orderPriceText(spec, amendment.targetPrice, current.orderType),
+        ...txSummary(result),
+      };
+    },
+    render(result) {
+      console.log(`✅ Order #${result.orderIndex} in session ${result.session} amended`);
+      console.log(`   ${result.kind} ${result.pair}: ${result.amount} at ${result.priceText}`);
+      renderTx(result);
+    },
+  }),
+
+  execute: defineCommand({
+    description: "Execute the orders of an ended session, in batches of --batch-size orders (session operator only)",
+    options: {
+      "batch-size": {
+        type: "integer",
+        description: "Orders per transaction; resumes a partly executed session",
+        default: String(EXECUTION_BATCH_SIZE),
+      },
+    },
+    async run({ client }, options) {
+      const batches = await client.executeInBatches(options["batch-size"]);
+      const last = batches[batches.length - 1];
+
+      return {
+        executedSession: last.session,
+        executedOrders: batches.reduce((sum, batch) => sum + batch.executedOrders.length, 0),
+        cancelledOrders: batches.reduce((sum, batch) => sum + batch.cancelledOrders.length, 0),
+        cancelled: last.cancelled,
+        batches: batches.map((batch) => ({
+          executedOrders: batch.executedOrders.length,
+          cancelledOrders: batch.cancelledOrders.length,
+          remainingTraders: batch.remainingTraders,
+          ...txSummary(batch),
+        })),
+        newSession: await client.currentSession(),
+        ...txSummary(last),
+      };
+    },
+    render(result) {
+      if (result.batches.length > 1) {
+        result.batches.forEach((batch, i) => {
+          console.log(
+            `   Batch ${i + 1}: ${batch.executedOrders + batch.cancelledOrders} orders, ` +
+              `${batch.remainingTraders} traders left (tx ${batch.txHash})`
+          );
+        });
+      }
+      if (result.cancelled) {
+        console.log(`🛑 Session ${result.executedSession} ended early: ${result.cancelledOrders} orders cancelled`);
+      } else {
+        console.log(`✅ Session ${result.executedSession} executed: ${result.executedOrders} orders processed`);
+      }
+      console.log("   New session ID:", result.newSession);
+      renderTx(result);
+    },
+  }),
+
+  execution: defineCommand({
+    description: "Show how far the execution of a session has progressed",
+    options: {
+      session: { type: "integer", description: "Session ID (defaults to the current session)" },
+    },
+    async run({ client }, { session }) {
+      return client.getExecutionProgress(session);
+    },
+    render(result) {
+      console.log(`\n⚙️  Execution of session ${result.session}:`);
+      console.log("=====================================");
+      if (result.completed && result.endedEarly) {
+        console.log(`   🛑 Ended early: ${result.settledOrders} orders of ${result.traderCount} traders cancelled`);
+      } else if (result.completed) {
+        console.log(`   ✅ Completed: ${result.settledOrders} orders of ${result.traderCount} traders settled`);
+      } else if (result.nextTrader === 0 && result.nextOrder === 0) {
+        console.log(`   Not started (${result.traderCount} traders)`);
+      } else {
+        console.log(`   Traders done: ${result.nextTrader} of ${result.traderCount}`);
+        console.log(`   Orders settled: ${result.settledOrders}`);
+        if (result.nextOrder > 0) {
+          console.log(`   Next: order #${result.nextOrder} of trader #${result.nextTrader}`);
+        }
+        console.log("   Run execute --batch-size <n> to continue");
+      }
+      console.log("=====================================\n");
+    },
+  }),
+
+  "session-info": defineCommand({
+    description: "Show current session details",
+    options: {},
+    async run(ctx) {
+      return readSession(ctx);
+    },
+    render(result) {
+      console.log("\n📊 Current session information:");
+      renderSession(result);
+    },
+  }),
+
+  balance: defineCommand({
+    description: "Decrypt and show the signer's private balance",
+    options: {},
+    async run({ client, decryptor }) {
+      const { trader, balance } = await client.decryptMyStats(await decryptor());
+      return { trader, balance };
+    },
+    render(result) {
+      console.log(`\n🔓 Balance of ${result.trader}: ${result.balance} USD`);
+    },
+  }),
+
+  stats: defineCommand({
+    description: "Decrypt and show the signer's balance, trade count and activity",
+    options: {},
+    async run({ client, signer, decryptor }) {
+      const stats = await client.decryptMyStats(await decryptor());
+      const profile = await client.getTraderProfile(signer.address);
+
+      return {
+        ...stats,
+        lastActivity: profile.lastActivity,
+        session: await client.currentSession(),
+        ordersThisSession: await client.getTraderOrderCount(signer.address),
+        walletBalance: await client.getCollateralBalance(signer.address),
+        pendingWithdrawal: await client.getPendingWithdrawal(signer.address),
+      };
+    },
+    render(result) {
+      console.log("\n🔓 Private trader stats:");
+      console.log("=====================================");
+      console.log("   Trader:", result.trader);
+      console.log("   Balance:", `${result.balance} USD`);
+      console.log("   Reserved by open orders:", `${result.reservedMargin} USD`);
+      console.log("   Locked by open positions:", `${result.lockedMargin} USD`);
+      console.log("   Collateral in wallet:", `${result.walletBalance} USD`);
+      if (result.pendingWithdrawal !== undefined) {
+        console.log("   Pending withdrawal request:", result.pendingWithdrawal);
+      }
+      console.log("   Executed trades:", result.totalTrades);
+      console.log("   Last activity:", formatTimestamp(result.lastActivity));
+      console.log(`   Orders in session ${result.session}:`, result.ordersThisSession);
+      console.log("=====================================\n");
+    },
+  }),
+
+  settlement: defineCommand({
+    description: "Report filled and unfilled orders of an executed session",
+    options: {
+      session: { type: "integer", description: "Session ID (defaults to the last executed session)" },
+    },
+    async run({ client, decryptor, deploymentBlock }, { session }) {
+      const target = session ?? (await client.currentSession()) - 1;
+      if (target < 1) {
+        throw new UsageError("No session has been executed yet");
+      }
+      const report = await buildSettlementReport(client, target, await decryptor(), { fromBlock: deploymentBlock });
+      return { ...report, pairs: await client.getCurrencyPairs() };
+    },
+    render(result) {
+      console.log(`\n🧾 Settlement of session ${result.session}:`);
+      console.log("=====================================");
+      console.log(`   Executed in block ${result.executionBlock} (${result.executionTx})`);
+      console.log("   Orders executed:", result.orderCount);
+      if (result.volume !== undefined) {
+        console.log("   Filled volume:", `${result.volume} USD`);
+      }
+
+      result.traders.forEach((entry) => {
+        const you = entry.trader.toLowerCase() === result.viewer.toLowerCase() ? " (you)" : "";
+        console.log(`\n   👤 ${entry.trader}${you}`);
+
+        if (!entry.decrypted) {
+          console.log(`      ${entry.orders.length} orders, results encrypted 🔒`);
+          return;
+        }
+
+        entry.orders.forEach((order) => {
+          const status = order.filled ? "✅ filled  " : "⏸️  unfilled";
+          const spec = result.pairs.find((candidate) => candidate.pair === order.pair);
+          const pair = spec ? spec.name : "invalid pair";
+          const price = orderPriceText(spec, order.targetPrice ?? 0, order.orderType ?? OrderType.Limit);
+          const kind = describeOrder(order.side ?? OrderSide.Buy, order.orderType ?? OrderType.Limit);
+          console.log(`      #${order.orderIndex} ${status} ${kind} ${pair}: ${order.amount} at ${price}`);
+        });
+        console.log(`      Filled ${entry.filledOrders}/${entry.orders.length} orders, ${entry.filledAmount} USD`);
+      });
+      console.log("=====================================\n");
+    },
+  }),
+
+  portfolio: defineCommand({
+    description: "Decrypt the signer's positions and P&L, marked against the latest session rates",
+    options: {
+      all: { type: "boolean", description: "Also show flat positions without booked P&L" },
+    },
+    async run({ client, decryptor }, { all }) {
+      return buildPortfolio(client, await decryptor(), { includeFlat: all });
+    },
+    render(result) {
+      const marked = result.session !== undefined ? `session ${result.session} rates` : "no session rates yet";
+      console.log(`\n💼 Portfolio of ${result.trader} (${marked}):`);
+      console.log("=====================================");
+      if (result.positions.length === 0) {
+        console.log("   No open positions");
+      }
+
+      result.positions.forEach((position) => {
+        const { pair } = position;
+        let size = "flat";
+        if (position.net !== 0n) {
+          size = `${position.net > 0n ? "long" : "short"} ${position.net > 0n ? position.net : -position.net}`;
+        }
+        console.log(`\n   📈 ${pair.name}: ${size}`);
+        console.log(`      Marked at ${formatPrice(pair, position.markRate)}, now ${formatPrice(pair, position.currentRate)}`);
+        console.log(`      Margin locked:  ${position.margin} USD`);
+        console.log(`      Realized P&L:   ${formatPnl(position.realizedPnl)} USD`);
+        console.log(`      Unrealized P&L: ${formatPnl(position.unrealizedPnl)} USD`);
+      });
+      console.log("=====================================\n");
+    },
+  }),
+
+  "mark-position": defineCommand({
+    description: "Book a position's P&L into the trader's balance at the latest session rate",
+    options: {
+      pair: { type: "string", description: "Pair symbol or ID", required: true },
+      trader: { type: "address", description: "Owner of the position (default: the signer)" },
+    },
+    async run({ client }, { pair, trader }) {
+      const result = await client.markPosition(trader ?? (await client.getSigner().getAddress()), pair);
+      return { trader: result.trader, pair: result.pair, markRate: result.markRate, marked: result.marked, ...txSummary(result) };
+    },
+    render(result) {
+      const rate = formatPrice(result.pair, result.markRate);
+      console.log(
+        result.marked
+          ? `✅ ${result.pair.name} position of ${result.trader} marked at ${rate}`
+          : `ℹ️  ${result.pair.name} position of ${result.trader} already was at ${rate}`
+      );
+      renderTx(result);
+    },
+  }),
+
+  margin: defineCommand({
+    description: "Decrypt the signer's margin usage, and check whether an order would fit",
+    options: {
+      pair: { type: "string", description: "Pair symbol or ID of the order to check" },
+      amount: { type: "bigint", description: "Amount in USD of the order to check" },
+    },
+    async run({ client, decryptor }, { pair, amount }) {
+      if ((pair === undefined) !== (amount === undefined)) {
+        throw new UsageError("Pass both --pair and --amount to check an order");
+      }
+      const order = pair !== undefined && amount !== undefined ? { pair, amount } : undefined;
+      return previewMargin(client, await decryptor(), order);
+    },
+    render(result) {
+      console.log(`\n🔒 Margin of ${result.trader}:`);
+      console.log("=====================================");
+      console.log("   Balance:", `${result.balance} USD`);
+      console.log("   Reserved by open orders:", `${result.reserved} USD`);
+      console.log("   Locked by open positions:", `${result.locked} USD`);
+      console.log("   Available:", `${result.available} USD`);
+
+      const { order } = result;
+      if (order) {
+        console.log(`\n   ${order.amount} USD on ${order.pair.name} at ${order.leverage}x leverage`);
+        console.log("   Required margin:", `${order.required} USD`);
+        if (order.fits) {
+          console.log(`   ✅ Fits, leaving ${order.availableAfter} USD available`);
+        } else {
+          console.log("   ❌ Does not fit: the order would be placed with a zero amount and never fill");
+        }
+      }
+      console.log("=====================================\n");
+    },
+  }),
+
+  pairs: defineCommand({
+    description: "List the currency pair registry",
+    options: {
+      listed: { type: "boolean", description: "Only pairs that can be traded" },
+    },
+    async run({ client }, { listed }) {
+      const pairs = await client.getCurrencyPairs();
+      return listed ? listedPairs(pairs) : pairs;
+    },
+    render(result) {
+      console.log(`\n💱 ${result.length} currency pairs:`);
+      result.forEach(renderPair);
+    },
+  }),
+
+  "list-pair": defineCommand({
+    description: "List a new currency pair, or list a delisted one again (admin only, between sessions)",
+    options: {
+      symbol: { type: "string", description: "Pair as BASE/QUOTE, e.g. EUR/GBP", required: true },
+      decimals: { type: "integer", description: "Decimals of the pair's prices (2 for JPY pairs)", default: "4" },
+    },
+    async run({ client }, { symbol, decimals }) {
+      const normalized = symbol.toUpperCase();
+      if (!isPairSymbol(normalized)) {
+        throw new UsageError(`Invalid pair symbol "${symbol}". Use BASE/QUOTE, e.g. EUR/GBP`);
+      }
+
+      const result = await client.listCurrencyPair(normalized, decimals);
+      return { ...result.pair, ...txSummary(result) };
+    },
+    render(result) {
+      console.log(`✅ ${result.name} listed as pair #${result.pair}`);
+      renderPair(result);
+      renderTx(result);
+    },
+  }),
+
+  "delist-pair": defineCommand({
+    description: "Delist a currency pair (admin only, between sessions)",
+    options: {
+      pair: { type: "string", description: "Pair symbol or ID", required: true },
+    },
+    async run({ client }, { pair }) {
+      const result = await client.delistCurrencyPair(pair);
+      return { ...result.pair, ...txSummary(result) };
+    },
+    render(result) {
+      console.log(`✅ ${result.name} (pair #${result.pair}) delisted`);
+      console.log("   Orders already placed on it are still matched at the end of their session");
+      renderTx(result);
+    },
+  }),
+
+  "set-leverage": defineCommand({
+    description: "Set the leverage of a currency pair (admin only, between sessions)",
+    options: {
+      pair: { type: "string", description: "Pair symbol or ID", required: true },
+      leverage: { type: "integer", description: "Leverage from 1 to 100; orders reserve amount / leverage", required: true },
+    },
+    async run({ client }, { pair, leverage }) {
+      const result = await client.setPairMargin(pair, leverageToMarginBps(leverage));
+      return {
+        ...result.pair,
+        marginBps: result.marginBps,
+        leverage: marginBpsToLeverage(result.marginBps),
+        ...txSummary(result),
+      };
+    },
+    render(result) {
+      console.log(`✅ ${result.name} (pair #${result.pair}) trades at ${result.leverage}x leverage`);
+      console.log(`   Orders reserve ${result.marginBps / 100}% of their amount as margin`);
+      renderTx(result);
+    },
+  }),
+
+  roles: defineCommand({
+    description: "List the owner and the accounts holding each role",
+    options: {},
+    async run({ client }) {
+      return {
+        owner: await client.owner(),
+        pendingOwner: await client.pendingOwner(),
+        roles: await client.getRoleAssignments(),
+      };
+    },
+    render(result) {
+      console.log("\n🔑 Roles:");
+      console.log("=====================================");
+      console.log("   Owner:", result.owner);
+      if (result.pendingOwner) {
+        console.log("   Pending owner:", result.pendingOwner);
+      }
+      result.roles.forEach(({ role, members }) => {
+        console.log(`\n   ${role}: ${ROLE_DESCRIPTIONS[role]}`);
+        if (members.length === 0) {
+          console.log("      (nobody)");
+        }
+        members.forEach((member) => console.log(`      ${member}`));
+      });
+      console.log("=====================================\n");
+    },
+  }),
+
+  "grant-role": defineCommand({
+    description: "Give an account a role (admin only)",
+    options: {
+      role: { type: "string", description: "admin, session-operator, rate-oracle or pauser", required: true },
+      account: { type: "address", description: "Account to grant the role to", required: true },
+    },
+    async run({ client }, { role, account }) {
+      const result = await client.grantRole(parseRole(role), account);
+      return { role: result.role, account: result.account, changed: result.changed, ...txSummary(result) };
+    },
+    render(result) {
+      console.log(
+        result.changed ? `✅ ${result.account} is now ${result.role}` : `ℹ️  ${result.account} already was ${result.role}`
+      );
+      renderTx(result);
+    },
+  }),
+
+  "revoke-role": defineCommand({
+    description: "Take a role away from an account (admin only; the owner always keeps admin)",
+    options: {
+      role: { type: "string", description: "admin, session-operator, rate-oracle or pauser", required: true },
+      account: { type: "address", description: "Account to revoke the role from", required: true },
+    },
+    async run({ client }, { role, account }) {
+      const result = await client.revokeRole(parseRole(role), account);
+      return { role: result.role, account: result.account, changed: result.changed, ...txSummary(result) };
+    },
+    render(result) {
+      console.log(
+        result.changed ? `✅ ${result.account} is no longer ${result.role}` : `ℹ️  ${result.account} was not ${result.role}`
+      );
+      renderTx(result);
+    },
+  }),
+
+  "transfer-ownership": defineCommand({
+    description: "Propose a new owner, who then runs accept-ownership (owner only)",
+    options: {
+      to: { type: "address", description: "Proposed owner; the zero address cancels a pending transfer", required: true },
+    },
+    async run({ client }, { to }) {
+      const result = await client.transferOwnership(to);
+      return { previousOwner: result.previousOwner, newOwner: result.newOwner, ...txSummary(result) };
+    },
+    render(result) {
+      if (BigInt(result.newOwner) === 0n) {
+        console.log("✅ Pending ownership transfer cancelled");
+      } else {
+        console.log(`✅ ${result.newOwner} can now accept ownership with accept-ownership`);
+      }
+      renderTx(result);
+    },
+  }),
+
+  "accept-ownership": defineCommand({
+    description: "Become the owner after being proposed with transfer-ownership",
+    options: {},
+    async run({ client }) {
+      const result = await client.acceptOwnership();
+      return { previousOwner: result.previousOwner, newOwner: result.newOwner, ...txSummary(result) };
+    },
+    render(result) {
+      console.log(`✅ ${result.newOwner} is now the owner and admin, taking over from ${result.previousOwner}`);
+      renderTx(result);
+    },
+  }),
+
+  pause: defineCommand({
+    description: "Suspend registration, deposits, new sessions and order placement (pauser only)",
+    options: {},
+    async run({ client }) {
+      return txSummary(await client.pause());
+    },
+    render(result) {
+      console.log("⏸️  Trading paused; traders can still cancel orders and withdraw");
+      renderTx(result);
+    },
+  }),
+
+  unpause: defineCommand({
+    description: "Resume trading (pauser only)",
+    options: {},
+    async run({ client }) {
+      return txSummary(await client.unpause());
+    },
+    render(result) {
+      console.log("▶️  Trading resumed");
+      renderTx(result);
+    },
+  }),
+
+  history: defineCommand({
+    description: "Show past sessions (all sessions unless --session is given)",
+    options: {
+      session: { type: "integer", description: "Only show this session ID" },
+      chain: { type: "boolean", description: "Read from the contract instead of the local event index" },
+    },
+    async run(ctx, { session, chain }) {
+      const index = chain ? undefined : await openIndex(ctx);
+      if (index) {
+        const sessions = session !== undefined ? [index.session(session)] : index.sessions();
+        return {
+          source: "index" as const,
+          indexedBlock: index.store.lastBlock,
+          sessions: sessions.filter((entry): entry is IndexedSession => entry !== undefined),
+        };
+      }
+
+      const current = await ctx.client.currentSession();
+      const ids = session !== undefined ? [session] : Array.from({ length: current }, (_, index) => index + 1);
+      return { source: "chain" as const, sessions: await Promise.all(ids.map((id) => ctx.client.getSessionHistory(id))) };
+    },
+    render(result) {
+      if (result.source === "index") {
+        console.log(`\n📜 Session history (indexed up to block ${result.indexedBlock}):`);
+        result.sessions.forEach((entry) => {
+          const state = entry.endedEarly ? "cancelled" : entry.executed ? "executed" : "open";
+          console.log(
+            `   #${entry.session} [${state}] started ${formatTimestamp(entry.startTime)} (block ${entry.startBlock}), ` +
+              `traders: ${entry.traders.length}, orders: ${entry.executedOrderCount}/${entry.orderCount} executed`
+          );
+        });
+        return;
+      }
+
+      console.log("\n📜 Session history:");
+      result.sessions.forEach((entry) => {
+        const state = entry.sessionActive ? "active" : entry.pricesSet ? "closed" : "not started";
+        console.log(
+          `   #${entry.session} [${state}] ${formatTimestamp(entry.startTime)} → ${formatTimestamp(entry.endTime)}, ` +
+            `traders: ${entry.traderCount}, volume: 🔒`
+        );
+      });
+    },
+  }),
+
+  orders: defineCommand({
+    description: "List indexed orders and their execution status",
+    options: {
+      session: { type: "integer", description: "Only orders of this session" },
+      trader: { type: "address", description: "Only orders of this trader" },
+      pending: { type: "boolean", description: "Only orders neither executed nor cancelled" },
+    },
+    async run(ctx, { session, trader, pending }) {
+      const index = await openIndex(ctx);
+      if (!index) {
+        throw new UsageError(
+          `No event index for ${ctx.network} in ${indexPath(ctx.network)}. Run: npm run indexer -- --network ${ctx.network}`
+        );
+      }
+      return index.orders({ session, trader, ...(pending ? { executed: false, cancelled: false } : {}) });
+    },
+    render(result) {
+      console.log(`\n📒 ${result.length} orders:`);
+      result.forEach((order) => {
+        let status = "pending";
+        if (order.cancelled) {
+          status = `cancelled in block ${order.cancelledBlock}`;
+        } else if (order.executed) {
+          status = `executed in block ${order.executedBlock}`;
+        }
+        const amended = order.amendments > 0 ? `, amended ${order.amendments}x` : "";
+        console.log(
+          `   Session ${order.session} ${order.trader} #${order.orderIndex}: placed in block ${order.placedBlock}${amended}, ${status}`
+        );
+      });
+    },
+  }),
+};
+
+/**
+ * @notice Open the local event index for the connected contract
+ * @return The query API, or undefined if the network was not indexed or the index belongs to another deployment
+ */
+async function openIndex({ client, network }: CommandContext): Promise<TradeHistory | undefined> {
+  const store = loadIndex(network);
+  const address = await client.getAddress();
+  return store?.contract.toLowerCase() === address.toLowerCase() ? new TradeHistory(store) : undefined;
+}
+
+/**
+ * @notice Print usage for all commands or a single command
+ */
+function printHelp(command?: string): void {
+  const names = command && COMMANDS[command] ? [command] : Object.keys(COMMANDS);
+
+  console.log("🔧 PrivateForexTrading Interaction CLI\n");
+  console.log("Usage: npx ts-node scripts/interact.ts <command> [options]\n");
+
+  names.forEach((name) => {
+    console.log(`${name}: ${COMMANDS[name].description}`);
+    formatOptions(COMMANDS[name].options).forEach((line) => console.log(line));
+    console.log("");
+  });
+
+  console.log("Global options:");
+  formatOptions(GLOBAL_OPTIONS).forEach((line) => console.log(line));
+}
+
+/**
+ * @notice Look up the current PrivateForexTrading deployment for a network
+ * @dev Warns when the registry entry was deployed from a different ABI than the one compiled locally
+ */
+function resolveFromRegistry(network: string): string {
+  const deployment = getDeployment(network, "PrivateForexTrading");
+  if (!deployment) {
+    throw new UsageError(
+      `No PrivateForexTrading deployment recorded in ${registryPath(network)}. ` +
+        "Deploy first, or pass --address / export CONTRACT_ADDRESS=0x..."
     );
-    await tx3.wait();
-    console.log("   ✅ Order placed");
-
-    // Step 5: View current session info
-    console.log("\n📊 Step 5: Current session information...");
-    const sessionInfo = await contract.getCurrentSessionInfo();
-
-    console.log("   Session ID:", sessionInfo.session.toString());
-    console.log("   Prices set:", sessionInfo.pricesSet);
-    console.log("   Active:", sessionInfo.sessionActive);
-    console.log("   Start time:", new Date(Number(sessionInfo.startTime) * 1000).toLocaleString());
-    console.log("   End time:", new Date(Number(sessionInfo.endTime) * 1000).toLocaleString());
-    console.log("   Active traders:", sessionInfo.activeTraderCount.toString());
-
-    // Step 6: Check order counts
-    console.log("\n📈 Step 6: Order counts per trader...");
-    const trader1Orders = await contract.getTraderOrderCount(trader1.address);
-    const trader2Orders = await contract.getTraderOrderCount(trader2.address);
-
-    console.log("   Trader1 orders:", trader1Orders.toString());
-    console.log("   Trader2 orders:", trader2Orders.toString());
-
-    // Step 7: Check if orders can be executed
-    console.log("\n⏰ Step 7: Checking if orders can be executed...");
-    const now = Math.floor(Date.now() / 1000);
-    const sessionEnd = Number(sessionInfo.endTime);
-
-    if (now > sessionEnd) {
-      console.log("   ✅ Session has ended, orders can be executed");
-      console.log("   Executing orders...");
-
-      const txExec = await contract.connect(owner).executePrivateOrders();
-      await txExec.wait();
-      console.log("   ✅ Orders executed successfully");
-
-      // Check new session number
-      const newSession = await contract.currentSession();
-      console.log("   New session ID:", newSession.toString());
-    } else {
-      const timeRemaining = sessionEnd - now;
-      const hours = Math.floor(timeRemaining / 3600);
-      const minutes = Math.floor((timeRemaining % 3600) / 60);
-      console.log(`   ⏳ Session still active. Time remaining: ${hours}h ${minutes}m`);
-      console.log("   Orders will be executed when session ends");
-    }
+  }
 
-    // Step 8: View session history
-    console.log("\n📜 Step 8: Session history...");
-    const history = await contract.getSessionHistory(currentSession);
-
-    console.log("   Session active:", history.sessionActive);
-    console.log("   Prices set:", history.pricesSet);
-    console.log("   Trader count:", history.traderCount.toString());
-    console.log("   Total volume:", history.totalVolume.toString());
-
-    // Summary
-    console.log("\n✅ Complete flow demonstration finished!");
-    console.log("\n📝 Summary:");
-    console.log("   - 2 traders registered");
-    console.log("   - 1 trading session created");
-    console.log("   - 3 private orders placed");
-    console.log("   - All operations successful");
-
-    console.log("\n💡 Next Steps:");
-    console.log("   - Wait for session to end");
-    console.log("   - Execute orders with: await contract.executePrivateOrders()");
-    console.log("   - Start a new session");
-    console.log("   - Continue trading");
-
-  } catch (error: any) {
-    console.error("\n❌ Error during interaction:", error.message);
-
-    if (error.message.includes("Not authorized")) {
-      console.error("💡 Tip: Make sure you're using the owner account for admin functions");
-    } else if (error.message.includes("Already registered")) {
-      console.error("💡 Tip: This trader is already registered");
-    } else if (error.message.includes("No active trading session")) {
-      console.error("💡 Tip: Start a trading session first");
-    }
+  if (deployment.abiHash !== abiHash(PrivateForexTrading__factory.createInterface().formatJson())) {
+    console.error(`⚠️  ${network} deployment ${deployment.address} was built from a different ABI than the local artifacts`);
+  }
+  return deployment.address;
+}
 
-    process.exit(1);
+/**
+ * @notice Cache the result of an async factory
+ */
+function memoize<T>(factory: () => Promise<T>): () => Promise<T> {
+  let value: Promise<T> | undefined;
+  return () => (value ??= factory());
+}
+
+/**
+ * @notice Pick the user decryption backend for the connected network
+ * @dev The FHEVM mock (hardhat / localhost) decrypts in-process; live networks go
+ *      through the relayer using the network's RPC URL from hardhat.config.ts
+ */
+async function createDecryptor(hre: typeof import("hardhat")): Promise<UserDecryptor> {
+  if (hre.fhevm.isMock) {
+    await hre.fhevm.initializeCLIApi();
+    return new FhevmMockDecryptor(hre.fhevm);
+  }
+
+  return new RelayerDecryptor({ network: rpcUrl(hre) });
+}
+
+/**
+ * @notice RPC URL of the connected network, as passed to the relayer SDK
+ */
+function rpcUrl(hre: typeof import("hardhat")): string {
+  const config = hre.network.config;
+  if (!("url" in config)) {
+    throw new UsageError(`Network "${hre.network.name}" has no RPC URL configured for the relayer`);
+  }
+  return config.url;
+}
+
+/**
+ * @notice Pick the input encryption backend for the connected network
+ */
+async function createEncryptor(hre: typeof import("hardhat")): Promise<InputEncryptor> {
+  if (hre.fhevm.isMock) {
+    await hre.fhevm.initializeCLIApi();
+    return hre.fhevm;
   }
+
+  return createRelayerEncryptor({ network: rpcUrl(hre) });
 }
 
 /**
- * @notice Quick status check function
- * @dev Displays current contract state
+ * @notice Connect to the network and build the command context
+ * @dev Hardhat is imported lazily so that --network can select the network first
  */
-async function checkStatus(contract: any) {
-  const sessionInfo = await contract.getCurrentSessionInfo();
-
-  console.log("\n📊 Current Status:");
-  console.log("=====================================");
-  console.log("Session ID:", sessionInfo.session.toString());
-  console.log("Active:", sessionInfo.sessionActive ? "Yes" : "No");
-  console.log("Active Traders:", sessionInfo.activeTraderCount.toString());
-
-  if (sessionInfo.sessionActive) {
-    const now = Math.floor(Date.now() / 1000);
-    const endTime = Number(sessionInfo.endTime);
-    const remaining = endTime - now;
-
-    if (remaining > 0) {
-      const hours = Math.floor(remaining / 3600);
-      const minutes = Math.floor((remaining % 3600) / 60);
-      console.log("Time Remaining:", `${hours}h ${minutes}m`);
+async function connect(raw: RawArgs["options"]): Promise<CommandContext> {
+  const globals = parseOptions(raw, GLOBAL_OPTIONS, Object.keys(raw));
+
+  if (globals.network) {
+    process.env.HARDHAT_NETWORK = globals.network;
+  }
+  const hre = await import("hardhat");
+  const { ethers, network } = hre;
+
+  const contractAddress = globals.address ?? process.env.CONTRACT_ADDRESS ?? resolveFromRegistry(network.name);
+  const deployment = getDeployment(network.name, "PrivateForexTrading");
+
+  const signers = await ethers.getSigners();
+  const signer = /^\d+$/.test(globals.signer)
+    ? signers[Number(globals.signer)]
+    : signers.find((candidate) => candidate.address.toLowerCase() === globals.signer.toLowerCase());
+
+  if (!signer) {
+    throw new UsageError(`Signer "${globals.signer}" is not one of the ${signers.length} configured accounts`);
+  }
+
+  return {
+    client: ForexTradingClient.connect(contractAddress, signer),
+    signer,
+    network: network.name,
+    deploymentBlock: deployment?.address.toLowerCase() === contractAddress.toLowerCase() ? deployment.blockNumber : 0,
+    decryptor: memoize(() => createDecryptor(hre)),
+    encryptor: memoize(() => createEncryptor(hre)),
+    async awaitDecryptionOracle() {
+      if (hre.fhevm.isMock) {
+        await hre.fhevm.awaitDecryptionOracle();
+      }
+    },
+  };
+}
+
+async function main() {
+  const { command, options } = splitArgs(process.argv.slice(2));
+
+  if (!command || options.help) {
+    printHelp(command);
+    return;
+  }
+
+  if (!COMMANDS[command]) {
+    throw new UsageError(`Unknown command "${command}". Available: ${Object.keys(COMMANDS).join(", ")}`);
+  }
+
+  const json = options.json === true;
+  try {
+    await COMMANDS[command].execute(options, () => connect(options), json);
+  } catch (error) {
+    if (error instanceof UsageError) throw error;
+
+    const decoded = decodeError(error);
+    if (json) {
+      console.log(toJson({ error: decoded }));
     } else {
-      console.log("Status:", "Session ended, ready for execution");
+      console.error(`\n❌ Error [${decoded.code}]:`, decoded.message);
+      console.error("💡 Tip:", decoded.hint);
     }
+
+    process.exit(1);
   }
-  console.log("=====================================\n");
 }
 
 // Execute main function
 main()
   .then(() => process.exit(0))
   .catch((error) => {
-    console.error(error);
+    console.error(`❌ ${error.message}`);
     process.exit(1);
   });
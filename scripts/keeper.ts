@@ -0,0 +1,216 @@
+import {
+  OptionSpec,
+  UsageError,
+  formatDuration,
+  formatOptions,
+  formatTimestamp,
+  parseOptions,
+  splitArgs,
+} from "./lib/cli";
+import { EXECUTION_BATCH_SIZE, ForexTradingClient } from "./lib/client";
+import { decodeError } from "./lib/errors";
+import { parsePriceList } from "./lib/pairs";
+import { rateProviderFromOptions } from "./lib/rates";
+import { getDeployment } from "./lib/registry";
+import { Role } from "./lib/roles";
+import { SchedulerEvent, SessionScheduler, tickEvent } from "./lib/scheduler";
+
+/**
+ * @title Session Keeper
+ * @notice Long-running daemon that executes ended sessions and starts the next one
+ * @dev Replaces the manual `start-session` / `execute` cycle of interact.ts. Must run
+ *      as an account holding both the rate-oracle role (starting sessions) and the
+ *      session-operator role (executing them). Sessions are executed --batch-size orders
+ *      per transaction, so large sessions stay under the coprocessor's per-transaction HCU
+ *      limit and the block gas limit; a restarted keeper continues a partly executed
+ *      session. See lib/scheduler.ts for the rules.
+ *
+ * Usage: npx ts-node scripts/keeper.ts [options] --network <network-name>
+ *
+ * Examples:
+ *   npm run keeper -- --rates 1.1000,1.2500,150.00,0.6500,0.9200 --network localhost
+ *   npm run keeper -- --feed https://rates.example.com/latest --once --network sepolia
+ *   npm run keeper -- --feed data/ticks-2024-03.csv --loop --network localhost
+ *   npm run keeper -- --rates 1.1000,1.2500,150.00,0.6500,0.9200 --interval 60000 --json --network sepolia
+ *   npm run keeper -- --feed rates.json --batch-size 2 --network sepolia
+ */
+
+const OPTIONS = {
+  network: { type: "string", description: "Hardhat network to run against" },
+  address: { type: "address", description: "Contract address (defaults to the deployment registry)" },
+  signer: { type: "string", description: "Operator account index or address", default: "0" },
+  rates: {
+    type: "string",
+    description: "Fixed decimal rates, one per listed pair in pair ID order, used for every session",
+  },
+  feed: { type: "string", description: "Rate feed instead of --rates: http(s) URL, .json table or .csv ticks" },
+  loop: { type: "boolean", description: "Restart a .csv replay from the first tick when it runs out" },
+  interval: { type: "integer", description: "Longest wait in ms between checks", default: "15000" },
+  retries: { type: "integer", description: "Failed attempts of one action before exiting", default: "5" },
+  "retry-delay": { type: "integer", description: "First retry delay in ms, doubled per attempt", default: "2000" },
+  "batch-size": {
+    type: "integer",
+    description: "Orders to settle per execution transaction",
+    default: String(EXECUTION_BATCH_SIZE),
+  },
+  once: { type: "boolean", description: "Perform the due action (if any) and exit" },
+  json: { type: "boolean", description: "Print events as JSON lines" },
+  help: { type: "boolean", description: "Show help" },
+} satisfies Record<string, OptionSpec>;
+
+/**
+ * Roles the keeper needs to start and execute sessions
+ */
+const KEEPER_ROLES: Role[] = ["rate-oracle", "session-operator"];
+
+function printHelp(): void {
+  console.log("⏰ PrivateForexTrading Session Keeper\n");
+  console.log("Usage: npx ts-node scripts/keeper.ts [options]\n");
+  formatOptions(OPTIONS).forEach((line) => console.log(line));
+}
+
+/**
+ * @notice One JSON line per event, without the transaction receipts
+ */
+function eventSummary(event: SchedulerEvent) {
+  switch (event.type) {
+    case "waiting":
+      return { type: event.type, ...event.plan };
+    case "executed": {
+      const { session, executedOrders, remainingTraders, completed, txHash, blockNumber } = event.result;
+      return {
+        type: event.type,
+        session,
+        executedOrders: executedOrders.length,
+        remainingTraders,
+        completed,
+        txHash,
+        blockNumber,
+      };
+    }
+    case "started": {
+      const { session, txHash, blockNumber } = event.result;
+      return { type: event.type, session, txHash, blockNumber };
+    }
+    case "retrying":
+      return { ...event, error: event.error.toJSON() };
+  }
+}
+
+function renderEvent(event: SchedulerEvent, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(eventSummary(event)));
+    return;
+  }
+
+  switch (event.type) {
+    case "waiting": {
+      const { plan } = event;
+      const next = plan.action === "wait" && plan.dueAt > plan.now ? formatDuration(plan.dueAt - plan.now) : "now";
+      console.log(`⏳ Session ${plan.session}: next action in ${next} (${formatTimestamp(plan.dueAt)} chain time)`);
+      break;
+    }
+    case "executed": {
+      const { session, executedOrders, remainingTraders, completed, txHash, blockNumber } = event.result;
+      const progress = completed
+        ? `✅ Executed session ${session}`
+        : `⚙️  Executed a batch of session ${session}, ${remainingTraders} traders left`;
+      console.log(`${progress}: ${executedOrders.length} orders (tx ${txHash}, block ${blockNumber})`);
+      break;
+    }
+    case "started":
+      console.log(
+        `🚀 Started session ${event.result.session} (tx ${event.result.txHash}, block ${event.result.blockNumber})`
+      );
+      break;
+    case "retrying":
+      console.error(
+        `⚠️  ${event.action} failed [${event.error.code}] ${event.error.message}, ` +
+          `retry ${event.attempt} in ${event.delay}ms`
+      );
+      break;
+  }
+}
+
+async function main() {
+  const { command, options: raw } = splitArgs(process.argv.slice(2));
+  if (command !== undefined) {
+    throw new UsageError(`Unexpected argument: ${command}`);
+  }
+
+  const options = parseOptions(raw, OPTIONS);
+  if (options.help) {
+    printHelp();
+    return;
+  }
+
+  const rateProvider = rateProviderFromOptions(options.rates, options.feed, { loop: options.loop });
+
+  if (options.network) {
+    process.env.HARDHAT_NETWORK = options.network;
+  }
+  const { ethers, network } = await import("hardhat");
+
+  const contract =
+    options.address ?? process.env.CONTRACT_ADDRESS ?? getDeployment(network.name, "PrivateForexTrading")?.address;
+  if (!contract) {
+    throw new UsageError(`No PrivateForexTrading deployment recorded for "${network.name}". Pass --address`);
+  }
+
+  const signers = await ethers.getSigners();
+  const signer = /^\d+$/.test(options.signer)
+    ? signers[Number(options.signer)]
+    : signers.find((candidate) => candidate.address.toLowerCase() === options.signer.toLowerCase());
+  if (!signer) {
+    throw new UsageError(`Signer "${options.signer}" is not one of the ${signers.length} configured accounts`);
+  }
+
+  const client = ForexTradingClient.connect(contract, signer);
+  for (const role of KEEPER_ROLES) {
+    if (!(await client.hasRole(role, signer.address))) {
+      throw new UsageError(`Keeper account ${signer.address} lacks the ${role} role (see the roles command)`);
+    }
+  }
+  if (options["batch-size"] <= 0) {
+    throw new UsageError("--batch-size must be at least 1");
+  }
+  if (options.rates !== undefined) {
+    // Fail now rather than at the next session start if --rates does not fit the listed pairs
+    parsePriceList(options.rates, await client.getCurrencyPairs());
+  }
+
+  const scheduler = new SessionScheduler(client, {
+    rates: async () => (await rateProvider.getRates(await client.getCurrencyPairs())).rates,
+    pollInterval: options.interval,
+    maxRetries: options.retries,
+    retryDelay: options["retry-delay"],
+    batchSize: options["batch-size"],
+    onEvent: (event) => renderEvent(event, options.json),
+  });
+
+  if (options.once) {
+    renderEvent(tickEvent(await scheduler.tick()), options.json);
+    return;
+  }
+
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+  process.once("SIGTERM", () => controller.abort());
+
+  console.log(`⏰ Keeping sessions of ${contract} on ${network.name} as ${signer.address} (Ctrl+C to stop)`);
+  await scheduler.run(controller.signal);
+  console.log("👋 Keeper stopped");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    if (error instanceof UsageError) {
+      console.error(`❌ ${error.message}`);
+    } else {
+      const decoded = decodeError(error);
+      console.error(`❌ Error [${decoded.code}]: ${decoded.message}`);
+      console.error("💡 Tip:", decoded.hint);
+    }
+    process.exit(1);
+  });
@@ -0,0 +1,217 @@
+import { getAddress, isAddress } from "ethers";
+
+/**
+ * @title CLI Helpers
+ * @notice Minimal argument parsing and output helpers shared by the operator scripts
+ * @dev Kept dependency-free on purpose: scripts are run through ts-node and
+ *      only need `--flag value` options, boolean switches and a subcommand
+ */
+
+/**
+ * Supported option value types
+ */
+export type ArgType = "string" | "integer" | "bigint" | "address" | "boolean" | "integer[]";
+
+/**
+ * Option declaration for a command
+ */
+export interface OptionSpec {
+  type: ArgType;
+  description: string;
+  required?: boolean;
+  default?: string;
+}
+
+type ValueOf<T extends ArgType> = T extends "integer"
+  ? number
+  : T extends "bigint"
+    ? bigint
+    : T extends "boolean"
+      ? boolean
+      : T extends "integer[]"
+        ? number[]
+        : string;
+
+/**
+ * Parsed option values, typed from the command's option declarations
+ */
+export type ParsedOptions<O extends Record<string, OptionSpec>> = {
+  [K in keyof O]: O[K] extends { required: true } | { default: string } | { type: "boolean" }
+    ? ValueOf<O[K]["type"]>
+    : ValueOf<O[K]["type"]> | undefined;
+};
+
+/**
+ * Raw command line split into a subcommand and its `--name value` options
+ */
+export interface RawArgs {
+  command: string | undefined;
+  options: Record<string, string | true>;
+}
+
+/**
+ * Error raised for invalid command line usage
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * @notice Split argv into a subcommand and its options
+ * @dev `--name value` and `--name=value` are both accepted; an option followed
+ *      by another option (or nothing) is treated as a boolean switch
+ */
+export function splitArgs(argv: string[]): RawArgs {
+  const raw: RawArgs = { command: undefined, options: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg.startsWith("--")) {
+      const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+      if (inline !== undefined) {
+        raw.options[name] = inline;
+      } else if (i + 1 < argv.length && !argv[i + 1].startsWith("--")) {
+        raw.options[name] = argv[++i];
+      } else {
+        raw.options[name] = true;
+      }
+    } else if (raw.command === undefined) {
+      raw.command = arg;
+    } else {
+      throw new UsageError(`Unexpected argument: ${arg}`);
+    }
+  }
+
+  return raw;
+}
+
+/**
+ * @notice Convert a single raw option value to its declared type
+ */
+function convertValue(name: string, spec: OptionSpec, value: string | true): unknown {
+  if (spec.type === "boolean") {
+    return value === true || value === "true";
+  }
+
+  if (value === true) {
+    throw new UsageError(`Option --${name} requires a value`);
+  }
+
+  switch (spec.type) {
+    case "integer": {
+      const parsed = Number(value);
+      if (!Number.isSafeInteger(parsed) || parsed < 0) {
+        throw new UsageError(`Option --${name} must be a non-negative integer, got "${value}"`);
+      }
+      return parsed;
+    }
+    case "bigint": {
+      if (!/^\d+$/.test(value)) {
+        throw new UsageError(`Option --${name} must be a non-negative integer, got "${value}"`);
+      }
+      return BigInt(value);
+    }
+    case "address": {
+      if (!isAddress(value)) {
+        throw new UsageError(`Option --${name} must be an address, got "${value}"`);
+      }
+      return getAddress(value);
+    }
+    case "integer[]":
+      return value.split(",").map((item) => convertValue(name, { ...spec, type: "integer" }, item.trim()));
+    default:
+      return value;
+  }
+}
+
+/**
+ * @notice Validate raw options against a command's declarations
+ * @dev Unknown options are rejected so typos don't silently fall back to defaults
+ * @param raw Options returned by splitArgs
+ * @param specs Declared options for the command
+ * @param globalNames Options handled by the caller (e.g. --json, --signer)
+ */
+export function parseOptions<O extends Record<string, OptionSpec>>(
+  raw: Record<string, string | true>,
+  specs: O,
+  globalNames: string[] = []
+): ParsedOptions<O> {
+  for (const name of Object.keys(raw)) {
+    if (!(name in specs) && !globalNames.includes(name)) {
+      throw new UsageError(`Unknown option --${name}`);
+    }
+  }
+
+  const parsed: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries(specs)) {
+    const value = raw[name] ?? spec.default;
+
+    if (value === undefined) {
+      if (spec.required) {
+        throw new UsageError(`Missing required option --${name}`);
+      }
+      parsed[name] = spec.type === "boolean" ? false : undefined;
+      continue;
+    }
+
+    parsed[name] = convertValue(name, spec, value);
+  }
+
+  return parsed as ParsedOptions<O>;
+}
+
+/**
+ * @notice Format option declarations as help text
+ */
+export function formatOptions(specs: Record<string, OptionSpec>): string[] {
+  return Object.entries(specs).map(([name, spec]) => {
+    const value = spec.type === "boolean" ? "" : ` <${spec.type}>`;
+    const suffix = spec.required ? " (required)" : spec.default !== undefined ? ` (default: ${spec.default})` : "";
+    return `  --${name}${value}`.padEnd(28) + `${spec.description}${suffix}`;
+  });
+}
+
+/**
+ * @notice Serialize command output as JSON
+ * @dev bigint values are emitted as decimal strings
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => (typeof item === "bigint" ? item.toString() : item), 2);
+}
+
+/**
+ * @notice Format a number of seconds as "Xh Ym"
+ */
+export function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${hours}h ${minutes}m`;
+}
+
+/**
+ * @notice Format a unix timestamp for display
+ */
+export function formatTimestamp(timestamp: bigint | number): string {
+  return Number(timestamp) > 0 ? new Date(Number(timestamp) * 1000).toLocaleString() : "Never";
+}
+
+/**
+ * @notice Wait for the given time, returning early when the signal is aborted
+ */
+export function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
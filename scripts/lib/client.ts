@@ -0,0 +1,1324 @@
+import type {
+  BigNumberish,
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  Signer,
+} from "ethers";
+import { toBigInt } from "ethers";
+import { IERC20, IERC20__factory, PrivateForexTrading, PrivateForexTrading__factory } from "../../typechain-types";
+import { sleep } from "./cli";
+import type { DecryptionRequest, UserDecryptor } from "./decryption";
+import { InputEncryptor, encryptAmendment, encryptOrder } from "./encryption";
+import { REVERT_REASONS, ValidationError, decodeError } from "./errors";
+import { OrderSide, OrderType, parseOrderSide, parseOrderType } from "./order-types";
+import { CurrencyPairLike, DEFAULT_PAIRS, PairRef, PairSpec, findPair, listedPairs, pairSpec } from "./pairs";
+import { ROLES, ROLE_IDS, Role } from "./roles";
+
+/**
+ * @title ForexTradingClient
+ * @notice Typed TypeScript client for the PrivateForexTrading contract
+ * @dev Wraps the typechain-generated contract binding and:
+ *      - Decodes positional return tuples into named structs with JS-friendly types
+ *      - Accepts currency pairs by pair ID or display name ("EUR/USD"), resolved against the on-chain registry
+ *      - Accepts order sides and types by enum value or name ("sell", "stop")
+ *      - Waits for transactions and extracts the relevant events from receipts
+ *      - Executes large sessions over several bounded transactions (executeInBatches)
+ *      - Rethrows failed transactions as typed errors from ./errors
+ *      - Encrypts order details and amendments client-side through an InputEncryptor
+ *      - Decrypts the signer's own balance, trade count and orders through a UserDecryptor
+ *      - Reads encrypted positions and session rates for valuing them (see ./portfolio),
+ *        and marks positions to the latest session rate
+ *      - Moves ERC-20 collateral in and out, approving deposits and following withdrawals
+ *        until the decryption oracle settles them
+ *      - Manages operator roles, ownership transfer and pausing (see ./roles)
+ *
+ * @custom:usage const client = ForexTradingClient.connect(address, signer);
+ *               const { orderIndex } = await client.placePrivateOrder({
+ *                 amount: 1000n, targetPrice: 11000, pair: "EUR/USD", side: "buy", orderType: "limit",
+ *               });
+ */
+
+/**
+ * Session rates in pips of each pair (see lib/pairs.ts), either one per listed pair
+ * in pair ID order, or keyed by pair ID or symbol
+ */
+export type ForexRates = readonly number[] | Readonly<Record<string, number>>;
+
+/**
+ * Decoded getCurrentSessionInfo() result
+ */
+export interface SessionInfo {
+  session: number;
+  pricesSet: boolean;
+  sessionActive: boolean;
+  startTime: bigint;
+  endTime: bigint;
+  activeTraderCount: number;
+}
+
+/**
+ * Decoded getSessionHistory() result
+ */
+export interface SessionHistory {
+  session: number;
+  sessionActive: boolean;
+  pricesSet: boolean;
+  startTime: bigint;
+  endTime: bigint;
+  traderCount: number;
+  /**
+   * Handle of the encrypted filled volume, decryptable by the owner
+   */
+  totalVolume: string;
+}
+
+/**
+ * An order as stored on-chain: public metadata plus encrypted handles
+ */
+export interface PrivateOrderRecord {
+  session: number;
+  trader: string;
+  orderIndex: number;
+  encryptedAmount: string;
+  encryptedPrice: string;
+  encryptedPairId: string;
+  encryptedIsSell: string;
+  encryptedOrderType: string;
+  /**
+   * Handle of the encrypted fill result, zero until the order is executed
+   */
+  encryptedFilled: string;
+  /**
+   * Handle of the encrypted margin the order reserved
+   */
+  encryptedMargin: string;
+  isExecuted: boolean;
+  isCancelled: boolean;
+  timestamp: bigint;
+}
+
+/**
+ * One of the connected trader's orders with its encrypted values decrypted
+ */
+export interface MyOrder {
+  session: number;
+  orderIndex: number;
+  /**
+   * Zero if the unreserved balance could not cover the order's margin
+   */
+  amount: bigint;
+  /**
+   * Margin reserved from the balance while the order is open
+   */
+  margin: bigint;
+  /**
+   * Target price in pips of the pair
+   */
+  targetPrice: number;
+  /**
+   * Pair ID, resolved against the registry by the caller
+   */
+  pair: number;
+  side: OrderSide;
+  /**
+   * Decrypted OrderType value; an encrypted unknown type shows up as-is
+   */
+  orderType: number;
+  /**
+   * Fill result, only present once the order is executed
+   */
+  filled?: boolean;
+  isExecuted: boolean;
+  isCancelled: boolean;
+  timestamp: bigint;
+}
+
+/**
+ * A trader's position in one pair as stored on-chain: encrypted handles plus its mark
+ */
+export interface PositionRecord {
+  trader: string;
+  pair: number;
+  encryptedLong: string;
+  encryptedShort: string;
+  encryptedRealizedProfit: string;
+  encryptedRealizedLoss: string;
+  /**
+   * Margin locked by the position until it is flat again
+   */
+  encryptedMargin: string;
+  /**
+   * Session rate in pips the position was last marked at, 0 if it was never opened
+   */
+  markRate: number;
+}
+
+/**
+ * An OrderExecuted event
+ */
+export interface ExecutedOrderEvent {
+  trader: string;
+  session: number;
+  orderIndex: number;
+  blockNumber: number;
+  txHash: string;
+}
+
+/**
+ * Decoded getTraderProfile() result
+ */
+export interface TraderProfile {
+  trader: string;
+  isRegistered: boolean;
+  lastActivity: bigint;
+}
+
+/**
+ * Decrypted private data of the connected trader
+ */
+export interface PrivateStats {
+  trader: string;
+  balance: bigint;
+  /**
+   * Part of the balance reserved as margin by open orders
+   */
+  reservedMargin: bigint;
+  /**
+   * Part of the balance locked as margin by open positions
+   */
+  lockedMargin: bigint;
+  totalTrades: number;
+}
+
+/**
+ * Parameters for placePrivateOrder()
+ */
+export interface OrderRequest {
+  amount: BigNumberish;
+  /**
+   * Target price in pips; ignored by market orders, which may pass 0
+   */
+  targetPrice: number;
+  pair: PairRef;
+  side: OrderSide | string;
+  /**
+   * Order type (default: limit)
+   */
+  orderType?: OrderType | string;
+}
+
+/**
+ * New values for amendOrder(); the pair, side and type of an order cannot change
+ */
+export interface AmendmentRequest {
+  amount: BigNumberish;
+  targetPrice: number;
+  /**
+   * Current type of the order, so a market order can keep a zero price
+   */
+  orderType?: OrderType | string;
+}
+
+/**
+ * Outcome of a mined transaction
+ */
+export interface TransactionResult {
+  txHash: string;
+  blockNumber: number;
+  receipt: ContractTransactionReceipt;
+}
+
+/**
+ * Outcome of placePrivateOrder()
+ */
+export interface PlacedOrder extends TransactionResult {
+  trader: string;
+  session: number;
+  orderIndex: number;
+  pair: PairSpec;
+  side: OrderSide;
+  orderType: OrderType;
+}
+
+/**
+ * Outcome of cancelOrder() and amendOrder()
+ */
+export interface OrderChange extends TransactionResult {
+  trader: string;
+  session: number;
+  orderIndex: number;
+}
+
+/**
+ * Outcome of startTradingSession()
+ */
+export interface StartedSession extends TransactionResult {
+  session: number;
+  startTime: bigint;
+}
+
+/**
+ * Outcome of listCurrencyPair() and delistCurrencyPair()
+ */
+export interface PairChange extends TransactionResult {
+  pair: PairSpec;
+}
+
+/**
+ * Outcome of setPairMargin()
+ */
+export interface MarginChange extends TransactionResult {
+  pair: PairSpec;
+  /**
+   * Margin requirement in basis points of the order amount
+   */
+  marginBps: number;
+}
+
+/**
+ * Outcome of markPosition()
+ */
+export interface PositionMark extends TransactionResult {
+  trader: string;
+  pair: PairSpec;
+  /**
+   * Session rate in pips the position is marked at after the call
+   */
+  markRate: number;
+  /**
+   * False if the position already was at the latest session rate
+   */
+  marked: boolean;
+}
+
+/**
+ * Accounts holding one role
+ */
+export interface RoleAssignment {
+  role: Role;
+  members: string[];
+}
+
+/**
+ * Outcome of grantRole() and revokeRole()
+ */
+export interface RoleChange extends TransactionResult {
+  role: Role;
+  account: string;
+  /**
+   * False if the account already held (grant) or did not hold (revoke) the role
+   */
+  changed: boolean;
+}
+
+/**
+ * Outcome of transferOwnership() and acceptOwnership()
+ */
+export interface OwnershipChange extends TransactionResult {
+  previousOwner: string;
+  newOwner: string;
+}
+
+/**
+ * Outcome of deposit()
+ */
+export interface Deposit extends TransactionResult {
+  trader: string;
+  amount: bigint;
+  /**
+   * Approval sent first because the allowance did not cover the amount
+   */
+  approval?: TransactionResult;
+}
+
+/**
+ * Outcome of requestWithdrawal()
+ */
+export interface WithdrawalRequest extends TransactionResult {
+  trader: string;
+  requestId: bigint;
+  amount: bigint;
+}
+
+/**
+ * A WithdrawalProcessed event: the decryption oracle's verdict on a withdrawal
+ */
+export interface ProcessedWithdrawal {
+  trader: string;
+  requestId: bigint;
+  amount: bigint;
+  /**
+   * Whether the encrypted balance covered the amount and the tokens were sent
+   */
+  approved: boolean;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface WithdrawalWaitOptions {
+  /**
+   * First block to search for the WithdrawalProcessed event (e.g. the request block)
+   */
+  fromBlock?: number;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Orders per executeBatch() transaction unless told otherwise, in the keeper, the CLI and
+ * the frontend: the coprocessor's per-transaction HCU limit only fits a few orders
+ */
+export const EXECUTION_BATCH_SIZE = 2;
+
+/**
+ * Outcome of executePrivateOrders() or one executeBatch()
+ */
+export interface ExecutionResult extends TransactionResult {
+  session: number;
+  executedOrders: { trader: string; orderIndex: number }[];
+  /**
+   * Orders cancelled instead, in a session ended with emergencyEndSession()
+   */
+  cancelledOrders: { trader: string; orderIndex: number }[];
+  /**
+   * Traders with orders left for later batches, 0 once the session is executed
+   */
+  remainingTraders: number;
+  /**
+   * True once every order is settled, or cancelled if the session was ended early
+   */
+  completed: boolean;
+  /**
+   * True if this transaction cancelled the last order of a session ended early
+   */
+  cancelled: boolean;
+}
+
+/**
+ * How far the execution of a session has progressed (executionCursors)
+ */
+export interface ExecutionProgress {
+  session: number;
+  traderCount: number;
+  /**
+   * Index in the session's traders of the next trader to process
+   */
+  nextTrader: number;
+  /**
+   * Index of that trader's next order
+   */
+  nextOrder: number;
+  settledOrders: number;
+  completed: boolean;
+  /**
+   * True if the session was ended with emergencyEndSession(); its orders are cancelled, not settled
+   */
+  endedEarly: boolean;
+}
+
+/**
+ * @notice Convert rates into the array startTradingSession expects: one entry per pair ID
+ * @dev Delisted pairs get 0, which the contract ignores
+ * @param pairs The contract's registry (default: the pairs listed at deployment)
+ */
+export function toRateArray(rates: ForexRates, pairs: readonly PairSpec[] = DEFAULT_PAIRS): number[] {
+  const listed = listedPairs(pairs);
+  const values = Array.isArray(rates)
+    ? [...(rates as readonly number[])]
+    : listed.map((spec) => {
+        const byPair = rates as Readonly<Record<string, number>>;
+        return byPair[spec.pair] ?? byPair[spec.name];
+      });
+
+  if (values.length !== listed.length) {
+    throw new Error(
+      `Expected ${listed.length} rates (${listed.map((spec) => spec.name).join(", ")}), got ${values.length}`
+    );
+  }
+
+  values.forEach((rate, index) => {
+    if (rate === undefined || !Number.isInteger(rate) || rate <= 0 || rate > 0xffffffff) {
+      throw new Error(`Invalid rate for ${listed[index].name}: ${rate}`);
+    }
+  });
+
+  const byId = pairs.map(() => 0);
+  listed.forEach((spec, index) => (byId[spec.pair] = values[index]));
+  return byId;
+}
+
+export class ForexTradingClient {
+  /**
+   * @param contract Typechain binding, already connected to a runner
+   */
+  constructor(readonly contract: PrivateForexTrading) {}
+
+  /**
+   * @notice Create a client for a deployed contract
+   * @param address Contract address
+   * @param runner Signer for transactions, or provider for read-only use
+   */
+  static connect(address: string, runner: ContractRunner): ForexTradingClient {
+    return new ForexTradingClient(PrivateForexTrading__factory.connect(address, runner));
+  }
+
+  /**
+   * @notice Same contract, different signer
+   */
+  withRunner(runner: ContractRunner): ForexTradingClient {
+    return new ForexTradingClient(this.contract.connect(runner));
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  async owner(): Promise<string> {
+    return this.contract.owner();
+  }
+
+  /**
+   * @notice Account that can accept ownership, undefined if no transfer is pending
+   */
+  async pendingOwner(): Promise<string | undefined> {
+    const pending = await this.contract.pendingOwner();
+    return BigInt(pending) === 0n ? undefined : pending;
+  }
+
+  async paused(): Promise<boolean> {
+    return this.contract.paused();
+  }
+
+  async hasRole(role: Role, account: string): Promise<boolean> {
+    return this.contract.hasRole(ROLE_IDS[role], account);
+  }
+
+  async getRoleMembers(role: Role): Promise<string[]> {
+    return [...(await this.contract.getRoleMembers(ROLE_IDS[role]))];
+  }
+
+  /**
+   * @notice Members of every role
+   */
+  async getRoleAssignments(): Promise<RoleAssignment[]> {
+    return Promise.all(ROLES.map(async (role) => ({ role, members: await this.getRoleMembers(role) })));
+  }
+
+  async currentSession(): Promise<number> {
+    return Number(await this.contract.currentSession());
+  }
+
+  async isSessionActive(): Promise<boolean> {
+    return this.contract.isSessionActive();
+  }
+
+  /**
+   * @notice Start time of the last session (deployment time before the first one)
+   * @dev The next session can start SESSION_DURATION seconds after this
+   */
+  async lastSessionTime(): Promise<number> {
+    return Number(await this.contract.lastSessionTime());
+  }
+
+  /**
+   * @notice Every pair in the contract's registry, listed or not, indexed by pair ID
+   */
+  async getCurrencyPairs(): Promise<PairSpec[]> {
+    const pairs = await this.contract.getCurrencyPairs();
+    return pairs.map((entry, index) => pairSpec(index, entry.symbol, Number(entry.decimals), entry.listed));
+  }
+
+  /**
+   * @notice Resolve a pair by ID or name against the on-chain registry
+   * @throws ValidationError if the registry has no such pair
+   */
+  async findPair(pair: CurrencyPairLike): Promise<PairSpec> {
+    return findPair(pair, await this.getCurrencyPairs());
+  }
+
+  /**
+   * @notice List a new currency pair, or list a delisted one again (admin only, between sessions)
+   * @param symbol BASE/QUOTE in upper case, e.g. "EUR/GBP"
+   * @param decimals Decimals of the pair's prices, e.g. 4 (pip 0.0001)
+   */
+  async listCurrencyPair(symbol: string, decimals: number): Promise<PairChange> {
+    const result = await this.confirm(this.contract.listCurrencyPair(symbol, decimals));
+    const listed = this.findEvent(result.receipt, "CurrencyPairListed");
+
+    return {
+      ...result,
+      pair: pairSpec(Number(listed.args.pairId), listed.args.symbol as string, Number(listed.args.decimals)),
+    };
+  }
+
+  /**
+   * @notice Delist a currency pair (admin only, between sessions)
+   */
+  async delistCurrencyPair(pair: CurrencyPairLike): Promise<PairChange> {
+    const spec = await this.findPair(pair);
+    const result = await this.confirm(this.contract.delistCurrencyPair(spec.pair));
+    return { ...result, pair: { ...spec, listed: false } };
+  }
+
+  /**
+   * @notice Margin requirement of a pair in basis points of the order amount (10000 is 1x)
+   */
+  async getPairMargin(pair: CurrencyPairLike): Promise<number> {
+    const spec = await this.findPair(pair);
+    return Number(await this.contract.pairMarginBps(spec.pair));
+  }
+
+  /**
+   * @notice Set the margin requirement, i.e. the leverage, of a pair (admin only, between sessions)
+   * @param marginBps Basis points of the order amount, from 100 (100x) to 10000 (1x); see leverageToMarginBps()
+   */
+  async setPairMargin(pair: CurrencyPairLike, marginBps: number): Promise<MarginChange> {
+    const spec = await this.findPair(pair);
+    const result = await this.confirm(this.contract.setPairMargin(spec.pair, marginBps));
+    const updated = this.findEvent(result.receipt, "PairMarginUpdated");
+
+    return { ...result, pair: spec, marginBps: Number(updated.args.marginBps) };
+  }
+
+  /**
+   * @notice Give an account a role (admin only)
+   */
+  async grantRole(role: Role, account: string): Promise<RoleChange> {
+    const result = await this.confirm(this.contract.grantRole(ROLE_IDS[role], account));
+    return { ...result, role, account, changed: this.hasEvent(result.receipt, "RoleGranted") };
+  }
+
+  /**
+   * @notice Take a role away from an account (admin only; the owner keeps admin)
+   */
+  async revokeRole(role: Role, account: string): Promise<RoleChange> {
+    const result = await this.confirm(this.contract.revokeRole(ROLE_IDS[role], account));
+    return { ...result, role, account, changed: this.hasEvent(result.receipt, "RoleRevoked") };
+  }
+
+  /**
+   * @notice Propose a new owner, who must call acceptOwnership() (owner only)
+   * @param newOwner Proposed owner; the zero address cancels a pending transfer
+   */
+  async transferOwnership(newOwner: string): Promise<OwnershipChange> {
+    const result = await this.confirm(this.contract.transferOwnership(newOwner));
+    const started = this.findEvent(result.receipt, "OwnershipTransferStarted");
+
+    return {
+      ...result,
+      previousOwner: started.args.previousOwner as string,
+      newOwner: started.args.newOwner as string,
+    };
+  }
+
+  /**
+   * @notice Accept ownership as the pending owner; the admin role moves along
+   */
+  async acceptOwnership(): Promise<OwnershipChange> {
+    const result = await this.confirm(this.contract.acceptOwnership());
+    const transferred = this.findEvent(result.receipt, "OwnershipTransferred");
+
+    return {
+      ...result,
+      previousOwner: transferred.args.previousOwner as string,
+      newOwner: transferred.args.newOwner as string,
+    };
+  }
+
+  /**
+   * @notice Suspend registration, deposits, new sessions and order placement (pauser only)
+   */
+  async pause(): Promise<TransactionResult> {
+    return this.confirm(this.contract.pause());
+  }
+
+  /**
+   * @notice Resume trading (pauser only)
+   */
+  async unpause(): Promise<TransactionResult> {
+    return this.confirm(this.contract.unpause());
+  }
+
+  async getTraderOrderCount(trader: string): Promise<number> {
+    return Number(await this.contract.getTraderOrderCount(trader));
+  }
+
+  /**
+   * @notice Number of orders a trader placed in a session, cancelled ones included
+   */
+  async getSessionOrderCount(session: number, trader: string): Promise<number> {
+    return Number(await this.contract.getSessionOrderCount(session, trader));
+  }
+
+  /**
+   * @notice Register the connected signer as a trader with an empty balance (see deposit())
+   */
+  async registerTrader(): Promise<TransactionResult> {
+    return this.confirm(this.contract.registerTrader());
+  }
+
+  /**
+   * @notice The ERC-20 collateral token, connected to the same runner
+   */
+  async collateralToken(): Promise<IERC20> {
+    return IERC20__factory.connect(await this.contract.collateralToken(), this.contract.runner);
+  }
+
+  /**
+   * @notice Collateral tokens an account holds in its wallet, outside the contract
+   */
+  async getCollateralBalance(account: string): Promise<bigint> {
+    return (await this.collateralToken()).balanceOf(account);
+  }
+
+  /**
+   * @notice Deposit collateral into the connected trader's encrypted balance
+   * @dev Approves the contract for the amount first if the allowance does not cover it
+   * @throws ValidationError (INSUFFICIENT_COLLATERAL) if the wallet holds fewer tokens
+   */
+  async deposit(amount: BigNumberish): Promise<Deposit> {
+    const value = toBigInt(amount);
+    const trader = await this.getSigner().getAddress();
+    const token = await this.collateralToken();
+
+    const held = await token.balanceOf(trader);
+    if (held < value) {
+      throw new ValidationError(
+        `Cannot deposit ${value}: the wallet holds ${held} collateral tokens`,
+        "INSUFFICIENT_COLLATERAL",
+        "Get collateral tokens first (on local networks: the faucet command)"
+      );
+    }
+
+    const spender = await this.getAddress();
+    let approval: TransactionResult | undefined;
+    if ((await token.allowance(trader, spender)) < value) {
+      approval = await this.confirm(token.approve(spender, value));
+    }
+
+    const result = await this.confirm(this.contract.deposit(value));
+    return { ...result, trader, amount: value, approval };
+  }
+
+  /**
+   * @notice Request a withdrawal from the connected trader's encrypted balance
+   * @dev The balance is checked under encryption; the tokens only move once the
+   *      decryption oracle settles the request (see waitForWithdrawal())
+   */
+  async requestWithdrawal(amount: BigNumberish): Promise<WithdrawalRequest> {
+    const result = await this.confirm(this.contract.requestWithdrawal(amount));
+    const requested = this.findEvent(result.receipt, "WithdrawalRequested");
+
+    return {
+      ...result,
+      trader: requested.args.trader as string,
+      requestId: requested.args.requestId as bigint,
+      amount: requested.args.amount as bigint,
+    };
+  }
+
+  /**
+   * @notice Request ID of a trader's withdrawal awaiting the oracle, undefined if none
+   */
+  async getPendingWithdrawal(trader: string): Promise<bigint | undefined> {
+    const pending = await this.contract.pendingWithdrawals(trader);
+    return pending === 0n ? undefined : pending - 1n;
+  }
+
+  /**
+   * @notice The oracle's verdict on a withdrawal, undefined while it is still pending
+   */
+  async getProcessedWithdrawal(requestId: BigNumberish, fromBlock = 0): Promise<ProcessedWithdrawal | undefined> {
+    const events = await this.contract.queryFilter(
+      this.contract.filters.WithdrawalProcessed(undefined, requestId),
+      fromBlock
+    );
+    if (events.length === 0) {
+      return undefined;
+    }
+
+    const [event] = events;
+    return {
+      trader: event.args.trader,
+      requestId: event.args.requestId,
+      amount: event.args.amount,
+      approved: event.args.approved,
+      blockNumber: event.blockNumber,
+      txHash: event.transactionHash,
+    };
+  }
+
+  /**
+   * @notice Poll until the decryption oracle settles a withdrawal
+   * @throws If the oracle has not answered within the timeout (default: 5 minutes)
+   */
+  async waitForWithdrawal(requestId: BigNumberish, options: WithdrawalWaitOptions = {}): Promise<ProcessedWithdrawal> {
+    const { fromBlock = 0, pollIntervalMs = 5000, timeoutMs = 300_000 } = options;
+    const deadline = AbortSignal.timeout(timeoutMs);
+
+    while (!deadline.aborted) {
+      const processed = await this.getProcessedWithdrawal(requestId, fromBlock);
+      if (processed) {
+        return processed;
+      }
+      await sleep(pollIntervalMs, deadline);
+    }
+    throw new Error(`Withdrawal ${requestId} was not settled by the decryption oracle within ${timeoutMs / 1000}s`);
+  }
+
+  /**
+   * @notice Start a trading session (rate oracle only)
+   * @param rates Rates in pips, one per listed pair in pair ID order, or keyed by pair ID or symbol
+   */
+  async startTradingSession(rates: ForexRates): Promise<StartedSession> {
+    const rateArray = toRateArray(rates, await this.getCurrencyPairs());
+    const result = await this.confirm(this.contract.startTradingSession(rateArray));
+    const started = this.findEvent(result.receipt, "SessionStarted");
+
+    return {
+      ...result,
+      session: Number(started.args.session),
+      startTime: started.args.startTime as bigint,
+    };
+  }
+
+  /**
+   * @notice Place a private order in the active session
+   * @dev Amount, price, pair, side and type are sent in plaintext and encrypted on-chain;
+   *      use placeEncryptedOrder() to keep them out of the calldata
+   * @throws ValidationError for an unknown side or type
+   */
+  async placePrivateOrder(order: OrderRequest): Promise<PlacedOrder> {
+    const pair = await this.orderPair(order.pair);
+    const side = parseOrderSide(order.side);
+    const orderType = parseOrderType(order.orderType ?? OrderType.Limit);
+    const result = await this.confirm(
+      this.contract["placePrivateOrder(uint64,uint32,uint8,uint8,uint8)"](
+        order.amount,
+        order.targetPrice,
+        pair.pair,
+        side,
+        orderType
+      )
+    );
+    return this.toPlacedOrder(result, pair, side, orderType);
+  }
+
+  /**
+   * @notice Place a private order whose details are encrypted before leaving the client
+   * @param encryptor Relayer instance, or hre.fhevm on local networks
+   */
+  async placeEncryptedOrder(order: OrderRequest, encryptor: InputEncryptor): Promise<PlacedOrder> {
+    const pair = await this.orderPair(order.pair);
+    const side = parseOrderSide(order.side);
+    const orderType = parseOrderType(order.orderType ?? OrderType.Limit);
+    const input = await encryptOrder(encryptor, await this.getAddress(), await this.getSigner().getAddress(), {
+      amount: toBigInt(order.amount),
+      targetPrice: order.targetPrice,
+      pair: pair.pair,
+      side,
+      orderType,
+    });
+
+    const result = await this.confirm(
+      this.contract["placePrivateOrder(bytes32,bytes32,bytes32,bytes32,bytes32,bytes)"](
+        input.amount,
+        input.targetPrice,
+        input.pair,
+        input.side,
+        input.orderType,
+        input.inputProof
+      )
+    );
+    return this.toPlacedOrder(result, pair, side, orderType);
+  }
+
+  /**
+   * @notice Withdraw one of the connected trader's orders in the active session
+   * @param orderIndex Index among the trader's orders of the current session
+   */
+  async cancelOrder(orderIndex: number): Promise<OrderChange> {
+    const result = await this.confirm(this.contract.cancelOrder(orderIndex));
+    return this.toOrderChange(result, "OrderCancelled");
+  }
+
+  /**
+   * @notice Replace the amount and target price of one of the connected trader's orders
+   * @dev The new values are encrypted client-side; the order keeps its pair, side and
+   *      type, so the target price must be in pips of that pair
+   * @param encryptor Relayer instance, or hre.fhevm on local networks
+   */
+  async amendOrder(orderIndex: number, amendment: AmendmentRequest, encryptor: InputEncryptor): Promise<OrderChange> {
+    const input = await encryptAmendment(encryptor, await this.getAddress(), await this.getSigner().getAddress(), {
+      amount: toBigInt(amendment.amount),
+      targetPrice: amendment.targetPrice,
+      orderType: parseOrderType(amendment.orderType ?? OrderType.Limit),
+    });
+
+    const result = await this.confirm(
+      this.contract.amendOrder(orderIndex, input.amount, input.targetPrice, input.inputProof)
+    );
+    return this.toOrderChange(result, "OrderAmended");
+  }
+
+  /**
+   * @notice Execute all orders of the ended session in one transaction (session operator only)
+   * @dev Exceeds the per-transaction HCU limit beyond a few orders; use executeInBatches() for more
+   */
+  async executePrivateOrders(): Promise<ExecutionResult> {
+    return this.toExecutionResult(await this.confirm(this.contract.executePrivateOrders()));
+  }
+
+  /**
+   * @notice End the active session early and cancel its open orders (session operator only)
+   * @dev Cancels a bounded number of orders; if the result is not completed, executeInBatches()
+   *      cancels the rest. The next session then starts under the same ID
+   */
+  async emergencyEndSession(): Promise<ExecutionResult> {
+    return this.toExecutionResult(await this.confirm(this.contract.emergencyEndSession()));
+  }
+
+  /**
+   * @notice Settle up to maxOrders orders of the ended session, continuing from the previous batch
+   *         (session operator only)
+   * @throws ValidationError (INVALID_BATCH_SIZE) unless maxOrders is a positive integer
+   */
+  async executeBatch(maxOrders: number): Promise<ExecutionResult> {
+    if (!Number.isInteger(maxOrders) || maxOrders <= 0) {
+      throw new ValidationError(
+        `Invalid batch size ${maxOrders}`,
+        "INVALID_BATCH_SIZE",
+        REVERT_REASONS["Invalid batch size"].hint
+      );
+    }
+    return this.toExecutionResult(await this.confirm(this.contract.executeBatch(maxOrders)));
+  }
+
+  /**
+   * @notice Send executeBatch() transactions until the ended session is fully executed
+   * @dev Resumes from the on-chain cursor, so an interrupted run can simply be started again.
+   *      After emergencyEndSession(), the batches cancel the remaining orders instead
+   * @param maxOrders Orders to settle per transaction
+   * @param onBatch Called after every confirmed batch
+   * @return The result of every batch, the last one completing the session
+   */
+  async executeInBatches(
+    maxOrders: number,
+    onBatch?: (result: ExecutionResult) => void
+  ): Promise<ExecutionResult[]> {
+    const batches: ExecutionResult[] = [];
+    let result: ExecutionResult;
+    do {
+      result = await this.executeBatch(maxOrders);
+      batches.push(result);
+      onBatch?.(result);
+    } while (!result.completed);
+    return batches;
+  }
+
+  /**
+   * @notice Execution progress of a session (default: the current one)
+   * @dev A session is completed once the current session ID has moved past it, or, if it
+   *      was ended early, once its last order is cancelled and it is no longer active
+   */
+  async getExecutionProgress(session?: number): Promise<ExecutionProgress> {
+    const current = await this.currentSession();
+    const target = session ?? current;
+    const [cursor, history, state] = await Promise.all([
+      this.contract.executionCursors(target),
+      this.getSessionHistory(target),
+      this.contract.tradingSessions(target),
+    ]);
+
+    return {
+      session: target,
+      traderCount: history.traderCount,
+      nextTrader: Number(cursor.traderIndex),
+      nextOrder: Number(cursor.orderIndex),
+      settledOrders: Number(cursor.settledOrders),
+      completed: target < current || (state.endedEarly && !state.sessionActive),
+      endedEarly: state.endedEarly,
+    };
+  }
+
+  async getCurrentSessionInfo(): Promise<SessionInfo> {
+    const info = await this.contract.getCurrentSessionInfo();
+    return {
+      session: Number(info.session),
+      pricesSet: info.pricesSet,
+      sessionActive: info.sessionActive,
+      startTime: info.startTime,
+      endTime: info.endTime,
+      activeTraderCount: Number(info.activeTraderCount),
+    };
+  }
+
+  async getSessionHistory(session: number): Promise<SessionHistory> {
+    const history = await this.contract.getSessionHistory(session);
+    return {
+      session,
+      sessionActive: history.sessionActive,
+      pricesSet: history.pricesSet,
+      startTime: history.startTime,
+      endTime: history.endTime,
+      traderCount: Number(history.traderCount),
+      totalVolume: history.totalVolume,
+    };
+  }
+
+  /**
+   * @notice Session rates in pips, indexed by pair ID; 0 for pairs the session did not quote
+   */
+  async getSessionQuotes(session: number): Promise<number[]> {
+    const pairCount = Number(await this.contract.pairCount());
+    const quotes = await Promise.all(
+      Array.from({ length: pairCount }, (_, pair) => this.contract.sessionQuotes(session, pair))
+    );
+    return quotes.map(Number);
+  }
+
+  /**
+   * @notice The most recent session with rates: the current one once started, else the last executed one
+   * @return Session ID, or undefined before the first session
+   */
+  async latestQuotedSession(): Promise<number | undefined> {
+    const info = await this.getCurrentSessionInfo();
+    if (info.pricesSet) return info.session;
+    return info.session > 1 ? info.session - 1 : undefined;
+  }
+
+  /**
+   * @notice Encrypted position of a trader in a pair, decryptable only by that trader
+   */
+  async getPosition(trader: string, pair: number): Promise<PositionRecord> {
+    const position = await this.contract.positions(trader, pair);
+    return {
+      trader,
+      pair,
+      encryptedLong: position.encryptedLong,
+      encryptedShort: position.encryptedShort,
+      encryptedRealizedProfit: position.encryptedRealizedProfit,
+      encryptedRealizedLoss: position.encryptedRealizedLoss,
+      encryptedMargin: position.encryptedMargin,
+      markRate: Number(position.markRate),
+    };
+  }
+
+  /**
+   * @notice Book a position's P&L since its mark rate into the trader's balance, at the latest session rate
+   * @dev Anyone can mark any trader's position; the FHE cost covers that one pair only
+   */
+  async markPosition(trader: string, pair: CurrencyPairLike): Promise<PositionMark> {
+    const spec = await this.findPair(pair);
+    const result = await this.confirm(this.contract.markPosition(trader, spec.pair));
+    const { markRate } = await this.getPosition(trader, spec.pair);
+
+    return { ...result, trader, pair: spec, markRate, marked: this.hasEvent(result.receipt, "PositionMarked") };
+  }
+
+  async getPrivateOrder(session: number, trader: string, orderIndex: number): Promise<PrivateOrderRecord> {
+    const order = await this.contract.privateOrders(session, trader, orderIndex);
+    return {
+      session,
+      trader,
+      orderIndex,
+      encryptedAmount: order.encryptedAmount,
+      encryptedPrice: order.encryptedPrice,
+      encryptedPairId: order.encryptedPairId,
+      encryptedIsSell: order.encryptedIsSell,
+      encryptedOrderType: order.encryptedOrderType,
+      encryptedFilled: order.encryptedFilled,
+      encryptedMargin: order.encryptedMargin,
+      isExecuted: order.isExecuted,
+      isCancelled: order.isCancelled,
+      timestamp: order.timestamp,
+    };
+  }
+
+  /**
+   * @notice The connected trader's orders in a session, in placement order
+   * @param session Session ID (default: the current session)
+   */
+  async getMyOrders(session?: number): Promise<PrivateOrderRecord[]> {
+    const trader = await this.getSigner().getAddress();
+    const target = session ?? (await this.currentSession());
+    const count = await this.getSessionOrderCount(target, trader);
+
+    return Promise.all(Array.from({ length: count }, (_, orderIndex) => this.getPrivateOrder(target, trader, orderIndex)));
+  }
+
+  /**
+   * @notice Decrypt the connected trader's orders in a session
+   * @dev Amount, price, pair, side, type and margin of every order, plus the fill result of
+   *      executed ones, go into a single decryption request, so the trader signs one permit
+   * @param session Session ID (default: the current session)
+   */
+  async decryptMyOrders(decryptor: UserDecryptor, session?: number): Promise<MyOrder[]> {
+    const orders = await this.getMyOrders(session);
+    if (orders.length === 0) {
+      return [];
+    }
+
+    const contractAddress = await this.getAddress();
+    const requests = orders.flatMap((order) => {
+      const handles: DecryptionRequest[] = [
+        { handle: order.encryptedAmount, type: "euint64", contractAddress },
+        { handle: order.encryptedPrice, type: "euint32", contractAddress },
+        { handle: order.encryptedPairId, type: "euint8", contractAddress },
+        { handle: order.encryptedIsSell, type: "ebool", contractAddress },
+        { handle: order.encryptedOrderType, type: "euint8", contractAddress },
+        { handle: order.encryptedMargin, type: "euint64", contractAddress },
+      ];
+      // The fill result handle is zero until execution and cannot be decrypted before
+      if (order.isExecuted) {
+        handles.push({ handle: order.encryptedFilled, type: "ebool", contractAddress });
+      }
+      return handles;
+    });
+    const values = await decryptor.userDecrypt(requests, this.getSigner());
+
+    let offset = 0;
+    return orders.map((order) => {
+      const count = order.isExecuted ? 7 : 6;
+      const [amount, price, pair, isSell, orderType, margin, filled] = values.slice(offset, offset + count);
+      offset += count;
+
+      return {
+        session: order.session,
+        orderIndex: order.orderIndex,
+        amount,
+        margin,
+        targetPrice: Number(price),
+        pair: Number(pair),
+        side: isSell === 1n ? OrderSide.Sell : OrderSide.Buy,
+        orderType: Number(orderType),
+        filled: order.isExecuted ? filled === 1n : undefined,
+        isExecuted: order.isExecuted,
+        isCancelled: order.isCancelled,
+        timestamp: order.timestamp,
+      };
+    });
+  }
+
+  /**
+   * @notice OrderExecuted events of a session, in log order
+   * @param fromBlock First block to search (e.g. the deployment block)
+   */
+  async getExecutedOrders(session: number, fromBlock = 0): Promise<ExecutedOrderEvent[]> {
+    const events = await this.contract.queryFilter(this.contract.filters.OrderExecuted(undefined, session), fromBlock);
+    return events.map((event) => ({
+      trader: event.args.trader,
+      session: Number(event.args.session),
+      orderIndex: Number(event.args.orderIndex),
+      blockNumber: event.blockNumber,
+      txHash: event.transactionHash,
+    }));
+  }
+
+  async getTraderProfile(trader: string): Promise<TraderProfile> {
+    const profile = await this.contract.getTraderProfile(trader);
+    return {
+      trader,
+      isRegistered: profile.isRegistered,
+      lastActivity: profile.lastActivity,
+    };
+  }
+
+  /**
+   * @notice Encrypted balance handle of the connected trader
+   */
+  async getMyEncryptedBalance(): Promise<string> {
+    return this.contract.getMyEncryptedBalance();
+  }
+
+  /**
+   * @notice Encrypted reserved margin handle of the connected trader
+   */
+  async getMyEncryptedReservedMargin(): Promise<string> {
+    return this.contract.getMyEncryptedReservedMargin();
+  }
+
+  /**
+   * @notice Encrypted locked margin handle of the connected trader
+   */
+  async getMyEncryptedLockedMargin(): Promise<string> {
+    return this.contract.getMyEncryptedLockedMargin();
+  }
+
+  /**
+   * @notice Encrypted trade count handle of the connected trader
+   */
+  async getMyEncryptedTotalTrades(): Promise<string> {
+    return this.contract.getMyEncryptedTotalTrades();
+  }
+
+  /**
+   * @notice Decrypt the connected trader's balance
+   * @param decryptor Relayer, or the FHEVM mock on local networks
+   */
+  async decryptMyBalance(decryptor: UserDecryptor): Promise<bigint> {
+    return (await this.decryptMyStats(decryptor)).balance;
+  }
+
+  /**
+   * @notice Decrypt the connected trader's executed trade count
+   */
+  async decryptMyTotalTrades(decryptor: UserDecryptor): Promise<number> {
+    return (await this.decryptMyStats(decryptor)).totalTrades;
+  }
+
+  /**
+   * @notice Decrypt the connected trader's balance, reserved and locked margin and trade count
+   * @dev All handles go into a single decryption request, so the trader signs one permit
+   */
+  async decryptMyStats(decryptor: UserDecryptor): Promise<PrivateStats> {
+    const signer = this.getSigner();
+    const contractAddress = await this.getAddress();
+    const [balanceHandle, reservedHandle, lockedHandle, tradesHandle] = await Promise.all([
+      this.getMyEncryptedBalance(),
+      this.getMyEncryptedReservedMargin(),
+      this.getMyEncryptedLockedMargin(),
+      this.getMyEncryptedTotalTrades(),
+    ]);
+
+    const [balance, reservedMargin, lockedMargin, totalTrades] = await decryptor.userDecrypt(
+      [
+        { handle: balanceHandle, type: "euint64", contractAddress },
+        { handle: reservedHandle, type: "euint64", contractAddress },
+        { handle: lockedHandle, type: "euint64", contractAddress },
+        { handle: tradesHandle, type: "euint32", contractAddress },
+      ],
+      signer
+    );
+
+    return {
+      trader: await signer.getAddress(),
+      balance,
+      reservedMargin,
+      lockedMargin,
+      totalTrades: Number(totalTrades),
+    };
+  }
+
+  /**
+   * @notice Resolve the pair of an order and check that it is listed
+   * @dev The contract cannot reject an encrypted order on a delisted pair; it would
+   *      just never fill, so both overloads are checked here first
+   */
+  private async orderPair(pair: PairRef): Promise<PairSpec> {
+    const spec = await this.findPair(typeof pair === "object" ? pair.pair : pair);
+    if (!spec.listed) {
+      throw new ValidationError(
+        `${spec.name} is delisted`,
+        "INVALID_CURRENCY_PAIR",
+        "Use the ID or symbol of a listed currency pair (see the pairs command)"
+      );
+    }
+    return spec;
+  }
+
+  /**
+   * @notice Read the PrivateOrderPlaced event of an order transaction
+   */
+  private toPlacedOrder(result: TransactionResult, pair: PairSpec, side: OrderSide, orderType: OrderType): PlacedOrder {
+    const placed = this.findEvent(result.receipt, "PrivateOrderPlaced");
+
+    return {
+      ...result,
+      trader: placed.args.trader as string,
+      session: Number(placed.args.session),
+      orderIndex: Number(placed.args.orderIndex),
+      pair,
+      side,
+      orderType,
+    };
+  }
+
+  /**
+   * @notice Read the OrderCancelled or OrderAmended event of an order transaction
+   */
+  private toOrderChange(result: TransactionResult, eventName: "OrderCancelled" | "OrderAmended"): OrderChange {
+    const changed = this.findEvent(result.receipt, eventName);
+
+    return {
+      ...result,
+      trader: changed.args.trader as string,
+      session: Number(changed.args.session),
+      orderIndex: Number(changed.args.orderIndex),
+    };
+  }
+
+  /**
+   * @notice Read the BatchExecuted, SessionExecuted/SessionCancelled and OrderExecuted/OrderCancelled
+   *         events of an execution transaction
+   */
+  private toExecutionResult(result: TransactionResult): ExecutionResult {
+    const batch = this.findEvent(result.receipt, "BatchExecuted");
+    const events = this.parseEvents(result.receipt);
+    const orders = (name: string) =>
+      events
+        .filter((event) => event.name === name)
+        .map((event) => ({ trader: event.args.trader as string, orderIndex: Number(event.args.orderIndex) }));
+    const cancelled = this.hasEvent(result.receipt, "SessionCancelled");
+
+    return {
+      ...result,
+      session: Number(batch.args.session),
+      executedOrders: orders("OrderExecuted"),
+      cancelledOrders: orders("OrderCancelled"),
+      remainingTraders: Number(batch.args.remainingTraders),
+      completed: cancelled || this.hasEvent(result.receipt, "SessionExecuted"),
+      cancelled,
+    };
+  }
+
+  /**
+   * @notice The connected runner as a signer
+   * @dev Encrypted inputs are bound to the sender and user decryption needs an
+   *      EIP-712 signature, so a read-only provider is not enough
+   */
+  getSigner(): Signer {
+    const runner = this.contract.runner;
+    if (!runner || !("signTypedData" in runner)) {
+      throw new Error("Encryption and user decryption require a client connected to a signer");
+    }
+    return runner as Signer;
+  }
+
+  /**
+   * @notice Wait for a contract transaction to be mined
+   * @dev Reverts and provider failures are rethrown as ForexTradingError subclasses
+   */
+  private async confirm(pending: Promise<ContractTransactionResponse>): Promise<TransactionResult> {
+    try {
+      const tx = await pending;
+      const receipt = await tx.wait();
+      if (!receipt) {
+        throw new Error(`Transaction ${tx.hash} was not mined`);
+      }
+      return { txHash: receipt.hash, blockNumber: receipt.blockNumber, receipt };
+    } catch (error) {
+      throw decodeError(error);
+    }
+  }
+
+  /**
+   * @notice Decode this contract's events from a receipt, in log order
+   */
+  private parseEvents(receipt: ContractTransactionReceipt) {
+    return receipt.logs.map((log) => this.contract.interface.parseLog(log)).filter((event) => event !== null);
+  }
+
+  private findEvent(receipt: ContractTransactionReceipt, name: string) {
+    const event = this.parseEvents(receipt).find((candidate) => candidate.name === name);
+    if (!event) {
+      throw new Error(`Expected ${name} event in transaction ${receipt.hash}`);
+    }
+    return event;
+  }
+
+  private hasEvent(receipt: ContractTransactionReceipt, name: string): boolean {
+    return this.parseEvents(receipt).some((candidate) => candidate.name === name);
+  }
+}
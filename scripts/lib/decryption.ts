@@ -0,0 +1,174 @@
+import { ZeroHash } from "ethers";
+import type { Signer } from "ethers";
+import type { FhevmType } from "@fhevm/hardhat-plugin";
+import { DecryptionError, ForexTradingError } from "./errors";
+import { RelayerInstance, RelayerOptions, createRelayerInstance } from "./relayer";
+
+/**
+ * @title User Decryption
+ * @notice Decrypts encrypted handles the connected trader has been granted access to
+ * @dev Implements the FHEVM user-decryption flow behind a small interface so the
+ *      client does not care where plaintexts come from:
+ *      - RelayerDecryptor: real networks. Generates a throwaway keypair, has the trader
+ *        sign an EIP-712 permit for it, and asks the Zama relayer to re-encrypt the
+ *        handles under that key before decrypting them locally
+ *      - FhevmMockDecryptor: hardhat / localhost, backed by the @fhevm/hardhat-plugin
+ *        mock coprocessor. Used by the tests as the relayer stand-in
+ *
+ *      Both only succeed for handles the contract shared with the trader via FHE.allow().
+ *
+ * @custom:usage const decryptor = new RelayerDecryptor({ network: rpcUrl });
+ *               const { balance, totalTrades } = await client.decryptMyStats(decryptor);
+ */
+
+/**
+ * Encrypted types the contract hands out to traders
+ */
+export type EncryptedType = "ebool" | "euint8" | "euint32" | "euint64";
+
+/**
+ * One handle to decrypt
+ */
+export interface DecryptionRequest {
+  handle: string;
+  type: EncryptedType;
+  contractAddress: string;
+}
+
+/**
+ * Anything that can user-decrypt handles on behalf of a signer
+ */
+export interface UserDecryptor {
+  /**
+   * @notice Decrypt handles the signer has ACL access to
+   * @return Plaintexts in request order (ebool decrypts to 0n / 1n)
+   */
+  userDecrypt(requests: DecryptionRequest[], signer: Signer): Promise<bigint[]>;
+}
+
+/**
+ * How long a signed decryption permit stays valid
+ */
+export const DECRYPTION_PERMIT_DAYS = 1;
+
+/**
+ * @notice Whether a handle was never assigned on-chain
+ * @dev Uninitialized encrypted values read as bytes32(0) and decrypt to zero
+ */
+export function isUninitializedHandle(handle: string): boolean {
+  return handle === ZeroHash;
+}
+
+/**
+ * @notice Run a decryption, skipping uninitialized handles and wrapping failures
+ */
+async function decryptInitialized(
+  requests: DecryptionRequest[],
+  decrypt: (pending: DecryptionRequest[]) => Promise<bigint[]>
+): Promise<bigint[]> {
+  const pending = requests.filter((request) => !isUninitializedHandle(request.handle));
+  if (pending.length === 0) {
+    return requests.map(() => 0n);
+  }
+
+  let values: bigint[];
+  try {
+    values = await decrypt(pending);
+  } catch (error) {
+    if (error instanceof ForexTradingError) throw error;
+    throw new DecryptionError(
+      `User decryption failed: ${error instanceof Error ? error.message : String(error)}`,
+      "DECRYPTION_FAILED",
+      "Make sure the signer was granted access to these values with FHE.allow() and the relayer is reachable",
+      error
+    );
+  }
+
+  const byHandle = new Map(pending.map((request, index) => [request.handle, values[index]]));
+  return requests.map((request) => byHandle.get(request.handle) ?? 0n);
+}
+
+/**
+ * @notice User decryption through the Zama relayer (Sepolia and other live networks)
+ * @dev The relayer SDK instance is created on first use
+ */
+export class RelayerDecryptor implements UserDecryptor {
+  private instance?: Promise<RelayerInstance>;
+
+  constructor(private readonly options: RelayerOptions) {}
+
+  async userDecrypt(requests: DecryptionRequest[], signer: Signer): Promise<bigint[]> {
+    return decryptInitialized(requests, async (pending) => {
+      const instance = await this.getInstance();
+      const user = await signer.getAddress();
+      const contractAddresses = [...new Set(pending.map((request) => request.contractAddress))];
+
+      // 1. Fresh keypair the relayer re-encrypts the plaintexts under
+      const keypair = instance.generateKeypair();
+
+      // 2. EIP-712 permit proving the trader authorizes this public key for these contracts
+      const startTimestamp = Math.floor(Date.now() / 1000).toString();
+      const durationDays = DECRYPTION_PERMIT_DAYS.toString();
+      const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, durationDays);
+      const signature = await signer.signTypedData(
+        eip712.domain,
+        { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+        eip712.message
+      );
+
+      // 3. Re-encryption request; the SDK decrypts the response with the private key
+      const result = await instance.userDecrypt(
+        pending.map(({ handle, contractAddress }) => ({ handle, contractAddress })),
+        keypair.privateKey,
+        keypair.publicKey,
+        signature.replace(/^0x/, ""),
+        contractAddresses,
+        user,
+        startTimestamp,
+        durationDays
+      );
+
+      return pending.map(({ handle }) => BigInt(result[handle] as bigint | string | number));
+    });
+  }
+
+  private getInstance(): Promise<RelayerInstance> {
+    this.instance ??= createRelayerInstance(this.options);
+    return this.instance;
+  }
+}
+
+/**
+ * Subset of the @fhevm/hardhat-plugin runtime used for mock decryption (`hre.fhevm`)
+ */
+export interface MockFhevm {
+  userDecryptEuint(type: FhevmType, handle: string, contractAddress: string, signer: Signer): Promise<bigint>;
+  userDecryptEbool(handle: string, contractAddress: string, signer: Signer): Promise<boolean>;
+}
+
+/**
+ * @notice User decryption against the FHEVM mock on hardhat / localhost
+ * @dev Performs the same ACL check as the relayer, so tests catch missing FHE.allow() calls.
+ *      The plugin is only loaded here: importing it outside a hardhat run throws
+ *      HH5 (HardhatContext is not created), which would break every CLI command.
+ *      Handles are decrypted one at a time: concurrent decryptions race on the mock
+ *      coprocessor's event cursor and fail with "Parse event ... in backward order".
+ */
+export class FhevmMockDecryptor implements UserDecryptor {
+  constructor(private readonly fhevm: MockFhevm) {}
+
+  async userDecrypt(requests: DecryptionRequest[], signer: Signer): Promise<bigint[]> {
+    const { FhevmType } = await import("@fhevm/hardhat-plugin");
+    return decryptInitialized(requests, async (pending) => {
+      const values: bigint[] = [];
+      for (const { handle, type, contractAddress } of pending) {
+        values.push(
+          type === "ebool"
+            ? BigInt(await this.fhevm.userDecryptEbool(handle, contractAddress, signer))
+            : await this.fhevm.userDecryptEuint(FhevmType[type], handle, contractAddress, signer)
+        );
+      }
+      return values;
+    });
+  }
+}
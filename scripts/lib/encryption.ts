@@ -0,0 +1,207 @@
+import { hexlify } from "ethers";
+import { REVERT_REASONS, ValidationError } from "./errors";
+import { OrderSide, OrderType, isOrderType } from "./order-types";
+import { RelayerOptions, createRelayerInstance } from "./relayer";
+
+/**
+ * @title Input Encryption
+ * @notice Builds client-side encrypted inputs for
+ *         placePrivateOrder(externalEuint64, externalEuint32, externalEuint8, externalEbool, externalEuint8, bytes)
+ *         and amendOrder(uint256, externalEuint64, externalEuint32, bytes)
+ * @dev Amount, target price, pair, side and order type are encrypted together into one input
+ *      bound to the contract and the sender, giving one handle per value plus a single proof.
+ *      The contract cannot require() on ciphertexts, so the checks the plaintext
+ *      overload does on-chain are done here before encrypting.
+ *
+ *      Encryptors:
+ *      - Live networks: the Zama relayer SDK instance (createRelayerEncryptor)
+ *      - hardhat / localhost: `hre.fhevm` from @fhevm/hardhat-plugin
+ *
+ * @custom:usage const input = await encryptOrder(fhevm, contractAddress, trader.address, {
+ *                 amount: 1000n, targetPrice: 11000, pair: 0, side: OrderSide.Buy, orderType: OrderType.Limit,
+ *               });
+ */
+
+/**
+ * Encrypted input under construction, as returned by createEncryptedInput()
+ */
+export interface EncryptedInputBuilder {
+  addBool(value: boolean | number | bigint): EncryptedInputBuilder;
+  add8(value: number | bigint): EncryptedInputBuilder;
+  add32(value: number | bigint): EncryptedInputBuilder;
+  add64(value: number | bigint): EncryptedInputBuilder;
+  encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+}
+
+/**
+ * Anything that can create encrypted inputs (relayer SDK instance or hre.fhevm)
+ */
+export interface InputEncryptor {
+  createEncryptedInput(contractAddress: string, userAddress: string): EncryptedInputBuilder;
+}
+
+/**
+ * Plaintext order values to encrypt
+ */
+export interface OrderValues {
+  amount: bigint;
+  /**
+   * Target price in pips; ignored by market orders, which may pass 0
+   */
+  targetPrice: number;
+  pair: number;
+  side: OrderSide;
+  orderType: OrderType;
+}
+
+/**
+ * New amount and target price of an amended order
+ */
+export interface AmendmentValues {
+  amount: bigint;
+  targetPrice: number;
+  /**
+   * Type of the amended order if known, so a market order can keep a zero price
+   */
+  orderType?: OrderType;
+}
+
+/**
+ * Encrypted order, ready to pass to the externalEuint overload of placePrivateOrder
+ */
+export interface EncryptedOrder {
+  amount: string;
+  targetPrice: string;
+  pair: string;
+  side: string;
+  orderType: string;
+  inputProof: string;
+}
+
+const MAX_UINT64 = 2n ** 64n - 1n;
+const MAX_UINT32 = 2 ** 32 - 1;
+const MAX_UINT8 = 2 ** 8 - 1;
+
+/**
+ * Encrypted amendment, ready to pass to amendOrder
+ */
+export interface EncryptedAmendment {
+  amount: string;
+  targetPrice: string;
+  inputProof: string;
+}
+
+/**
+ * @notice Reject an order with the same typed error the plaintext overload would revert with
+ */
+function rejectOrder(reason: string): never {
+  const { type, code, hint } = REVERT_REASONS[reason];
+  throw new type(reason, code, hint);
+}
+
+/**
+ * @notice Client-side equivalent of the plaintext overload's require() checks
+ * @dev Whether the pair is listed depends on the on-chain registry; ForexTradingClient
+ *      checks that before encrypting, here the pair only has to fit in a euint8
+ * @throws ValidationError with the contract's revert reason
+ */
+export function validateOrder({ amount, targetPrice, pair, side, orderType }: OrderValues): void {
+  if (amount <= 0n || amount > MAX_UINT64) rejectOrder("Amount must be positive");
+  if (!Number.isInteger(pair) || pair < 0 || pair > MAX_UINT8) rejectOrder("Invalid currency pair");
+  validateSideAndType(side, orderType);
+  validatePrice(targetPrice, orderType);
+}
+
+/**
+ * @notice Same checks as validateOrder() for the values an amendment replaces
+ * @throws ValidationError with the contract's revert reason
+ */
+export function validateAmendment({ amount, targetPrice, orderType = OrderType.Limit }: AmendmentValues): void {
+  if (amount <= 0n || amount > MAX_UINT64) rejectOrder("Amount must be positive");
+  validatePrice(targetPrice, orderType);
+}
+
+/**
+ * @notice Side and type must be enum values: the plaintext overload reverts on anything
+ *         else, and an encrypted unknown type would silently never fill
+ */
+function validateSideAndType(side: OrderSide, orderType: OrderType): void {
+  if (side !== OrderSide.Buy && side !== OrderSide.Sell) {
+    throw new ValidationError(`Invalid order side ${side}`, "INVALID_ORDER_SIDE", "Use buy or sell");
+  }
+  if (!Number.isInteger(orderType) || !isOrderType(orderType)) {
+    throw new ValidationError(`Invalid order type ${orderType}`, "INVALID_ORDER_TYPE", "Use limit, stop or market");
+  }
+}
+
+function validatePrice(targetPrice: number, orderType: OrderType): void {
+  const minimum = orderType === OrderType.Market ? 0 : 1;
+  if (!Number.isInteger(targetPrice) || targetPrice < minimum || targetPrice > MAX_UINT32) {
+    rejectOrder("Target price must be positive");
+  }
+}
+
+/**
+ * @notice Validate and encrypt an order's amount, target price, pair, side and type
+ * @param encryptor Relayer instance or hre.fhevm
+ * @param contractAddress PrivateForexTrading address the input is bound to
+ * @param userAddress Address that will send the transaction
+ */
+export async function encryptOrder(
+  encryptor: InputEncryptor,
+  contractAddress: string,
+  userAddress: string,
+  order: OrderValues
+): Promise<EncryptedOrder> {
+  validateOrder(order);
+
+  const { handles, inputProof } = await encryptor
+    .createEncryptedInput(contractAddress, userAddress)
+    .add64(order.amount)
+    .add32(order.targetPrice)
+    .add8(order.pair)
+    .addBool(order.side === OrderSide.Sell)
+    .add8(order.orderType)
+    .encrypt();
+
+  return {
+    amount: hexlify(handles[0]),
+    targetPrice: hexlify(handles[1]),
+    pair: hexlify(handles[2]),
+    side: hexlify(handles[3]),
+    orderType: hexlify(handles[4]),
+    inputProof: hexlify(inputProof),
+  };
+}
+
+/**
+ * @notice Validate and encrypt the new amount and target price of an order
+ * @dev Same input binding as encryptOrder(): one input, two handles, one proof
+ */
+export async function encryptAmendment(
+  encryptor: InputEncryptor,
+  contractAddress: string,
+  userAddress: string,
+  amendment: AmendmentValues
+): Promise<EncryptedAmendment> {
+  validateAmendment(amendment);
+
+  const { handles, inputProof } = await encryptor
+    .createEncryptedInput(contractAddress, userAddress)
+    .add64(amendment.amount)
+    .add32(amendment.targetPrice)
+    .encrypt();
+
+  return {
+    amount: hexlify(handles[0]),
+    targetPrice: hexlify(handles[1]),
+    inputProof: hexlify(inputProof),
+  };
+}
+
+/**
+ * @notice Input encryptor backed by the Zama relayer
+ */
+export async function createRelayerEncryptor(options: RelayerOptions): Promise<InputEncryptor> {
+  return createRelayerInstance(options);
+}
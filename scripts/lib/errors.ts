@@ -0,0 +1,451 @@
+/**
+ * @title Contract Error Decoding
+ * @notice Maps PrivateForexTrading revert reasons and provider failures to typed errors
+ * @dev Every `require` message in contracts/PrivateForexTrading.sol has an entry in
+ *      REVERT_REASONS. Callers should use decodeError() on anything thrown by ethers
+ *      instead of matching on `error.message` themselves.
+ *
+ * @custom:usage try { ... } catch (e) { const error = decodeError(e); console.error(error.message, error.hint); }
+ */
+
+/**
+ * Stable error codes for scripting and UI handling
+ */
+export type ErrorCode =
+  | "NOT_AUTHORIZED"
+  | "NOT_PENDING_OWNER"
+  | "CANNOT_REVOKE_OWNER"
+  | "INVALID_ROLE"
+  | "INVALID_ACCOUNT"
+  | "CONTRACT_PAUSED"
+  | "CONTRACT_NOT_PAUSED"
+  | "TRADER_NOT_REGISTERED"
+  | "ALREADY_REGISTERED"
+  | "INVALID_COLLATERAL_TOKEN"
+  | "INSUFFICIENT_COLLATERAL"
+  | "WITHDRAWAL_PENDING"
+  | "WITHDRAWAL_NOT_FOUND"
+  | "NO_ACTIVE_TRADING_SESSION"
+  | "SESSION_CURRENTLY_ACTIVE"
+  | "TOO_EARLY_FOR_NEW_SESSION"
+  | "NO_ACTIVE_SESSION"
+  | "SESSION_NOT_YET_ENDED"
+  | "SESSION_ALREADY_ENDED"
+  | "INVALID_BATCH_SIZE"
+  | "INVALID_AMOUNT"
+  | "INVALID_CURRENCY_PAIR"
+  | "INVALID_TARGET_PRICE"
+  | "INVALID_PRICE"
+  | "INVALID_PAIR_SYMBOL"
+  | "INVALID_PAIR_DECIMALS"
+  | "PAIR_ALREADY_LISTED"
+  | "PAIR_NOT_LISTED"
+  | "PAIR_LIMIT_REACHED"
+  | "INVALID_MARGIN"
+  | "ORDER_NOT_FOUND"
+  | "POSITION_NOT_FOUND"
+  | "PAIR_NOT_QUOTED"
+  | "ORDER_CANCELLED"
+  | "INVALID_ORDER_SIDE"
+  | "INVALID_ORDER_TYPE"
+  | "INSUFFICIENT_FUNDS"
+  | "NONCE_ERROR"
+  | "NETWORK_ERROR"
+  | "USER_REJECTED"
+  | "DECRYPTION_FAILED"
+  | "INVALID_RATE"
+  | "RATE_FEED_UNAVAILABLE"
+  | "UNKNOWN_REVERT"
+  | "UNKNOWN_ERROR";
+
+/**
+ * Base class for all decoded errors
+ */
+export class ForexTradingError extends Error {
+  constructor(
+    message: string,
+    readonly code: ErrorCode,
+    readonly hint: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "ForexTradingError";
+  }
+
+  /**
+   * @notice Plain-object form for JSON output
+   */
+  toJSON() {
+    return { name: this.name, code: this.code, message: this.message, hint: this.hint };
+  }
+}
+
+/**
+ * Caller lacks the role required by the function (onlyOwner, onlyRole)
+ */
+export class AccessControlError extends ForexTradingError {
+  constructor(message: string, code: ErrorCode, hint: string, cause?: unknown) {
+    super(message, code, hint, cause);
+    this.name = "AccessControlError";
+  }
+}
+
+/**
+ * Trader registration state does not allow the call
+ */
+export class RegistrationError extends ForexTradingError {
+  constructor(message: string, code: ErrorCode, hint: string, cause?: unknown) {
+    super(message, code, hint, cause);
+    this.name = "RegistrationError";
+  }
+}
+
+/**
+ * Session lifecycle does not allow the call at this time
+ */
+export class SessionStateError extends ForexTradingError {
+  constructor(message: string, code: ErrorCode, hint: string, cause?: unknown) {
+    super(message, code, hint, cause);
+    this.name = "SessionStateError";
+  }
+}
+
+/**
+ * Order or session parameters failed validation
+ */
+export class ValidationError extends ForexTradingError {
+  constructor(message: string, code: ErrorCode, hint: string, cause?: unknown) {
+    super(message, code, hint, cause);
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * Transaction could not be sent (funds, nonce, connectivity, wallet)
+ */
+export class ProviderError extends ForexTradingError {
+  constructor(message: string, code: ErrorCode, hint: string, cause?: unknown) {
+    super(message, code, hint, cause);
+    this.name = "ProviderError";
+  }
+}
+
+/**
+ * Encrypted values could not be user-decrypted (missing ACL access, relayer failure)
+ */
+export class DecryptionError extends ForexTradingError {
+  constructor(message: string, code: ErrorCode, hint: string, cause?: unknown) {
+    super(message, code, hint, cause);
+    this.name = "DecryptionError";
+  }
+}
+
+/**
+ * Forex rate feed could not be read (file missing, HTTP failure, malformed data, replay exhausted)
+ */
+export class RateFeedError extends ForexTradingError {
+  constructor(message: string, code: ErrorCode, hint: string, cause?: unknown) {
+    super(message, code, hint, cause);
+    this.name = "RateFeedError";
+  }
+}
+
+type ErrorClass = new (message: string, code: ErrorCode, hint: string, cause?: unknown) => ForexTradingError;
+
+interface ErrorDefinition {
+  code: ErrorCode;
+  type: ErrorClass;
+  hint: string;
+}
+
+/**
+ * Revert reason string → error definition, one entry per require() in the contract
+ */
+export const REVERT_REASONS: Record<string, ErrorDefinition> = {
+  "Not authorized": {
+    code: "NOT_AUTHORIZED",
+    type: AccessControlError,
+    hint: "Use an account holding the role the function requires (see the roles command)",
+  },
+  "Not pending owner": {
+    code: "NOT_PENDING_OWNER",
+    type: AccessControlError,
+    hint: "Only the account proposed with transferOwnership can accept ownership",
+  },
+  "Cannot revoke owner": {
+    code: "CANNOT_REVOKE_OWNER",
+    type: AccessControlError,
+    hint: "The owner always keeps the admin role; transfer ownership first",
+  },
+  "Unknown role": {
+    code: "INVALID_ROLE",
+    type: ValidationError,
+    hint: "Use one of the roles: admin, session-operator, rate-oracle, pauser",
+  },
+  "Invalid account": {
+    code: "INVALID_ACCOUNT",
+    type: ValidationError,
+    hint: "Roles cannot be granted to the zero address",
+  },
+  "Contract paused": {
+    code: "CONTRACT_PAUSED",
+    type: SessionStateError,
+    hint: "Trading is paused; cancelling orders and withdrawing still work until a pauser unpauses",
+  },
+  "Contract not paused": {
+    code: "CONTRACT_NOT_PAUSED",
+    type: SessionStateError,
+    hint: "Trading is not paused",
+  },
+  "Trader not registered": {
+    code: "TRADER_NOT_REGISTERED",
+    type: RegistrationError,
+    hint: "Register first with registerTrader",
+  },
+  "Already registered": {
+    code: "ALREADY_REGISTERED",
+    type: RegistrationError,
+    hint: "This account is already registered as a trader",
+  },
+  "Invalid collateral token": {
+    code: "INVALID_COLLATERAL_TOKEN",
+    type: ValidationError,
+    hint: "Deploy with the address of the ERC-20 collateral token (COLLATERAL_TOKEN, or the local MockStablecoin)",
+  },
+  "No active trading session": {
+    code: "NO_ACTIVE_TRADING_SESSION",
+    type: SessionStateError,
+    hint: "Orders can only be placed while a session is active; start a trading session first",
+  },
+  "Session currently active": {
+    code: "SESSION_CURRENTLY_ACTIVE",
+    type: SessionStateError,
+    hint: "Wait for the current session to end and execute all of its orders before starting a new one",
+  },
+  "Too early for new session": {
+    code: "TOO_EARLY_FOR_NEW_SESSION",
+    type: SessionStateError,
+    hint: "A new session can start once SESSION_DURATION (4h) has passed since the last one",
+  },
+  "No active session": {
+    code: "NO_ACTIVE_SESSION",
+    type: SessionStateError,
+    hint: "There is no session to execute or end; start a trading session first",
+  },
+  "Session not yet ended": {
+    code: "SESSION_NOT_YET_ENDED",
+    type: SessionStateError,
+    hint: "Orders can only be executed after the session end time has passed",
+  },
+  "Session already ended": {
+    code: "SESSION_ALREADY_ENDED",
+    type: SessionStateError,
+    hint: "Past its end time a session cannot be ended early; execute its orders instead",
+  },
+  "Invalid batch size": {
+    code: "INVALID_BATCH_SIZE",
+    type: ValidationError,
+    hint: "Execute at least one order per batch",
+  },
+  "Amount must be positive": {
+    code: "INVALID_AMOUNT",
+    type: ValidationError,
+    hint: "Use an order, deposit or withdrawal amount greater than zero",
+  },
+  "Invalid currency pair": {
+    code: "INVALID_CURRENCY_PAIR",
+    type: ValidationError,
+    hint: "Use the ID or symbol of a listed currency pair (see the pairs command)",
+  },
+  "Target price must be positive": {
+    code: "INVALID_TARGET_PRICE",
+    type: ValidationError,
+    hint: "Use a target price greater than zero, in pips of the pair (see lib/pairs.ts)",
+  },
+  "Wrong number of rates": {
+    code: "INVALID_RATE",
+    type: ValidationError,
+    hint: "Pass one rate per pair ID (pairCount in total); entries of delisted pairs are ignored",
+  },
+  "Rate must be positive": {
+    code: "INVALID_RATE",
+    type: ValidationError,
+    hint: "Every listed pair needs a rate greater than zero",
+  },
+  "Invalid pair symbol": {
+    code: "INVALID_PAIR_SYMBOL",
+    type: ValidationError,
+    hint: "Use BASE/QUOTE with upper case 3-letter currency codes, e.g. EUR/GBP",
+  },
+  "Invalid pair decimals": {
+    code: "INVALID_PAIR_DECIMALS",
+    type: ValidationError,
+    hint: "Use 1 to 8 decimals, e.g. 4 for EUR/GBP or 2 for a JPY-quoted pair",
+  },
+  "Pair already listed": {
+    code: "PAIR_ALREADY_LISTED",
+    type: ValidationError,
+    hint: "The pair is already tradable; delist it first to change its decimals",
+  },
+  "Pair not listed": {
+    code: "PAIR_NOT_LISTED",
+    type: ValidationError,
+    hint: "Only listed pairs can be delisted (see the pairs command)",
+  },
+  "Too many currency pairs": {
+    code: "PAIR_LIMIT_REACHED",
+    type: ValidationError,
+    hint: "The registry holds at most MAX_CURRENCY_PAIRS (16) pairs; list a delisted pair again instead",
+  },
+  "Invalid margin": {
+    code: "INVALID_MARGIN",
+    type: ValidationError,
+    hint: "Use a leverage from 1x to 100x (a margin of 100 to 10000 basis points)",
+  },
+  "Order not found": {
+    code: "ORDER_NOT_FOUND",
+    type: ValidationError,
+    hint: "Use the index of one of your orders in the current session (see the my-orders command)",
+  },
+  "Order cancelled": {
+    code: "ORDER_CANCELLED",
+    type: ValidationError,
+    hint: "The order was already cancelled; place a new order instead",
+  },
+  "No position": {
+    code: "POSITION_NOT_FOUND",
+    type: ValidationError,
+    hint: "The trader has never had an order settled in this pair (see the positions command)",
+  },
+  "Pair not quoted": {
+    code: "PAIR_NOT_QUOTED",
+    type: ValidationError,
+    hint: "The latest session has no rate for this pair; positions are marked to session rates only",
+  },
+  "Withdrawal already pending": {
+    code: "WITHDRAWAL_PENDING",
+    type: ValidationError,
+    hint: "Wait for the decryption oracle to settle your previous withdrawal",
+  },
+  "Unknown withdrawal": {
+    code: "WITHDRAWAL_NOT_FOUND",
+    type: ValidationError,
+    hint: "The withdrawal request does not exist or was already settled",
+  },
+};
+
+/**
+ * Provider-level failures, matched on the ethers error code or message
+ */
+const PROVIDER_ERRORS: { codes: string[]; pattern: RegExp; definition: ErrorDefinition; message: string }[] = [
+  {
+    codes: ["INSUFFICIENT_FUNDS"],
+    pattern: /insufficient funds/i,
+    message: "Insufficient funds for gas",
+    definition: {
+      code: "INSUFFICIENT_FUNDS",
+      type: ProviderError,
+      hint: "Make sure the sending account has enough ETH to pay for gas",
+    },
+  },
+  {
+    codes: ["NONCE_EXPIRED", "REPLACEMENT_UNDERPRICED"],
+    pattern: /nonce/i,
+    message: "Transaction nonce conflict",
+    definition: {
+      code: "NONCE_ERROR",
+      type: ProviderError,
+      hint: "Wait for pending transactions to confirm, or reset the account nonce in your wallet",
+    },
+  },
+  {
+    codes: ["ACTION_REJECTED"],
+    pattern: /user (rejected|denied)/i,
+    message: "Transaction rejected in wallet",
+    definition: {
+      code: "USER_REJECTED",
+      type: ProviderError,
+      hint: "Approve the transaction in your wallet to continue",
+    },
+  },
+  {
+    codes: ["NETWORK_ERROR", "SERVER_ERROR", "TIMEOUT"],
+    pattern: /network|ECONNREFUSED|could not detect network/i,
+    message: "Network request failed",
+    definition: {
+      code: "NETWORK_ERROR",
+      type: ProviderError,
+      hint: "Check the RPC URL for this network in .env and hardhat.config.ts",
+    },
+  },
+];
+
+/**
+ * @notice Dig the revert reason out of an ethers / hardhat error
+ * @dev ethers v6 exposes it as `reason` or `revert.args[0]`; hardhat and
+ *      JSON-RPC providers only embed it in a nested message
+ */
+export function extractRevertReason(error: unknown): string | undefined {
+  const candidate = error as {
+    reason?: string | null;
+    revert?: { args?: unknown[] };
+    message?: string;
+    info?: { error?: { message?: string } };
+    error?: { message?: string };
+  };
+
+  if (!candidate || typeof candidate !== "object") return undefined;
+  if (candidate.reason) return candidate.reason;
+  if (typeof candidate.revert?.args?.[0] === "string") return candidate.revert.args[0];
+
+  const messages = [candidate.message, candidate.info?.error?.message, candidate.error?.message];
+  for (const message of messages) {
+    const match = message?.match(/reverted with reason string '([^']*)'/) ?? message?.match(/execution reverted: (.*)$/m);
+    if (match) return match[1].replace(/["']$/, "");
+  }
+
+  for (const message of messages) {
+    const known = Object.keys(REVERT_REASONS).find((reason) => message?.includes(reason));
+    if (known) return known;
+  }
+
+  return undefined;
+}
+
+/**
+ * @notice Convert anything thrown by a contract call into a ForexTradingError
+ * @param error The caught value
+ * @return A typed error carrying a stable code and a remediation hint
+ */
+export function decodeError(error: unknown): ForexTradingError {
+  if (error instanceof ForexTradingError) return error;
+
+  const reason = extractRevertReason(error);
+  if (reason !== undefined) {
+    const definition = REVERT_REASONS[reason];
+    if (definition) {
+      return new definition.type(reason, definition.code, definition.hint, error);
+    }
+    return new ForexTradingError(
+      `Transaction reverted: ${reason || "no reason given"}`,
+      "UNKNOWN_REVERT",
+      "Check the contract requirements for this function",
+      error
+    );
+  }
+
+  const { code, message } = (error ?? {}) as { code?: string; message?: string };
+  for (const entry of PROVIDER_ERRORS) {
+    if ((code && entry.codes.includes(code)) || (message && entry.pattern.test(message))) {
+      const { type, code: errorCode, hint } = entry.definition;
+      return new type(entry.message, errorCode, hint, error);
+    }
+  }
+
+  return new ForexTradingError(
+    message ?? String(error),
+    "UNKNOWN_ERROR",
+    "See the underlying error for details",
+    error
+  );
+}
@@ -0,0 +1,90 @@
+import * as http from "http";
+import { toJson } from "./cli";
+import type { TradeHistory } from "./indexer";
+
+/**
+ * @title Trade History HTTP API
+ * @notice Serves an index's query API as read-only JSON for the frontend
+ * @dev Routes (all GET, CORS open so the static frontend can call them):
+ *      /status                        indexing progress
+ *      /sessions                      all sessions
+ *      /sessions/:id                  one session
+ *      /sessions/:id/orders           orders of a session
+ *      /traders                       all traders
+ *      /traders/:address              one trader
+ *      /traders/:address/orders       orders of a trader
+ *      /orders?session=&trader=&executed=&cancelled=
+ */
+
+/**
+ * @notice Create the HTTP server
+ * @param history Returns the current query API; called per request so the server sees new syncs
+ */
+export function createHistoryServer(history: () => TradeHistory): http.Server {
+  return http.createServer((request, response) => {
+    response.setHeader("Access-Control-Allow-Origin", "*");
+    response.setHeader("Content-Type", "application/json");
+
+    if (request.method !== "GET") {
+      send(response, 405, { error: "Only GET is supported" });
+      return;
+    }
+
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const segments = url.pathname.split("/").filter(Boolean);
+
+    try {
+      const body = route(history(), segments, url.searchParams);
+      if (body === undefined) {
+        send(response, 404, { error: `Not found: ${url.pathname}` });
+      } else {
+        send(response, 200, body);
+      }
+    } catch (error) {
+      send(response, 400, { error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+}
+
+function route(history: TradeHistory, segments: string[], params: URLSearchParams): unknown {
+  const [resource, id, sub] = segments;
+
+  switch (resource) {
+    case "status":
+      return history.status();
+
+    case "sessions":
+      if (id === undefined) return history.sessions();
+      if (sub === "orders") return history.orders({ session: parseInteger("session", id) });
+      return history.session(parseInteger("session", id));
+
+    case "traders":
+      if (id === undefined) return history.traders();
+      if (sub === "orders") return history.orders({ trader: id });
+      return history.trader(id);
+
+    case "orders":
+      return history.orders({
+        session: params.has("session") ? parseInteger("session", params.get("session")!) : undefined,
+        trader: params.get("trader") ?? undefined,
+        executed: params.has("executed") ? params.get("executed") === "true" : undefined,
+        cancelled: params.has("cancelled") ? params.get("cancelled") === "true" : undefined,
+      });
+
+    default:
+      return undefined;
+  }
+}
+
+function parseInteger(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+function send(response: http.ServerResponse, status: number, body: unknown): void {
+  response.statusCode = status;
+  response.end(toJson(body));
+}
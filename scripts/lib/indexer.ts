@@ -0,0 +1,568 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { Log, Provider } from "ethers";
+import { PrivateForexTrading__factory } from "../../typechain-types";
+import { sleep } from "./cli";
+
+/**
+ * @title Event Indexer
+ * @notice Backfills and tails PrivateForexTrading events into a local JSON trade history
+ * @dev The store keeps the raw event log plus the hashes of recently indexed blocks.
+ *      Sessions, traders and orders are derived from the events on read, so a reorg
+ *      only has to drop the events above the fork point and re-fetch them:
+ *      1. Compare stored block hashes (newest first) with the chain
+ *      2. Roll back to the newest block that still matches
+ *      3. Fetch logs from there to head - confirmations in batches
+ *
+ * Store file: `data/index/<network>.json` (INDEX_DIR overrides the directory)
+ *
+ * @custom:usage const indexer = new ForexIndexer(provider, { network: "sepolia", chainId, contract, fromBlock });
+ *               await indexer.sync();
+ *               const sessions = indexer.history().sessions();
+ */
+
+/**
+ * Index file format version, bumped on incompatible layout changes
+ */
+export const INDEX_VERSION = 1;
+
+/**
+ * How many recent block hashes are kept for reorg detection
+ */
+export const REORG_DEPTH = 64;
+
+/**
+ * Events of the contract the trade history is derived from; the others are not stored
+ */
+export type IndexedEventName =
+  | "SessionStarted"
+  | "PricesUpdated"
+  | "TraderRegistered"
+  | "PrivateOrderPlaced"
+  | "OrderCancelled"
+  | "OrderAmended"
+  | "OrderExecuted"
+  | "SessionExecuted"
+  | "SessionCancelled";
+
+export const INDEXED_EVENTS: readonly IndexedEventName[] = [
+  "SessionStarted",
+  "PricesUpdated",
+  "TraderRegistered",
+  "PrivateOrderPlaced",
+  "OrderCancelled",
+  "OrderAmended",
+  "OrderExecuted",
+  "SessionExecuted",
+  "SessionCancelled",
+];
+
+/**
+ * @notice Whether an event name is one the trade history is derived from
+ */
+export function isIndexedEvent(name: string): name is IndexedEventName {
+  return (INDEXED_EVENTS as readonly string[]).includes(name);
+}
+
+/**
+ * A decoded contract event; bigint arguments are stored as decimal strings
+ */
+export interface IndexedEvent {
+  name: IndexedEventName;
+  args: Record<string, string>;
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+}
+
+export interface BlockCheckpoint {
+  number: number;
+  hash: string;
+}
+
+/**
+ * Contents of `data/index/<network>.json`
+ */
+export interface IndexStore {
+  version: number;
+  network: string;
+  chainId: number;
+  contract: string;
+  fromBlock: number;
+  /**
+   * Last block whose events are in the store (fromBlock - 1 before the first sync)
+   */
+  lastBlock: number;
+  recentBlocks: BlockCheckpoint[];
+  events: IndexedEvent[];
+}
+
+export interface IndexedSession {
+  session: number;
+  startTime: number;
+  startBlock: number;
+  pricesUpdated: boolean;
+  traders: string[];
+  orderCount: number;
+  executedOrderCount: number;
+  cancelledOrderCount: number;
+  /**
+   * True once the last batch ran: SessionExecuted, or SessionCancelled for a session ended early
+   */
+  executed: boolean;
+  /**
+   * True if the session was ended early and its open orders cancelled instead of settled
+   */
+  endedEarly: boolean;
+  executedBlock?: number;
+}
+
+export interface IndexedTrader {
+  trader: string;
+  registeredBlock?: number;
+  registeredTx?: string;
+  sessions: number[];
+  orderCount: number;
+  executedOrderCount: number;
+}
+
+export interface IndexedOrder {
+  session: number;
+  trader: string;
+  orderIndex: number;
+  placedBlock: number;
+  placedTx: string;
+  /**
+   * Number of OrderAmended events; the amended values themselves are encrypted
+   */
+  amendments: number;
+  cancelled: boolean;
+  cancelledBlock?: number;
+  cancelledTx?: string;
+  executed: boolean;
+  executedBlock?: number;
+  executedTx?: string;
+}
+
+export interface OrderQuery {
+  session?: number;
+  trader?: string;
+  executed?: boolean;
+  cancelled?: boolean;
+}
+
+/**
+ * Outcome of one sync() call
+ */
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  newEvents: number;
+  /**
+   * Block the store was rolled back to, if a reorg was detected
+   */
+  reorgedTo?: number;
+}
+
+export interface IndexerOptions {
+  network: string;
+  chainId: number;
+  contract: string;
+  /**
+   * First block to index, usually the deployment block
+   */
+  fromBlock: number;
+  /**
+   * Stay this many blocks behind head (default 0, reorgs are still detected)
+   */
+  confirmations?: number;
+  /**
+   * Blocks per eth_getLogs request (default 2000)
+   */
+  batchSize?: number;
+}
+
+/**
+ * @notice Directory holding the index files
+ * @dev Overridable with INDEX_DIR
+ */
+export function indexDir(): string {
+  return process.env.INDEX_DIR ?? path.join(process.cwd(), "data", "index");
+}
+
+/**
+ * @notice Path of the index file for a network
+ */
+export function indexPath(network: string): string {
+  return path.join(indexDir(), `${network}.json`);
+}
+
+/**
+ * @notice Read a network's index
+ * @return The store, or undefined if the network was never indexed
+ */
+export function loadIndex(network: string): IndexStore | undefined {
+  const file = indexPath(network);
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+
+  const store = JSON.parse(fs.readFileSync(file, "utf-8")) as IndexStore;
+  if (store.version !== INDEX_VERSION) {
+    throw new Error(`Unsupported index version ${store.version} in ${file} (expected ${INDEX_VERSION})`);
+  }
+  // Indexes written before events were filtered also hold the contract's other events
+  store.events = store.events.filter((event) => isIndexedEvent(event.name));
+  return store;
+}
+
+/**
+ * @notice Write a network's index
+ */
+export function saveIndex(store: IndexStore): string {
+  const file = indexPath(store.network);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  // Write then rename, so a reader never sees a half-written file
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(store, null, 2) + "\n");
+  fs.renameSync(`${file}.tmp`, file);
+  return file;
+}
+
+/**
+ * @notice Read-only query API over an index store
+ * @dev Views are derived from the event log once per instance
+ */
+export class TradeHistory {
+  private readonly sessionViews = new Map<number, IndexedSession>();
+  private readonly traderViews = new Map<string, IndexedTrader>();
+  private readonly orderViews = new Map<string, IndexedOrder>();
+
+  constructor(readonly store: IndexStore) {
+    for (const event of store.events) {
+      this.apply(event);
+    }
+  }
+
+  /**
+   * @notice All sessions, oldest first
+   */
+  sessions(): IndexedSession[] {
+    return [...this.sessionViews.values()].sort((a, b) => a.session - b.session);
+  }
+
+  session(session: number): IndexedSession | undefined {
+    return this.sessionViews.get(session);
+  }
+
+  /**
+   * @notice All traders, in registration order
+   */
+  traders(): IndexedTrader[] {
+    return [...this.traderViews.values()];
+  }
+
+  trader(address: string): IndexedTrader | undefined {
+    return this.traderViews.get(address.toLowerCase());
+  }
+
+  /**
+   * @notice Orders matching every given filter, in placement order
+   */
+  orders(query: OrderQuery = {}): IndexedOrder[] {
+    return [...this.orderViews.values()].filter(
+      (order) =>
+        (query.session === undefined || order.session === query.session) &&
+        (query.trader === undefined || order.trader.toLowerCase() === query.trader.toLowerCase()) &&
+        (query.executed === undefined || order.executed === query.executed) &&
+        (query.cancelled === undefined || order.cancelled === query.cancelled)
+    );
+  }
+
+  /**
+   * @notice Indexing progress
+   */
+  status() {
+    const { network, chainId, contract, fromBlock, lastBlock, events } = this.store;
+    return { network, chainId, contract, fromBlock, lastBlock, eventCount: events.length };
+  }
+
+  private apply(event: IndexedEvent): void {
+    const { args } = event;
+
+    switch (event.name) {
+      case "SessionStarted":
+        this.sessionViews.set(Number(args.session), {
+          session: Number(args.session),
+          startTime: Number(args.startTime),
+          startBlock: event.blockNumber,
+          pricesUpdated: false,
+          traders: [],
+          orderCount: 0,
+          executedOrderCount: 0,
+          cancelledOrderCount: 0,
+          executed: false,
+          endedEarly: false,
+        });
+        break;
+
+      case "PricesUpdated": {
+        const session = this.sessionViews.get(Number(args.session));
+        if (session) session.pricesUpdated = true;
+        break;
+      }
+
+      case "TraderRegistered": {
+        const trader = this.traderView(args.trader);
+        trader.registeredBlock = event.blockNumber;
+        trader.registeredTx = event.txHash;
+        break;
+      }
+
+      case "PrivateOrderPlaced": {
+        const sessionId = Number(args.session);
+        const order: IndexedOrder = {
+          session: sessionId,
+          trader: args.trader,
+          orderIndex: Number(args.orderIndex),
+          placedBlock: event.blockNumber,
+          placedTx: event.txHash,
+          amendments: 0,
+          cancelled: false,
+          executed: false,
+        };
+        this.orderViews.set(orderKey(order.session, order.trader, order.orderIndex), order);
+
+        const trader = this.traderView(args.trader);
+        trader.orderCount++;
+        if (!trader.sessions.includes(sessionId)) trader.sessions.push(sessionId);
+
+        const session = this.sessionViews.get(sessionId);
+        if (session) {
+          session.orderCount++;
+          if (!session.traders.includes(args.trader)) session.traders.push(args.trader);
+        }
+        break;
+      }
+
+      case "OrderAmended": {
+        const order = this.orderViews.get(orderKey(Number(args.session), args.trader, Number(args.orderIndex)));
+        if (order) order.amendments++;
+        break;
+      }
+
+      case "OrderCancelled": {
+        const order = this.orderViews.get(orderKey(Number(args.session), args.trader, Number(args.orderIndex)));
+        if (order && !order.cancelled) {
+          order.cancelled = true;
+          order.cancelledBlock = event.blockNumber;
+          order.cancelledTx = event.txHash;
+
+          const session = this.sessionViews.get(order.session);
+          if (session) session.cancelledOrderCount++;
+        }
+        break;
+      }
+
+      case "OrderExecuted": {
+        const order = this.orderViews.get(orderKey(Number(args.session), args.trader, Number(args.orderIndex)));
+        if (order && !order.executed) {
+          order.executed = true;
+          order.executedBlock = event.blockNumber;
+          order.executedTx = event.txHash;
+          this.traderView(args.trader).executedOrderCount++;
+
+          const session = this.sessionViews.get(order.session);
+          if (session) session.executedOrderCount++;
+        }
+        break;
+      }
+
+      case "SessionExecuted":
+      case "SessionCancelled": {
+        const session = this.sessionViews.get(Number(args.session));
+        if (session) {
+          session.executed = true;
+          session.endedEarly = event.name === "SessionCancelled";
+          session.executedBlock = event.blockNumber;
+        }
+        break;
+      }
+    }
+  }
+
+  private traderView(address: string): IndexedTrader {
+    const key = address.toLowerCase();
+    let trader = this.traderViews.get(key);
+    if (!trader) {
+      trader = { trader: address, sessions: [], orderCount: 0, executedOrderCount: 0 };
+      this.traderViews.set(key, trader);
+    }
+    return trader;
+  }
+}
+
+function orderKey(session: number, trader: string, orderIndex: number): string {
+  return `${session}:${trader.toLowerCase()}:${orderIndex}`;
+}
+
+/**
+ * @notice Keeps a network's index in sync with the chain
+ */
+export class ForexIndexer {
+  private store: IndexStore;
+  private cached?: { key: string; history: TradeHistory };
+  private readonly iface = PrivateForexTrading__factory.createInterface();
+
+  constructor(
+    private readonly provider: Provider,
+    private readonly options: IndexerOptions
+  ) {
+    const existing = loadIndex(options.network);
+    const reusable =
+      existing?.chainId === options.chainId && existing.contract.toLowerCase() === options.contract.toLowerCase();
+
+    if (existing && !reusable) {
+      console.warn(`⚠️  Index ${indexPath(options.network)} belongs to another deployment, rebuilding it`);
+    }
+
+    this.store = reusable
+      ? existing
+      : {
+          version: INDEX_VERSION,
+          network: options.network,
+          chainId: options.chainId,
+          contract: options.contract,
+          fromBlock: options.fromBlock,
+          lastBlock: options.fromBlock - 1,
+          recentBlocks: [],
+          events: [],
+        };
+  }
+
+  /**
+   * @notice Query API over the current store
+   * @dev Rebuilt only when a sync changed the store
+   */
+  history(): TradeHistory {
+    const key = `${this.store.lastBlock}:${this.store.events.length}`;
+    if (this.cached?.key !== key) {
+      this.cached = { key, history: new TradeHistory(this.store) };
+    }
+    return this.cached.history;
+  }
+
+  /**
+   * @notice Index everything up to head - confirmations, handling reorgs first
+   */
+  async sync(): Promise<SyncResult> {
+    const reorgedTo = await this.rollbackReorg();
+    if (reorgedTo !== undefined) {
+      saveIndex(this.store);
+    }
+
+    const head = await this.provider.getBlockNumber();
+    const target = head - (this.options.confirmations ?? 0);
+    const batchSize = this.options.batchSize ?? 2000;
+    const fromBlock = this.store.lastBlock + 1;
+    let newEvents = 0;
+
+    for (let start = fromBlock; start <= target; start += batchSize) {
+      const end = Math.min(start + batchSize - 1, target);
+      const logs = await this.provider.getLogs({ address: this.store.contract, fromBlock: start, toBlock: end });
+      const events = logs.map((log) => this.decode(log)).filter((event) => event !== undefined);
+
+      const endBlock = await this.provider.getBlock(end);
+      if (!endBlock?.hash) {
+        throw new Error(`Block ${end} not available from the provider`);
+      }
+
+      this.store.events.push(...events);
+      this.store.lastBlock = end;
+      this.checkpoint([
+        ...events.map((event) => ({ number: event.blockNumber, hash: event.blockHash })),
+        { number: end, hash: endBlock.hash },
+      ]);
+      saveIndex(this.store);
+      newEvents += events.length;
+    }
+
+    return { fromBlock, toBlock: Math.max(target, this.store.lastBlock), newEvents, reorgedTo };
+  }
+
+  /**
+   * @notice Sync repeatedly until the signal is aborted
+   * @param onSync Called after every sync that found events or a reorg
+   */
+  async follow(pollInterval: number, signal: AbortSignal, onSync?: (result: SyncResult) => void): Promise<void> {
+    while (!signal.aborted) {
+      try {
+        const result = await this.sync();
+        if (result.newEvents > 0 || result.reorgedTo !== undefined) onSync?.(result);
+      } catch (error) {
+        console.error(`⚠️  Sync failed, retrying: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      await sleep(pollInterval, signal);
+    }
+  }
+
+  /**
+   * @notice Roll the store back to the newest checkpoint still on the canonical chain
+   * @return The block rolled back to, or undefined if no reorg happened
+   */
+  private async rollbackReorg(): Promise<number | undefined> {
+    const checkpoints = [...this.store.recentBlocks].sort((a, b) => b.number - a.number);
+
+    for (const [index, checkpoint] of checkpoints.entries()) {
+      const block = await this.provider.getBlock(checkpoint.number);
+      if (block?.hash === checkpoint.hash) {
+        if (index === 0) return undefined;
+        this.rollback(checkpoint.number);
+        return checkpoint.number;
+      }
+    }
+
+    if (checkpoints.length === 0) return undefined;
+
+    // Reorg deeper than REORG_DEPTH: nothing recent is trustworthy, start over
+    this.rollback(this.store.fromBlock - 1);
+    return this.store.lastBlock;
+  }
+
+  private rollback(blockNumber: number): void {
+    this.store.events = this.store.events.filter((event) => event.blockNumber <= blockNumber);
+    this.store.recentBlocks = this.store.recentBlocks.filter((checkpoint) => checkpoint.number <= blockNumber);
+    this.store.lastBlock = blockNumber;
+  }
+
+  /**
+   * @notice Remember block hashes, keeping only the last REORG_DEPTH blocks
+   */
+  private checkpoint(blocks: BlockCheckpoint[]): void {
+    const byNumber = new Map(this.store.recentBlocks.map((checkpoint) => [checkpoint.number, checkpoint]));
+    for (const block of blocks) byNumber.set(block.number, block);
+
+    this.store.recentBlocks = [...byNumber.values()]
+      .filter((checkpoint) => checkpoint.number > this.store.lastBlock - REORG_DEPTH)
+      .sort((a, b) => a.number - b.number);
+  }
+
+  private decode(log: Log): IndexedEvent | undefined {
+    const parsed = this.iface.parseLog(log);
+    if (!parsed || !isIndexedEvent(parsed.name)) return undefined;
+
+    const args: Record<string, string> = {};
+    parsed.fragment.inputs.forEach((input, index) => {
+      args[input.name] = String(parsed.args[index]);
+    });
+
+    return {
+      name: parsed.name,
+      args,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      txHash: log.transactionHash,
+      logIndex: log.index,
+    };
+  }
+}
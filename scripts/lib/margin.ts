@@ -0,0 +1,147 @@
+import { ForexTradingClient } from "./client";
+import type { UserDecryptor } from "./decryption";
+import { REVERT_REASONS, ValidationError } from "./errors";
+import { CurrencyPairLike, PairSpec } from "./pairs";
+
+/**
+ * @title Margin
+ * @notice Previews how much of the connected trader's balance an order would reserve
+ * @dev When an order is placed the contract reserves its margin, amount × margin requirement
+ *      of the pair, from the part of the encrypted balance that open orders and positions do
+ *      not hold yet. When the order fills, its margin stays locked in the position until the
+ *      position is flat again. An order that does not fit is stored with a zero amount and
+ *      never fills; the contract cannot say so without revealing the balance. The trader can
+ *      decrypt their own balance and margin though, so the same check is run here before placing.
+ *      Margin requirements are public, in basis points: 10000 is 1x leverage, 500 is 20x.
+ *
+ * @custom:usage const preview = await previewMargin(client.withRunner(trader), decryptor, { pair: "EUR/USD", amount: 1000n });
+ */
+
+/**
+ * Margin requirement of an unleveraged pair (1x), as MAX_MARGIN_BPS in the contract
+ */
+export const MAX_MARGIN_BPS = 10000;
+
+/**
+ * Lowest margin requirement a pair can have (100x), as MIN_MARGIN_BPS in the contract
+ */
+export const MIN_MARGIN_BPS = 100;
+
+/**
+ * An order to check against the unreserved balance
+ */
+export interface MarginOrder {
+  pair: CurrencyPairLike;
+  amount: bigint;
+}
+
+/**
+ * Margin an order would reserve, and whether the balance covers it
+ */
+export interface OrderMargin {
+  pair: PairSpec;
+  amount: bigint;
+  /**
+   * Margin requirement of the pair in basis points of the amount
+   */
+  marginBps: number;
+  leverage: number;
+  required: bigint;
+  /**
+   * False if the order would be stored with a zero amount
+   */
+  fits: boolean;
+  /**
+   * Unreserved balance left once the order is placed
+   */
+  availableAfter: bigint;
+}
+
+/**
+ * Margin usage of one trader
+ */
+export interface MarginPreview {
+  trader: string;
+  balance: bigint;
+  /**
+   * Part of the balance reserved by open orders
+   */
+  reserved: bigint;
+  /**
+   * Part of the balance locked by open positions
+   */
+  locked: bigint;
+  /**
+   * Balance that new orders and withdrawals can use; 0 once losses leave less than the held margin
+   */
+  available: bigint;
+  order?: OrderMargin;
+}
+
+/**
+ * @notice Decrypt the connected trader's margin usage and check an order against it
+ * @dev Balance and margin go into one request, so one permit is signed
+ * @param client Client connected to the trader's signer
+ * @param decryptor Relayer, or the FHEVM mock on local networks
+ * @param order Order to preview, if any
+ */
+export async function previewMargin(
+  client: ForexTradingClient,
+  decryptor: UserDecryptor,
+  order?: MarginOrder
+): Promise<MarginPreview> {
+  const { trader, balance, reservedMargin, lockedMargin } = await client.decryptMyStats(decryptor);
+  const held = reservedMargin + lockedMargin;
+  const available = held <= balance ? balance - held : 0n;
+  const preview: MarginPreview = { trader, balance, reserved: reservedMargin, locked: lockedMargin, available };
+  if (!order) {
+    return preview;
+  }
+
+  if (order.amount <= 0n) {
+    throw new ValidationError("Amount must be positive", "INVALID_AMOUNT", "Use an order amount greater than zero");
+  }
+  const pair = await client.findPair(order.pair);
+  const marginBps = await client.getPairMargin(pair.pair);
+  const required = requiredMargin(order.amount, marginBps);
+  const fits = required <= available;
+
+  return {
+    ...preview,
+    order: {
+      pair,
+      amount: order.amount,
+      marginBps,
+      leverage: marginBpsToLeverage(marginBps),
+      required,
+      fits,
+      availableAfter: fits ? available - required : available,
+    },
+  };
+}
+
+/**
+ * @notice Margin the contract reserves for an amount: amount × marginBps / 10000, rounded up
+ */
+export function requiredMargin(amount: bigint, marginBps: number): bigint {
+  const bps = BigInt(MAX_MARGIN_BPS);
+  return (amount * BigInt(marginBps) + bps - 1n) / bps;
+}
+
+/**
+ * @notice Margin requirement for a leverage, rounded up so the leverage is never exceeded
+ * @throws ValidationError unless the leverage is from 1x to 100x
+ */
+export function leverageToMarginBps(leverage: number): number {
+  if (!Number.isFinite(leverage) || leverage < 1 || leverage > MAX_MARGIN_BPS / MIN_MARGIN_BPS) {
+    throw new ValidationError(`Invalid leverage ${leverage}`, "INVALID_MARGIN", REVERT_REASONS["Invalid margin"].hint);
+  }
+  return Math.ceil(MAX_MARGIN_BPS / leverage);
+}
+
+/**
+ * @notice Leverage of a margin requirement to two decimals, e.g. 20 for 500 basis points
+ */
+export function marginBpsToLeverage(marginBps: number): number {
+  return Math.round((MAX_MARGIN_BPS * 100) / marginBps) / 100;
+}
@@ -0,0 +1,89 @@
+import { ValidationError } from "./errors";
+
+/**
+ * @title Order Types
+ * @notice Order sides and types, mirroring the contract's OrderSide and OrderType enums
+ * @dev Orders carry both encrypted: the side as an ebool that is true for a sell,
+ *      the type as a euint8. With R the session rate and T the target price:
+ *      - Limit: a buy fills if R <= T, a sell if R >= T (the target or better)
+ *      - Stop: a buy fills if R >= T, a sell if R <= T (the rate has crossed T)
+ *      - Market: fills at the session rate, T is ignored
+ *
+ * @custom:usage parseOrderSide("sell")   // OrderSide.Sell
+ *               parseOrderType("stop")   // OrderType.Stop
+ *               describeOrder(OrderSide.Buy, OrderType.Limit) // "buy limit"
+ */
+
+/**
+ * OrderSide enum values
+ */
+export enum OrderSide {
+  Buy = 0,
+  Sell = 1,
+}
+
+/**
+ * OrderType enum values
+ */
+export enum OrderType {
+  Limit = 0,
+  Stop = 1,
+  Market = 2,
+}
+
+export const ORDER_SIDE_NAMES: Record<OrderSide, string> = {
+  [OrderSide.Buy]: "buy",
+  [OrderSide.Sell]: "sell",
+};
+
+export const ORDER_TYPE_NAMES: Record<OrderType, string> = {
+  [OrderType.Limit]: "limit",
+  [OrderType.Stop]: "stop",
+  [OrderType.Market]: "market",
+};
+
+/**
+ * @notice Whether a number is a valid OrderType value
+ */
+export function isOrderType(value: number): value is OrderType {
+  return value in ORDER_TYPE_NAMES;
+}
+
+/**
+ * @notice Parse a side given by name ("buy", "sell") or enum value
+ * @throws ValidationError (INVALID_ORDER_SIDE) for anything else
+ */
+export function parseOrderSide(value: string | number): OrderSide {
+  const side = lookup(value, ORDER_SIDE_NAMES);
+  if (side === undefined) {
+    throw new ValidationError(`Unknown order side "${value}"`, "INVALID_ORDER_SIDE", "Use buy or sell");
+  }
+  return side as OrderSide;
+}
+
+/**
+ * @notice Parse an order type given by name ("limit", "stop", "market") or enum value
+ * @throws ValidationError (INVALID_ORDER_TYPE) for anything else
+ */
+export function parseOrderType(value: string | number): OrderType {
+  const type = lookup(value, ORDER_TYPE_NAMES);
+  if (type === undefined) {
+    throw new ValidationError(`Unknown order type "${value}"`, "INVALID_ORDER_TYPE", "Use limit, stop or market");
+  }
+  return type as OrderType;
+}
+
+/**
+ * @notice Human-readable side and type, e.g. "sell stop"
+ * @dev Values that are not enum members (e.g. a decrypted unknown type) are shown as numbers
+ */
+export function describeOrder(side: OrderSide, type: number): string {
+  const typeName = isOrderType(type) ? ORDER_TYPE_NAMES[type] : `type ${type}`;
+  return `${ORDER_SIDE_NAMES[side]} ${typeName}`;
+}
+
+function lookup(value: string | number, names: Record<number, string>): number | undefined {
+  const text = String(value).trim().toLowerCase();
+  const entry = Object.entries(names).find(([id, name]) => id === text || name === text);
+  return entry ? Number(entry[0]) : undefined;
+}
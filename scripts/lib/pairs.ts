@@ -0,0 +1,255 @@
+import { ValidationError } from "./errors";
+
+/**
+ * @title Currency Pairs
+ * @notice Currency pair registry and per-pair price precision, shared by the CLI, the rate feeds and the frontend
+ * @dev Pairs live in the contract's registry (listCurrencyPair / delistCurrencyPair) and are
+ *      identified by their pair ID; ForexTradingClient.getCurrencyPairs() reads them as PairSpecs.
+ *      DEFAULT_PAIRS are the five pairs the constructor lists as IDs 0-4, used when no
+ *      registry has been read (offline parsing, tests).
+ *
+ *      On-chain prices are integers in pips: price × 10^decimals. Four decimals suit
+ *      the USD-quoted majors (EUR/USD 1.0842 → 10842), but USD/JPY trades around 150
+ *      with a pip of 0.01, so it uses two (149.51 → 14951).
+ *
+ * @custom:usage const pairs = await client.getCurrencyPairs();
+ *               formatPrice(findPair("USD/JPY", pairs), 14951)  // "149.51"
+ *               parsePrice("EUR/USD", "1.0842")                 // 10842
+ */
+
+/**
+ * IDs of the pairs listed at deployment
+ */
+export enum CurrencyPair {
+  EUR_USD = 0,
+  GBP_USD = 1,
+  USD_JPY = 2,
+  AUD_USD = 3,
+  USD_CHF = 4,
+}
+
+/**
+ * Display names of the pairs listed at deployment
+ */
+export const CURRENCY_PAIR_NAMES: Record<CurrencyPair, string> = {
+  [CurrencyPair.EUR_USD]: "EUR/USD",
+  [CurrencyPair.GBP_USD]: "GBP/USD",
+  [CurrencyPair.USD_JPY]: "USD/JPY",
+  [CurrencyPair.AUD_USD]: "AUD/USD",
+  [CurrencyPair.USD_CHF]: "USD/CHF",
+};
+
+/**
+ * Pairs listed at deployment, in pair ID order
+ */
+export const CURRENCY_PAIRS: CurrencyPair[] = [
+  CurrencyPair.EUR_USD,
+  CurrencyPair.GBP_USD,
+  CurrencyPair.USD_JPY,
+  CurrencyPair.AUD_USD,
+  CurrencyPair.USD_CHF,
+];
+
+/**
+ * Currency pair given as pair ID (or numeric string) or display name
+ */
+export type CurrencyPairLike = CurrencyPair | number | string;
+
+/**
+ * Registry entry and precision of one currency pair
+ */
+export interface PairSpec {
+  /**
+   * Pair ID, the value orders encrypt
+   */
+  pair: number;
+  /**
+   * Display name, e.g. "EUR/USD"
+   */
+  name: string;
+  base: string;
+  quote: string;
+  /**
+   * Decimals in on-chain prices; one unit is one pip
+   */
+  decimals: number;
+  /**
+   * Price change of one pip, e.g. "0.0001"
+   */
+  pipSize: string;
+  /**
+   * Whether sessions quote the pair and orders may use it
+   */
+  listed: boolean;
+}
+
+/**
+ * Pair given by ID or name (resolved against DEFAULT_PAIRS), or an already resolved spec
+ */
+export type PairRef = CurrencyPairLike | PairSpec;
+
+const MAX_UINT32 = 0xffffffff;
+
+/**
+ * @notice Build the spec of a registry entry
+ * @param pair Pair ID
+ * @param name Symbol as BASE/QUOTE
+ */
+export function pairSpec(pair: number, name: string, decimals: number, listed = true): PairSpec {
+  const [base, quote] = name.split("/");
+  return {
+    pair,
+    name,
+    base,
+    quote,
+    decimals,
+    pipSize: (10 ** -decimals).toFixed(decimals),
+    listed,
+  };
+}
+
+/**
+ * Pairs the contract lists at deployment, indexed by pair ID
+ */
+export const DEFAULT_PAIRS: readonly PairSpec[] = [
+  pairSpec(CurrencyPair.EUR_USD, CURRENCY_PAIR_NAMES[CurrencyPair.EUR_USD], 4),
+  pairSpec(CurrencyPair.GBP_USD, CURRENCY_PAIR_NAMES[CurrencyPair.GBP_USD], 4),
+  pairSpec(CurrencyPair.USD_JPY, CURRENCY_PAIR_NAMES[CurrencyPair.USD_JPY], 2),
+  pairSpec(CurrencyPair.AUD_USD, CURRENCY_PAIR_NAMES[CurrencyPair.AUD_USD], 4),
+  pairSpec(CurrencyPair.USD_CHF, CURRENCY_PAIR_NAMES[CurrencyPair.USD_CHF], 4),
+];
+
+/**
+ * @notice Pairs that sessions quote, in pair ID order (the order rate lists use)
+ */
+export function listedPairs(pairs: readonly PairSpec[] = DEFAULT_PAIRS): PairSpec[] {
+  return pairs.filter((spec) => spec.listed);
+}
+
+/**
+ * @notice Check a symbol the way listCurrencyPair() does: BASE/QUOTE in upper case
+ */
+export function isPairSymbol(symbol: string): boolean {
+  return /^[A-Z]{3}\/[A-Z]{3}$/.test(symbol);
+}
+
+/**
+ * @notice Resolve a pair by ID or name in a registry
+ * @param value Pair ID, or a name such as "EUR/USD", "eur_usd" or "EURUSD"
+ * @param pairs Registry to search, e.g. from ForexTradingClient.getCurrencyPairs()
+ * @throws ValidationError (INVALID_CURRENCY_PAIR) if the registry has no such pair
+ */
+export function findPair(value: CurrencyPairLike, pairs: readonly PairSpec[] = DEFAULT_PAIRS): PairSpec {
+  const spec =
+    typeof value === "number" || /^\d+$/.test(value)
+      ? pairs.find((candidate) => candidate.pair === Number(value))
+      : pairs.find((candidate) => candidate.name.replace("/", "") === value.toUpperCase().replace(/[^A-Z]/g, ""));
+
+  if (!spec) {
+    const names = listedPairs(pairs).map((candidate) => candidate.name);
+    throw new ValidationError(
+      `Unknown currency pair "${value}"`,
+      "INVALID_CURRENCY_PAIR",
+      `Use a pair ID or one of: ${names.join(", ")}`
+    );
+  }
+  return spec;
+}
+
+/**
+ * @notice Resolve a pair listed at deployment from its ID or display name
+ */
+export function parseCurrencyPair(value: CurrencyPairLike): CurrencyPair {
+  return findPair(value).pair;
+}
+
+/**
+ * @notice Display name of a pair listed at deployment
+ */
+export function currencyPairName(pair: CurrencyPairLike): string {
+  return findPair(pair).name;
+}
+
+/**
+ * @notice Precision of a pair given as spec, or by ID or name among DEFAULT_PAIRS
+ */
+export function getPairSpec(pair: PairRef): PairSpec {
+  return typeof pair === "object" ? pair : findPair(pair);
+}
+
+/**
+ * @notice Multiplier between a decimal price and its on-chain integer
+ */
+export function priceScale(pair: PairRef): number {
+  return 10 ** getPairSpec(pair).decimals;
+}
+
+function invalidPrice(name: string, value: unknown, reason: string): ValidationError {
+  return new ValidationError(
+    `Invalid ${name} price ${JSON.stringify(value)}: ${reason}`,
+    "INVALID_PRICE",
+    "Give prices as decimals, e.g. 1.0842 for EUR/USD or 149.51 for USD/JPY"
+  );
+}
+
+/**
+ * @notice Format an on-chain price with the pair's decimals
+ * @param price Price in pips, e.g. 14951 for USD/JPY
+ * @return Decimal string, e.g. "149.51"
+ */
+export function formatPrice(pair: PairRef, price: number | bigint): string {
+  const { decimals } = getPairSpec(pair);
+  const digits = BigInt(price).toString().padStart(decimals + 1, "0");
+  return decimals === 0 ? digits : `${digits.slice(0, -decimals)}.${digits.slice(-decimals)}`;
+}
+
+/**
+ * @notice Parse a decimal price typed by a user into the on-chain integer
+ * @dev Exact: more fractional digits than the pair's decimals are rejected, not rounded
+ * @throws ValidationError (INVALID_PRICE) for malformed, non-positive, too precise or too large prices
+ */
+export function parsePrice(pair: PairRef, value: string): number {
+  const spec = getPairSpec(pair);
+  const { name, decimals } = spec;
+  const match = value.trim().match(/^(\d+)(?:\.(\d*))?$/);
+  if (!match) {
+    throw invalidPrice(name, value, "not a decimal number");
+  }
+
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > decimals) {
+    throw invalidPrice(name, value, `${name} prices have ${decimals} decimals`);
+  }
+
+  const price = Number(whole + fraction.padEnd(decimals, "0"));
+  if (price <= 0 || price > MAX_UINT32) {
+    throw invalidPrice(name, value, `must be between ${formatPrice(spec, 1)} and ${formatPrice(spec, MAX_UINT32)}`);
+  }
+  return price;
+}
+
+/**
+ * @notice Convert a decimal price from a rate feed, rounding to the nearest pip
+ * @return The on-chain integer, or NaN if the value is not a finite number
+ */
+export function toPips(pair: PairRef, value: number): number {
+  return Number.isFinite(value) ? Math.round(value * priceScale(pair)) : NaN;
+}
+
+/**
+ * @notice Parse a comma-separated list of decimal prices, one per listed pair in pair ID order
+ * @param pairs Registry the prices are for (default: the pairs listed at deployment)
+ * @example parsePriceList("1.1000,1.2500,150.00,0.6500,0.9200") // [11000, 12500, 15000, 6500, 9200]
+ */
+export function parsePriceList(value: string, pairs: readonly PairSpec[] = DEFAULT_PAIRS): number[] {
+  const listed = listedPairs(pairs);
+  const parts = value.split(",");
+  if (parts.length !== listed.length) {
+    throw new ValidationError(
+      `Expected ${listed.length} prices, got ${parts.length}`,
+      "INVALID_PRICE",
+      `Give one price per listed pair: ${listed.map((spec) => spec.name).join(", ")}`
+    );
+  }
+  return listed.map((spec, index) => parsePrice(spec, parts[index]));
+}
@@ -0,0 +1,152 @@
+import { ForexTradingClient, PositionRecord } from "./client";
+import type { DecryptionRequest, UserDecryptor } from "./decryption";
+import { PairSpec } from "./pairs";
+
+/**
+ * @title Portfolio
+ * @notice Decrypts the connected trader's positions and values them at the latest session rates
+ * @dev The contract keeps one encrypted position per trader and pair, updated at settlement:
+ *      net long and short sizes, the margin its fills locked, plus the P&L booked into the
+ *      balance by fills and by markPosition(). Only the trader can decrypt them. A position is valued from its
+ *      mark rate until it is marked again, so the move from that mark to the latest
+ *      quoted rate is its unrealized P&L.
+ *      P&L is in collateral units: size × pips / 10^decimals, rounded towards zero like
+ *      the contract does.
+ *
+ * @custom:usage const portfolio = await buildPortfolio(client.withRunner(trader), decryptor);
+ */
+
+/**
+ * One decrypted position with its valuation
+ */
+export interface PortfolioPosition {
+  pair: PairSpec;
+  long: bigint;
+  short: bigint;
+  /**
+   * Long minus short; negative for a net short position
+   */
+  net: bigint;
+  /**
+   * Margin locked by the position, released when it is flat again
+   */
+  margin: bigint;
+  /**
+   * Session rate in pips the position is valued from
+   */
+  markRate: number;
+  /**
+   * Latest session rate in pips; the mark rate when the pair is not quoted anymore
+   */
+  currentRate: number;
+  /**
+   * P&L booked into the balance: realized profit minus realized loss
+   */
+  realizedPnl: bigint;
+  /**
+   * P&L of the net size from the mark rate to the current rate, booked by the next mark
+   */
+  unrealizedPnl: bigint;
+}
+
+/**
+ * Positions of one trader
+ */
+export interface Portfolio {
+  trader: string;
+  /**
+   * Session the current rates come from, undefined before the first session
+   */
+  session?: number;
+  positions: PortfolioPosition[];
+}
+
+export interface PortfolioOptions {
+  /**
+   * Also list positions that are flat and have no booked P&L
+   */
+  includeFlat?: boolean;
+}
+
+/**
+ * @notice Decrypt and value the connected trader's positions
+ * @dev Sizes and P&L of every opened position go into one request, so one permit is signed
+ * @param client Client connected to the trader's signer
+ * @param decryptor Relayer, or the FHEVM mock on local networks
+ */
+export async function buildPortfolio(
+  client: ForexTradingClient,
+  decryptor: UserDecryptor,
+  options: PortfolioOptions = {}
+): Promise<Portfolio> {
+  const signer = client.getSigner();
+  const trader = await signer.getAddress();
+  const contractAddress = await client.getAddress();
+
+  const pairs = await client.getCurrencyPairs();
+  const records = await Promise.all(pairs.map((spec) => client.getPosition(trader, spec.pair)));
+  // Positions are only initialized by the first settlement that quotes their pair
+  const opened = records.filter((record) => record.markRate > 0);
+
+  const session = await client.latestQuotedSession();
+  const quotes = session !== undefined ? await client.getSessionQuotes(session) : [];
+
+  const requests = opened.flatMap((record) => positionRequests(record, contractAddress));
+  const values = requests.length > 0 ? await decryptor.userDecrypt(requests, signer) : [];
+
+  const positions = opened
+    .map((record, index) =>
+      toPortfolioPosition(
+        record,
+        pairs[record.pair],
+        quotes[record.pair] || record.markRate,
+        values.slice(index * HANDLES_PER_POSITION, (index + 1) * HANDLES_PER_POSITION)
+      )
+    )
+    .filter((position) => options.includeFlat || position.net !== 0n || position.realizedPnl !== 0n);
+
+  return { trader, session, positions };
+}
+
+/**
+ * @notice Format P&L in collateral units with a sign
+ * @return e.g. "+12" or "-3"
+ */
+export function formatPnl(pnl: bigint): string {
+  return pnl < 0n ? `${pnl}` : `+${pnl}`;
+}
+
+const HANDLES_PER_POSITION = 5;
+
+/**
+ * @notice Decryption requests for one position: long, short, realized profit, realized loss, margin
+ */
+function positionRequests(record: PositionRecord, contractAddress: string): DecryptionRequest[] {
+  return [
+    { handle: record.encryptedLong, type: "euint64", contractAddress },
+    { handle: record.encryptedShort, type: "euint64", contractAddress },
+    { handle: record.encryptedRealizedProfit, type: "euint64", contractAddress },
+    { handle: record.encryptedRealizedLoss, type: "euint64", contractAddress },
+    { handle: record.encryptedMargin, type: "euint64", contractAddress },
+  ];
+}
+
+function toPortfolioPosition(
+  record: PositionRecord,
+  pair: PairSpec,
+  currentRate: number,
+  [long, short, profit, loss, margin]: bigint[]
+): PortfolioPosition {
+  const net = long - short;
+  return {
+    pair,
+    long,
+    short,
+    net,
+    margin,
+    markRate: record.markRate,
+    currentRate,
+    realizedPnl: profit - loss,
+    unrealizedPnl: (net * BigInt(currentRate - record.markRate)) / 10n ** BigInt(pair.decimals),
+  };
+}
@@ -0,0 +1,317 @@
+import * as fs from "fs";
+import * as path from "path";
+import { UsageError } from "./cli";
+import { RateFeedError, ValidationError } from "./errors";
+import {
+  DEFAULT_PAIRS,
+  PairRef,
+  PairSpec,
+  formatPrice,
+  getPairSpec,
+  listedPairs,
+  parsePriceList,
+  toPips,
+} from "./pairs";
+
+/**
+ * @title Forex Rate Feeds
+ * @notice RateProvider implementations that supply session rates to start-session and the keeper
+ * @dev Feeds deliver decimal rates (1.0842 for EUR/USD, 149.51 for USD/JPY); they are
+ *      validated and converted to the contract's scale here: pips of each pair as uint32,
+ *      rounded with the pair's decimals from lib/pairs.ts, one per listed pair in pair ID order.
+ *      Providers are asked for the pairs of the contract's registry, so newly listed pairs
+ *      are picked up without restarting the keeper.
+ *
+ *      Providers:
+ *      - FixedRateProvider:    rates given on the command line
+ *      - JsonFileRateProvider: a JSON rate table, re-read on every call
+ *      - CsvReplayRateProvider: historical ticks from a CSV file, one row per session
+ *      - HttpRateProvider:     a JSON rate table fetched from an HTTP endpoint
+ *
+ *      A rate table is either keyed by pair, or quoted against a base currency:
+ *        { "EUR/USD": 1.0842, "GBP/USD": 1.2671, "USD/JPY": 149.51, "AUD/USD": 0.6583, "USD/CHF": 0.8812 }
+ *        { "base": "USD", "rates": { "EUR": 0.9223, "GBP": 0.7892, "JPY": 149.51, "AUD": 1.5191, "CHF": 0.8812 } }
+ *      With a base, A/B is derived as rates[B] / rates[A].
+ *
+ * @custom:usage const provider = createRateProvider("https://rates.example.com/latest?base=USD");
+ *               const { rates } = await provider.getRates(await client.getCurrencyPairs());
+ *               await client.startTradingSession(rates);
+ */
+
+const MAX_UINT32 = 0xffffffff;
+
+/**
+ * Rates for one session, ready for startTradingSession
+ */
+export interface RateQuote {
+  /**
+   * Rates in pips, one per listed pair in pair ID order
+   */
+  rates: number[];
+  /**
+   * Where the rates came from (file, URL or "command line")
+   */
+  source: string;
+  /**
+   * Unix time of the quote, when the feed reports one
+   */
+  timestamp?: number;
+}
+
+/**
+ * Source of session rates
+ */
+export interface RateProvider {
+  /**
+   * @param pairs Registry to quote (default: the pairs listed at deployment); delisted pairs are skipped
+   */
+  getRates(pairs?: readonly PairSpec[]): Promise<RateQuote>;
+}
+
+/**
+ * Rate table as found in JSON files and HTTP responses
+ */
+export type RateTable = Record<string, unknown>;
+
+function feedError(message: string, cause?: unknown): RateFeedError {
+  return new RateFeedError(
+    message,
+    "RATE_FEED_UNAVAILABLE",
+    "Check that the rate feed is reachable and lists every listed pair",
+    cause
+  );
+}
+
+/**
+ * @notice Convert a decimal rate to the contract's uint32 pips, rounding to the pair's decimals
+ * @throws ValidationError if the rate is not a positive number that fits in a uint32 after scaling
+ */
+export function toContractRate(pair: PairRef, value: unknown): number {
+  const spec = getPairSpec(pair);
+  const rate = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  const scaled = typeof rate === "number" ? toPips(spec, rate) : NaN;
+
+  if (!(scaled >= 1 && scaled <= MAX_UINT32)) {
+    throw new ValidationError(
+      `Invalid ${spec.name} rate: ${String(value)}`,
+      "INVALID_RATE",
+      `${spec.name} rates must be decimals between ${formatPrice(spec, 1)} and ${formatPrice(spec, MAX_UINT32)}`
+    );
+  }
+  return scaled;
+}
+
+/**
+ * @notice Find the decimal rate of each pair in a rate table
+ * @dev Keys are matched ignoring case and separators ("EUR/USD", "eur_usd", "EURUSD")
+ * @param pairs Registry to quote; only listed pairs are looked up
+ * @throws RateFeedError if a pair cannot be found or derived
+ */
+export function parseRateTable(body: unknown, source: string, pairs: readonly PairSpec[] = DEFAULT_PAIRS): RateQuote {
+  if (!body || typeof body !== "object") {
+    throw feedError(`Rate feed ${source} did not return a rate table`);
+  }
+
+  const { base, rates, timestamp } = body as { base?: unknown; rates?: unknown; timestamp?: unknown };
+  const table = (rates && typeof rates === "object" ? rates : body) as RateTable;
+  const byKey = new Map(Object.entries(table).map(([key, value]) => [key.toUpperCase().replace(/[^A-Z]/g, ""), value]));
+  if (typeof base === "string") {
+    byKey.set(base.toUpperCase(), byKey.get(base.toUpperCase()) ?? 1);
+  }
+
+  const values = listedPairs(pairs).map((spec) => {
+    const { base: from, quote: to } = spec;
+    if (byKey.has(from + to)) {
+      return toContractRate(spec, byKey.get(from + to));
+    }
+    if (typeof base === "string" && byKey.has(from) && byKey.has(to)) {
+      return toContractRate(spec, Number(byKey.get(to)) / Number(byKey.get(from)));
+    }
+    throw feedError(`Rate feed ${source} has no rate for ${spec.name}`);
+  });
+
+  return {
+    rates: values,
+    source,
+    timestamp: typeof timestamp === "number" ? timestamp : undefined,
+  };
+}
+
+/**
+ * @notice Rates fixed up front: a decimal list as given to --rates, or rates already in pips
+ * @dev A decimal list is parsed per call with the decimals of the pairs asked for
+ */
+export class FixedRateProvider implements RateProvider {
+  constructor(private readonly rates: string | readonly number[]) {}
+
+  async getRates(pairs: readonly PairSpec[] = DEFAULT_PAIRS): Promise<RateQuote> {
+    const rates = typeof this.rates === "string" ? parsePriceList(this.rates, pairs) : [...this.rates];
+    return { rates, source: "command line" };
+  }
+}
+
+/**
+ * @notice Rate table in a JSON file, re-read on every call so it can be edited between sessions
+ */
+export class JsonFileRateProvider implements RateProvider {
+  constructor(private readonly file: string) {}
+
+  async getRates(pairs?: readonly PairSpec[]): Promise<RateQuote> {
+    let body: unknown;
+    try {
+      body = JSON.parse(await fs.promises.readFile(this.file, "utf8"));
+    } catch (error) {
+      throw feedError(`Could not read rate file ${this.file}`, error);
+    }
+    return parseRateTable(body, this.file, pairs);
+  }
+}
+
+export interface CsvReplayOptions {
+  /**
+   * Start over at the first tick once all ticks were used (default false)
+   */
+  loop?: boolean;
+}
+
+/**
+ * @notice Replays historical ticks from a CSV file, one row per getRates() call
+ * @dev Header row names the columns: one per pair plus an optional `timestamp`
+ *      (unix seconds or ISO date), in any order. Blank lines and `#` comments are skipped.
+ *
+ *        timestamp,EUR/USD,GBP/USD,USD/JPY,AUD/USD,USD/CHF
+ *        2024-03-01T00:00:00Z,1.0804,1.2623,150.12,0.6511,0.8843
+ */
+export class CsvReplayRateProvider implements RateProvider {
+  private ticks?: Record<string, string>[];
+  private cursor = 0;
+
+  constructor(
+    private readonly file: string,
+    private readonly options: CsvReplayOptions = {}
+  ) {}
+
+  async getRates(pairs?: readonly PairSpec[]): Promise<RateQuote> {
+    const ticks = (this.ticks ??= await this.load());
+
+    if (this.cursor >= ticks.length) {
+      if (!this.options.loop) {
+        throw feedError(`All ${ticks.length} ticks of ${this.file} have been replayed`);
+      }
+      this.cursor = 0;
+    }
+
+    const row = this.cursor++;
+    const quote = parseRateTable(ticks[row], `${this.file} tick ${row + 1}`, pairs);
+    return { ...quote, timestamp: parseTimestamp(ticks[row].timestamp) };
+  }
+
+  /**
+   * @notice Read the tick rows as records keyed by column; rates are parsed when replayed
+   */
+  private async load(): Promise<Record<string, string>[]> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.file, "utf8");
+    } catch (error) {
+      throw feedError(`Could not read rate file ${this.file}`, error);
+    }
+
+    const [header, ...rows] = content
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line !== "" && !line.startsWith("#"))
+      .map((line) => line.split(",").map((cell) => cell.trim()));
+
+    if (!header || rows.length === 0) {
+      throw feedError(`Rate file ${this.file} has no ticks`);
+    }
+
+    return rows.map((cells) => Object.fromEntries(header.map((column, index) => [column, cells[index]])));
+  }
+}
+
+function parseTimestamp(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = /^\d+$/.test(value) ? Number(value) : Math.floor(Date.parse(value) / 1000);
+  return Number.isFinite(seconds) ? seconds : undefined;
+}
+
+export interface HttpRateOptions {
+  /**
+   * Request timeout in ms (default 10000)
+   */
+  timeout?: number;
+  headers?: Record<string, string>;
+}
+
+/**
+ * @notice Rate table fetched from an HTTP endpoint on every call
+ */
+export class HttpRateProvider implements RateProvider {
+  constructor(
+    private readonly url: string,
+    private readonly options: HttpRateOptions = {}
+  ) {}
+
+  async getRates(pairs?: readonly PairSpec[]): Promise<RateQuote> {
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        headers: { Accept: "application/json", ...this.options.headers },
+        signal: AbortSignal.timeout(this.options.timeout ?? 10000),
+      });
+    } catch (error) {
+      throw feedError(`Rate feed ${this.url} is unreachable`, error);
+    }
+
+    if (!response.ok) {
+      throw feedError(`Rate feed ${this.url} answered ${response.status} ${response.statusText}`);
+    }
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch (error) {
+      throw feedError(`Rate feed ${this.url} did not return JSON`, error);
+    }
+    return parseRateTable(body, this.url, pairs);
+  }
+}
+
+/**
+ * @notice Pick a provider from a source string
+ * @param source `http(s)://...` URL, `.csv` tick file or `.json` rate table
+ */
+export function createRateProvider(source: string, options: CsvReplayOptions & HttpRateOptions = {}): RateProvider {
+  if (/^https?:\/\//i.test(source)) return new HttpRateProvider(source, options);
+
+  switch (path.extname(source).toLowerCase()) {
+    case ".csv":
+      return new CsvReplayRateProvider(source, options);
+    case ".json":
+      return new JsonFileRateProvider(source);
+    default:
+      throw new Error(
+        `Unsupported rate source "${source}". Use an http(s) URL, a .json rate table or a .csv tick file`
+      );
+  }
+}
+
+/**
+ * @notice Provider for the `--rates` / `--feed` option pair shared by the CLI scripts
+ * @throws UsageError unless exactly one of them is given
+ */
+export function rateProviderFromOptions(
+  rates: string | undefined,
+  feed: string | undefined,
+  options: CsvReplayOptions & HttpRateOptions = {}
+): RateProvider {
+  if ((rates === undefined) === (feed === undefined)) {
+    throw new UsageError("Pass either --rates r1,r2,r3,r4,r5 or --feed <url|file.json|file.csv>");
+  }
+  if (feed !== undefined) {
+    return createRateProvider(feed, options);
+  }
+  return new FixedRateProvider(rates!);
+}
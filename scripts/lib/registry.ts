@@ -0,0 +1,205 @@
+import * as fs from "fs";
+import * as path from "path";
+import { execSync } from "child_process";
+import { id } from "ethers";
+import type { DeployResult } from "hardhat-deploy/types";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * @title Deployment Registry
+ * @notice Persists contract deployments per network in `deployments/<network>.json`
+ * @dev Each contract keeps its current deployment plus every earlier one in
+ *      `history` (newest first), so redeploying never loses an address.
+ *      Scripts resolve addresses by hardhat network name through resolveContractAddress().
+ *
+ * File layout:
+ * {
+ *   "version": 1,
+ *   "network": "sepolia",
+ *   "chainId": 11155111,
+ *   "contracts": {
+ *     "PrivateForexTrading": { "current": { ...DeploymentRecord }, "history": [ ... ] }
+ *   }
+ * }
+ */
+
+/**
+ * Registry file format version, bumped on incompatible layout changes
+ */
+export const REGISTRY_VERSION = 1;
+
+/**
+ * A single deployment of a contract
+ */
+export interface DeploymentRecord {
+  address: string;
+  txHash: string;
+  blockNumber: number;
+  abiHash: string;
+  deployer: string;
+  gitCommit: string | null;
+  deployedAt: string;
+}
+
+/**
+ * Current and previous deployments of one contract
+ */
+export interface ContractDeployments {
+  current: DeploymentRecord;
+  history: DeploymentRecord[];
+}
+
+/**
+ * Contents of `deployments/<network>.json`
+ */
+export interface NetworkRegistry {
+  version: number;
+  network: string;
+  chainId: number;
+  contracts: Record<string, ContractDeployments>;
+}
+
+/**
+ * @notice Directory holding the registry files
+ * @dev Overridable with DEPLOYMENTS_DIR, mainly for tests
+ */
+export function registryDir(): string {
+  return process.env.DEPLOYMENTS_DIR ?? path.join(process.cwd(), "deployments");
+}
+
+/**
+ * @notice Path of the registry file for a network
+ */
+export function registryPath(network: string): string {
+  return path.join(registryDir(), `${network}.json`);
+}
+
+/**
+ * @notice Read a network's registry
+ * @return The registry, or undefined if nothing was deployed to this network yet
+ */
+export function loadRegistry(network: string): NetworkRegistry | undefined {
+  const file = registryPath(network);
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+
+  const registry = JSON.parse(fs.readFileSync(file, "utf-8")) as NetworkRegistry;
+  if (registry.version !== REGISTRY_VERSION) {
+    throw new Error(`Unsupported registry version ${registry.version} in ${file} (expected ${REGISTRY_VERSION})`);
+  }
+  return registry;
+}
+
+/**
+ * @notice Record a new deployment, moving the previous one into history
+ * @param network Hardhat network name
+ * @param chainId Chain ID of the network
+ * @param contractName Contract name as in the artifacts
+ * @param record The new deployment
+ * @return Path of the written registry file
+ */
+export function recordDeployment(
+  network: string,
+  chainId: number,
+  contractName: string,
+  record: DeploymentRecord
+): string {
+  const registry = loadRegistry(network) ?? { version: REGISTRY_VERSION, network, chainId, contracts: {} };
+
+  if (registry.chainId !== chainId) {
+    throw new Error(
+      `Registry for "${network}" belongs to chain ${registry.chainId}, refusing to record a chain ${chainId} deployment`
+    );
+  }
+
+  const previous = registry.contracts[contractName];
+  registry.contracts[contractName] = {
+    current: record,
+    history: previous ? [previous.current, ...previous.history] : [],
+  };
+
+  const file = registryPath(network);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(registry, null, 2) + "\n");
+  return file;
+}
+
+/**
+ * @notice Whether a network only lives as long as the hardhat process
+ * @dev The in-process hardhat network has no RPC url, whatever it is named
+ */
+export function isEphemeralNetwork(hre: HardhatRuntimeEnvironment): boolean {
+  return hre.network.name === "hardhat" || !("url" in hre.network.config);
+}
+
+/**
+ * @notice Record a hardhat-deploy result from a deploy/ script
+ * @dev Skipped on ephemeral networks, which are discarded after each run
+ * @return Path of the written registry file, if any
+ */
+export function recordDeployResult(
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+  result: DeployResult,
+  deployer: string
+): string | undefined {
+  if (isEphemeralNetwork(hre)) {
+    return undefined;
+  }
+
+  const file = recordDeployment(hre.network.name, hre.network.config.chainId ?? 31337, contractName, {
+    address: result.address,
+    txHash: result.transactionHash ?? "",
+    blockNumber: result.receipt?.blockNumber ?? 0,
+    abiHash: abiHash(JSON.stringify(result.abi)),
+    deployer,
+    gitCommit: currentGitCommit(),
+    deployedAt: new Date().toISOString(),
+  });
+
+  console.log(`   🗂️  ${contractName} recorded in ${path.relative(process.cwd(), file)}`);
+  return file;
+}
+
+/**
+ * @notice Current deployment of a contract on a network
+ */
+export function getDeployment(network: string, contractName: string): DeploymentRecord | undefined {
+  return loadRegistry(network)?.contracts[contractName]?.current;
+}
+
+/**
+ * @notice Resolve a contract address by network name
+ * @throws If the contract has never been deployed to the network
+ */
+export function resolveContractAddress(network: string, contractName = "PrivateForexTrading"): string {
+  const deployment = getDeployment(network, contractName);
+  if (!deployment) {
+    throw new Error(
+      `No ${contractName} deployment recorded for network "${network}" in ${registryPath(network)}. ` +
+        `Deploy with: npx hardhat deploy --network ${network}`
+    );
+  }
+  return deployment.address;
+}
+
+/**
+ * @notice Stable hash of a contract ABI
+ * @dev Used to detect a registry entry that no longer matches the compiled contract
+ * @param abi ABI as a JSON string (e.g. `contract.interface.formatJson()`)
+ */
+export function abiHash(abi: string): string {
+  return id(JSON.stringify(JSON.parse(abi)));
+}
+
+/**
+ * @notice Commit hash of the working tree, if it is a git checkout
+ */
+export function currentGitCommit(): string | null {
+  try {
+    return execSync("git rev-parse HEAD", { stdio: ["ignore", "pipe", "ignore"] }).toString().trim();
+  } catch {
+    return null;
+  }
+}
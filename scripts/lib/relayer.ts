@@ -0,0 +1,33 @@
+/**
+ * @title Relayer Connection
+ * @notice Lazily created Zama relayer SDK instance shared by user decryption and input encryption
+ * @dev The relayer SDK ships WASM, so it is only imported when a live-network
+ *      command actually needs it. Local networks use the @fhevm/hardhat-plugin mock instead.
+ */
+
+/**
+ * Connection settings for the Zama relayer
+ */
+export interface RelayerOptions {
+  /**
+   * JSON-RPC URL of the chain the contract lives on
+   */
+  network: string;
+  /**
+   * Overrides for the SDK's Sepolia defaults (relayer URL, ACL / KMS addresses, ...)
+   */
+  config?: Record<string, unknown>;
+}
+
+/**
+ * Relayer SDK instance
+ */
+export type RelayerInstance = Awaited<ReturnType<typeof import("@zama-fhe/relayer-sdk/node").createInstance>>;
+
+/**
+ * @notice Create a relayer SDK instance
+ */
+export async function createRelayerInstance(options: RelayerOptions): Promise<RelayerInstance> {
+  const { createInstance, SepoliaConfig } = await import("@zama-fhe/relayer-sdk/node");
+  return createInstance({ ...SepoliaConfig, ...options.config, network: options.network });
+}
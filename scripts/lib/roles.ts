@@ -0,0 +1,55 @@
+import { id } from "ethers";
+import { REVERT_REASONS, ValidationError } from "./errors";
+
+/**
+ * @title Roles
+ * @notice Operator roles of PrivateForexTrading and their on-chain identifiers
+ * @dev Each role is keccak256 of its constant name in the contract, e.g. keccak256("PAUSER_ROLE"):
+ *      - admin: grants and revokes roles, manages the pair registry and margins
+ *      - session-operator: executes ended sessions and ends sessions in an emergency
+ *      - rate-oracle: starts sessions, publishing their forex rates
+ *      - pauser: pauses and unpauses trading
+ *      The owner always holds admin and hands it over with two-step ownership transfer.
+ *      The deployer starts out with every role.
+ *
+ * @custom:usage await client.grantRole(parseRole("rate-oracle"), oracle.address);
+ */
+
+export type Role = "admin" | "session-operator" | "rate-oracle" | "pauser";
+
+export const ROLES: readonly Role[] = ["admin", "session-operator", "rate-oracle", "pauser"];
+
+/**
+ * Role identifiers, as returned by the contract's *_ROLE constants
+ */
+export const ROLE_IDS: Record<Role, string> = {
+  admin: id("ADMIN_ROLE"),
+  "session-operator": id("SESSION_OPERATOR_ROLE"),
+  "rate-oracle": id("RATE_ORACLE_ROLE"),
+  pauser: id("PAUSER_ROLE"),
+};
+
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  admin: "Grants and revokes roles, manages currency pairs and margins",
+  "session-operator": "Executes ended sessions, ends sessions in an emergency",
+  "rate-oracle": "Starts sessions with their forex rates",
+  pauser: "Pauses and unpauses trading",
+};
+
+/**
+ * @notice Parse a role given by name ("rate-oracle"), contract constant ("RATE_ORACLE_ROLE") or identifier
+ * @throws ValidationError (INVALID_ROLE) for anything else
+ */
+export function parseRole(value: string): Role {
+  const text = value.trim().toLowerCase();
+  const role = ROLES.find(
+    (candidate) =>
+      candidate === text ||
+      `${candidate.replace("-", "_")}_role` === text ||
+      ROLE_IDS[candidate] === text
+  );
+  if (!role) {
+    throw new ValidationError(`Unknown role "${value}"`, "INVALID_ROLE", REVERT_REASONS["Unknown role"].hint);
+  }
+  return role;
+}
@@ -0,0 +1,230 @@
+import { sleep } from "./cli";
+import { ExecutionResult, ForexRates, ForexTradingClient, SessionInfo, StartedSession } from "./client";
+import { AccessControlError, ForexTradingError, ValidationError, decodeError } from "./errors";
+
+/**
+ * @title Session Scheduler
+ * @notice Keeper that drives the session lifecycle without an operator
+ * @dev Every tick reads getCurrentSessionInfo() and lastSessionTime() and does at most one thing:
+ *      - Session active and past endTime            → executePrivateOrders(), or one executeBatch()
+ *      - No session and lastSessionTime + DURATION  → startTradingSession(rates)
+ *      - Otherwise                                  → wait until the next deadline
+ *      With a batchSize, each tick sends one bounded executeBatch() and the session stays
+ *      active until its last batch, so the next ticks keep executing; progress lives in the
+ *      contract, so a restarted keeper resumes where the previous one stopped.
+ *      Deadlines are compared with the latest block's timestamp, not the wall clock, so the
+ *      scheduler follows hardhat time travel (`time.increase`) the same way it follows a live chain.
+ *      Failed transactions are retried with exponential backoff; errors that retrying cannot
+ *      fix (the keeper lacks a role, the rates are invalid) stop it immediately.
+ *
+ * @custom:usage const scheduler = new SessionScheduler(client.withRunner(operator), { rates: () => RATES });
+ *               await scheduler.run(controller.signal);
+ */
+
+/**
+ * Mirrors SESSION_DURATION in PrivateForexTrading.sol (4 hours)
+ */
+export const SESSION_DURATION = 14400;
+
+export type SchedulerAction = "execute" | "start" | "wait";
+
+/**
+ * What the scheduler should do next, and from when
+ */
+export interface SessionPlan {
+  action: SchedulerAction;
+  session: number;
+  /**
+   * Chain timestamp from which the action is allowed (equal to `now` when due)
+   */
+  dueAt: number;
+  now: number;
+}
+
+export type SchedulerEvent =
+  | { type: "waiting"; plan: SessionPlan }
+  | { type: "executed"; result: ExecutionResult }
+  | { type: "started"; result: StartedSession }
+  | { type: "retrying"; action: SchedulerAction; attempt: number; delay: number; error: ForexTradingError };
+
+export interface SchedulerOptions {
+  /**
+   * Rates in pips for the next session, called right before each start
+   */
+  rates: () => ForexRates | Promise<ForexRates>;
+  /**
+   * Longest time in ms between two checks while waiting (default 15000)
+   */
+  pollInterval?: number;
+  /**
+   * Failed attempts of one action before the scheduler gives up (default 5)
+   */
+  maxRetries?: number;
+  /**
+   * First retry delay in ms, doubled on every further attempt (default 2000)
+   */
+  retryDelay?: number;
+  /**
+   * Orders to settle per execution transaction; unset executes a session in one transaction
+   */
+  batchSize?: number;
+  onEvent?: (event: SchedulerEvent) => void;
+}
+
+/**
+ * Result of one tick
+ */
+export type TickResult =
+  | { action: "wait"; plan: SessionPlan }
+  | { action: "execute"; plan: SessionPlan; result: ExecutionResult }
+  | { action: "start"; plan: SessionPlan; result: StartedSession };
+
+/**
+ * @notice Decide the next lifecycle step from the contract state
+ * @dev Pure so it can be tested without a chain. Mirrors the contract's checks:
+ *      executePrivateOrders requires `now > endTime`, startTradingSession requires
+ *      no active session and `now >= lastSessionTime + SESSION_DURATION`
+ * @param info Current session info
+ * @param lastSessionTime Start time of the last session
+ * @param now Latest block timestamp
+ */
+export function planNextAction(info: SessionInfo, lastSessionTime: number, now: number): SessionPlan {
+  if (info.sessionActive) {
+    const executableAt = Number(info.endTime) + 1;
+    const action = now >= executableAt ? "execute" : "wait";
+    return { action, session: info.session, dueAt: Math.max(executableAt, now), now };
+  }
+
+  const startableAt = lastSessionTime + SESSION_DURATION;
+  const action = now >= startableAt ? "start" : "wait";
+  return { action, session: info.session, dueAt: Math.max(startableAt, now), now };
+}
+
+/**
+ * @notice Event reported for a tick's outcome
+ */
+export function tickEvent(result: TickResult): SchedulerEvent {
+  switch (result.action) {
+    case "execute":
+      return { type: "executed", result: result.result };
+    case "start":
+      return { type: "started", result: result.result };
+    default:
+      return { type: "waiting", plan: result.plan };
+  }
+}
+
+/**
+ * @notice Errors that a retry cannot fix
+ */
+function isFatal(error: ForexTradingError): boolean {
+  return error instanceof AccessControlError || error instanceof ValidationError || error.code === "USER_REJECTED";
+}
+
+export class SessionScheduler {
+  private readonly pollInterval: number;
+  private readonly maxRetries: number;
+  private readonly retryDelay: number;
+
+  /**
+   * @param client Client connected to a signer holding the rate-oracle and session-operator roles
+   */
+  constructor(
+    private readonly client: ForexTradingClient,
+    private readonly options: SchedulerOptions
+  ) {
+    this.pollInterval = options.pollInterval ?? 15000;
+    this.maxRetries = options.maxRetries ?? 5;
+    this.retryDelay = options.retryDelay ?? 2000;
+  }
+
+  /**
+   * @notice Plan the next step from the current chain state
+   */
+  async plan(): Promise<SessionPlan> {
+    const [info, lastSessionTime, now] = await Promise.all([
+      this.client.getCurrentSessionInfo(),
+      this.client.lastSessionTime(),
+      this.chainTime(),
+    ]);
+    return planNextAction(info, lastSessionTime, now);
+  }
+
+  /**
+   * @notice Perform the due step once, without retrying
+   * @throws ForexTradingError if the transaction fails
+   */
+  async tick(): Promise<TickResult> {
+    return this.perform(await this.plan());
+  }
+
+  /**
+   * @notice Keep ticking until the signal is aborted
+   * @throws ForexTradingError when an action fails fatally or maxRetries times in a row
+   */
+  async run(signal: AbortSignal): Promise<void> {
+    let attempt = 0;
+    let announcedDueAt: number | undefined;
+
+    while (!signal.aborted) {
+      let action: SchedulerAction = "wait";
+      let result: TickResult;
+      try {
+        const plan = await this.plan();
+        action = plan.action;
+        result = await this.perform(plan);
+        attempt = 0;
+      } catch (caught) {
+        const error = decodeError(caught);
+        attempt++;
+        if (isFatal(error) || attempt > this.maxRetries) {
+          throw error;
+        }
+
+        const delay = this.retryDelay * 2 ** (attempt - 1);
+        this.options.onEvent?.({ type: "retrying", action, attempt, delay, error });
+        await sleep(delay, signal);
+        continue;
+      }
+
+      if (result.action === "wait") {
+        if (result.plan.dueAt !== announcedDueAt) {
+          announcedDueAt = result.plan.dueAt;
+          this.options.onEvent?.({ type: "waiting", plan: result.plan });
+        }
+        const untilDue = (result.plan.dueAt - result.plan.now) * 1000;
+        await sleep(Math.min(this.pollInterval, Math.max(untilDue, 1000)), signal);
+      } else {
+        this.options.onEvent?.(tickEvent(result));
+      }
+    }
+  }
+
+  private async perform(plan: SessionPlan): Promise<TickResult> {
+    switch (plan.action) {
+      case "execute":
+        return { action: "execute", plan, result: await this.execute() };
+      case "start":
+        return { action: "start", plan, result: await this.client.startTradingSession(await this.options.rates()) };
+      default:
+        return { action: "wait", plan };
+    }
+  }
+
+  private async execute(): Promise<ExecutionResult> {
+    const { batchSize } = this.options;
+    return batchSize === undefined ? this.client.executePrivateOrders() : this.client.executeBatch(batchSize);
+  }
+
+  /**
+   * @notice Timestamp of the latest block
+   */
+  private async chainTime(): Promise<number> {
+    const provider = this.client.getSigner().provider;
+    const block = await provider?.getBlock("latest");
+    if (!block) {
+      throw new Error("Could not read the latest block");
+    }
+    return block.timestamp;
+  }
+}
@@ -0,0 +1,170 @@
+import { ForexTradingClient, PrivateOrderRecord } from "./client";
+import type { DecryptionRequest, UserDecryptor } from "./decryption";
+import { OrderSide } from "./order-types";
+
+/**
+ * @title Settlement Report
+ * @notice Summarizes an executed session from OrderExecuted events and user-decrypted results
+ * @dev Order outcomes are encrypted and only their trader can decrypt them, so the
+ *      report depends on who runs it:
+ *      - A trader sees amount, price, pair, side, type and fill result of each of their own orders
+ *      - The owner additionally sees the session's total filled volume
+ *      - Everyone else sees which orders were executed, but not how
+ *      All handles the viewer may decrypt go into one request, so one permit is signed.
+ *
+ * @custom:usage const report = await buildSettlementReport(client.withRunner(trader), 1, decryptor);
+ */
+
+/**
+ * One executed order; decrypted fields are undefined when the viewer has no access
+ */
+export interface SettledOrder {
+  orderIndex: number;
+  filled?: boolean;
+  amount?: bigint;
+  targetPrice?: number;
+  /**
+   * Pair ID, resolved against the registry by the caller (see ForexTradingClient.getCurrencyPairs())
+   */
+  pair?: number;
+  side?: OrderSide;
+  /**
+   * Decrypted OrderType value; an encrypted unknown type shows up as-is
+   */
+  orderType?: number;
+}
+
+/**
+ * All executed orders of one trader
+ */
+export interface TraderSettlement {
+  trader: string;
+  decrypted: boolean;
+  orders: SettledOrder[];
+  filledOrders?: number;
+  filledAmount?: bigint;
+}
+
+/**
+ * Settlement of one session
+ */
+export interface SettlementReport {
+  session: number;
+  viewer: string;
+  executionBlock: number;
+  executionTx: string;
+  orderCount: number;
+  /**
+   * Total filled volume, only present when the viewer is the owner
+   */
+  volume?: bigint;
+  traders: TraderSettlement[];
+}
+
+export interface SettlementOptions {
+  /**
+   * First block to search for OrderExecuted events (e.g. the deployment block)
+   */
+  fromBlock?: number;
+}
+
+/**
+ * @notice Build the settlement report of an executed session
+ * @param client Client connected to the viewer's signer
+ * @param session Session ID to report on
+ * @param decryptor Relayer, or the FHEVM mock on local networks
+ * @throws If the session has no executed orders
+ */
+export async function buildSettlementReport(
+  client: ForexTradingClient,
+  session: number,
+  decryptor: UserDecryptor,
+  options: SettlementOptions = {}
+): Promise<SettlementReport> {
+  const events = await client.getExecutedOrders(session, options.fromBlock);
+  if (events.length === 0) {
+    throw new Error(`Session ${session} has no executed orders (not executed yet, or no orders were placed)`);
+  }
+
+  const signer = client.getSigner();
+  const viewer = await signer.getAddress();
+  const contractAddress = await client.getAddress();
+  const isOwner = (await client.owner()).toLowerCase() === viewer.toLowerCase();
+
+  const byTrader = new Map<string, number[]>();
+  for (const event of events) {
+    byTrader.set(event.trader, [...(byTrader.get(event.trader) ?? []), event.orderIndex]);
+  }
+
+  const ownIndexes = [...byTrader.entries()].find(([trader]) => trader.toLowerCase() === viewer.toLowerCase())?.[1];
+  const ownOrders = await Promise.all(
+    (ownIndexes ?? []).map((orderIndex) => client.getPrivateOrder(session, viewer, orderIndex))
+  );
+
+  const requests: DecryptionRequest[] = ownOrders.flatMap((order) => orderRequests(order, contractAddress));
+  const volumeHandle = isOwner ? (await client.getSessionHistory(session)).totalVolume : undefined;
+  if (volumeHandle) {
+    requests.push({ handle: volumeHandle, type: "euint64", contractAddress });
+  }
+
+  const values = requests.length > 0 ? await decryptor.userDecrypt(requests, signer) : [];
+  const decryptedOrders = ownOrders.map((order, index) =>
+    toSettledOrder(order, values.slice(index * HANDLES_PER_ORDER, (index + 1) * HANDLES_PER_ORDER))
+  );
+
+  const traders = [...byTrader.entries()].map(([trader, orderIndexes]): TraderSettlement => {
+    if (trader.toLowerCase() !== viewer.toLowerCase()) {
+      return { trader, decrypted: false, orders: orderIndexes.map((orderIndex) => ({ orderIndex })) };
+    }
+
+    const filled = decryptedOrders.filter((order) => order.filled);
+    return {
+      trader,
+      decrypted: true,
+      orders: decryptedOrders,
+      filledOrders: filled.length,
+      filledAmount: filled.reduce((sum, order) => sum + (order.amount ?? 0n), 0n),
+    };
+  });
+
+  return {
+    session,
+    viewer,
+    executionBlock: events[0].blockNumber,
+    executionTx: events[0].txHash,
+    orderCount: events.length,
+    volume: volumeHandle ? values[values.length - 1] : undefined,
+    traders,
+  };
+}
+
+const HANDLES_PER_ORDER = 6;
+
+/**
+ * @notice Decryption requests for one order: amount, price, pair, side, type, filled
+ */
+function orderRequests(order: PrivateOrderRecord, contractAddress: string): DecryptionRequest[] {
+  return [
+    { handle: order.encryptedAmount, type: "euint64", contractAddress },
+    { handle: order.encryptedPrice, type: "euint32", contractAddress },
+    { handle: order.encryptedPairId, type: "euint8", contractAddress },
+    { handle: order.encryptedIsSell, type: "ebool", contractAddress },
+    { handle: order.encryptedOrderType, type: "euint8", contractAddress },
+    { handle: order.encryptedFilled, type: "ebool", contractAddress },
+  ];
+}
+
+function toSettledOrder(
+  order: PrivateOrderRecord,
+  [amount, price, pair, isSell, orderType, filled]: bigint[]
+): SettledOrder {
+  return {
+    orderIndex: order.orderIndex,
+    filled: filled === 1n,
+    amount,
+    targetPrice: Number(price),
+    pair: Number(pair),
+    side: isSell === 1n ? OrderSide.Sell : OrderSide.Buy,
+    orderType: Number(orderType),
+  };
+}
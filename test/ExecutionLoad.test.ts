@@ -0,0 +1,121 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { setBalance, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HDNodeWallet } from "ethers";
+import { EXECUTION_BATCH_SIZE, ForexTradingClient } from "../scripts/lib/client";
+import { OrderSide, OrderType } from "../scripts/lib/order-types";
+import { CurrencyPair } from "../scripts/lib/pairs";
+import { deployForexTradingFixture } from "./fixtures";
+
+/**
+ * Mirrors SESSION_DURATION in PrivateForexTrading.sol (4 hours)
+ */
+const SESSION_DURATION = 14400;
+
+/**
+ * Session rates in pips, in pair ID order
+ */
+const RATES = [11000, 12500, 15000, 6500, 9200];
+
+const PLACE_ORDER = "placePrivateOrder(uint64,uint32,uint8,uint8,uint8)";
+
+/**
+ * Session size: enough traders that one execution transaction is out of the question. Each
+ * trader places an odd number of orders, so batches of the default size, which the keeper,
+ * the CLI and the frontend execute with, end in the middle of a trader's orders
+ */
+const TRADERS = 150;
+const ORDERS_PER_TRADER = 3;
+
+/**
+ * The coprocessor's per-transaction HCU limit only fits a few orders, however many fit the block gas limit
+ */
+const BATCH_SIZE = EXECUTION_BATCH_SIZE;
+
+/**
+ * Block gas limit of the hardhat network, and of most public chains
+ */
+const BLOCK_GAS_LIMIT = 30_000_000n;
+
+/**
+ * @chapter automation
+ * @description Load test: a session with hundreds of traders settled over bounded
+ *              executeBatch() transactions, with constant-cost order placement
+ */
+describe("Execution Load", function () {
+  let client: ForexTradingClient;
+  let traders: HDNodeWallet[];
+  let placementGas: bigint[];
+
+  before(async function () {
+    // Hundreds of encrypted orders are only practical against the mock coprocessor
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    this.timeout(20 * 60 * 1000);
+
+    ({ client } = await deployForexTradingFixture());
+    traders = Array.from({ length: TRADERS }, () => ethers.Wallet.createRandom().connect(ethers.provider));
+    for (const trader of traders) {
+      await setBalance(trader.address, ethers.parseEther("1"));
+      await client.contract.connect(trader).registerTrader();
+    }
+
+    await time.increase(SESSION_DURATION);
+    await client.startTradingSession(RATES);
+
+    // Traders have no collateral, so the orders reserve nothing and settle as zero amounts;
+    // execution runs the same encrypted operations either way. Every order has its own amount:
+    // identical plaintext inputs encrypt to identical handles, and only the first order to use
+    // a handle would pay for its ACL entries
+    placementGas = [];
+    for (let i = 0; i < ORDERS_PER_TRADER; i++) {
+      for (const trader of traders) {
+        const tx = await client.contract
+          .connect(trader)
+          [PLACE_ORDER](1000 + placementGas.length, 0, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Market);
+        placementGas.push((await tx.wait())!.gasUsed);
+      }
+    }
+  });
+
+  it("Should list every trader once", async function () {
+    expect((await client.getCurrentSessionInfo()).activeTraderCount).to.equal(TRADERS);
+  });
+
+  it("Should charge the last trader to join as much as the second", async function () {
+    // The first order of the session also creates the trader list, so compare with the second
+    const second = Number(placementGas[1]);
+    const last = Number(placementGas[TRADERS - 1]);
+    expect(last).to.be.closeTo(second, second / 100);
+
+    // Later orders of listed traders skip the push, whatever their position in the list
+    const repeat = placementGas.slice(TRADERS).map(Number);
+    expect(Math.max(...repeat) - Math.min(...repeat)).to.be.lessThan(second / 100);
+  });
+
+  it("Should execute the session in bounded batches", async function () {
+    this.timeout(20 * 60 * 1000);
+    await time.increase(SESSION_DURATION + 1);
+
+    const batches = await client.executeInBatches(BATCH_SIZE);
+    const orders = TRADERS * ORDERS_PER_TRADER;
+
+    expect(batches).to.have.lengthOf(Math.ceil(orders / BATCH_SIZE));
+    expect(batches.slice(0, -1).every((batch) => batch.executedOrders.length === BATCH_SIZE)).to.equal(true);
+    expect(batches.reduce((sum, batch) => sum + batch.executedOrders.length, 0)).to.equal(orders);
+    expect(batches.map((batch) => batch.completed).indexOf(true)).to.equal(batches.length - 1);
+
+    for (const batch of batches) {
+      expect(batch.receipt.gasUsed).to.be.lessThan(BLOCK_GAS_LIMIT);
+    }
+
+    expect(await client.currentSession()).to.equal(2);
+    expect(await client.getExecutionProgress(1)).to.deep.include({
+      traderCount: TRADERS,
+      nextTrader: TRADERS,
+      settledOrders: orders,
+      completed: true,
+    });
+  });
+});
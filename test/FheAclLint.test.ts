@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import { config } from "hardhat";
+import { lintSources } from "../tools/lint-fhe-acl";
+import {
+  AstNode,
+  BuildSource,
+  SourceText,
+  child,
+  children,
+  findAll,
+  loadBuildSources,
+  walk,
+} from "../tools/lib/solc-ast";
+
+const FILE = "contracts/PrivateForexTrading.sol";
+const POSITION_BOOK = "contracts/PositionBook.sol";
+
+/**
+ * @chapter access-control
+ * @description Static ACL checks: the FHE ACL linter over the compiled contract, and
+ *              over copies of its AST with a grant removed
+ */
+describe("FHE ACL Linter", function () {
+  let sources: Map<string, BuildSource>;
+
+  before(function () {
+    // hardhat test compiles first, so the build info is current
+    sources = loadBuildSources(config.paths.artifacts);
+  });
+
+  /**
+   * Sources with one statement removed from a function of a contract
+   */
+  function withoutStatement(functionName: string, statement: string, file = FILE): BuildSource[] {
+    const source = sources.get(file)!;
+    const text = new SourceText(source.content);
+    const ast: AstNode = structuredClone(source.ast);
+    const fn = findAll(ast, "FunctionDefinition").find((node) => node.name === functionName)!;
+
+    const body = child(fn, "body");
+    const statements = children(body, "statements");
+    body.statements = statements.filter((node) => text.slice(node.src).replace(/;$/, "") !== statement);
+    expect(body.statements).to.have.lengthOf(statements.length - 1);
+
+    return [...sources.values()].map((other) => (other.path === file ? { ...other, ast } : other));
+  }
+
+  it("Should find no ACL issues in PrivateForexTrading", async function () {
+    const report = lintSources(sources.values(), [FILE]);
+
+    expect(report.findings).to.deep.equal([]);
+    expect(report.summary).to.deep.equal({ files: 1, contracts: 1, errors: 0, warnings: 0 });
+  });
+
+  it("Should find no ACL issues in the PositionBook library", async function () {
+    const report = lintSources(sources.values(), [POSITION_BOOK]);
+
+    expect(report.findings).to.deep.equal([]);
+    expect(report.summary).to.deep.equal({ files: 1, contracts: 1, errors: 0, warnings: 0 });
+  });
+
+  it("Should resolve references within the build of each source", async function () {
+    // An older build-info whose AST ids point at other nodes, as incremental compiles leave behind
+    const stale = [...sources.values()].map((source) => {
+      const ast: AstNode = structuredClone(source.ast);
+      walk(ast, (node) => {
+        node.id += 1;
+      });
+      return { ...source, path: `stale/${source.path}`, build: "stale", ast };
+    });
+    const report = lintSources([...sources.values(), ...stale], [FILE]);
+
+    expect(report.findings).to.deep.equal([]);
+  });
+
+  it("Should flag a trade count stored without allowThis", async function () {
+    const report = lintSources(withoutStatement("_countFill", "FHE.allowThis(newTrades)"), [FILE]);
+
+    expect(report.findings).to.have.lengthOf(1);
+    expect(report.findings[0]).to.deep.include({
+      rule: "state-without-allow-this",
+      severity: "error",
+      file: FILE,
+      contract: "PrivateForexTrading",
+      function: "_countFill",
+    });
+    expect(report.findings[0].message).to.include("TraderProfile.totalTrades");
+  });
+
+  it("Should flag a returned trade count its trader was never granted", async function () {
+    const report = lintSources(withoutStatement("_countFill", "FHE.allow(newTrades, trader)"), [FILE]);
+
+    expect(report.findings).to.have.lengthOf(1);
+    expect(report.findings[0]).to.deep.include({ rule: "returned-without-allow", function: "_countFill" });
+    expect(report.findings[0].message).to.include("getMyEncryptedTotalTrades()");
+  });
+
+  it("Should report every field a handle without allowThis is stored to", async function () {
+    // PositionBook._open stores one zero handle into all five fields of a new position
+    const report = lintSources(withoutStatement("_open", "FHE.allowThis(zero)", POSITION_BOOK), [POSITION_BOOK]);
+
+    expect(report.findings.map((finding) => finding.function)).to.deep.equal(Array(5).fill("_open"));
+  });
+});
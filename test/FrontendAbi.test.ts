@@ -0,0 +1,19 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import { artifacts, config } from "hardhat";
+import * as path from "path";
+import { abiScript } from "../tools/export-frontend-abi";
+
+/**
+ * @chapter tooling
+ * @description ABI export behind the frontend: the committed script must match the compiled contract
+ */
+describe("Frontend ABI", function () {
+  it("Should match the committed frontend ABI to the compiled contract", async function () {
+    // hardhat test compiles first, so the artifact is current
+    const { abi } = await artifacts.readArtifact("PrivateForexTrading");
+    const committed = fs.readFileSync(path.join(config.paths.root, "frontend", "contract-abi.js"), "utf8");
+
+    expect(committed, 'run "npm run frontend:abi"').to.equal(abiScript(abi));
+  });
+});
@@ -0,0 +1,374 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import type * as http from "http";
+import type { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { ethers, fhevm } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ForexTradingClient } from "../scripts/lib/client";
+import { createHistoryServer } from "../scripts/lib/history-server";
+import { ForexIndexer, INDEXED_EVENTS, IndexedOrder, loadIndex, saveIndex } from "../scripts/lib/indexer";
+import type { MockStablecoin } from "../typechain-types";
+import { deployForexTradingFixture } from "./fixtures";
+
+/**
+ * Mirrors SESSION_DURATION in PrivateForexTrading.sol (4 hours)
+ */
+const SESSION_DURATION = 14400;
+
+/**
+ * Session rates in pips, in pair ID order
+ */
+const RATES = [11000, 12500, 15000, 6500, 9200];
+
+const PLACE_ORDER = "placePrivateOrder(uint64,uint32,uint8,uint8,uint8)";
+
+/**
+ * Index file name; the index directory is emptied before every test
+ */
+const NETWORK = "hardhat";
+
+/**
+ * Blocks per eth_getLogs request; small, so a sync spans several requests
+ */
+const BATCH_SIZE = 4;
+
+/**
+ * Hash of a block that is not on the chain, for checkpoints orphaned by a reorg
+ */
+const ORPHANED_HASH = "0x" + "ab".repeat(32);
+
+/**
+ * @chapter automation
+ * @description Event indexer on the hardhat network: backfilling the trade history,
+ *              applying new blocks, rolling back after a reorg, and the query API
+ *              with its HTTP routes
+ */
+describe("Event Indexer", function () {
+  let client: ForexTradingClient;
+  let token: MockStablecoin;
+  let address: string;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let fromBlock: number;
+  let dir: string;
+  let previousDir: string | undefined;
+
+  before(function () {
+    // Placing orders needs the mock coprocessor of the local hardhat network
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "forex-index-"));
+    previousDir = process.env.INDEX_DIR;
+    process.env.INDEX_DIR = dir;
+  });
+
+  after(function () {
+    if (dir === undefined) return;
+    fs.rmSync(dir, { recursive: true, force: true });
+    if (previousDir === undefined) {
+      delete process.env.INDEX_DIR;
+    } else {
+      process.env.INDEX_DIR = previousDir;
+    }
+  });
+
+  /**
+   * Session 1: alice and bob register and fund, alice places two orders, amends the
+   * first and cancels the second, bob places one
+   */
+  beforeEach(async function () {
+    fs.rmSync(path.join(dir, `${NETWORK}.json`), { force: true });
+    ({ client, token, address, alice, bob } = await deployForexTradingFixture());
+    fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+    await fund(alice, 1_000_000);
+    await fund(bob, 1_000_000);
+    await time.increase(SESSION_DURATION);
+    await client.startTradingSession(RATES);
+
+    await client.contract.connect(alice)[PLACE_ORDER](5000, 11000, 0, 0, 0);
+    await client.contract.connect(alice)[PLACE_ORDER](3000, 12500, 1, 1, 0);
+    await client.contract.connect(bob)[PLACE_ORDER](2000, 15000, 2, 0, 0);
+    await client.withRunner(alice).amendOrder(0, { amount: 4000n, targetPrice: 11500 }, fhevm);
+    await client.withRunner(alice).cancelOrder(1);
+  });
+
+  async function fund(trader: HardhatEthersSigner, amount: number): Promise<void> {
+    await client.contract.connect(trader).registerTrader();
+    await token.mint(trader.address, amount);
+    await token.connect(trader).approve(address, amount);
+    await client.contract.connect(trader).deposit(amount);
+  }
+
+  function createIndexer(): ForexIndexer {
+    return new ForexIndexer(ethers.provider, {
+      network: NETWORK,
+      chainId: 31337,
+      contract: address,
+      fromBlock,
+      batchSize: BATCH_SIZE,
+    });
+  }
+
+  /**
+   * Rewrite the index of the last sync with the checkpoints above a block replaced by
+   * orphaned hashes, as if those blocks had been reorganized away since
+   */
+  function orphanCheckpointsAbove(blockNumber: number): void {
+    const store = loadIndex(NETWORK);
+    if (!store) throw new Error("Index not written");
+
+    store.recentBlocks = store.recentBlocks.map((checkpoint) =>
+      checkpoint.number > blockNumber ? { ...checkpoint, hash: ORPHANED_HASH } : checkpoint
+    );
+    saveIndex(store);
+  }
+
+  describe("Backfill", function () {
+    it("Should index sessions, traders and orders from the first block", async function () {
+      const head = await ethers.provider.getBlockNumber();
+      const result = await createIndexer().sync();
+      expect(result).to.deep.equal({ fromBlock, toBlock: head, newEvents: 9, reorgedTo: undefined });
+
+      const history = createIndexer().history();
+      expect(history.status()).to.include({ network: NETWORK, chainId: 31337, fromBlock, lastBlock: head });
+      expect(history.sessions()).to.have.lengthOf(1);
+      expect(history.session(1)).to.include({
+        orderCount: 3,
+        cancelledOrderCount: 1,
+        executedOrderCount: 0,
+        pricesUpdated: true,
+        executed: false,
+      });
+      expect(history.session(1)?.traders).to.deep.equal([alice.address, bob.address]);
+
+      expect(history.traders().map((trader) => trader.trader)).to.deep.equal([alice.address, bob.address]);
+      expect(history.trader(alice.address.toLowerCase())).to.include({ orderCount: 2, executedOrderCount: 0 });
+      expect(history.trader(alice.address)?.sessions).to.deep.equal([1]);
+
+      const orders = history.orders({ trader: alice.address });
+      expect(orders.map((order) => [order.orderIndex, order.amendments, order.cancelled])).to.deep.equal([
+        [0, 1, false],
+        [1, 0, true],
+      ]);
+    });
+
+    it("Should store only the events the trade history is derived from", async function () {
+      await createIndexer().sync();
+
+      const names = loadIndex(NETWORK)?.events.map((event) => event.name);
+      expect(names).to.not.include("Deposited");
+      expect(INDEXED_EVENTS).to.include.members(names ?? []);
+    });
+
+    it("Should span several getLogs requests without losing events", async function () {
+      const wide = new ForexIndexer(ethers.provider, { network: "wide", chainId: 31337, contract: address, fromBlock });
+      await wide.sync();
+      await createIndexer().sync();
+
+      expect(loadIndex(NETWORK)?.events).to.deep.equal(loadIndex("wide")?.events);
+    });
+  });
+
+  describe("Live Updates", function () {
+    it("Should apply new blocks on the next sync and resume from the stored index", async function () {
+      const indexer = createIndexer();
+      const first = await indexer.sync();
+
+      await time.increase(SESSION_DURATION + 1);
+      await client.executePrivateOrders();
+
+      const second = await indexer.sync();
+      expect(second.fromBlock).to.equal(first.toBlock + 1);
+      expect(second.newEvents).to.equal(3);
+
+      const history = indexer.history();
+      expect(history.session(1)).to.include({ executedOrderCount: 2, executed: true });
+      expect(history.trader(bob.address)).to.include({ executedOrderCount: 1 });
+      expect(history.orders({ executed: true }).map((order) => order.trader)).to.deep.equal([
+        alice.address,
+        bob.address,
+      ]);
+
+      // A new instance picks up where the file left off
+      const resumed = await createIndexer().sync();
+      expect(resumed).to.include({ fromBlock: second.toBlock + 1, newEvents: 0 });
+    });
+
+    it("Should mark a session executed once its last batch emitted SessionExecuted", async function () {
+      const indexer = createIndexer();
+      await time.increase(SESSION_DURATION + 1);
+
+      await client.executeBatch(1);
+      await indexer.sync();
+      expect(indexer.history().session(1)).to.include({ executedOrderCount: 1, executed: false });
+
+      await client.executeBatch(1);
+      const executedBlock = await ethers.provider.getBlockNumber();
+      await indexer.sync();
+      expect(indexer.history().session(1)).to.include({ executed: true, endedEarly: false, executedBlock });
+    });
+
+    it("Should mark a session ended early as executed and cancelled on SessionCancelled", async function () {
+      const indexer = createIndexer();
+      await client.emergencyEndSession();
+      const executedBlock = await ethers.provider.getBlockNumber();
+
+      await indexer.sync();
+      expect(indexer.history().session(1)).to.include({
+        cancelledOrderCount: 3,
+        executedOrderCount: 0,
+        executed: true,
+        endedEarly: true,
+        executedBlock,
+      });
+    });
+
+    it("Should stay the given number of blocks behind head", async function () {
+      const head = await ethers.provider.getBlockNumber();
+      const indexer = new ForexIndexer(ethers.provider, {
+        network: NETWORK,
+        chainId: 31337,
+        contract: address,
+        fromBlock,
+        confirmations: 2,
+      });
+
+      const result = await indexer.sync();
+      expect(result.toBlock).to.equal(head - 2);
+      // The cancellation and the amendment are the last two blocks
+      expect(indexer.history().orders({ cancelled: true })).to.be.empty;
+      expect(indexer.history().orders({ trader: alice.address })[0].amendments).to.equal(0);
+    });
+  });
+
+  /**
+   * Reorgs are forced by orphaning stored checkpoints: rewinding the chain itself with
+   * evm_revert would break user decryption in the suites that run after this one
+   */
+  describe("Reorgs", function () {
+    it("Should roll back to the newest checkpoint still on the chain and index the new blocks", async function () {
+      await createIndexer().sync();
+      const indexed = loadIndex(NETWORK)!.events;
+      const sessionStart = indexed.find((event) => event.name === "SessionStarted")!.blockNumber;
+      orphanCheckpointsAbove(sessionStart);
+
+      const result = await createIndexer().sync();
+      expect(result.reorgedTo).to.equal(sessionStart);
+      expect(result.fromBlock).to.equal(sessionStart + 1);
+      expect(result.newEvents).to.equal(indexed.filter((event) => event.blockNumber > sessionStart).length);
+      expect(loadIndex(NETWORK)?.events).to.deep.equal(indexed);
+    });
+
+    it("Should start over after a reorg deeper than its checkpoints", async function () {
+      await createIndexer().sync();
+      const indexed = loadIndex(NETWORK)!.events;
+      orphanCheckpointsAbove(fromBlock - 1);
+
+      const result = await createIndexer().sync();
+      expect(result).to.include({ reorgedTo: fromBlock - 1, fromBlock, newEvents: indexed.length });
+      expect(loadIndex(NETWORK)?.events).to.deep.equal(indexed);
+    });
+
+    it("Should drop events of orphaned blocks from the query API", async function () {
+      const indexer = createIndexer();
+      await indexer.sync();
+      const cancelled = indexer.history().orders({ cancelled: true })[0];
+      orphanCheckpointsAbove(cancelled.cancelledBlock! - 1);
+
+      // The cancellation is the head block: one confirmation rolls back without indexing it again
+      const behind = new ForexIndexer(ethers.provider, {
+        network: NETWORK,
+        chainId: 31337,
+        contract: address,
+        fromBlock,
+        confirmations: 1,
+      });
+      const result = await behind.sync();
+      expect(result).to.include({ reorgedTo: cancelled.cancelledBlock! - 1, newEvents: 0 });
+      expect(behind.history().orders({ cancelled: true })).to.be.empty;
+      expect(behind.history().session(1)).to.include({ cancelledOrderCount: 0 });
+    });
+  });
+
+  describe("Queries", function () {
+    it("Should combine the order filters", async function () {
+      const indexer = createIndexer();
+      await indexer.sync();
+      const history = indexer.history();
+
+      expect(history.orders()).to.have.lengthOf(3);
+      expect(history.orders({ session: 1 })).to.have.lengthOf(3);
+      expect(history.orders({ session: 2 })).to.be.empty;
+      expect(history.orders({ trader: bob.address.toLowerCase() })).to.have.lengthOf(1);
+      expect(history.orders({ trader: alice.address, cancelled: false })).to.have.lengthOf(1);
+      expect(history.orders({ cancelled: true })[0]).to.include({ trader: alice.address, orderIndex: 1 });
+      expect(history.orders({ executed: false, cancelled: false })).to.have.lengthOf(2);
+      expect(history.orders({ executed: true })).to.be.empty;
+      expect(history.trader(ethers.ZeroAddress)).to.equal(undefined);
+      expect(history.session(2)).to.equal(undefined);
+    });
+  });
+
+  /**
+   * The history server on an ephemeral port, over the indexed fixture session
+   */
+  describe("HTTP API", function () {
+    let server: http.Server;
+    let url: string;
+
+    beforeEach(async function () {
+      const indexer = createIndexer();
+      await indexer.sync();
+      server = createHistoryServer(() => indexer.history());
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async function () {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    async function get<T = unknown>(route: string, init?: RequestInit): Promise<{ status: number; body: T }> {
+      const response = await fetch(`${url}${route}`, init);
+      return { status: response.status, body: (await response.json()) as T };
+    }
+
+    it("Should serve sessions, traders and their orders", async function () {
+      const status = await get("/status");
+      expect(status.status).to.equal(200);
+      expect(status.body).to.include({ network: NETWORK, eventCount: 9 });
+
+      expect((await get("/sessions")).body).to.have.lengthOf(1);
+      expect((await get("/sessions/1")).body).to.include({ session: 1, orderCount: 3 });
+      expect((await get("/sessions/1/orders")).body).to.have.lengthOf(3);
+      expect((await get("/traders")).body).to.have.lengthOf(2);
+      expect((await get(`/traders/${bob.address}`)).body).to.include({ trader: bob.address, orderCount: 1 });
+      expect((await get(`/traders/${alice.address}/orders`)).body).to.have.lengthOf(2);
+    });
+
+    it("Should filter orders by query parameters", async function () {
+      const cancelled = await get<IndexedOrder[]>(`/orders?cancelled=true&trader=${alice.address}`);
+      expect(cancelled.body.map((order) => order.orderIndex)).to.deep.equal([1]);
+
+      expect((await get("/orders?session=1&cancelled=false")).body).to.have.lengthOf(2);
+      expect((await get("/orders?executed=true")).body).to.be.empty;
+      expect((await get("/orders?session=2")).body).to.be.empty;
+    });
+
+    it("Should reject unknown routes, bad IDs and other methods", async function () {
+      expect((await get("/sessions/2")).status).to.equal(404);
+      expect((await get("/positions")).status).to.equal(404);
+
+      const badId = await get<{ error: string }>("/sessions/one");
+      expect(badId.status).to.equal(400);
+      expect(badId.body.error).to.contain("session must be a non-negative integer");
+
+      expect((await get("/sessions", { method: "POST" })).status).to.equal(405);
+    });
+  });
+});
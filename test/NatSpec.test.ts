@@ -0,0 +1,102 @@
+import { expect } from "chai";
+import { customTagValues, parseNatSpec } from "../tools/lib/natspec";
+import { SourceText } from "../tools/lib/solc-ast";
+
+/**
+ * Documentation text as solc stores it in the AST: comment markers stripped, indentation kept
+ */
+const CONTRACT_DOC = [
+  "@title PrivateForexTrading",
+  " @notice A privacy-preserving forex trading platform",
+  " @dev Demonstrates key FHEVM concepts:",
+  "      - Encrypted data types (euint64, euint32, euint8)",
+  "      - ERC-20 collateral deposits, and withdrawals checked against the encrypted",
+  "        balance and settled through the decryption oracle",
+  "      Every order is settled under encryption.",
+  "",
+  " @custom:category access-control",
+  " @custom:category encryption",
+].join("\n");
+
+const FUNCTION_DOC = [
+  "@notice Request a withdrawal of collateral tokens",
+  "         from the caller's encrypted balance",
+  " @param amount Amount in token units",
+  " @return requestId Decryption request ID, also emitted in WithdrawalRequested",
+  " @custom:decryption-pattern FHE.requestDecryption with an oracle callback",
+].join("\n");
+
+/**
+ * A struct as written in a contract; solc leaves its NatSpec out of the AST
+ */
+const STRUCT_SOURCE = [
+  "    /**",
+  "     * @notice Structure representing a trader's profile",
+  "     * @param encryptedBalance The trader's private balance (euint64)",
+  "     */",
+  "    struct TraderProfile {",
+  "        euint64 encryptedBalance;     // Private balance",
+  "        euint32 totalTrades;          // Encrypted trade count",
+  "    }",
+].join("\n");
+
+/**
+ * @notice solc source range ("start:length:source") of a piece of STRUCT_SOURCE
+ */
+function rangeOf(piece: string): string {
+  return `${Buffer.byteLength(STRUCT_SOURCE.slice(0, STRUCT_SOURCE.indexOf(piece)))}:${Buffer.byteLength(piece)}:0`;
+}
+
+/**
+ * @chapter tooling
+ * @description NatSpec parsing behind the documentation generator: multi-line tags,
+ *              repeated custom tags and untagged comments
+ */
+describe("NatSpec", function () {
+  it("Should keep every line of a multi-line tag with its indentation", async function () {
+    const natspec = parseNatSpec(CONTRACT_DOC);
+
+    expect(natspec.title).to.equal("PrivateForexTrading");
+    expect(natspec.notice).to.equal("A privacy-preserving forex trading platform");
+    // Wrapped list items are indented deeper than their marker, text after the list is not
+    expect(natspec.details.split("\n")).to.deep.equal([
+      "Demonstrates key FHEVM concepts:",
+      "      - Encrypted data types (euint64, euint32, euint8)",
+      "      - ERC-20 collateral deposits, and withdrawals checked against the encrypted",
+      "        balance and settled through the decryption oracle",
+      "      Every order is settled under encryption.",
+    ]);
+  });
+
+  it("Should keep repeated custom tags", async function () {
+    expect(customTagValues(parseNatSpec(CONTRACT_DOC), "category")).to.deep.equal(["access-control", "encryption"]);
+  });
+
+  it("Should parse params, returns and custom tags of a function", async function () {
+    const natspec = parseNatSpec(FUNCTION_DOC);
+
+    expect(natspec.notice).to.equal("Request a withdrawal of collateral tokens\n         from the caller's encrypted balance");
+    expect(natspec.params).to.deep.equal({ amount: "Amount in token units" });
+    expect(natspec.returns).to.deep.equal(["requestId Decryption request ID, also emitted in WithdrawalRequested"]);
+    expect(natspec.custom).to.deep.equal([
+      { name: "custom:decryption-pattern", text: "FHE.requestDecryption with an oracle callback" },
+    ]);
+  });
+
+  it("Should read the doc comment above a node solc keeps no documentation for", async function () {
+    const text = new SourceText(STRUCT_SOURCE);
+    const natspec = parseNatSpec(text.docCommentBefore(rangeOf("struct TraderProfile")));
+
+    expect(natspec.notice).to.equal("Structure representing a trader's profile");
+    expect(natspec.params).to.deep.equal({ encryptedBalance: "The trader's private balance (euint64)" });
+    expect(text.docCommentBefore(rangeOf("euint32 totalTrades"))).to.equal(undefined);
+    expect(text.trailingComment(rangeOf("euint32 totalTrades"))).to.equal("Encrypted trade count");
+  });
+
+  it("Should read an untagged comment as the notice", async function () {
+    expect(parseNatSpec("Mirrors SESSION_DURATION in the contract").notice).to.equal(
+      "Mirrors SESSION_DURATION in the contract"
+    );
+    expect(parseNatSpec(undefined).notice).to.equal("");
+  });
+});
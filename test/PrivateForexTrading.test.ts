@@ -0,0 +1,1892 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ForexRates, ForexTradingClient } from "../scripts/lib/client";
+import { FhevmMockDecryptor } from "../scripts/lib/decryption";
+import { EncryptedOrder, encryptAmendment, encryptOrder } from "../scripts/lib/encryption";
+import { leverageToMarginBps, previewMargin, requiredMargin } from "../scripts/lib/margin";
+import { OrderSide, OrderType } from "../scripts/lib/order-types";
+import { buildPortfolio, formatPnl } from "../scripts/lib/portfolio";
+import { buildSettlementReport } from "../scripts/lib/settlement";
+import { AccessControlError, DecryptionError, ValidationError } from "../scripts/lib/errors";
+import { CurrencyPair, CURRENCY_PAIRS, DEFAULT_PAIRS } from "../scripts/lib/pairs";
+import { ROLE_IDS, ROLES, parseRole } from "../scripts/lib/roles";
+import { SchedulerEvent, SessionScheduler, planNextAction } from "../scripts/lib/scheduler";
+import type { MockStablecoin } from "../typechain-types";
+import { deployForexTradingFixture } from "./fixtures";
+
+/**
+ * Mirrors SESSION_DURATION in PrivateForexTrading.sol (4 hours)
+ */
+const SESSION_DURATION = 14400;
+
+/**
+ * Session rates in pips, in pair ID order: 1.1000, 1.2500, 150.00, 0.6500, 0.9200
+ */
+const RATES = [11000, 12500, 15000, 6500, 9200];
+
+/**
+ * placePrivateOrder is overloaded, so the plaintext variant is called by signature
+ */
+const PLACE_ORDER = "placePrivateOrder(uint64,uint32,uint8,uint8,uint8)";
+const PLACE_ENCRYPTED_ORDER = "placePrivateOrder(bytes32,bytes32,bytes32,bytes32,bytes32,bytes)";
+
+/**
+ * Side and type of the orders the original matching rule filled: at the target price or below
+ */
+const BUY_LIMIT = { side: OrderSide.Buy, orderType: OrderType.Limit };
+
+/**
+ * @chapter trading
+ * @description Test suite for PrivateForexTrading covering registration, the session
+ *              lifecycle, private orders and execution, with encrypted values checked
+ *              by user-decrypting them through the FHEVM mock
+ */
+describe("PrivateForexTrading", function () {
+  let client: ForexTradingClient;
+  let token: MockStablecoin;
+  let address: string;
+  let owner: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+
+  before(function () {
+    // Decryption assertions need the mock coprocessor of the local hardhat network
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    ({ client, token, address, owner, alice, bob, carol } = await deployForexTradingFixture());
+  });
+
+  /**
+   * Contract binding connected as the given signer, for revert assertions
+   */
+  function as(signer: HardhatEthersSigner) {
+    return client.contract.connect(signer);
+  }
+
+  /**
+   * Submit an encryptOrder() result through the encrypted placePrivateOrder overload
+   */
+  function placeEncrypted(signer: HardhatEthersSigner, input: EncryptedOrder) {
+    const { amount, targetPrice, pair, side, orderType, inputProof } = input;
+    return as(signer)[PLACE_ENCRYPTED_ORDER](amount, targetPrice, pair, side, orderType, inputProof);
+  }
+
+  /**
+   * Register a trader and deposit freshly minted collateral into their encrypted balance
+   */
+  async function fund(trader: HardhatEthersSigner, amount: number): Promise<void> {
+    await as(trader).registerTrader();
+    await token.mint(trader.address, amount);
+    await token.connect(trader).approve(address, amount);
+    await as(trader).deposit(amount);
+  }
+
+  async function decryptBalance(trader: HardhatEthersSigner): Promise<bigint> {
+    const profile = await client.contract.traderProfiles(trader.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, profile.encryptedBalance, address, trader);
+  }
+
+  async function decryptLocked(trader: HardhatEthersSigner): Promise<bigint> {
+    const handle = await as(trader).getMyEncryptedLockedMargin();
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, address, trader);
+  }
+
+  async function decryptTotalTrades(trader: HardhatEthersSigner): Promise<bigint> {
+    const handle = await as(trader).getMyEncryptedTotalTrades();
+    return fhevm.userDecryptEuint(FhevmType.euint32, handle, address, trader);
+  }
+
+  /**
+   * Wait out the cooldown since the previous session and start a new one
+   */
+  async function startSession(rates: ForexRates = RATES): Promise<void> {
+    await time.increase(SESSION_DURATION);
+    await client.startTradingSession(rates);
+  }
+
+  /**
+   * @chapter deployment
+   * @description Verify the initial contract state
+   */
+  describe("Deployment", function () {
+    it("Should set the deployer as owner", async function () {
+      expect(await client.owner()).to.equal(owner.address);
+    });
+
+    it("Should start at session 1 with no active session", async function () {
+      expect(await client.currentSession()).to.equal(1);
+      expect(await client.isSessionActive()).to.equal(false);
+
+      const info = await client.getCurrentSessionInfo();
+      expect(info.pricesSet).to.equal(false);
+      expect(info.sessionActive).to.equal(false);
+      expect(info.activeTraderCount).to.equal(0);
+    });
+
+    it("Should record the deployment time as the last session time", async function () {
+      expect(await client.contract.lastSessionTime()).to.equal(await time.latest());
+    });
+
+    it("Should list the five default pairs as IDs 0-4", async function () {
+      expect(await client.getCurrencyPairs()).to.deep.equal(DEFAULT_PAIRS);
+      for (const pair of CURRENCY_PAIRS) {
+        expect(await client.contract.pairDecimals(pair)).to.equal(DEFAULT_PAIRS[pair].decimals);
+      }
+    });
+  });
+
+  /**
+   * @chapter encryption
+   * @description Registration encrypts the initial balance and grants the trader access
+   */
+  describe("Registration", function () {
+    it("Should register a trader and emit TraderRegistered", async function () {
+      await expect(as(alice).registerTrader()).to.emit(client.contract, "TraderRegistered").withArgs(alice.address);
+
+      const profile = await client.getTraderProfile(alice.address);
+      expect(profile.isRegistered).to.equal(true);
+      expect(profile.lastActivity).to.equal(await time.latest());
+    });
+
+    it("Should start with an empty encrypted balance decryptable by the trader", async function () {
+      await as(alice).registerTrader();
+
+      expect(await decryptBalance(alice)).to.equal(0n);
+      expect(await decryptTotalTrades(alice)).to.equal(0n);
+    });
+
+    it("Should reject registering twice", async function () {
+      await as(alice).registerTrader();
+      await expect(as(alice).registerTrader()).to.be.revertedWith("Already registered");
+    });
+
+    it("Should report unregistered traders", async function () {
+      const profile = await client.getTraderProfile(bob.address);
+      expect(profile.isRegistered).to.equal(false);
+      expect(profile.lastActivity).to.equal(0n);
+    });
+  });
+
+  /**
+   * @chapter access-control
+   * @description Session lifecycle: role checks, onlyOutsideSession and SESSION_DURATION gating
+   */
+  describe("Session Management", function () {
+    it("Should reject starting a session before SESSION_DURATION has passed", async function () {
+      await expect(as(owner).startTradingSession(RATES)).to.be.revertedWith("Too early for new session");
+    });
+
+    it("Should only let the owner start a session", async function () {
+      await time.increase(SESSION_DURATION);
+      await expect(as(alice).startTradingSession(RATES)).to.be.revertedWith("Not authorized");
+    });
+
+    it("Should start a session with encrypted rates for every pair", async function () {
+      await time.increase(SESSION_DURATION);
+
+      const tx = as(owner).startTradingSession(RATES);
+      await expect(tx).to.emit(client.contract, "SessionStarted");
+      await expect(tx).to.emit(client.contract, "PricesUpdated").withArgs(1);
+
+      expect(await client.isSessionActive()).to.equal(true);
+      for (const pair of CURRENCY_PAIRS) {
+        expect(await client.contract.hasRateForPair(1, pair)).to.equal(true);
+      }
+      expect(await client.contract.hasRateForPair(2, CurrencyPair.EUR_USD)).to.equal(false);
+    });
+
+    it("Should set the session window to SESSION_DURATION", async function () {
+      await startSession();
+
+      const info = await client.getCurrentSessionInfo();
+      expect(info.pricesSet).to.equal(true);
+      expect(info.sessionActive).to.equal(true);
+      expect(info.endTime - info.startTime).to.equal(BigInt(SESSION_DURATION));
+      expect(await client.contract.lastSessionTime()).to.equal(info.startTime);
+    });
+
+    it("Should reject starting a session while one is active", async function () {
+      await startSession();
+      await expect(as(owner).startTradingSession(RATES)).to.be.revertedWith("Session currently active");
+    });
+
+    it("Should report the session inactive once its end time has passed", async function () {
+      await startSession();
+      await time.increase(SESSION_DURATION + 1);
+
+      expect(await client.isSessionActive()).to.equal(false);
+      expect((await client.getCurrentSessionInfo()).sessionActive).to.equal(true);
+    });
+
+    it("Should let only the owner end a session early", async function () {
+      await startSession();
+
+      await expect(as(alice).emergencyEndSession()).to.be.revertedWith("Not authorized");
+      await as(owner).emergencyEndSession();
+
+      const info = await client.getCurrentSessionInfo();
+      expect(info.sessionActive).to.equal(false);
+      expect(info.endTime).to.equal(await time.latest());
+      expect(await client.isSessionActive()).to.equal(false);
+    });
+
+    it("Should reject emergencyEndSession without an active session", async function () {
+      await expect(as(owner).emergencyEndSession()).to.be.revertedWith("No active session");
+    });
+  });
+
+  /**
+   * @chapter access-control
+   * @description Admin, session operator, rate oracle and pauser roles, pausing, and
+   *              two-step ownership transfer
+   */
+  describe("Roles", function () {
+    it("Should give the deployer every role", async function () {
+      for (const role of ROLES) {
+        expect(await client.hasRole(role, owner.address)).to.equal(true);
+        expect(await client.getRoleMembers(role)).to.deep.equal([owner.address]);
+      }
+      expect(await client.contract.RATE_ORACLE_ROLE()).to.equal(ROLE_IDS["rate-oracle"]);
+      expect(await client.pendingOwner()).to.equal(undefined);
+      expect(await client.paused()).to.equal(false);
+    });
+
+    it("Should let admins grant and revoke roles", async function () {
+      await expect(as(owner).grantRole(ROLE_IDS.pauser, alice.address))
+        .to.emit(client.contract, "RoleGranted")
+        .withArgs(ROLE_IDS.pauser, alice.address, owner.address);
+      expect(await client.getRoleMembers("pauser")).to.deep.equal([owner.address, alice.address]);
+
+      await expect(as(owner).revokeRole(ROLE_IDS.pauser, owner.address))
+        .to.emit(client.contract, "RoleRevoked")
+        .withArgs(ROLE_IDS.pauser, owner.address, owner.address);
+      expect(await client.getRoleMembers("pauser")).to.deep.equal([alice.address]);
+
+      await expect(as(alice).grantRole(ROLE_IDS.admin, alice.address)).to.be.revertedWith("Not authorized");
+      await expect(as(alice).revokeRole(ROLE_IDS.pauser, alice.address)).to.be.revertedWith("Not authorized");
+    });
+
+    it("Should report whether granting or revoking changed anything", async function () {
+      expect((await client.grantRole("session-operator", alice.address)).changed).to.equal(true);
+      expect((await client.grantRole("session-operator", alice.address)).changed).to.equal(false);
+      expect((await client.revokeRole("session-operator", alice.address)).changed).to.equal(true);
+      expect((await client.revokeRole("session-operator", alice.address)).changed).to.equal(false);
+    });
+
+    it("Should reject unknown roles and the zero address", async function () {
+      await expect(as(owner).grantRole(ethers.id("OWNER_ROLE"), alice.address)).to.be.revertedWith("Unknown role");
+      await expect(as(owner).revokeRole(ethers.ZeroHash, alice.address)).to.be.revertedWith("Unknown role");
+      await expect(as(owner).grantRole(ROLE_IDS.admin, ethers.ZeroAddress)).to.be.revertedWith("Invalid account");
+
+      expect(parseRole("RATE_ORACLE_ROLE")).to.equal("rate-oracle");
+      expect(parseRole(ROLE_IDS["session-operator"])).to.equal("session-operator");
+      expect(() => parseRole("owner")).to.throw(ValidationError).with.property("code", "INVALID_ROLE");
+    });
+
+    it("Should let only rate oracles start sessions", async function () {
+      await client.grantRole("rate-oracle", alice.address);
+      await client.revokeRole("rate-oracle", owner.address);
+      await time.increase(SESSION_DURATION);
+
+      await expect(as(owner).startTradingSession(RATES)).to.be.revertedWith("Not authorized");
+      await expect(as(alice).startTradingSession(RATES)).to.emit(client.contract, "SessionStarted");
+    });
+
+    it("Should let only session operators execute and end sessions", async function () {
+      await client.grantRole("session-operator", alice.address);
+      await client.revokeRole("session-operator", owner.address);
+      await startSession();
+
+      await time.increase(SESSION_DURATION + 1);
+      await expect(as(owner).executePrivateOrders()).to.be.revertedWith("Not authorized");
+      await as(alice).executePrivateOrders();
+      expect(await client.currentSession()).to.equal(2);
+
+      await startSession();
+      await expect(as(owner).emergencyEndSession()).to.be.revertedWith("Not authorized");
+      await as(alice).emergencyEndSession();
+      expect(await client.isSessionActive()).to.equal(false);
+    });
+
+    it("Should let only admins manage pairs and margins", async function () {
+      await client.grantRole("admin", alice.address);
+
+      await expect(as(bob).listCurrencyPair("EUR/GBP", 4)).to.be.revertedWith("Not authorized");
+      await expect(as(bob).delistCurrencyPair(0)).to.be.revertedWith("Not authorized");
+      await expect(as(bob).setPairMargin(0, 500)).to.be.revertedWith("Not authorized");
+
+      await expect(as(alice).listCurrencyPair("EUR/GBP", 4)).to.emit(client.contract, "CurrencyPairListed");
+      await expect(as(alice).setPairMargin(0, 500)).to.emit(client.contract, "PairMarginUpdated").withArgs(0, 500);
+      await expect(as(alice).delistCurrencyPair(0)).to.emit(client.contract, "CurrencyPairDelisted").withArgs(0);
+    });
+
+    it("Should let only pausers pause and unpause", async function () {
+      await client.grantRole("pauser", alice.address);
+
+      await expect(as(bob).pause()).to.be.revertedWith("Not authorized");
+      await expect(as(alice).pause()).to.emit(client.contract, "Paused").withArgs(alice.address);
+      await expect(as(alice).pause()).to.be.revertedWith("Contract paused");
+
+      await expect(as(bob).unpause()).to.be.revertedWith("Not authorized");
+      await expect(as(alice).unpause()).to.emit(client.contract, "Unpaused").withArgs(alice.address);
+      await expect(as(alice).unpause()).to.be.revertedWith("Contract not paused");
+    });
+
+    it("Should block new activity while paused but let traders cancel and withdraw", async function () {
+      await fund(alice, 10000);
+      await startSession();
+      await as(alice)[PLACE_ORDER](1000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await client.pause();
+
+      await expect(as(bob).registerTrader()).to.be.revertedWith("Contract paused");
+      await expect(as(alice).deposit(1000)).to.be.revertedWith("Contract paused");
+      await expect(
+        as(alice)[PLACE_ORDER](1000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit)
+      ).to.be.revertedWith("Contract paused");
+
+      await expect(as(alice).cancelOrder(0)).to.emit(client.contract, "OrderCancelled");
+      await client.withRunner(alice).requestWithdrawal(4000);
+      await fhevm.awaitDecryptionOracle();
+      expect(await token.balanceOf(alice.address)).to.equal(4000n);
+
+      await time.increase(SESSION_DURATION + 1);
+      await client.executePrivateOrders();
+      await expect(as(owner).startTradingSession(RATES)).to.be.revertedWith("Contract paused");
+    });
+
+    it("Should transfer ownership in two steps and move the admin role", async function () {
+      await expect(as(owner).transferOwnership(alice.address))
+        .to.emit(client.contract, "OwnershipTransferStarted")
+        .withArgs(owner.address, alice.address);
+      expect(await client.owner()).to.equal(owner.address);
+      expect(await client.pendingOwner()).to.equal(alice.address);
+
+      await expect(as(bob).acceptOwnership()).to.be.revertedWith("Not pending owner");
+      const change = await client.withRunner(alice).acceptOwnership();
+      expect(change).to.include({ previousOwner: owner.address, newOwner: alice.address });
+
+      expect(await client.owner()).to.equal(alice.address);
+      expect(await client.pendingOwner()).to.equal(undefined);
+      expect(await client.getRoleMembers("admin")).to.deep.equal([alice.address]);
+      expect(await client.hasRole("pauser", owner.address)).to.equal(true);
+      await expect(as(owner).transferOwnership(owner.address)).to.be.revertedWith("Not authorized");
+    });
+
+    it("Should let the owner cancel a pending transfer", async function () {
+      await client.transferOwnership(alice.address);
+      await client.transferOwnership(ethers.ZeroAddress);
+
+      await expect(as(alice).acceptOwnership()).to.be.revertedWith("Not pending owner");
+      await expect(as(carol).transferOwnership(carol.address)).to.be.revertedWith("Not authorized");
+    });
+
+    it("Should never revoke the owner's admin role", async function () {
+      await client.grantRole("admin", alice.address);
+
+      await expect(as(alice).revokeRole(ROLE_IDS.admin, owner.address)).to.be.revertedWith("Cannot revoke owner");
+      const error = await client
+        .withRunner(alice)
+        .revokeRole("admin", owner.address)
+        .catch((reason: unknown) => reason);
+      expect(error).to.be.instanceOf(AccessControlError).with.property("code", "CANNOT_REVOKE_OWNER");
+      await expect(as(owner).revokeRole(ROLE_IDS.admin, alice.address)).to.emit(client.contract, "RoleRevoked");
+    });
+  });
+
+  /**
+   * @chapter pairs
+   * @description Owner-managed currency pair registry: listing, delisting and relisting pairs
+   *              between sessions, and how sessions and orders follow the registry
+   */
+  describe("Currency Pairs", function () {
+    const EUR_GBP = 5;
+
+    it("Should only let the owner list and delist pairs", async function () {
+      await expect(as(alice).listCurrencyPair("EUR/GBP", 4)).to.be.revertedWith("Not authorized");
+      await expect(as(alice).delistCurrencyPair(CurrencyPair.EUR_USD)).to.be.revertedWith("Not authorized");
+    });
+
+    it("Should list a pair under the next ID and emit CurrencyPairListed", async function () {
+      await expect(as(owner).listCurrencyPair("EUR/GBP", 4))
+        .to.emit(client.contract, "CurrencyPairListed")
+        .withArgs(EUR_GBP, "EUR/GBP", 4);
+
+      const pairs = await client.getCurrencyPairs();
+      expect(pairs).to.have.lengthOf(6);
+      expect(pairs[EUR_GBP]).to.include({ pair: EUR_GBP, name: "EUR/GBP", base: "EUR", quote: "GBP", listed: true });
+      expect(await client.contract.pairDecimals(EUR_GBP)).to.equal(4);
+    });
+
+    it("Should reject malformed symbols, decimals and duplicates", async function () {
+      for (const symbol of ["eur/gbp", "EURGBP", "EUR/GB", "EUR-GBP", ""]) {
+        await expect(as(owner).listCurrencyPair(symbol, 4)).to.be.revertedWith("Invalid pair symbol");
+      }
+      await expect(as(owner).listCurrencyPair("EUR/GBP", 0)).to.be.revertedWith("Invalid pair decimals");
+      await expect(as(owner).listCurrencyPair("EUR/GBP", 9)).to.be.revertedWith("Invalid pair decimals");
+      await expect(as(owner).listCurrencyPair("EUR/USD", 4)).to.be.revertedWith("Pair already listed");
+      await expect(as(owner).delistCurrencyPair(EUR_GBP)).to.be.revertedWith("Pair not listed");
+    });
+
+    it("Should reject registry changes during a session", async function () {
+      await startSession();
+
+      await expect(as(owner).listCurrencyPair("EUR/GBP", 4)).to.be.revertedWith("Session currently active");
+      await expect(as(owner).delistCurrencyPair(CurrencyPair.GBP_USD)).to.be.revertedWith("Session currently active");
+    });
+
+    it("Should require one rate per pair ID", async function () {
+      await client.listCurrencyPair("EUR/GBP", 4);
+      await time.increase(SESSION_DURATION);
+
+      await expect(as(owner).startTradingSession(RATES)).to.be.revertedWith("Wrong number of rates");
+      await expect(as(owner).startTradingSession([...RATES, 0])).to.be.revertedWith("Rate must be positive");
+    });
+
+    it("Should quote and match orders on a newly listed pair", async function () {
+      await client.listCurrencyPair("EUR/GBP", 4);
+      await fund(alice, 10000);
+      await startSession({ ...Object.fromEntries(RATES.map((rate, pair) => [pair, rate])), "EUR/GBP": 8600 });
+      expect(await client.contract.hasRateForPair(1, EUR_GBP)).to.equal(true);
+
+      await as(alice)[PLACE_ORDER](1000, 8700, EUR_GBP, OrderSide.Buy, OrderType.Limit); // rate 0.8600
+      await as(alice)[PLACE_ORDER](1000, 8500, EUR_GBP, OrderSide.Buy, OrderType.Limit);
+      await time.increase(SESSION_DURATION + 1);
+      await client.executePrivateOrders();
+
+      const report = await buildSettlementReport(client.withRunner(alice), 1, new FhevmMockDecryptor(fhevm));
+      expect(report.traders[0].orders.map((order) => [order.pair, order.filled])).to.deep.equal([
+        [EUR_GBP, true],
+        [EUR_GBP, false],
+      ]);
+    });
+
+    it("Should stop quoting and accepting orders on a delisted pair", async function () {
+      await fund(alice, 10000);
+      const delisted = await client.delistCurrencyPair("GBP/USD");
+      expect(delisted.pair).to.include({ pair: CurrencyPair.GBP_USD, listed: false });
+
+      await startSession([11000, 15000, 6500, 9200]);
+      expect(await client.contract.hasRateForPair(1, CurrencyPair.GBP_USD)).to.equal(false);
+      await expect(
+        as(alice)[PLACE_ORDER](1000, 13000, CurrencyPair.GBP_USD, OrderSide.Buy, OrderType.Limit)
+      ).to.be.revertedWith("Invalid currency pair");
+
+      const error = await client
+        .withRunner(alice)
+        .placeEncryptedOrder({ amount: 1000n, targetPrice: 13000, pair: "GBP/USD", side: "buy" }, fhevm)
+        .catch((reason: unknown) => reason);
+      expect(error).to.be.instanceOf(ValidationError).with.property("code", "INVALID_CURRENCY_PAIR");
+
+      // Encrypted orders bypass the check, but find no session rate and never fill
+      const input = await encryptOrder(fhevm, address, alice.address, {
+        amount: 1000n,
+        targetPrice: 13000,
+        pair: CurrencyPair.GBP_USD,
+        ...BUY_LIMIT,
+      });
+      await placeEncrypted(alice, input);
+      await time.increase(SESSION_DURATION + 1);
+      await client.executePrivateOrders();
+
+      const order = await client.contract.privateOrders(1, alice.address, 0);
+      expect(await fhevm.userDecryptEbool(order.encryptedFilled, address, alice)).to.equal(false);
+    });
+
+    it("Should keep the pair ID when a delisted pair is listed again", async function () {
+      await client.delistCurrencyPair(CurrencyPair.USD_JPY);
+
+      await expect(as(owner).listCurrencyPair("USD/JPY", 3))
+        .to.emit(client.contract, "CurrencyPairListed")
+        .withArgs(CurrencyPair.USD_JPY, "USD/JPY", 3);
+      expect(await client.contract.pairCount()).to.equal(5);
+      expect(await client.contract.pairDecimals(CurrencyPair.USD_JPY)).to.equal(3);
+    });
+  });
+
+  /**
+   * @chapter encryption
+   * @description Private orders: onlyRegisteredTrader, onlyDuringSession and encrypted order details
+   */
+  describe("Order Placement", function () {
+    beforeEach(async function () {
+      await fund(alice, 10000);
+      await fund(bob, 20000);
+    });
+
+    it("Should reject orders outside a session", async function () {
+      await expect(
+        as(alice)[PLACE_ORDER](1000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit)
+      ).to.be.revertedWith("No active trading session");
+    });
+
+    it("Should reject orders from unregistered traders", async function () {
+      await startSession();
+      await expect(
+        as(owner)[PLACE_ORDER](1000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit)
+      ).to.be.revertedWith("Trader not registered");
+    });
+
+    it("Should validate amount, pair and target price", async function () {
+      await startSession();
+
+      await expect(as(alice)[PLACE_ORDER](0, 11000, 0, OrderSide.Buy, OrderType.Limit)).to.be.revertedWith(
+        "Amount must be positive"
+      );
+      await expect(as(alice)[PLACE_ORDER](1000, 11000, 5, OrderSide.Buy, OrderType.Limit)).to.be.revertedWith(
+        "Invalid currency pair"
+      );
+      await expect(as(alice)[PLACE_ORDER](1000, 0, 0, OrderSide.Buy, OrderType.Limit)).to.be.revertedWith(
+        "Target price must be positive"
+      );
+    });
+
+    it("Should place an order and emit PrivateOrderPlaced with its index", async function () {
+      await startSession();
+
+      await expect(as(alice)[PLACE_ORDER](1000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit))
+        .to.emit(client.contract, "PrivateOrderPlaced")
+        .withArgs(alice.address, 1, 0);
+      await expect(as(alice)[PLACE_ORDER](1500, 15000, CurrencyPair.USD_JPY, OrderSide.Buy, OrderType.Limit))
+        .to.emit(client.contract, "PrivateOrderPlaced")
+        .withArgs(alice.address, 1, 1);
+
+      expect(await client.getTraderOrderCount(alice.address)).to.equal(2);
+    });
+
+    it("Should store order details encrypted and decryptable by the trader", async function () {
+      await startSession();
+      await as(alice)[PLACE_ORDER](1000, 11000, CurrencyPair.GBP_USD, OrderSide.Buy, OrderType.Limit);
+
+      const order = await client.contract.privateOrders(1, alice.address, 0);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, order.encryptedAmount, address, alice)).to.equal(1000n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, order.encryptedPrice, address, alice)).to.equal(11000n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint8, order.encryptedPairId, address, alice)).to.equal(
+        BigInt(CurrencyPair.GBP_USD)
+      );
+      expect(order.isExecuted).to.equal(false);
+      expect(order.trader).to.equal(alice.address);
+    });
+
+    it("Should count each trader once in the active trader list", async function () {
+      await startSession();
+      await as(alice)[PLACE_ORDER](1000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await as(alice)[PLACE_ORDER](1000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await as(bob)[PLACE_ORDER](2000, 12500, CurrencyPair.GBP_USD, OrderSide.Buy, OrderType.Limit);
+
+      expect((await client.getCurrentSessionInfo()).activeTraderCount).to.equal(2);
+    });
+
+    it("Should update the trader's last activity", async function () {
+      await startSession();
+      await as(alice)[PLACE_ORDER](1000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+
+      expect((await client.getTraderProfile(alice.address)).lastActivity).to.equal(await time.latest());
+    });
+  });
+
+  /**
+   * @chapter encryption
+   * @description Orders encrypted client-side and verified on-chain with FHE.fromExternal()
+   */
+  describe("Encrypted Order Placement", function () {
+    beforeEach(async function () {
+      await fund(alice, 10000);
+      await startSession();
+    });
+
+    it("Should place an order from encrypted inputs", async function () {
+      const placed = await client
+        .withRunner(alice)
+        .placeEncryptedOrder({ amount: 1500n, targetPrice: 12500, pair: "GBP/USD", side: "buy" }, fhevm);
+
+      expect(placed.trader).to.equal(alice.address);
+      expect(placed.session).to.equal(1);
+      expect(placed.orderIndex).to.equal(0);
+
+      const order = await client.contract.privateOrders(1, alice.address, 0);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, order.encryptedAmount, address, alice)).to.equal(1500n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, order.encryptedPrice, address, alice)).to.equal(12500n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint8, order.encryptedPairId, address, alice)).to.equal(
+        BigInt(CurrencyPair.GBP_USD)
+      );
+    });
+
+    it("Should keep order values out of the calldata", async function () {
+      const placed = await client
+        .withRunner(alice)
+        .placeEncryptedOrder({ amount: 123456789n, targetPrice: 11000, pair: "EUR/USD", side: "buy" }, fhevm);
+
+      const tx = await alice.provider.getTransaction(placed.txHash);
+      const decoded = client.contract.interface.parseTransaction({ data: tx!.data });
+      expect(decoded?.signature).to.equal(PLACE_ENCRYPTED_ORDER);
+      expect(tx!.data).to.not.contain((123456789).toString(16).padStart(16, "0"));
+    });
+
+    it("Should reject inputs encrypted for another sender", async function () {
+      const input = await encryptOrder(fhevm, address, bob.address, {
+        amount: 1000n,
+        targetPrice: 11000,
+        pair: 0,
+        ...BUY_LIMIT,
+      });
+
+      await expect(placeEncrypted(alice, input)).to.be.reverted;
+    });
+
+    it("Should apply the plaintext checks before encrypting", async function () {
+      const error = await encryptOrder(fhevm, address, alice.address, {
+        amount: 0n,
+        targetPrice: 11000,
+        pair: 0,
+        ...BUY_LIMIT,
+      }).catch((reason: unknown) => reason);
+      expect(error).to.be.instanceOf(ValidationError).with.property("code", "INVALID_AMOUNT");
+    });
+
+    it("Should still require a registered trader and an active session", async function () {
+      const input = await encryptOrder(fhevm, address, bob.address, {
+        amount: 1000n,
+        targetPrice: 11000,
+        pair: 0,
+        ...BUY_LIMIT,
+      });
+
+      await expect(placeEncrypted(bob, input)).to.be.revertedWith("Trader not registered");
+    });
+  });
+
+  /**
+   * @chapter orders
+   * @description Traders withdraw orders or replace their amount and price with new
+   *              encrypted inputs while the session is active
+   */
+  describe("Order Cancellation and Amendment", function () {
+    beforeEach(async function () {
+      await fund(alice, 10000);
+      await startSession();
+      await as(alice)[PLACE_ORDER](1000, 10999, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await as(alice)[PLACE_ORDER](2000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+    });
+
+    async function executeSession(): Promise<void> {
+      await time.increase(SESSION_DURATION + 1);
+      await client.executePrivateOrders();
+    }
+
+    it("Should cancel an order and emit OrderCancelled", async function () {
+      const cancelled = await client.withRunner(alice).cancelOrder(0);
+
+      expect(cancelled).to.include({ trader: alice.address, session: 1, orderIndex: 0 });
+      expect((await client.getPrivateOrder(1, alice.address, 0)).isCancelled).to.equal(true);
+      expect((await client.getPrivateOrder(1, alice.address, 1)).isCancelled).to.equal(false);
+      expect(await client.getTraderOrderCount(alice.address)).to.equal(2);
+    });
+
+    it("Should reject cancelling unknown or already cancelled orders", async function () {
+      await as(alice).cancelOrder(0);
+
+      await expect(as(alice).cancelOrder(0)).to.be.revertedWith("Order cancelled");
+      await expect(as(alice).cancelOrder(2)).to.be.revertedWith("Order not found");
+      await expect(as(owner).cancelOrder(0)).to.be.revertedWith("Trader not registered");
+
+      const error = await client
+        .withRunner(alice)
+        .cancelOrder(5)
+        .catch((reason: unknown) => reason);
+      expect(error).to.be.instanceOf(ValidationError).with.property("code", "ORDER_NOT_FOUND");
+    });
+
+    it("Should only allow changes while the session is active", async function () {
+      await time.increase(SESSION_DURATION + 1);
+
+      await expect(as(alice).cancelOrder(0)).to.be.revertedWith("No active trading session");
+      const input = await encryptAmendment(fhevm, address, alice.address, { amount: 500n, targetPrice: 11000 });
+      await expect(as(alice).amendOrder(0, input.amount, input.targetPrice, input.inputProof)).to.be.revertedWith(
+        "No active trading session"
+      );
+    });
+
+    it("Should skip cancelled orders at execution", async function () {
+      await as(alice).cancelOrder(1);
+      await time.increase(SESSION_DURATION + 1);
+      const result = await client.executePrivateOrders();
+
+      expect(result.executedOrders).to.deep.equal([{ trader: alice.address, orderIndex: 0 }]);
+      expect((await client.getPrivateOrder(1, alice.address, 1)).isExecuted).to.equal(false);
+      expect(await decryptBalance(alice)).to.equal(10000n);
+    });
+
+    it("Should amend amount and price, keep the pair and emit OrderAmended", async function () {
+      const amended = await client.withRunner(alice).amendOrder(0, { amount: 4000n, targetPrice: 11500 }, fhevm);
+      expect(amended).to.include({ trader: alice.address, session: 1, orderIndex: 0 });
+
+      const order = await client.contract.privateOrders(1, alice.address, 0);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, order.encryptedAmount, address, alice)).to.equal(4000n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, order.encryptedPrice, address, alice)).to.equal(11500n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint8, order.encryptedPairId, address, alice)).to.equal(
+        BigInt(CurrencyPair.EUR_USD)
+      );
+    });
+
+    it("Should match amended orders on their new values", async function () {
+      // Order 0 targets 1.0999, below the 1.1000 rate, until it is amended
+      await client.withRunner(alice).amendOrder(0, { amount: 3000n, targetPrice: 11000 }, fhevm);
+      await executeSession();
+
+      expect(await decryptBalance(alice)).to.equal(10000n);
+      expect(await decryptLocked(alice)).to.equal(5000n);
+      expect(await decryptTotalTrades(alice)).to.equal(2n);
+    });
+
+    it("Should reject amending cancelled orders and inputs encrypted for another sender", async function () {
+      const forBob = await encryptAmendment(fhevm, address, bob.address, { amount: 500n, targetPrice: 11000 });
+      await expect(as(alice).amendOrder(1, forBob.amount, forBob.targetPrice, forBob.inputProof)).to.be.reverted;
+
+      await as(alice).cancelOrder(0);
+      const input = await encryptAmendment(fhevm, address, alice.address, { amount: 500n, targetPrice: 11000 });
+      await expect(as(alice).amendOrder(0, input.amount, input.targetPrice, input.inputProof)).to.be.revertedWith(
+        "Order cancelled"
+      );
+
+      const error = await encryptAmendment(fhevm, address, alice.address, { amount: 500n, targetPrice: 0 }).catch(
+        (reason: unknown) => reason
+      );
+      expect(error).to.be.instanceOf(ValidationError).with.property("code", "INVALID_TARGET_PRICE");
+    });
+
+    it("Should decrypt the trader's own orders with their status", async function () {
+      const decryptor = new FhevmMockDecryptor(fhevm);
+      await as(alice).cancelOrder(0);
+
+      const open = await client.withRunner(alice).decryptMyOrders(decryptor);
+      expect(
+        open.map(({ amount, targetPrice, pair, isCancelled }) => [amount, targetPrice, pair, isCancelled])
+      ).to.deep.equal([
+        [1000n, 10999, CurrencyPair.EUR_USD, true],
+        [2000n, 11000, CurrencyPair.EUR_USD, false],
+      ]);
+      expect(open.map((order) => order.filled)).to.deep.equal([undefined, undefined]);
+
+      await executeSession();
+      const executed = await client.withRunner(alice).decryptMyOrders(decryptor, 1);
+      expect(executed.map((order) => order.filled)).to.deep.equal([undefined, true]);
+      expect(await client.withRunner(bob).decryptMyOrders(decryptor, 1)).to.deep.equal([]);
+    });
+  });
+
+  /**
+   * @chapter arithmetic
+   * @description Order execution after the session ends and the encrypted trade counter
+   */
+  describe("Execution", function () {
+    beforeEach(async function () {
+      await fund(alice, 10000);
+      await fund(bob, 20000);
+      await startSession();
+      await as(alice)[PLACE_ORDER](1000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await as(alice)[PLACE_ORDER](1500, 15000, CurrencyPair.USD_JPY, OrderSide.Buy, OrderType.Limit);
+      await as(bob)[PLACE_ORDER](2000, 12500, CurrencyPair.GBP_USD, OrderSide.Buy, OrderType.Limit);
+    });
+
+    it("Should only let the owner execute orders", async function () {
+      await time.increase(SESSION_DURATION + 1);
+      await expect(as(alice).executePrivateOrders()).to.be.revertedWith("Not authorized");
+    });
+
+    it("Should reject execution before the session has ended", async function () {
+      await expect(as(owner).executePrivateOrders()).to.be.revertedWith("Session not yet ended");
+    });
+
+    it("Should execute every order and emit OrderExecuted", async function () {
+      await time.increase(SESSION_DURATION + 1);
+
+      const result = await client.executePrivateOrders();
+      expect(result.session).to.equal(1);
+      expect(result.executedOrders).to.deep.equal([
+        { trader: alice.address, orderIndex: 0 },
+        { trader: alice.address, orderIndex: 1 },
+        { trader: bob.address, orderIndex: 0 },
+      ]);
+
+      expect((await client.contract.privateOrders(1, alice.address, 1)).isExecuted).to.equal(true);
+    });
+
+    it("Should increment each trader's encrypted trade count", async function () {
+      await time.increase(SESSION_DURATION + 1);
+      await client.executePrivateOrders();
+
+      expect(await decryptTotalTrades(alice)).to.equal(2n);
+      expect(await decryptTotalTrades(bob)).to.equal(1n);
+    });
+
+    it("Should close the session and advance to the next one", async function () {
+      await time.increase(SESSION_DURATION + 1);
+      await client.executePrivateOrders();
+
+      expect(await client.currentSession()).to.equal(2);
+
+      const history = await client.getSessionHistory(1);
+      expect(history.sessionActive).to.equal(false);
+      expect(history.pricesSet).to.equal(true);
+      expect(history.traderCount).to.equal(2);
+    });
+
+    it("Should reject executing the same session twice", async function () {
+      await time.increase(SESSION_DURATION + 1);
+      await client.executePrivateOrders();
+
+      await expect(as(owner).executePrivateOrders()).to.be.revertedWith("No active session");
+    });
+
+    it("Should leave an emergency-ended session unexecutable", async function () {
+      await as(owner).emergencyEndSession();
+      await expect(as(owner).executePrivateOrders()).to.be.revertedWith("No active session");
+    });
+
+    it("Should allow a new session once the previous one is executed", async function () {
+      await time.increase(SESSION_DURATION + 1);
+      await client.executePrivateOrders();
+
+      await client.startTradingSession(RATES);
+      expect(await client.isSessionActive()).to.equal(true);
+      expect((await client.getCurrentSessionInfo()).session).to.equal(2);
+    });
+  });
+
+  /**
+   * @chapter automation
+   * @description Executing a session over several bounded transactions, resuming from the
+   *              on-chain execution cursor
+   */
+  describe("Batch Execution", function () {
+    beforeEach(async function () {
+      await fund(alice, 10000);
+      await fund(bob, 20000);
+      await startSession();
+      await as(alice)[PLACE_ORDER](1000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await as(alice)[PLACE_ORDER](1500, 15000, CurrencyPair.USD_JPY, OrderSide.Buy, OrderType.Limit);
+      await as(bob)[PLACE_ORDER](2000, 12500, CurrencyPair.GBP_USD, OrderSide.Buy, OrderType.Limit);
+    });
+
+    it("Should resume from the cursor, also in the middle of a trader's orders", async function () {
+      await time.increase(SESSION_DURATION + 1);
+
+      const first = await client.executeBatch(1);
+      expect(first).to.deep.include({ session: 1, remainingTraders: 2, completed: false });
+      expect(first.executedOrders).to.deep.equal([{ trader: alice.address, orderIndex: 0 }]);
+      expect(await client.getExecutionProgress()).to.deep.equal({
+        session: 1,
+        traderCount: 2,
+        nextTrader: 0,
+        nextOrder: 1,
+        settledOrders: 1,
+        completed: false,
+        endedEarly: false,
+      });
+      expect((await client.getCurrentSessionInfo()).sessionActive).to.equal(true);
+
+      const second = await client.executeBatch(1);
+      expect(second.executedOrders).to.deep.equal([{ trader: alice.address, orderIndex: 1 }]);
+      expect(second.remainingTraders).to.equal(1);
+
+      await expect(as(owner).executeBatch(5)).to.emit(client.contract, "SessionExecuted").withArgs(1, 3);
+      expect(await client.currentSession()).to.equal(2);
+      expect(await client.getExecutionProgress(1)).to.deep.include({ nextTrader: 2, settledOrders: 3, completed: true });
+    });
+
+    it("Should settle the same balances and trade counts as a single transaction", async function () {
+      await time.increase(SESSION_DURATION + 1);
+
+      const batches = await client.executeInBatches(1);
+      expect(batches.map((batch) => batch.executedOrders.length)).to.deep.equal([1, 1, 1]);
+      expect(batches.map((batch) => batch.completed)).to.deep.equal([false, false, true]);
+
+      expect(await decryptLocked(alice)).to.equal(2500n);
+      expect(await decryptLocked(bob)).to.equal(2000n);
+      expect(await decryptTotalTrades(alice)).to.equal(2n);
+      expect(await decryptTotalTrades(bob)).to.equal(1n);
+    });
+
+    it("Should not end a partly executed session early", async function () {
+      await time.increase(SESSION_DURATION + 1);
+      await client.executeBatch(1);
+
+      await expect(as(owner).emergencyEndSession()).to.be.revertedWith("Session already ended");
+      await expect(as(owner).executeBatch(5)).to.emit(client.contract, "SessionExecuted").withArgs(1, 3);
+      expect(await client.currentSession()).to.equal(2);
+    });
+
+    it("Should skip cancelled orders without counting them", async function () {
+      await as(alice).cancelOrder(0);
+      await time.increase(SESSION_DURATION + 1);
+
+      const batch = await client.executeBatch(1);
+      expect(batch.executedOrders).to.deep.equal([{ trader: alice.address, orderIndex: 1 }]);
+      expect(batch.remainingTraders).to.equal(1);
+    });
+
+    it("Should let a single transaction finish a partly executed session", async function () {
+      await time.increase(SESSION_DURATION + 1);
+      await client.executeBatch(1);
+
+      const result = await client.executePrivateOrders();
+      expect(result.executedOrders).to.deep.equal([
+        { trader: alice.address, orderIndex: 1 },
+        { trader: bob.address, orderIndex: 0 },
+      ]);
+      expect(result.completed).to.equal(true);
+    });
+
+    it("Should not start the next session before the last batch", async function () {
+      await time.increase(SESSION_DURATION + 1);
+      await client.executeBatch(2);
+
+      await expect(as(owner).startTradingSession(RATES)).to.be.revertedWith("Session currently active");
+      await client.executeBatch(2);
+      await client.startTradingSession(RATES);
+      expect(await client.getExecutionProgress()).to.deep.include({ session: 2, nextTrader: 0, settledOrders: 0 });
+    });
+
+    it("Should reject empty batches, early batches and other accounts", async function () {
+      await expect(as(owner).executeBatch(1)).to.be.revertedWith("Session not yet ended");
+      await time.increase(SESSION_DURATION + 1);
+
+      await expect(as(owner).executeBatch(0)).to.be.revertedWith("Invalid batch size");
+      await expect(as(alice).executeBatch(1)).to.be.revertedWith("Not authorized");
+      const error = await client.executeBatch(0).catch((reason: unknown) => reason);
+      expect(error).to.be.instanceOf(ValidationError).with.property("code", "INVALID_BATCH_SIZE");
+    });
+
+    it("Should cancel the orders of an emergency-ended session over bounded batches", async function () {
+      // 21 open orders, one more than emergencyEndSession() cancels itself
+      for (let i = 0; i < 18; i++) {
+        await as(alice)[PLACE_ORDER](100, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      }
+
+      const ended = await client.withRunner(owner).emergencyEndSession();
+      expect(ended).to.deep.include({ remainingTraders: 1, completed: false, cancelled: false });
+      expect(ended.cancelledOrders).to.have.lengthOf(20);
+      expect(ended.executedOrders).to.deep.equal([]);
+      expect(await client.isSessionActive()).to.equal(false);
+      await expect(
+        as(alice)[PLACE_ORDER](100, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit)
+      ).to.be.revertedWith("No active trading session");
+      await time.increase(SESSION_DURATION);
+      await expect(as(owner).startTradingSession(RATES)).to.be.revertedWith("Session currently active");
+      await expect(as(owner).emergencyEndSession()).to.be.revertedWith("No active session");
+
+      await expect(as(owner).executeBatch(5)).to.emit(client.contract, "SessionCancelled").withArgs(1, 21);
+      expect((await client.getPrivateOrder(1, bob.address, 0)).isCancelled).to.equal(true);
+      expect(await client.currentSession()).to.equal(1);
+      expect(await client.getExecutionProgress()).to.deep.include({ settledOrders: 21, completed: true, endedEarly: true });
+
+      await startSession();
+      expect(await client.getExecutionProgress()).to.deep.include({ completed: false, endedEarly: false });
+    });
+
+    it("Should list each trader once, also after a session is restarted", async function () {
+      await as(alice)[PLACE_ORDER](500, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      expect((await client.getCurrentSessionInfo()).activeTraderCount).to.equal(2);
+
+      // The restarted session reuses the ID with a new, empty trader list
+      await as(owner).emergencyEndSession();
+      await startSession();
+      expect((await client.getCurrentSessionInfo()).activeTraderCount).to.equal(0);
+
+      await as(bob)[PLACE_ORDER](500, 12500, CurrencyPair.GBP_USD, OrderSide.Buy, OrderType.Limit);
+      await as(alice)[PLACE_ORDER](500, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await as(alice)[PLACE_ORDER](500, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      expect((await client.getCurrentSessionInfo()).activeTraderCount).to.equal(2);
+
+      await time.increase(SESSION_DURATION + 1);
+      const result = await client.executePrivateOrders();
+      expect(result.executedOrders).to.deep.equal([
+        { trader: bob.address, orderIndex: 1 },
+        { trader: alice.address, orderIndex: 3 },
+        { trader: alice.address, orderIndex: 4 },
+      ]);
+    });
+  });
+
+  /**
+   * @chapter arithmetic
+   * @description Encrypted matching: buy limit orders fill when the session rate is at or
+   *              below the target price, within the margin reserved at placement; fills
+   *              lock their margin in the position, closing fills book their P&L into the
+   *              balance, and every fill adds to the session volume
+   */
+  describe("Order Matching", function () {
+    beforeEach(async function () {
+      await fund(alice, 10000);
+      await fund(bob, 5000);
+      await startSession();
+    });
+
+    async function executeSession(): Promise<void> {
+      await time.increase(SESSION_DURATION + 1);
+      await client.executePrivateOrders();
+    }
+
+    async function decryptFilled(trader: HardhatEthersSigner, orderIndex: number): Promise<boolean> {
+      const order = await client.contract.privateOrders(1, trader.address, orderIndex);
+      return fhevm.userDecryptEbool(order.encryptedFilled, address, trader);
+    }
+
+    it("Should fill an order whose target price is at or above the session rate", async function () {
+      await as(alice)[PLACE_ORDER](3000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit); // rate 1.1000
+      await as(alice)[PLACE_ORDER](2000, 13000, CurrencyPair.GBP_USD, OrderSide.Buy, OrderType.Limit); // rate 1.2500
+      await executeSession();
+
+      expect(await decryptFilled(alice, 0)).to.equal(true);
+      expect(await decryptFilled(alice, 1)).to.equal(true);
+      expect(await decryptBalance(alice)).to.equal(10000n);
+      expect(await decryptLocked(alice)).to.equal(5000n);
+      expect(await decryptTotalTrades(alice)).to.equal(2n);
+    });
+
+    it("Should credit a sell that closes a buy with its profit and release the margin", async function () {
+      await as(alice)[PLACE_ORDER](3000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await executeSession();
+      expect(await decryptBalance(alice)).to.equal(10000n);
+      expect(await decryptLocked(alice)).to.equal(3000n);
+
+      // Selling 3000 at 1.1050 against the 1.1000 buy: 3000 × 50 pips = +15
+      await startSession([11050, ...RATES.slice(1)]);
+      await as(alice)[PLACE_ORDER](3000, 11050, CurrencyPair.EUR_USD, OrderSide.Sell, OrderType.Limit);
+      await executeSession();
+      expect(await decryptBalance(alice)).to.equal(10015n);
+      expect(await decryptLocked(alice)).to.equal(0n);
+      expect(await decryptTotalTrades(alice)).to.equal(2n);
+    });
+
+    it("Should leave an order unfilled when the session rate is above the target", async function () {
+      await as(alice)[PLACE_ORDER](3000, 10999, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await executeSession();
+
+      expect(await decryptFilled(alice, 0)).to.equal(false);
+      expect(await decryptBalance(alice)).to.equal(10000n);
+      expect(await decryptTotalTrades(alice)).to.equal(0n);
+    });
+
+    it("Should match against the rate of the order's own pair", async function () {
+      // 7000 matches AUD/USD (rate 0.6500) but not USD/JPY (rate 150.00)
+      await as(alice)[PLACE_ORDER](1000, 7000, CurrencyPair.AUD_USD, OrderSide.Buy, OrderType.Limit);
+      await as(alice)[PLACE_ORDER](1000, 7000, CurrencyPair.USD_JPY, OrderSide.Buy, OrderType.Limit);
+      await executeSession();
+
+      expect(await decryptFilled(alice, 0)).to.equal(true);
+      expect(await decryptFilled(alice, 1)).to.equal(false);
+    });
+
+    it("Should not fill orders the remaining balance cannot cover", async function () {
+      await as(bob)[PLACE_ORDER](4000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await as(bob)[PLACE_ORDER](2000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await as(bob)[PLACE_ORDER](1000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await executeSession();
+
+      expect(await decryptFilled(bob, 0)).to.equal(true);
+      expect(await decryptFilled(bob, 1)).to.equal(false);
+      expect(await decryptFilled(bob, 2)).to.equal(true);
+      expect(await decryptLocked(bob)).to.equal(5000n);
+    });
+
+    it("Should not fill encrypted orders with an invalid pair", async function () {
+      const input = await encryptOrder(fhevm, address, alice.address, {
+        amount: 1000n,
+        targetPrice: 20000,
+        pair: 4,
+        ...BUY_LIMIT,
+      });
+      const forged = await fhevm
+        .createEncryptedInput(address, alice.address)
+        .add64(1000)
+        .add32(20000)
+        .add8(7)
+        .addBool(false)
+        .add8(OrderType.Limit)
+        .encrypt();
+      await placeEncrypted(alice, input);
+      await as(alice)[PLACE_ENCRYPTED_ORDER](
+        forged.handles[0],
+        forged.handles[1],
+        forged.handles[2],
+        forged.handles[3],
+        forged.handles[4],
+        forged.inputProof
+      );
+      await executeSession();
+
+      expect(await decryptFilled(alice, 0)).to.equal(true);
+      expect(await decryptFilled(alice, 1)).to.equal(false);
+    });
+
+    it("Should accumulate filled amounts into the encrypted session volume", async function () {
+      await as(alice)[PLACE_ORDER](3000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await as(alice)[PLACE_ORDER](500, 10000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit); // unfilled
+      await as(bob)[PLACE_ORDER](2500, 12500, CurrencyPair.GBP_USD, OrderSide.Buy, OrderType.Limit);
+      await executeSession();
+
+      const { totalVolume } = await client.getSessionHistory(1);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, totalVolume, address, owner)).to.equal(5500n);
+
+      const error = await fhevm.userDecryptEuint(FhevmType.euint64, totalVolume, address, alice).catch((reason: unknown) => reason);
+      expect(error).to.be.instanceOf(Error);
+    });
+
+    it("Should report fills per trader according to what the viewer can decrypt", async function () {
+      await as(alice)[PLACE_ORDER](3000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await as(alice)[PLACE_ORDER](500, 10000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await as(bob)[PLACE_ORDER](2500, 12500, CurrencyPair.GBP_USD, OrderSide.Buy, OrderType.Limit);
+      await executeSession();
+
+      const decryptor = new FhevmMockDecryptor(fhevm);
+      const report = await buildSettlementReport(client.withRunner(alice), 1, decryptor);
+
+      expect(report.orderCount).to.equal(3);
+      expect(report.volume).to.equal(undefined);
+      expect(report.traders).to.deep.equal([
+        {
+          trader: alice.address,
+          decrypted: true,
+          orders: [
+            {
+              orderIndex: 0,
+              filled: true,
+              amount: 3000n,
+              targetPrice: 11000,
+              pair: CurrencyPair.EUR_USD,
+              ...BUY_LIMIT,
+            },
+            {
+              orderIndex: 1,
+              filled: false,
+              amount: 500n,
+              targetPrice: 10000,
+              pair: CurrencyPair.EUR_USD,
+              ...BUY_LIMIT,
+            },
+          ],
+          filledOrders: 1,
+          filledAmount: 3000n,
+        },
+        { trader: bob.address, decrypted: false, orders: [{ orderIndex: 0 }] },
+      ]);
+
+      const ownerReport = await buildSettlementReport(client, 1, decryptor);
+      expect(ownerReport.volume).to.equal(5500n);
+      expect(ownerReport.traders.every((entry) => !entry.decrypted)).to.equal(true);
+    });
+  });
+
+  /**
+   * @chapter arithmetic
+   * @description Sell orders and stop and market orders: the encrypted side and type pick
+   *              which comparison against the session rate fills the order
+   */
+  describe("Order Types", function () {
+    beforeEach(async function () {
+      await fund(alice, 10000);
+      await startSession();
+    });
+
+    async function executeSession(): Promise<void> {
+      await time.increase(SESSION_DURATION + 1);
+      // Four orders of one trader exceed the HCU limit of a single transaction
+      await client.executeInBatches(2);
+    }
+
+    async function decryptFilled(orderIndex: number): Promise<boolean> {
+      const order = await client.contract.privateOrders(1, alice.address, orderIndex);
+      return fhevm.userDecryptEbool(order.encryptedFilled, address, alice);
+    }
+
+    it("Should fill sell limit orders whose target is at or below the session rate", async function () {
+      // EUR/USD rate 1.1000
+      await as(alice)[PLACE_ORDER](1000, 10900, CurrencyPair.EUR_USD, OrderSide.Sell, OrderType.Limit);
+      await as(alice)[PLACE_ORDER](1000, 11000, CurrencyPair.EUR_USD, OrderSide.Sell, OrderType.Limit);
+      await as(alice)[PLACE_ORDER](1000, 11100, CurrencyPair.EUR_USD, OrderSide.Sell, OrderType.Limit);
+      await executeSession();
+
+      expect(await decryptFilled(0)).to.equal(true);
+      expect(await decryptFilled(1)).to.equal(true);
+      expect(await decryptFilled(2)).to.equal(false);
+      expect(await decryptLocked(alice)).to.equal(2000n);
+    });
+
+    it("Should fill buy stops once the rate reaches the stop and sell stops once it falls to it", async function () {
+      await as(alice)[PLACE_ORDER](1000, 10900, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Stop);
+      await as(alice)[PLACE_ORDER](1000, 11100, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Stop);
+      await as(alice)[PLACE_ORDER](1000, 11100, CurrencyPair.EUR_USD, OrderSide.Sell, OrderType.Stop);
+      await as(alice)[PLACE_ORDER](1000, 10900, CurrencyPair.EUR_USD, OrderSide.Sell, OrderType.Stop);
+      await executeSession();
+
+      expect(await decryptFilled(0)).to.equal(true);
+      expect(await decryptFilled(1)).to.equal(false);
+      expect(await decryptFilled(2)).to.equal(true);
+      expect(await decryptFilled(3)).to.equal(false);
+    });
+
+    it("Should fill market orders at the session rate regardless of price", async function () {
+      await as(alice)[PLACE_ORDER](1000, 0, CurrencyPair.USD_JPY, OrderSide.Buy, OrderType.Market);
+      await as(alice)[PLACE_ORDER](1000, 1, CurrencyPair.USD_JPY, OrderSide.Sell, OrderType.Market);
+      await executeSession();
+
+      expect(await decryptFilled(0)).to.equal(true);
+      expect(await decryptFilled(1)).to.equal(true);
+      expect(await decryptTotalTrades(alice)).to.equal(2n);
+    });
+
+    it("Should require a target price for limit and stop orders only", async function () {
+      await expect(
+        as(alice)[PLACE_ORDER](1000, 0, CurrencyPair.EUR_USD, OrderSide.Sell, OrderType.Stop)
+      ).to.be.revertedWith("Target price must be positive");
+      await expect(as(alice)[PLACE_ORDER](1000, 0, CurrencyPair.EUR_USD, OrderSide.Sell, OrderType.Market)).to.emit(
+        client.contract,
+        "PrivateOrderPlaced"
+      );
+    });
+
+    it("Should store side and type encrypted and decrypt them for the trader", async function () {
+      const trader = client.withRunner(alice);
+      const placed = await trader.placeEncryptedOrder(
+        { amount: 1000n, targetPrice: 12600, pair: "GBP/USD", side: "sell", orderType: "stop" },
+        fhevm
+      );
+      expect(placed.side).to.equal(OrderSide.Sell);
+      expect(placed.orderType).to.equal(OrderType.Stop);
+
+      const [order] = await trader.decryptMyOrders(new FhevmMockDecryptor(fhevm));
+      expect([order.side, order.orderType]).to.deep.equal([OrderSide.Sell, OrderType.Stop]);
+    });
+
+    it("Should never fill an encrypted order of an unknown type", async function () {
+      const forged = await fhevm
+        .createEncryptedInput(address, alice.address)
+        .add64(1000)
+        .add32(11000)
+        .add8(CurrencyPair.EUR_USD)
+        .addBool(false)
+        .add8(3)
+        .encrypt();
+      await as(alice)[PLACE_ENCRYPTED_ORDER](
+        forged.handles[0],
+        forged.handles[1],
+        forged.handles[2],
+        forged.handles[3],
+        forged.handles[4],
+        forged.inputProof
+      );
+      await executeSession();
+
+      expect(await decryptFilled(0)).to.equal(false);
+      expect(await decryptBalance(alice)).to.equal(10000n);
+    });
+
+    it("Should reject unknown sides and types before sending", async function () {
+      const order = { amount: 1000n, targetPrice: 11000, pair: 0, side: 2, orderType: OrderType.Limit };
+      const sideError = await encryptOrder(fhevm, address, alice.address, order).catch((reason: unknown) => reason);
+      expect(sideError).to.be.instanceOf(ValidationError).with.property("code", "INVALID_ORDER_SIDE");
+
+      const typeError = await client
+        .withRunner(alice)
+        .placePrivateOrder({ amount: 1000n, targetPrice: 11000, pair: "EUR/USD", side: "buy", orderType: "twap" })
+        .catch((reason: unknown) => reason);
+      expect(typeError).to.be.instanceOf(ValidationError).with.property("code", "INVALID_ORDER_TYPE");
+
+      // The plaintext overload reverts on values outside the enums
+      await expect(as(alice)[PLACE_ORDER](1000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, 3)).to.be.reverted;
+    });
+  });
+
+  /**
+   * @chapter arithmetic
+   * @description Fills build encrypted per-pair positions and book their P&L into the balance;
+   *              markPosition() books the move to the latest session rate with FHE.mul
+   */
+  describe("Positions", function () {
+    beforeEach(async function () {
+      await fund(alice, 10000);
+      await startSession();
+    });
+
+    async function executeSession(): Promise<void> {
+      await time.increase(SESSION_DURATION + 1);
+      await client.executePrivateOrders();
+    }
+
+    /**
+     * Session rates with EUR/USD replaced
+     */
+    function withEurUsd(rate: number): number[] {
+      return [rate, ...RATES.slice(1)];
+    }
+
+    async function decryptPosition(trader: HardhatEthersSigner, pair: CurrencyPair) {
+      const position = await client.contract.positions(trader.address, pair);
+      const long = await fhevm.userDecryptEuint(FhevmType.euint64, position.encryptedLong, address, trader);
+      const short = await fhevm.userDecryptEuint(FhevmType.euint64, position.encryptedShort, address, trader);
+      const profit = await fhevm.userDecryptEuint(FhevmType.euint64, position.encryptedRealizedProfit, address, trader);
+      const loss = await fhevm.userDecryptEuint(FhevmType.euint64, position.encryptedRealizedLoss, address, trader);
+      return { long, short, profit, loss, markRate: Number(position.markRate) };
+    }
+
+    it("Should open a position from a filled order at the session rate", async function () {
+      await as(alice)[PLACE_ORDER](1000, 0, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Market);
+      await as(alice)[PLACE_ORDER](500, 10000, CurrencyPair.GBP_USD, OrderSide.Sell, OrderType.Limit);
+      await as(alice)[PLACE_ORDER](700, 16000, CurrencyPair.USD_JPY, OrderSide.Sell, OrderType.Limit); // unfilled
+      await executeSession();
+
+      expect(await decryptPosition(alice, CurrencyPair.EUR_USD)).to.deep.equal({
+        long: 1000n,
+        short: 0n,
+        profit: 0n,
+        loss: 0n,
+        markRate: 11000,
+      });
+      expect(await decryptPosition(alice, CurrencyPair.GBP_USD)).to.include({ long: 0n, short: 500n });
+      expect(await decryptPosition(alice, CurrencyPair.USD_JPY)).to.include({ long: 0n, short: 0n });
+    });
+
+    it("Should only let the trader decrypt their positions", async function () {
+      await as(alice)[PLACE_ORDER](1000, 0, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Market);
+      await executeSession();
+
+      const { encryptedLong } = await client.contract.positions(alice.address, CurrencyPair.EUR_USD);
+      const error = await fhevm.userDecryptEuint(FhevmType.euint64, encryptedLong, address, owner).catch((reason: unknown) => reason);
+      expect(error).to.be.instanceOf(Error);
+      expect((await client.contract.positions(bob.address, CurrencyPair.EUR_USD)).markRate).to.equal(0n);
+    });
+
+    it("Should book fill P&L against the mark rate and close before flipping sides", async function () {
+      await as(alice)[PLACE_ORDER](1000, 0, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Market);
+      await executeSession();
+
+      // Selling 400 at 1.1050 against a 1.1000 mark: 400 × 50 pips = +2, the rest stays valued at 1.1000
+      await startSession(withEurUsd(11050));
+      await as(alice)[PLACE_ORDER](400, 0, CurrencyPair.EUR_USD, OrderSide.Sell, OrderType.Market);
+      await executeSession();
+      expect(await decryptPosition(alice, CurrencyPair.EUR_USD)).to.deep.equal({
+        long: 600n,
+        short: 0n,
+        profit: 2n,
+        loss: 0n,
+        markRate: 11000,
+      });
+
+      // Selling 1000 at 1.1000 closes the 600 long and opens a 400 short, no P&L at the mark rate
+      await startSession(RATES);
+      await as(alice)[PLACE_ORDER](1000, 0, CurrencyPair.EUR_USD, OrderSide.Sell, OrderType.Market);
+      await executeSession();
+      expect(await decryptPosition(alice, CurrencyPair.EUR_USD)).to.deep.equal({
+        long: 0n,
+        short: 400n,
+        profit: 2n,
+        loss: 0n,
+        markRate: 11000,
+      });
+    });
+
+    it("Should debit losing fills from the balance", async function () {
+      await as(alice)[PLACE_ORDER](1000, 0, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Market);
+      await executeSession();
+
+      // Buying 2000 at 1.1050 against a 1.1000 mark: 2000 × 50 pips = -10
+      await startSession(withEurUsd(11050));
+      await as(alice)[PLACE_ORDER](2000, 0, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Market);
+      await executeSession();
+      expect(await decryptPosition(alice, CurrencyPair.EUR_USD)).to.include({ long: 3000n, profit: 0n, loss: 10n });
+      expect(await decryptBalance(alice)).to.equal(10000n - 10n);
+      expect(await decryptLocked(alice)).to.equal(3000n);
+    });
+
+    it("Should mark one position to the latest session rate and book it into the balance", async function () {
+      await as(alice)[PLACE_ORDER](1000, 0, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Market);
+      await as(alice)[PLACE_ORDER](500, 0, CurrencyPair.GBP_USD, OrderSide.Buy, OrderType.Market);
+      await executeSession();
+      await startSession(withEurUsd(11050));
+      const balance = await decryptBalance(alice);
+
+      // Anyone can mark: 1000 × 50 pips = +5, GBP/USD is left alone
+      await expect(client.contract.markPosition(alice.address, CurrencyPair.EUR_USD))
+        .to.emit(client.contract, "PositionMarked")
+        .withArgs(alice.address, CurrencyPair.EUR_USD, 11050);
+      expect(await decryptPosition(alice, CurrencyPair.EUR_USD)).to.include({ long: 1000n, profit: 5n, markRate: 11050 });
+      expect(await decryptPosition(alice, CurrencyPair.GBP_USD)).to.include({ profit: 0n, markRate: RATES[1] });
+      expect(await decryptBalance(alice)).to.equal(balance + 5n);
+
+      // Already at the latest rate: nothing to book
+      const again = await client.markPosition(alice.address, "EUR/USD");
+      expect(again).to.include({ markRate: 11050, marked: false });
+      expect(await decryptBalance(alice)).to.equal(balance + 5n);
+    });
+
+    it("Should only mark opened positions on quoted pairs", async function () {
+      await expect(client.contract.markPosition(alice.address, CurrencyPair.EUR_USD)).to.be.revertedWith("No position");
+
+      await as(alice)[PLACE_ORDER](1000, 0, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Market);
+      await executeSession();
+      await client.delistCurrencyPair("EUR/USD");
+      await startSession(RATES.slice(1));
+      await expect(client.contract.markPosition(alice.address, CurrencyPair.EUR_USD)).to.be.revertedWith(
+        "Pair not quoted"
+      );
+    });
+
+    it("Should value the portfolio at the latest session rates", async function () {
+      await as(alice)[PLACE_ORDER](1000, 0, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Market);
+      await executeSession();
+      await startSession(withEurUsd(11050));
+      await as(alice)[PLACE_ORDER](400, 0, CurrencyPair.EUR_USD, OrderSide.Sell, OrderType.Market);
+      await executeSession();
+      await startSession(withEurUsd(11100));
+
+      const decryptor = new FhevmMockDecryptor(fhevm);
+      const portfolio = await buildPortfolio(client.withRunner(alice), decryptor);
+
+      expect(portfolio.session).to.equal(3);
+      expect(portfolio.positions).to.have.length(1);
+      const [position] = portfolio.positions;
+      expect(position).to.deep.include({
+        long: 600n,
+        short: 0n,
+        net: 600n,
+        markRate: 11000,
+        currentRate: 11100,
+        realizedPnl: 2n,
+        unrealizedPnl: 6n,
+      });
+      expect(position.pair.name).to.equal("EUR/USD");
+      expect(formatPnl(position.unrealizedPnl)).to.equal("+6");
+      expect(formatPnl(-position.realizedPnl)).to.equal("-2");
+
+      const all = await buildPortfolio(client.withRunner(alice), decryptor, { includeFlat: true });
+      expect(all.positions).to.have.length(DEFAULT_PAIRS.length);
+    });
+  });
+
+  /**
+   * @chapter user-decryption
+   * @description Trader-only access to encrypted stats and balance updates
+   */
+  describe("Trader Data", function () {
+    it("Should restrict getMyEncryptedTotalTrades to registered traders", async function () {
+      await expect(as(alice).getMyEncryptedTotalTrades()).to.be.revertedWith("Trader not registered");
+    });
+  });
+
+  /**
+   * @chapter decryption
+   * @description Collateral custody: ERC-20 deposits add to the encrypted balance, and
+   *              withdrawals are checked under encryption and settled by the decryption oracle
+   */
+  describe("Collateral", function () {
+    beforeEach(async function () {
+      await fund(alice, 10000);
+    });
+
+    /**
+     * Request a withdrawal and let the mock oracle settle it
+     */
+    async function withdraw(trader: HardhatEthersSigner, amount: number) {
+      const request = await client.withRunner(trader).requestWithdrawal(amount);
+      await fhevm.awaitDecryptionOracle();
+      return client.getProcessedWithdrawal(request.requestId, request.blockNumber);
+    }
+
+    it("Should take custody of deposits and add them to the encrypted balance", async function () {
+      await token.mint(alice.address, 500);
+      await token.connect(alice).approve(address, 500);
+
+      await expect(as(alice).deposit(500)).to.emit(client.contract, "Deposited").withArgs(alice.address, 500);
+      expect(await token.balanceOf(address)).to.equal(10500n);
+      expect(await token.balanceOf(alice.address)).to.equal(0n);
+      expect(await decryptBalance(alice)).to.equal(10500n);
+    });
+
+    it("Should reject deposits without tokens, approval or registration", async function () {
+      await expect(as(alice).deposit(0)).to.be.revertedWith("Amount must be positive");
+      await expect(as(alice).deposit(100)).to.be.reverted;
+      await expect(as(bob).deposit(100)).to.be.revertedWith("Trader not registered");
+    });
+
+    it("Should approve and deposit through the client", async function () {
+      await token.mint(alice.address, 700);
+      const result = await client.withRunner(alice).deposit(700);
+
+      expect(result.amount).to.equal(700n);
+      expect(result.approval).to.not.equal(undefined);
+      expect(await decryptBalance(alice)).to.equal(10700n);
+
+      const error = await client.withRunner(alice).deposit(1).catch((reason: unknown) => reason);
+      expect(error).to.be.instanceOf(ValidationError).with.property("code", "INSUFFICIENT_COLLATERAL");
+    });
+
+    it("Should pay out a withdrawal the encrypted balance covers", async function () {
+      const processed = await withdraw(alice, 4000);
+
+      expect(processed).to.include({ trader: alice.address, amount: 4000n, approved: true });
+      expect(await token.balanceOf(alice.address)).to.equal(4000n);
+      expect(await decryptBalance(alice)).to.equal(6000n);
+      expect(await client.getPendingWithdrawal(alice.address)).to.equal(undefined);
+    });
+
+    it("Should refuse a withdrawal above the balance without touching it", async function () {
+      const processed = await withdraw(alice, 10001);
+
+      expect(processed).to.include({ amount: 10001n, approved: false });
+      expect(await token.balanceOf(alice.address)).to.equal(0n);
+      expect(await decryptBalance(alice)).to.equal(10000n);
+    });
+
+    it("Should only withdraw the balance open positions do not lock", async function () {
+      await startSession();
+      await as(alice)[PLACE_ORDER](3000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await time.increase(SESSION_DURATION + 1);
+      await client.executePrivateOrders();
+
+      expect((await withdraw(alice, 7001))?.approved).to.equal(false);
+      expect((await withdraw(alice, 7000))?.approved).to.equal(true);
+      expect(await decryptBalance(alice)).to.equal(3000n);
+      expect(await decryptLocked(alice)).to.equal(3000n);
+    });
+
+    it("Should release the margin once a position is closed and withdraw the whole balance", async function () {
+      await startSession();
+      await as(alice)[PLACE_ORDER](3000, 0, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Market);
+      await time.increase(SESSION_DURATION + 1);
+      await client.executePrivateOrders();
+
+      // Selling 3000 at 1.0950 against a 1.1000 mark: 3000 × 50 pips = -15
+      await startSession([10950, ...RATES.slice(1)]);
+      await as(alice)[PLACE_ORDER](3000, 0, CurrencyPair.EUR_USD, OrderSide.Sell, OrderType.Market);
+      await time.increase(SESSION_DURATION + 1);
+      await client.executePrivateOrders();
+      expect(await decryptLocked(alice)).to.equal(0n);
+      expect(await decryptBalance(alice)).to.equal(9985n);
+
+      expect((await withdraw(alice, 9985))?.approved).to.equal(true);
+      expect(await token.balanceOf(alice.address)).to.equal(9985n);
+      expect(await decryptBalance(alice)).to.equal(0n);
+    });
+
+    it("Should allow one pending withdrawal per trader", async function () {
+      const request = await client.withRunner(alice).requestWithdrawal(1000);
+      expect(await client.getPendingWithdrawal(alice.address)).to.equal(request.requestId);
+      await expect(as(alice).requestWithdrawal(1000)).to.be.revertedWith("Withdrawal already pending");
+
+      await fhevm.awaitDecryptionOracle();
+      await expect(as(alice).requestWithdrawal(1000)).to.emit(client.contract, "WithdrawalRequested");
+    });
+
+    it("Should reject empty, unregistered and unknown withdrawals", async function () {
+      await expect(as(alice).requestWithdrawal(0)).to.be.revertedWith("Amount must be positive");
+      await expect(as(bob).requestWithdrawal(100)).to.be.revertedWith("Trader not registered");
+      await expect(as(bob).settleWithdrawal(1, "0x", "0x")).to.be.revertedWith("Unknown withdrawal");
+    });
+  });
+
+  /**
+   * @chapter arithmetic
+   * @description Orders reserve margin from the encrypted balance at placement; orders the
+   *              unreserved balance cannot cover are zeroed with FHE.select instead of reverting
+   */
+  describe("Margin", function () {
+    beforeEach(async function () {
+      await fund(alice, 10000);
+    });
+
+    async function decryptReserved(trader: HardhatEthersSigner): Promise<bigint> {
+      const handle = await as(trader).getMyEncryptedReservedMargin();
+      return fhevm.userDecryptEuint(FhevmType.euint64, handle, address, trader);
+    }
+
+    async function decryptOrder(orderIndex: number): Promise<{ amount: bigint; margin: bigint }> {
+      const order = await client.contract.privateOrders(1, alice.address, orderIndex);
+      // One at a time: concurrent decryptions race in the mock coprocessor
+      const amount = await fhevm.userDecryptEuint(FhevmType.euint64, order.encryptedAmount, address, alice);
+      const margin = await fhevm.userDecryptEuint(FhevmType.euint64, order.encryptedMargin, address, alice);
+      return { amount, margin };
+    }
+
+    it("Should reserve amount × margin and zero orders the rest of the balance cannot cover", async function () {
+      await client.setPairMargin("EUR/USD", 500);
+      await startSession();
+
+      await as(alice)[PLACE_ORDER](100000, 0, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Market);
+      await as(alice)[PLACE_ORDER](120000, 0, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Market);
+      await as(alice)[PLACE_ORDER](5001, 0, CurrencyPair.GBP_USD, OrderSide.Buy, OrderType.Market);
+
+      expect(await decryptOrder(0)).to.deep.equal({ amount: 100000n, margin: 5000n });
+      expect(await decryptOrder(1)).to.deep.equal({ amount: 0n, margin: 0n });
+      expect(await decryptOrder(2)).to.deep.equal({ amount: 0n, margin: 0n });
+      expect(await decryptReserved(alice)).to.equal(5000n);
+
+      await time.increase(SESSION_DURATION + 1);
+      await client.executePrivateOrders();
+
+      expect(await decryptBalance(alice)).to.equal(10000n);
+      expect(await decryptReserved(alice)).to.equal(0n);
+      expect(await decryptLocked(alice)).to.equal(5000n);
+      expect(await decryptTotalTrades(alice)).to.equal(1n);
+    });
+
+    it("Should round margin up to whole units", async function () {
+      await client.setPairMargin("EUR/USD", 333);
+      await startSession();
+      await as(alice)[PLACE_ORDER](10001, 0, CurrencyPair.EUR_USD, OrderSide.Sell, OrderType.Market);
+
+      expect((await decryptOrder(0)).margin).to.equal(requiredMargin(10001n, 333)).and.to.equal(334n);
+    });
+
+    it("Should release margin on cancellation and re-reserve it on amendment", async function () {
+      await startSession();
+      await as(alice)[PLACE_ORDER](6000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await as(alice)[PLACE_ORDER](3000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      expect(await decryptReserved(alice)).to.equal(9000n);
+
+      await as(alice).cancelOrder(0);
+      expect(await decryptReserved(alice)).to.equal(3000n);
+
+      // The old margin is released first, so the order can grow into it
+      await client.withRunner(alice).amendOrder(1, { amount: 10000n, targetPrice: 11000 }, fhevm);
+      expect(await decryptOrder(1)).to.deep.equal({ amount: 10000n, margin: 10000n });
+
+      await client.withRunner(alice).amendOrder(1, { amount: 10001n, targetPrice: 11000 }, fhevm);
+      expect(await decryptOrder(1)).to.deep.equal({ amount: 0n, margin: 0n });
+      expect(await decryptReserved(alice)).to.equal(0n);
+    });
+
+    it("Should release the margin of unfilled orders without debiting it", async function () {
+      await startSession();
+      await as(alice)[PLACE_ORDER](4000, 10999, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await time.increase(SESSION_DURATION + 1);
+      await client.executePrivateOrders();
+
+      expect(await decryptBalance(alice)).to.equal(10000n);
+      expect(await decryptReserved(alice)).to.equal(0n);
+    });
+
+    it("Should only withdraw the balance open orders have not reserved", async function () {
+      await startSession();
+      await as(alice)[PLACE_ORDER](6000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+
+      await client.withRunner(alice).requestWithdrawal(4001);
+      await fhevm.awaitDecryptionOracle();
+      expect(await decryptBalance(alice)).to.equal(10000n);
+
+      await client.withRunner(alice).requestWithdrawal(4000);
+      await fhevm.awaitDecryptionOracle();
+      expect(await decryptBalance(alice)).to.equal(6000n);
+      expect(await token.balanceOf(alice.address)).to.equal(4000n);
+    });
+
+    it("Should cancel open orders and release their margin on an emergency end", async function () {
+      await startSession();
+      await as(alice)[PLACE_ORDER](6000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+
+      await expect(as(owner).emergencyEndSession())
+        .to.emit(client.contract, "OrderCancelled")
+        .withArgs(alice.address, 1, 0);
+      expect((await client.getPrivateOrder(1, alice.address, 0)).isCancelled).to.equal(true);
+      expect(await decryptReserved(alice)).to.equal(0n);
+    });
+
+    it("Should let only the owner set pair margins between sessions", async function () {
+      const change = await client.setPairMargin("USD/JPY", leverageToMarginBps(50));
+      expect(change.marginBps).to.equal(200);
+      expect(await client.getPairMargin("USD/JPY")).to.equal(200);
+      expect(await client.getPairMargin("EUR/USD")).to.equal(10000);
+
+      await expect(as(alice).setPairMargin(0, 500)).to.be.revertedWith("Not authorized");
+      await expect(as(owner).setPairMargin(0, 99)).to.be.revertedWith("Invalid margin");
+      await expect(as(owner).setPairMargin(0, 10001)).to.be.revertedWith("Invalid margin");
+      await expect(as(owner).setPairMargin(CURRENCY_PAIRS.length, 500)).to.be.revertedWith("Invalid currency pair");
+
+      await startSession();
+      await expect(as(owner).setPairMargin(0, 500)).to.be.revertedWith("Session currently active");
+      expect(() => leverageToMarginBps(101)).to.throw(ValidationError);
+    });
+
+    it("Should preview margin usage with one decryption", async function () {
+      await client.setPairMargin("EUR/USD", 500);
+      await startSession();
+      await as(alice)[PLACE_ORDER](60000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+
+      const trader = client.withRunner(alice);
+      const decryptor = new FhevmMockDecryptor(fhevm);
+      const preview = await previewMargin(trader, decryptor, { pair: "EUR/USD", amount: 100000n });
+      expect(preview).to.include({ balance: 10000n, reserved: 3000n, available: 7000n });
+      expect(preview.order).to.include({ marginBps: 500, leverage: 20, required: 5000n, fits: true, availableAfter: 2000n });
+
+      const oversized = await previewMargin(trader, decryptor, { pair: "EUR/USD", amount: 140001n });
+      expect(oversized.order).to.include({ required: 7001n, fits: false });
+    });
+  });
+
+  /**
+   * @chapter user-decryption
+   * @description Client-side decryption through ForexTradingClient, with the FHEVM mock
+   *              standing in for the relayer
+   */
+  describe("Client Decryption", function () {
+    let decryptor: FhevmMockDecryptor;
+
+    beforeEach(function () {
+      decryptor = new FhevmMockDecryptor(fhevm);
+    });
+
+    it("Should decrypt the trader's balance and trade count", async function () {
+      await fund(alice, 10000);
+
+      const stats = await client.withRunner(alice).decryptMyStats(decryptor);
+      expect(stats).to.deep.equal({
+        trader: alice.address,
+        balance: 10000n,
+        reservedMargin: 0n,
+        lockedMargin: 0n,
+        totalTrades: 0,
+      });
+    });
+
+    it("Should decrypt the trade count after execution", async function () {
+      await fund(alice, 10000);
+      await startSession();
+      await as(alice)[PLACE_ORDER](1000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await as(alice)[PLACE_ORDER](2000, 12500, CurrencyPair.GBP_USD, OrderSide.Buy, OrderType.Limit);
+      await time.increase(SESSION_DURATION + 1);
+      await client.executePrivateOrders();
+
+      const trader = client.withRunner(alice);
+      expect(await trader.decryptMyTotalTrades(decryptor)).to.equal(2);
+      expect(await trader.decryptMyBalance(decryptor)).to.equal(10000n);
+      expect((await trader.decryptMyStats(decryptor)).lockedMargin).to.equal(3000n);
+    });
+
+    it("Should restrict getMyEncryptedBalance to registered traders", async function () {
+      await expect(as(alice).getMyEncryptedBalance()).to.be.revertedWith("Trader not registered");
+    });
+
+    it("Should refuse to decrypt another trader's handle", async function () {
+      await fund(alice, 10000);
+      const handle = await client.withRunner(alice).getMyEncryptedBalance();
+
+      const error = await decryptor
+        .userDecrypt([{ handle, type: "euint64", contractAddress: address }], bob)
+        .catch((reason: unknown) => reason);
+      expect(error).to.be.instanceOf(DecryptionError);
+    });
+
+    it("Should require a signer", async function () {
+      const readOnly = client.withRunner(alice.provider);
+      const error = await readOnly.decryptMyStats(decryptor).catch((reason: unknown) => reason);
+      expect(error).to.be.instanceOf(Error).with.property("message").that.contains("connected to a signer");
+    });
+  });
+
+  /**
+   * @chapter automation
+   * @description SessionScheduler drives the session lifecycle from chain time, so
+   *              hardhat time travel moves it through start, execution and restart
+   */
+  describe("Session Scheduler", function () {
+    let scheduler: SessionScheduler;
+
+    beforeEach(function () {
+      scheduler = new SessionScheduler(client, { rates: () => RATES, retryDelay: 1 });
+    });
+
+    it("Should wait for the cooldown after deployment", async function () {
+      const plan = await scheduler.plan();
+      const deployedAt = Number(await client.contract.lastSessionTime());
+
+      expect(plan.action).to.equal("wait");
+      expect(plan.dueAt).to.equal(deployedAt + SESSION_DURATION);
+      expect((await scheduler.tick()).action).to.equal("wait");
+    });
+
+    it("Should start, execute and restart sessions as time passes", async function () {
+      await fund(alice, 10000);
+      await time.increase(SESSION_DURATION);
+
+      const started = await scheduler.tick();
+      expect(started.action).to.equal("start");
+      expect(await client.isSessionActive()).to.equal(true);
+
+      await as(alice)[PLACE_ORDER](1000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      expect((await scheduler.tick()).action).to.equal("wait");
+
+      await time.increase(SESSION_DURATION + 1);
+      const executed = await scheduler.tick();
+      expect(executed.action).to.equal("execute");
+      expect(executed).to.have.nested.property("result.executedOrders").with.lengthOf(1);
+
+      const restarted = await scheduler.tick();
+      expect(restarted.action).to.equal("start");
+      expect(await client.currentSession()).to.equal(2);
+      expect(await client.isSessionActive()).to.equal(true);
+    });
+
+    it("Should plan execution one second after the session end time", async function () {
+      await startSession();
+      const info = await client.getCurrentSessionInfo();
+      const now = Number(info.endTime);
+
+      expect(planNextAction(info, Number(info.startTime), now)).to.deep.include({ action: "wait", dueAt: now + 1 });
+      expect(planNextAction(info, Number(info.startTime), now + 1).action).to.equal("execute");
+    });
+
+    it("Should retry a failed start", async function () {
+      await time.increase(SESSION_DURATION);
+      let calls = 0;
+      const events: SchedulerEvent[] = [];
+      const controller = new AbortController();
+
+      scheduler = new SessionScheduler(client, {
+        rates: () => {
+          if (calls++ === 0) throw new Error("rate feed unavailable");
+          return RATES;
+        },
+        retryDelay: 1,
+        onEvent: (event) => {
+          events.push(event);
+          if (event.type === "started") controller.abort();
+        },
+      });
+      await scheduler.run(controller.signal);
+
+      expect(events.map((event) => event.type)).to.deep.equal(["retrying", "started"]);
+      expect(await client.isSessionActive()).to.equal(true);
+    });
+
+    it("Should execute a session over several ticks with a batch size", async function () {
+      await fund(alice, 10000);
+      await startSession();
+      await as(alice)[PLACE_ORDER](1000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await as(alice)[PLACE_ORDER](1000, 11000, CurrencyPair.EUR_USD, OrderSide.Buy, OrderType.Limit);
+      await time.increase(SESSION_DURATION + 1);
+      scheduler = new SessionScheduler(client, { rates: () => RATES, retryDelay: 1, batchSize: 1 });
+
+      const first = await scheduler.tick();
+      expect(first).to.deep.nested.include({ action: "execute", "result.completed": false });
+      const second = await scheduler.tick();
+      expect(second).to.deep.nested.include({ action: "execute", "result.completed": true });
+      expect((await scheduler.tick()).action).to.equal("start");
+    });
+
+    it("Should stop instead of retrying when the signer lacks the roles", async function () {
+      await time.increase(SESSION_DURATION);
+      const keeper = new SessionScheduler(client.withRunner(alice), { rates: () => RATES, retryDelay: 1 });
+
+      const error = await keeper.run(new AbortController().signal).catch((reason: unknown) => reason);
+      expect(error).to.be.instanceOf(AccessControlError);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { RateFeedError, ValidationError } from "../scripts/lib/errors";
+import {
+  CsvReplayRateProvider,
+  FixedRateProvider,
+  HttpRateProvider,
+  JsonFileRateProvider,
+  createRateProvider,
+  parseRateTable,
+  toContractRate,
+} from "../scripts/lib/rates";
+import { toRateArray } from "../scripts/lib/client";
+import {
+  CurrencyPair,
+  DEFAULT_PAIRS,
+  findPair,
+  formatPrice,
+  getPairSpec,
+  pairSpec,
+  parsePrice,
+  parsePriceList,
+} from "../scripts/lib/pairs";
+
+/**
+ * Rate table keyed by pair, and the contract rates it converts to
+ */
+const PAIR_TABLE = { "EUR/USD": 1.0842, "GBP/USD": 1.2671, "USD/JPY": 149.51, "AUD/USD": 0.6583, "USD/CHF": 0.8812 };
+const PAIR_RATES = [10842, 12671, 14951, 6583, 8812];
+
+/**
+ * Registry after delisting GBP/USD and listing EUR/GBP and NZD/USD
+ */
+const REGISTRY = [
+  ...DEFAULT_PAIRS.map((spec) => (spec.pair === CurrencyPair.GBP_USD ? { ...spec, listed: false } : spec)),
+  pairSpec(5, "EUR/GBP", 4),
+  pairSpec(6, "NZD/USD", 5),
+];
+
+/**
+ * @chapter rates
+ * @description Rate feeds for starting sessions: parsing, validation and the
+ *              conversion to each pair's on-chain precision
+ */
+describe("Rate Providers", function () {
+  let dir: string;
+
+  before(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "forex-rates-"));
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeFile(name: string, content: string): string {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  }
+
+  describe("Pair Precision", function () {
+    it("Should use pips of 0.01 for USD/JPY and 0.0001 for the other pairs", async function () {
+      expect(getPairSpec("USD/JPY")).to.include({ decimals: 2, pipSize: "0.01", base: "USD", quote: "JPY" });
+      expect(getPairSpec(CurrencyPair.EUR_USD)).to.include({ decimals: 4, pipSize: "0.0001" });
+    });
+
+    it("Should format on-chain prices with the pair's decimals", async function () {
+      expect(formatPrice("EUR/USD", 10842)).to.equal("1.0842");
+      expect(formatPrice("USD/JPY", 14951)).to.equal("149.51");
+      expect(formatPrice("AUD/USD", 65n)).to.equal("0.0065");
+    });
+
+    it("Should parse decimal prices exactly", async function () {
+      expect(parsePrice("EUR/USD", "1.1")).to.equal(11000);
+      expect(parsePrice("USD/JPY", "150")).to.equal(15000);
+      expect(parsePriceList("1.1000,1.2500,150.00,0.6500,0.9200")).to.deep.equal([11000, 12500, 15000, 6500, 9200]);
+    });
+
+    it("Should reject prices the pair cannot represent", async function () {
+      for (const value of ["149.512", "0", "-1", "1e3", "abc", "50000000"]) {
+        expect(() => parsePrice("USD/JPY", value)).to.throw(ValidationError, "Invalid USD/JPY price");
+      }
+      expect(() => parsePriceList("1.1,1.25")).to.throw(ValidationError, "Expected 5 prices");
+    });
+  });
+
+  describe("Pair Registry", function () {
+    it("Should resolve pairs by ID or name in a registry", async function () {
+      expect(findPair("eur_gbp", REGISTRY).pair).to.equal(5);
+      expect(findPair(6, REGISTRY)).to.include({ name: "NZD/USD", decimals: 5, pipSize: "0.00001" });
+      expect(findPair("GBPUSD", REGISTRY).listed).to.equal(false);
+      expect(() => findPair("EUR/GBP")).to.throw(ValidationError, 'Unknown currency pair "EUR/GBP"');
+    });
+
+    it("Should parse rate lists for the listed pairs only", async function () {
+      expect(parsePriceList("1.1,150,0.65,0.92,0.86,0.59123", REGISTRY)).to.deep.equal([
+        11000, 15000, 6500, 9200, 8600, 59123,
+      ]);
+      expect(() => parsePriceList("1.1000,1.2500,150.00,0.6500,0.9200", REGISTRY)).to.throw("Expected 6 prices");
+    });
+
+    it("Should spread rates over pair IDs with zero for delisted pairs", async function () {
+      const rates = [11000, 15000, 6500, 9200, 8600, 59123];
+      expect(toRateArray(rates, REGISTRY)).to.deep.equal([11000, 0, 15000, 6500, 9200, 8600, 59123]);
+      expect(
+        toRateArray({ 0: 11000, 2: 15000, 3: 6500, 4: 9200, "EUR/GBP": 8600, "NZD/USD": 59123 }, REGISTRY)
+      ).to.deep.equal([11000, 0, 15000, 6500, 9200, 8600, 59123]);
+      expect(() => toRateArray([11000, 15000, 6500, 9200, 8600], REGISTRY)).to.throw("Expected 6 rates");
+    });
+
+    it("Should quote the listed pairs of a registry from a rate table", async function () {
+      const quote = parseRateTable(
+        { base: "USD", rates: { EUR: 0.8, GBP: 0.5, JPY: 150, AUD: 1.6, CHF: 0.9, NZD: 1.6 } },
+        "test",
+        REGISTRY
+      );
+      expect(quote.rates).to.deep.equal([12500, 15000, 6250, 9000, 6250, 62500]);
+
+      const fixed = await new FixedRateProvider("1.1,150,0.65,0.92,0.86,0.59123").getRates(REGISTRY);
+      expect(fixed.rates).to.deep.equal([11000, 15000, 6500, 9200, 8600, 59123]);
+    });
+  });
+
+  describe("Conversion", function () {
+    it("Should scale decimal rates to the pair's pips and round", async function () {
+      expect(toContractRate(CurrencyPair.EUR_USD, 1.08426)).to.equal(10843);
+      expect(toContractRate(CurrencyPair.USD_JPY, "149.514")).to.equal(14951);
+    });
+
+    it("Should reject rates that are not positive uint32 values after scaling", async function () {
+      for (const value of [0, -1.2, 0.00001, "abc", "", null, 500000]) {
+        expect(() => toContractRate(CurrencyPair.EUR_USD, value)).to.throw(ValidationError, "Invalid EUR/USD rate");
+      }
+    });
+
+    it("Should parse a table keyed by pair in any spelling", async function () {
+      const quote = parseRateTable(
+        { eur_usd: 1.0842, GBPUSD: 1.2671, "USD/JPY": 149.51, "aud-usd": 0.6583, "USD/CHF": 0.8812 },
+        "test"
+      );
+      expect(quote.rates).to.deep.equal(PAIR_RATES);
+    });
+
+    it("Should derive pairs from rates quoted against a base currency", async function () {
+      const quote = parseRateTable(
+        { base: "USD", timestamp: 1709251200, rates: { EUR: 0.8, GBP: 0.5, JPY: 150, AUD: 1.6, CHF: 0.9 } },
+        "test"
+      );
+      expect(quote.rates).to.deep.equal([12500, 20000, 15000, 6250, 9000]);
+      expect(quote.timestamp).to.equal(1709251200);
+    });
+
+    it("Should report a missing pair as a feed error", async function () {
+      expect(() => parseRateTable({ "EUR/USD": 1.0842 }, "test")).to.throw(RateFeedError, "no rate for GBP/USD");
+    });
+  });
+
+  describe("Providers", function () {
+    it("Should pass fixed rates through unchanged", async function () {
+      const quote = await new FixedRateProvider([11000, 12500, 15000, 6500, 9200]).getRates();
+      expect(quote).to.deep.equal({ rates: [11000, 12500, 15000, 6500, 9200], source: "command line" });
+    });
+
+    it("Should read a JSON rate file on every call", async function () {
+      const file = writeFile("rates.json", JSON.stringify(PAIR_TABLE));
+      const provider = new JsonFileRateProvider(file);
+      expect((await provider.getRates()).rates).to.deep.equal(PAIR_RATES);
+
+      fs.writeFileSync(file, JSON.stringify({ ...PAIR_TABLE, "EUR/USD": 1.1 }));
+      expect((await provider.getRates()).rates[0]).to.equal(11000);
+    });
+
+    it("Should replay CSV ticks in order and stop at the end", async function () {
+      const file = writeFile(
+        "ticks.csv",
+        [
+          "# March 2024 closes",
+          "timestamp,EUR/USD,GBP/USD,USD/JPY,AUD/USD,USD/CHF",
+          "2024-03-01T00:00:00Z,1.0804,1.2623,150.12,0.6511,0.8843",
+          "",
+          "1709337600,1.0838,1.2652,150.08,0.6527,0.8859",
+        ].join("\n")
+      );
+      const provider = new CsvReplayRateProvider(file);
+
+      const first = await provider.getRates();
+      expect(first.rates).to.deep.equal([10804, 12623, 15012, 6511, 8843]);
+      expect(first.timestamp).to.equal(1709251200);
+      expect((await provider.getRates()).timestamp).to.equal(1709337600);
+
+      const error = await provider.getRates().catch((reason: unknown) => reason);
+      expect(error).to.be.instanceOf(RateFeedError).with.property("message").that.contains("replayed");
+    });
+
+    it("Should loop a CSV replay when asked to", async function () {
+      const file = writeFile("loop.csv", "USD/CHF,AUD/USD,USD/JPY,GBP/USD,EUR/USD\n0.9,0.7,150,1.3,1.1\n");
+      const provider = new CsvReplayRateProvider(file, { loop: true });
+
+      expect((await provider.getRates()).rates).to.deep.equal([11000, 13000, 15000, 7000, 9000]);
+      expect((await provider.getRates()).rates).to.deep.equal([11000, 13000, 15000, 7000, 9000]);
+    });
+
+    it("Should pick the provider from the source", async function () {
+      expect(createRateProvider("https://rates.example.com/latest")).to.be.instanceOf(HttpRateProvider);
+      expect(createRateProvider("ticks.CSV")).to.be.instanceOf(CsvReplayRateProvider);
+      expect(createRateProvider("rates.json")).to.be.instanceOf(JsonFileRateProvider);
+      expect(() => createRateProvider("rates.txt")).to.throw("Unsupported rate source");
+    });
+  });
+
+  /**
+   * Local mock of an HTTP rate feed; the response is set per test
+   */
+  describe("HTTP Feed", function () {
+    let server: http.Server;
+    let url: string;
+    let reply: { status: number; body: string };
+
+    before(async function () {
+      server = http.createServer((_request, response) => {
+        response.statusCode = reply.status;
+        response.setHeader("Content-Type", "application/json");
+        response.end(reply.body);
+      });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/latest`;
+    });
+
+    after(async function () {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("Should fetch and convert the rate table", async function () {
+      reply = { status: 200, body: JSON.stringify({ rates: PAIR_TABLE, timestamp: 1709251200 }) };
+
+      const quote = await new HttpRateProvider(url).getRates();
+      expect(quote).to.deep.equal({ rates: PAIR_RATES, source: url, timestamp: 1709251200 });
+    });
+
+    it("Should report HTTP errors as feed errors", async function () {
+      reply = { status: 503, body: JSON.stringify({ error: "maintenance" }) };
+
+      const error = await new HttpRateProvider(url).getRates().catch((reason: unknown) => reason);
+      expect(error).to.be.instanceOf(RateFeedError).with.property("message").that.contains("503");
+    });
+
+    it("Should report malformed responses as feed errors", async function () {
+      reply = { status: 200, body: "<html>not json</html>" };
+
+      const error = await new HttpRateProvider(url).getRates().catch((reason: unknown) => reason);
+      expect(error).to.be.instanceOf(RateFeedError).with.property("message").that.contains("did not return JSON");
+    });
+
+    it("Should reject invalid rates from the feed", async function () {
+      reply = { status: 200, body: JSON.stringify({ ...PAIR_TABLE, "USD/JPY": -149.51 }) };
+
+      const error = await new HttpRateProvider(url).getRates().catch((reason: unknown) => reason);
+      expect(error).to.be.instanceOf(ValidationError).with.property("code", "INVALID_RATE");
+    });
+  });
+});
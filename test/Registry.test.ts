@@ -0,0 +1,110 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  DeploymentRecord,
+  getDeployment,
+  loadRegistry,
+  recordDeployment,
+  registryPath,
+  resolveContractAddress,
+} from "../scripts/lib/registry";
+
+const NETWORK = "sepolia";
+const CHAIN_ID = 11155111;
+
+/**
+ * A deployment of a contract to the given address, in the given block
+ */
+function deploymentAt(address: string, blockNumber: number): DeploymentRecord {
+  return {
+    address,
+    txHash: `0x${blockNumber.toString(16).padStart(64, "0")}`,
+    blockNumber,
+    abiHash: `0x${"00".repeat(32)}`,
+    deployer: "0x00000000000000000000000000000000000000d0",
+    gitCommit: null,
+    deployedAt: new Date(blockNumber * 1000).toISOString(),
+  };
+}
+
+const FIRST = deploymentAt("0x0000000000000000000000000000000000000001", 100);
+const SECOND = deploymentAt("0x0000000000000000000000000000000000000002", 200);
+const THIRD = deploymentAt("0x0000000000000000000000000000000000000003", 300);
+
+/**
+ * @chapter deployment
+ * @description Deployment registry behind the scripts: every redeploy is kept in the
+ *              contract's history, and a registry never mixes deployments of two chains
+ */
+describe("Deployment Registry", function () {
+  let dir: string;
+  let previousDir: string | undefined;
+
+  before(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "forex-deployments-"));
+    previousDir = process.env.DEPLOYMENTS_DIR;
+    process.env.DEPLOYMENTS_DIR = dir;
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+    if (previousDir === undefined) {
+      delete process.env.DEPLOYMENTS_DIR;
+    } else {
+      process.env.DEPLOYMENTS_DIR = previousDir;
+    }
+  });
+
+  beforeEach(function () {
+    fs.rmSync(registryPath(NETWORK), { force: true });
+  });
+
+  it("Should keep earlier deployments in the history, newest first", async function () {
+    recordDeployment(NETWORK, CHAIN_ID, "PrivateForexTrading", FIRST);
+    recordDeployment(NETWORK, CHAIN_ID, "PrivateForexTrading", SECOND);
+    const file = recordDeployment(NETWORK, CHAIN_ID, "PrivateForexTrading", THIRD);
+
+    expect(file).to.equal(path.join(dir, `${NETWORK}.json`));
+    expect(loadRegistry(NETWORK)?.contracts.PrivateForexTrading).to.deep.equal({
+      current: THIRD,
+      history: [SECOND, FIRST],
+    });
+    expect(getDeployment(NETWORK, "PrivateForexTrading")).to.deep.equal(THIRD);
+    expect(resolveContractAddress(NETWORK)).to.equal(THIRD.address);
+  });
+
+  it("Should keep the other contracts of the network when one is redeployed", async function () {
+    recordDeployment(NETWORK, CHAIN_ID, "PositionBook", FIRST);
+    recordDeployment(NETWORK, CHAIN_ID, "PrivateForexTrading", SECOND);
+    recordDeployment(NETWORK, CHAIN_ID, "PrivateForexTrading", THIRD);
+
+    expect(loadRegistry(NETWORK)).to.deep.include({ network: NETWORK, chainId: CHAIN_ID });
+    expect(loadRegistry(NETWORK)?.contracts.PositionBook).to.deep.equal({ current: FIRST, history: [] });
+  });
+
+  it("Should reject a deployment to another chain than the registry's", async function () {
+    recordDeployment(NETWORK, CHAIN_ID, "PrivateForexTrading", FIRST);
+    const written = fs.readFileSync(registryPath(NETWORK), "utf-8");
+
+    expect(() => recordDeployment(NETWORK, 1, "PrivateForexTrading", SECOND)).to.throw(
+      `Registry for "${NETWORK}" belongs to chain ${CHAIN_ID}, refusing to record a chain 1 deployment`
+    );
+    expect(fs.readFileSync(registryPath(NETWORK), "utf-8")).to.equal(written);
+  });
+
+  it("Should report networks without a deployment of the contract", async function () {
+    expect(loadRegistry(NETWORK)).to.equal(undefined);
+    expect(() => resolveContractAddress(NETWORK)).to.throw("No PrivateForexTrading deployment recorded");
+
+    recordDeployment(NETWORK, CHAIN_ID, "MockStablecoin", FIRST);
+    expect(getDeployment(NETWORK, "PrivateForexTrading")).to.equal(undefined);
+  });
+
+  it("Should refuse registries of another format version", async function () {
+    fs.writeFileSync(registryPath(NETWORK), JSON.stringify({ version: 2, network: NETWORK, chainId: CHAIN_ID }));
+
+    expect(() => loadRegistry(NETWORK)).to.throw("Unsupported registry version 2");
+  });
+});
@@ -0,0 +1,75 @@
+import { expect } from "chai";
+import { groupByChapter, parseTestFile } from "../tools/lib/test-suites";
+
+/**
+ * A test file as the documentation generator reads it
+ */
+const TEST_FILE = `
+/**
+ * @chapter trading
+ * @description Test suite for the contract, covering registration
+ *              and the session lifecycle
+ */
+describe("Contract", function () {
+  /**
+   * @chapter encryption
+   * @description Registration encrypts the initial balance
+   */
+  describe("Registration", function () {
+    it("Should register a trader", async function () {
+      await contract.registerTrader();
+
+      expect(await contract.isRegistered()).to.equal(true);
+    });
+  });
+
+  describe("Sessions", function () {
+    for (const duration of [1, 2]) {
+      it(\`Should end after \${duration} hours\`, async () => expect(duration).to.be.above(0));
+    }
+  });
+});
+`;
+
+/**
+ * @chapter tooling
+ * @description Test suite parsing behind the testing guide: describe/it blocks,
+ *              their @chapter and @description tags and the test code
+ */
+describe("Test Suites", function () {
+  it("Should read the chapter and description of each suite", async function () {
+    const suites = parseTestFile("test/Contract.test.ts", TEST_FILE);
+
+    expect(suites.map(({ name, parents, chapter, line }) => ({ name, parents, chapter, line }))).to.deep.equal([
+      { name: "Contract", parents: [], chapter: "trading", line: 7 },
+      { name: "Registration", parents: ["Contract"], chapter: "encryption", line: 12 },
+      { name: "Sessions", parents: ["Contract"], chapter: "trading", line: 20 },
+    ]);
+    expect(suites[0].description).to.equal(
+      "Test suite for the contract, covering registration and the session lifecycle"
+    );
+    expect(suites[2].description).to.equal("");
+  });
+
+  it("Should keep the code of each test, dedented", async function () {
+    const [, registration, sessions] = parseTestFile("test/Contract.test.ts", TEST_FILE);
+
+    expect(registration.tests).to.deep.equal([
+      {
+        name: "Should register a trader",
+        line: 13,
+        code: "await contract.registerTrader();\n\nexpect(await contract.isRegistered()).to.equal(true);",
+      },
+    ]);
+    // Declared once in a loop: one test in the source, titled by its template
+    expect(sessions.tests.map((test) => test.name)).to.deep.equal(["`Should end after ${duration} hours`"]);
+    expect(sessions.tests[0].code).to.equal("expect(duration).to.be.above(0)");
+  });
+
+  it("Should group suites with tests by chapter", async function () {
+    const chapters = groupByChapter(parseTestFile("test/Contract.test.ts", TEST_FILE));
+
+    expect([...chapters.keys()]).to.deep.equal(["encryption", "trading"]);
+    expect(chapters.get("trading")!.map((suite) => suite.name)).to.deep.equal(["Sessions"]);
+  });
+});
@@ -0,0 +1,38 @@
+import { deployments, ethers } from "hardhat";
+import { ForexTradingClient } from "../scripts/lib/client";
+import { MockStablecoin__factory } from "../typechain-types";
+
+/**
+ * @title Test Fixtures
+ * @notice Fixtures built on the deploy/ pipeline
+ * @dev Each call runs the tagged deploy scripts again instead of reverting to an
+ *      EVM snapshot: the FHEVM mock coprocessor tracks the blocks it has read
+ *      and fails user decryption once the chain is rewound under it.
+ */
+
+/**
+ * @notice Fresh PrivateForexTrading deployment with named signers
+ * @return client Client connected as the owner (deployer)
+ * @return token The MockStablecoin collateral, connected as the owner
+ */
+export async function deployForexTradingFixture() {
+  await deployments.run(["PrivateForexTrading"], {
+    resetMemory: true,
+    deletePreviousDeployments: true,
+    writeDeploymentsToFiles: false,
+  });
+
+  const deployment = await deployments.get("PrivateForexTrading");
+  const stablecoin = await deployments.get("MockStablecoin");
+  const [owner, alice, bob, carol] = await ethers.getSigners();
+
+  return {
+    address: deployment.address,
+    client: ForexTradingClient.connect(deployment.address, owner),
+    token: MockStablecoin__factory.connect(stablecoin.address, owner),
+    owner,
+    alice,
+    bob,
+    carol,
+  };
+}
@@ -283,16 +283,19 @@ function copyTools(outputDir: string): void {
   const toolsDir = path.join(process.cwd(), "tools");
   const destToolsDir = path.join(outputDir, "tools");
 
-  if (fs.existsSync(toolsDir)) {
-    const files = fs.readdirSync(toolsDir);
-    files.forEach((file) => {
+  // The tools, and the shared modules in tools/lib they import
+  ["", "lib"].forEach((dir) => {
+    const sourceDir = path.join(toolsDir, dir);
+    if (!fs.existsSync(sourceDir)) {
+      return;
+    }
+    fs.mkdirSync(path.join(destToolsDir, dir), { recursive: true });
+    fs.readdirSync(sourceDir).forEach((file) => {
       if (file.endsWith(".ts")) {
-        const sourcePath = path.join(toolsDir, file);
-        const destPath = path.join(destToolsDir, file);
-        fs.copyFileSync(sourcePath, destPath);
+        fs.copyFileSync(path.join(sourceDir, file), path.join(destToolsDir, dir, file));
       }
     });
-  }
+  });
 
   success("Automation tools copied");
 }
@@ -322,7 +325,7 @@ function generatePackageJson(
       node: "hardhat node",
       clean: "hardhat clean",
       typechain: "hardhat typechain",
-      "docs:generate": "ts-node tools/generate-docs.ts",
+      "docs:generate": "hardhat compile --quiet && ts-node tools/generate-docs.ts",
       "example:create": "ts-node tools/create-fhevm-example.ts",
       lint: "eslint . --ext .ts",
       format: 'prettier --write "**/*.{ts,sol,md}"',
@@ -338,8 +341,9 @@ function generatePackageJson(
     author: "FHEVM Community",
     license: "MIT",
     dependencies: {
-      "@fhevm/solidity": "^0.5.0",
+      "@fhevm/solidity": "^0.8.0",
       dotenv: "^16.3.1",
+      "encrypted-types": "^0.0.4",
       ethers: "^6.9.0",
     },
     devDependencies: {
@@ -359,7 +363,7 @@ function generatePackageJson(
       eslint: "^8.56.0",
       "eslint-config-prettier": "^9.1.0",
       hardhat: "^2.19.4",
-      "hardhat-deploy": "^0.11.45",
+      "hardhat-deploy": "^0.12.4",
       "hardhat-gas-reporter": "^1.0.9",
       prettier: "^3.1.1",
       "prettier-plugin-solidity": "^1.3.1",
@@ -103,6 +103,7 @@ function createDirectoryStructure(config: ExampleConfig): void {
     config.outputPath,
     path.join(config.outputPath, "contracts"),
     path.join(config.outputPath, "test"),
+    path.join(config.outputPath, "deploy"),
     path.join(config.outputPath, "scripts"),
     path.join(config.outputPath, "tools"),
     path.join(config.outputPath, "docs"),
@@ -186,23 +187,22 @@ function copyTestFiles(config: ExampleConfig): void {
 
 /**
  * @notice Copy deployment scripts
- * @dev Copies deployment scripts and helpers
+ * @dev Copies the hardhat-deploy pipeline (deploy/) and the scripts with their helpers
  */
 function copyDeploymentScripts(config: ExampleConfig): void {
   console.log("\n🚀 Copying deployment scripts...");
 
-  const scriptsDir = path.join(process.cwd(), "scripts");
-  const destDir = path.join(config.outputPath, "scripts");
+  ["deploy", "scripts"].forEach((dir) => {
+    const sourceDir = path.join(process.cwd(), dir);
+    const destDir = path.join(config.outputPath, dir);
 
-  if (fs.existsSync(scriptsDir)) {
-    const files = fs.readdirSync(scriptsDir);
-    files.forEach((file) => {
-      const sourcePath = path.join(scriptsDir, file);
-      const destPath = path.join(destDir, file);
-      fs.copyFileSync(sourcePath, destPath);
-      console.log(`   ✓ Copied ${file}`);
-    });
-  }
+    if (fs.existsSync(sourceDir)) {
+      fs.cpSync(sourceDir, destDir, { recursive: true });
+      fs.readdirSync(sourceDir).forEach((file) => {
+        console.log(`   ✓ Copied ${dir}/${file}`);
+      });
+    }
+  });
 }
 
 /**
@@ -221,13 +221,13 @@ function generatePackageJson(config: ExampleConfig): void {
       compile: "hardhat compile",
       test: "hardhat test",
       "test:coverage": "hardhat coverage",
-      deploy: "hardhat run scripts/deploy.ts",
-      "deploy:sepolia": "hardhat run scripts/deploy.ts --network sepolia",
-      "deploy:zama": "hardhat run scripts/deploy.ts --network zama",
+      deploy: "hardhat deploy",
+      "deploy:sepolia": "hardhat deploy --network sepolia",
+      "deploy:zama": "hardhat deploy --network zama",
       node: "hardhat node",
       clean: "hardhat clean",
       typechain: "hardhat typechain",
-      "docs:generate": "ts-node tools/generate-docs.ts",
+      "docs:generate": "hardhat compile --quiet && ts-node tools/generate-docs.ts",
     },
     keywords: [
       "fhevm",
@@ -241,8 +241,9 @@ function generatePackageJson(config: ExampleConfig): void {
     author: "FHEVM Community",
     license: "MIT",
     dependencies: {
-      "@fhevm/solidity": "^0.5.0",
+      "@fhevm/solidity": "^0.8.0",
       dotenv: "^16.3.1",
+      "encrypted-types": "^0.0.4",
       ethers: "^6.9.0",
     },
     devDependencies: {
@@ -258,7 +259,7 @@ function generatePackageJson(config: ExampleConfig): void {
       "@types/node": "^20.10.6",
       chai: "^4.3.10",
       hardhat: "^2.19.4",
-      "hardhat-deploy": "^0.11.45",
+      "hardhat-deploy": "^0.12.4",
       "hardhat-gas-reporter": "^1.0.9",
       "solidity-coverage": "^0.8.5",
       "ts-node": "^10.9.2",
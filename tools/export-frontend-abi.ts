@@ -0,0 +1,56 @@
+#!/usr/bin/env ts-node
+
+import * as fs from "fs";
+import * as path from "path";
+import { EXECUTION_BATCH_SIZE } from "../scripts/lib/client";
+
+/**
+ * @title Frontend ABI Export
+ * @notice Writes the ABI of the compiled PrivateForexTrading contract for the frontend
+ * @dev The frontend is a static page without a build step, so it loads the ABI from
+ *      a script, frontend/contract-abi.js, that declares CONTRACT_ABI, along with the
+ *      EXECUTION_BATCH_SIZE the client uses. The script is committed: re-run the export
+ *      whenever the contract's interface or the batch size changes.
+ *
+ * @custom:usage npm run frontend:abi
+ * @custom:exit-code 0 when written, 2 if the contract is not compiled
+ */
+
+const CONTRACT = "PrivateForexTrading";
+
+/**
+ * @notice Source of the script declaring CONTRACT_ABI, one ABI entry per line, and EXECUTION_BATCH_SIZE
+ * @param abi JSON ABI of the contract artifact
+ */
+export function abiScript(abi: unknown[]): string {
+  return [
+    `// Generated by tools/export-frontend-abi.ts from the ${CONTRACT} artifact: run "npm run frontend:abi", do not edit`,
+    "const CONTRACT_ABI = [",
+    abi.map((entry) => `  ${JSON.stringify(entry)}`).join(",\n"),
+    "];",
+    "",
+    "// Orders per executeBatch() transaction, shared with the CLI and the keeper (scripts/lib/client.ts)",
+    `const EXECUTION_BATCH_SIZE = ${EXECUTION_BATCH_SIZE};`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * @notice Export the ABI from the last compilation
+ */
+function main(): void {
+  const artifact = path.join(process.cwd(), "artifacts", "contracts", `${CONTRACT}.sol`, `${CONTRACT}.json`);
+  const output = path.join(process.cwd(), "frontend", "contract-abi.js");
+  if (!fs.existsSync(artifact)) {
+    console.error(`❌ Error: no ${CONTRACT} artifact, run "npx hardhat compile" first`);
+    process.exit(2);
+  }
+
+  const { abi } = JSON.parse(fs.readFileSync(artifact, "utf8"));
+  fs.writeFileSync(output, abiScript(abi));
+  console.log(`✅ Wrote ${abi.length} ABI entries of ${CONTRACT} to ${path.relative(process.cwd(), output)}`);
+}
+
+if (require.main === module) {
+  main();
+}
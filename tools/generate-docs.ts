@@ -2,13 +2,33 @@
 
 import * as fs from "fs";
 import * as path from "path";
+import { NatSpec, NatSpecTag, customTagValues, parseNatSpec } from "./lib/natspec";
+import {
+  AstNode,
+  BuildSource,
+  DevDoc,
+  SourceText,
+  UserDoc,
+  child,
+  children,
+  compilerDocs,
+  findAll,
+  loadBuildSources,
+  optionalChild,
+  referencedDeclaration,
+  stringField,
+  walk,
+} from "./lib/solc-ast";
+import { TestSuite, groupByChapter, parseTestFile } from "./lib/test-suites";
 
 /**
  * @title FHEVM Documentation Generator
  * @notice Automated tool to generate GitBook-compatible documentation from code
  * @dev Extracts documentation from:
- *      - NatSpec comments in Solidity contracts
- *      - TSDoc comments in TypeScript tests
+ *      - NatSpec of the compiled Solidity contracts: the solc AST of the last
+ *        `hardhat compile`, with the compiler's devdoc/userdoc for the public API
+ *      - describe/it blocks of the TypeScript tests and their @chapter and
+ *        @description tags, parsed with the TypeScript compiler API
  *      - Code examples and patterns
  *
  * @custom:bounty-requirement Documentation generation (requirement #4)
@@ -23,19 +43,84 @@ interface DocSection {
 }
 
 interface ContractDoc {
+  name: string;
+  /** "contract", "library" or "interface" */
+  kind: string;
+  /** Source unit name, e.g. "contracts/PrivateForexTrading.sol" */
+  source: string;
   title: string;
   description: string;
+  details: string;
   concepts: string[];
+  /** @custom tags other than @custom:category */
+  tags: NatSpecTag[];
+  structs: StructDoc[];
+  enums: EnumDoc[];
   functions: FunctionDoc[];
+  modifiers: ModifierDoc[];
+  events: EventDoc[];
 }
 
 interface FunctionDoc {
+  /** Function name, or "constructor", "receive", "fallback" */
+  name: string;
+  /** Canonical signature, e.g. "placePrivateOrder(uint64,uint32,uint8,uint8,uint8)" */
+  signature: string;
+  /** Solidity declaration with parameter names, visibility, modifiers and returns */
+  declaration: string;
+  visibility: string;
+  stateMutability: string;
+  modifiers: string[];
+  /** Events emitted by the function or the internal functions it calls */
+  events: string[];
+  description: string;
+  details: string;
+  params: ParamDoc[];
+  returns: ParamDoc[];
+  tags: NatSpecTag[];
+}
+
+interface StructDoc {
+  name: string;
+  description: string;
+  details: string;
+  fields: FieldDoc[];
+  tags: NatSpecTag[];
+}
+
+interface FieldDoc {
+  name: string;
+  type: string;
+  description: string;
+  encrypted: boolean;
+}
+
+interface EnumDoc {
+  name: string;
+  description: string;
+  details: string;
+  values: string[];
+  tags: NatSpecTag[];
+}
+
+interface EventDoc {
+  name: string;
+  /** Canonical signature, e.g. "SessionStarted(uint32,uint256)" */
+  signature: string;
+  declaration: string;
+  description: string;
+  details: string;
+  params: ParamDoc[];
+  tags: NatSpecTag[];
+}
+
+interface ModifierDoc {
   name: string;
+  declaration: string;
   description: string;
+  details: string;
   params: ParamDoc[];
-  returns: string;
-  examples: string[];
-  tags: Record<string, string>;
+  tags: NatSpecTag[];
 }
 
 interface ParamDoc {
@@ -44,6 +129,11 @@ interface ParamDoc {
   description: string;
 }
 
+/**
+ * Encrypted types of FHEVM, and the external handle types encrypted inputs arrive as
+ */
+const ENCRYPTED_TYPE = /^(euint\d+|ebool|eaddress|externalE\w+)\b/;
+
 /**
  * @notice Main documentation generation function
  * @dev Orchestrates the entire documentation generation process
@@ -65,14 +155,14 @@ async function generateDocumentation() {
 
     // Step 2: Parse TypeScript tests
     console.log("🧪 Parsing test files...");
-    const testDocs = parseTests();
+    const testSuites = parseTests();
 
     // Step 3: Generate documentation files
     console.log("📝 Generating documentation...");
     generateContractDocs(contractDocs, docsPath);
-    generateTestDocs(testDocs, docsPath);
+    generateTestDocs(testSuites, docsPath);
     generateIndexFile(contractDocs, docsPath);
-    generateSummaryFile(contractDocs, testDocs, docsPath);
+    generateSummaryFile(contractDocs, testSuites, docsPath);
     generateQuickStart(docsPath);
     generateConceptsGuide(contractDocs, docsPath);
 
@@ -86,153 +176,318 @@ async function generateDocumentation() {
 }
 
 /**
- * @notice Parse Solidity contract files for documentation
- * @dev Extracts NatSpec comments and function signatures
+ * @notice Parse the compiled contracts for documentation
+ * @dev Reads the AST and devdoc/userdoc of the last compilation from artifacts/build-info.
+ *      Documents the top-level files of contracts/, not contracts/mocks/
  */
 function parseContracts(): ContractDoc[] {
-  const contractsPath = path.join(process.cwd(), "contracts");
   const contractDocs: ContractDoc[] = [];
+  const sources = [...loadBuildSources().values()]
+    .filter((source) => path.posix.dirname(source.path) === "contracts")
+    .sort((a, b) => a.path.localeCompare(b.path));
 
-  if (!fs.existsSync(contractsPath)) {
-    console.warn("⚠ Contracts directory not found");
+  if (sources.length === 0) {
+    console.warn("⚠ No compiled contracts found in contracts/");
     return contractDocs;
   }
 
-  const files = fs.readdirSync(contractsPath).filter((f) => f.endsWith(".sol"));
-
-  files.forEach((file) => {
-    const filePath = path.join(contractsPath, file);
-    const content = fs.readFileSync(filePath, "utf-8");
-
-    const doc = extractContractDoc(content, file);
-    if (doc) {
-      contractDocs.push(doc);
-      console.log(`   ✓ Parsed ${file}`);
+  sources.forEach((source) => {
+    const text = new SourceText(source.content);
+    for (const contract of findAll(source.ast, "ContractDefinition")) {
+      contractDocs.push(extractContractDoc(contract, source, text));
     }
+    console.log(`   ✓ Parsed ${path.posix.basename(source.path)}`);
   });
 
   return contractDocs;
 }
 
 /**
- * @notice Extract documentation from contract source code
- * @dev Parses NatSpec comments and extracts key information
+ * @notice Extract the documentation of a contract from its AST node
+ * @dev Contract-level NatSpec comes from the AST, which keeps repeated tags such as
+ *      several @custom:category lines; devdoc/userdoc fill in what the comment lacks
  */
-function extractContractDoc(content: string, filename: string): ContractDoc | null {
-  const doc: ContractDoc = {
-    title: "",
-    description: "",
-    concepts: [],
-    functions: [],
-  };
-
-  // Extract contract title from @title tag
-  const titleMatch = content.match(/@title\s+(.+)/);
-  if (titleMatch) {
-    doc.title = titleMatch[1].trim();
+function extractContractDoc(contract: AstNode, source: BuildSource, text: SourceText): ContractDoc {
+  const name = stringField(contract, "name");
+  const natspec = nodeNatSpec(contract, text);
+  const compiled = source.contracts[name];
+  const { devdoc, userdoc } = compilerDocs(compiled);
+
+  // Public functions are looked up in devdoc/userdoc by canonical signature
+  const signatures = new Map<string, string>();
+  for (const [signature, selector] of Object.entries(compiled?.evm?.methodIdentifiers ?? {})) {
+    signatures.set(selector, signature);
   }
 
-  // Extract description from @notice tag
-  const noticeMatch = content.match(/@notice\s+(.+)/);
-  if (noticeMatch) {
-    doc.description = noticeMatch[1].trim();
-  }
+  const members = children(contract, "nodes");
+  const ofType = (nodeType: string) => members.filter((node) => node.nodeType === nodeType);
+  const definitions = new Map(ofType("FunctionDefinition").map((fn): [number, AstNode] => [fn.id, fn]));
+
+  const functions = ofType("FunctionDefinition").map((fn) =>
+    extractFunctionDoc(fn, text, signatures, devdoc, userdoc, emittedEvents(fn, definitions))
+  );
+
+  return {
+    name,
+    kind: stringField(contract, "contractKind"),
+    source: source.path,
+    title: natspec.title || devdoc.title || name,
+    description: natspec.notice || userdoc.notice || "",
+    details: natspec.details || devdoc.details || "",
+    concepts: customTagValues(natspec, "category"),
+    tags: natspec.custom.filter((tag) => tag.name !== "custom:category"),
+    structs: ofType("StructDefinition").map((struct) => extractStructDoc(struct, text)),
+    enums: ofType("EnumDefinition").map((definition) => extractEnumDoc(definition, text)),
+    functions,
+    modifiers: ofType("ModifierDefinition").map((modifier) => extractModifierDoc(modifier, text)),
+    events: ofType("EventDefinition").map((event) => extractEventDoc(event, text, userdoc)),
+  };
+}
 
-  // Extract concepts from @custom:category tags
-  const categoryMatches = content.matchAll(/@custom:category\s+(.+)/g);
-  for (const match of categoryMatches) {
-    doc.concepts.push(match[1].trim());
-  }
+/**
+ * @notice Extract the documentation of a function from its AST node
+ * @dev devdoc/userdoc take precedence for public functions, so @inheritdoc resolves;
+ *      internal and private functions are only documented in the AST.
+ *      Overloads are told apart by their signature.
+ */
+function extractFunctionDoc(
+  fn: AstNode,
+  text: SourceText,
+  signatures: Map<string, string>,
+  devdoc: DevDoc,
+  userdoc: UserDoc,
+  events: string[]
+): FunctionDoc {
+  const params = children(child(fn, "parameters"), "parameters");
+  const returns = children(child(fn, "returnParameters"), "parameters");
+  const name = fn.kind === "function" ? stringField(fn, "name") : stringField(fn, "kind");
+  const types = params.map((param) => text.slice(child(param, "typeName").src));
+  const signature = signatures.get(stringField(fn, "functionSelector")) ?? `${name}(${types.join(",")})`;
+
+  const key = fn.kind === "constructor" ? "constructor" : signature;
+  const dev = devdoc.methods?.[key] ?? {};
+  const natspec: NatSpec = nodeNatSpec(fn, text);
+  const devTags = Object.entries(dev)
+    .filter(([tag]) => tag.startsWith("custom:"))
+    .map(([tag, value]) => ({ name: tag, text: String(value) }));
+
+  return {
+    name,
+    signature,
+    declaration: renderDeclaration(fn, text),
+    visibility: stringField(fn, "visibility"),
+    stateMutability: stringField(fn, "stateMutability"),
+    modifiers: children(fn, "modifiers")
+      .filter((modifier) => modifier.kind !== "baseConstructorSpecifier")
+      .map((modifier) => stringField(child(modifier, "modifierName"), "name")),
+    events,
+    description: userdoc.methods?.[key]?.notice ?? natspec.notice,
+    details: dev.details ?? natspec.details,
+    params: params.map((param) => {
+      const paramName = stringField(param, "name");
+      return {
+        name: paramName,
+        type: parameterType(param, text),
+        description: dev.params?.[paramName] ?? natspec.params[paramName] ?? "",
+      };
+    }),
+    returns: returns.map((param, i) => {
+      const paramName = stringField(param, "name");
+      return {
+        name: paramName,
+        type: parameterType(param, text),
+        description: dev.returns?.[paramName || `_${i}`] ?? returnDescription(natspec.returns[i], paramName),
+      };
+    }),
+    tags: natspec.custom.length > 0 ? natspec.custom : devTags,
+  };
+}
 
-  // Extract functions
-  const functionMatches = content.matchAll(/function\s+(\w+)\s*\([^)]*\)/g);
-  for (const match of functionMatches) {
-    const funcDoc = extractFunctionDoc(content, match[1]);
-    if (funcDoc) {
-      doc.functions.push(funcDoc);
-    }
-  }
+/**
+ * @notice Extract the documentation of a struct and its fields
+ * @dev Fields are described by the struct's @param tags, or else by the comment
+ *      at the end of their line
+ */
+function extractStructDoc(struct: AstNode, text: SourceText): StructDoc {
+  const natspec = nodeNatSpec(struct, text);
+  return {
+    name: stringField(struct, "name"),
+    description: natspec.notice,
+    details: natspec.details,
+    fields: children(struct, "members").map((member) => {
+      const name = stringField(member, "name");
+      const type = text.slice(child(member, "typeName").src);
+      return {
+        name,
+        type,
+        description: natspec.params[name] ?? text.trailingComment(member.src),
+        encrypted: ENCRYPTED_TYPE.test(type),
+      };
+    }),
+    tags: natspec.custom,
+  };
+}
 
-  return doc.title ? doc : null;
+function extractEnumDoc(definition: AstNode, text: SourceText): EnumDoc {
+  const natspec = nodeNatSpec(definition, text);
+  return {
+    name: stringField(definition, "name"),
+    description: natspec.notice,
+    details: natspec.details,
+    values: children(definition, "members").map((member) => stringField(member, "name")),
+    tags: natspec.custom,
+  };
 }
 
 /**
- * @notice Extract function documentation
- * @dev Parses NatSpec for a specific function
+ * @notice Extract the documentation of an event, with userdoc filling in a missing notice
  */
-function extractFunctionDoc(content: string, functionName: string): FunctionDoc | null {
-  // Find the function and its preceding comments
-  const funcRegex = new RegExp(`\\/\\*\\*[\\s\\S]*?\\*\\/[\\s\\S]*?function\\s+${functionName}`, "m");
-  const match = content.match(funcRegex);
-
-  if (!match) return null;
-
-  const commentBlock = match[0];
-
-  const doc: FunctionDoc = {
-    name: functionName,
-    description: "",
-    params: [],
-    returns: "",
-    examples: [],
-    tags: {},
+function extractEventDoc(event: AstNode, text: SourceText, userdoc: UserDoc): EventDoc {
+  const natspec = nodeNatSpec(event, text);
+  const name = stringField(event, "name");
+  const params = children(child(event, "parameters"), "parameters");
+  const signature = `${name}(${params.map((param) => text.slice(child(param, "typeName").src)).join(",")})`;
+  return {
+    name,
+    signature,
+    declaration: `event ${name}(${params.map((param) => text.slice(param.src)).join(", ")})${
+      event.anonymous ? " anonymous" : ""
+    }`,
+    description: natspec.notice || userdoc.events?.[signature]?.notice || "",
+    details: natspec.details,
+    params: params.map((param) => parameterDoc(param, natspec, text)),
+    tags: natspec.custom,
   };
+}
 
-  // Extract @notice
-  const noticeMatch = commentBlock.match(/@notice\s+(.+)/);
-  if (noticeMatch) {
-    doc.description = noticeMatch[1].trim();
-  }
+function extractModifierDoc(modifier: AstNode, text: SourceText): ModifierDoc {
+  const natspec = nodeNatSpec(modifier, text);
+  const name = stringField(modifier, "name");
+  const params = children(child(modifier, "parameters"), "parameters");
+  return {
+    name,
+    declaration: `modifier ${name}(${params.map((param) => text.slice(param.src)).join(", ")})`,
+    description: natspec.notice,
+    details: natspec.details,
+    params: params.map((param) => parameterDoc(param, natspec, text)),
+    tags: natspec.custom,
+  };
+}
 
-  // Extract @param tags
-  const paramMatches = commentBlock.matchAll(/@param\s+(\w+)\s+(.+)/g);
-  for (const match of paramMatches) {
-    doc.params.push({
-      name: match[1],
-      type: "",
-      description: match[2].trim(),
-    });
-  }
+/**
+ * @notice NatSpec of a node: its AST documentation, or the doc comment right above it
+ * @dev solc leaves the documentation of some nodes, such as structs and enums, out of the AST
+ */
+function nodeNatSpec(node: AstNode, text: SourceText): NatSpec {
+  const structured = optionalChild(node, "documentation");
+  const documentation = typeof node.documentation === "string" ? node.documentation : structured?.text;
+  return parseNatSpec(typeof documentation === "string" ? documentation : text.docCommentBefore(node.src));
+}
 
-  // Extract @return tag
-  const returnMatch = commentBlock.match(/@return\s+(.+)/);
-  if (returnMatch) {
-    doc.returns = returnMatch[1].trim();
-  }
+/**
+ * @notice Documentation of an event or modifier parameter, described by the @param tags of its declaration
+ */
+function parameterDoc(param: AstNode, natspec: NatSpec, text: SourceText): ParamDoc {
+  const name = stringField(param, "name");
+  return { name, type: parameterType(param, text), description: natspec.params[name] ?? "" };
+}
+
+/**
+ * @notice Events a function emits, directly or through the internal functions it calls
+ * @param definitions Functions of the contract by AST id
+ */
+function emittedEvents(fn: AstNode, definitions: Map<number, AstNode>, visited = new Set<number>()): string[] {
+  visited.add(fn.id);
+  const events: string[] = [];
+  walk(fn, (node) => {
+    if (node.nodeType === "EmitStatement") {
+      const callee = child(child(node, "eventCall"), "expression");
+      events.push(stringField(callee, "memberName") || stringField(callee, "name"));
+    } else if (node.nodeType === "FunctionCall" && child(node, "expression").nodeType === "Identifier") {
+      const callee = referencedDeclaration(child(node, "expression"), definitions);
+      if (callee && !visited.has(callee.id)) {
+        events.push(...emittedEvents(callee, definitions, visited));
+      }
+    }
+  });
+  return [...new Set(events)];
+}
+
+/**
+ * @notice Type of a parameter as written, with its data location
+ */
+function parameterType(param: AstNode, text: SourceText): string {
+  const type = text.slice(child(param, "typeName").src);
+  return param.storageLocation === "default" ? type : `${type} ${param.storageLocation}`;
+}
 
-  // Extract @custom tags
-  const customMatches = commentBlock.matchAll(/@custom:(\w+)\s+(.+)/g);
-  for (const match of customMatches) {
-    doc.tags[match[1]] = match[2].trim();
+/**
+ * @notice Description of an @return tag, without the return variable name it starts with
+ */
+function returnDescription(tag: string | undefined, name: string): string {
+  if (!tag) {
+    return "";
   }
+  return name && tag.startsWith(`${name} `) ? tag.slice(name.length + 1).trim() : tag;
+}
 
-  return doc;
+/**
+ * @notice Solidity declaration of a function, one parameter per line if it gets long
+ */
+function renderDeclaration(fn: AstNode, text: SourceText): string {
+  const head = fn.kind === "function" ? `function ${stringField(fn, "name")}` : stringField(fn, "kind");
+  const params = children(child(fn, "parameters"), "parameters").map((param) => text.slice(param.src));
+  const returns = children(child(fn, "returnParameters"), "parameters").map((param) => text.slice(param.src));
+  const overrides = optionalChild(fn, "overrides");
+
+  const attributes = [
+    // Constructors are public by definition, no need to say so
+    fn.kind === "constructor" ? "" : stringField(fn, "visibility"),
+    fn.stateMutability === "nonpayable" ? "" : stringField(fn, "stateMutability"),
+    fn.virtual ? "virtual" : "",
+    overrides ? text.slice(overrides.src) : "",
+    ...children(fn, "modifiers").map((modifier) => text.slice(modifier.src)),
+    returns.length > 0 ? `returns (${returns.join(", ")})` : "",
+  ]
+    .filter(Boolean)
+    .map((attribute) => ` ${attribute}`)
+    .join("");
+
+  const declaration = `${head}(${params.join(", ")})${attributes}`;
+  if (declaration.length <= 100 || params.length === 0) {
+    return declaration;
+  }
+  return `${head}(\n${params.map((param) => `    ${param}`).join(",\n")}\n)${attributes}`;
 }
 
 /**
  * @notice Parse TypeScript test files
- * @dev Extracts TSDoc comments from test files
+ * @dev Reads the describe/it blocks of every *.test.ts and *.spec.ts file in test/
  */
-function parseTests(): any[] {
+function parseTests(): TestSuite[] {
   const testPath = path.join(process.cwd(), "test");
-  const testDocs: any[] = [];
+  const testSuites: TestSuite[] = [];
 
   if (!fs.existsSync(testPath)) {
     console.warn("⚠ Test directory not found");
-    return testDocs;
+    return testSuites;
   }
 
-  const files = fs.readdirSync(testPath).filter((f) => f.endsWith(".test.ts") || f.endsWith(".spec.ts"));
+  const files = fs
+    .readdirSync(testPath)
+    .filter((f) => f.endsWith(".test.ts") || f.endsWith(".spec.ts"))
+    .sort();
 
   files.forEach((file) => {
-    const filePath = path.join(testPath, file);
-    const content = fs.readFileSync(filePath, "utf-8");
+    const content = fs.readFileSync(path.join(testPath, file), "utf-8");
+    const suites = parseTestFile(`test/${file}`, content);
+    const tests = suites.reduce((count, suite) => count + suite.tests.length, 0);
 
-    console.log(`   ✓ Parsed ${file}`);
-    testDocs.push({ file, content });
+    console.log(`   ✓ Parsed ${file} (${suites.length} suites, ${tests} tests)`);
+    testSuites.push(...suites);
   });
 
-  return testDocs;
+  return testSuites;
 }
 
 /**
@@ -241,11 +496,17 @@ function parseTests(): any[] {
  */
 function generateContractDocs(contractDocs: ContractDoc[], docsPath: string): void {
   contractDocs.forEach((doc) => {
-    const filename = `${doc.title.replace(/\s+/g, "-").toLowerCase()}.md`;
+    const filename = contractDocFilename(doc);
     const filepath = path.join(docsPath, filename);
 
     let markdown = `# ${doc.title}\n\n`;
-    markdown += `${doc.description}\n\n`;
+    if (doc.description) {
+      markdown += `${markdownText(doc.description)}\n\n`;
+    }
+    if (doc.details) {
+      markdown += `${markdownText(doc.details)}\n\n`;
+    }
+    markdown += `**Source:** \`${doc.source}\`\n\n`;
 
     if (doc.concepts.length > 0) {
       markdown += `## Key Concepts\n\n`;
@@ -256,34 +517,56 @@ function generateContractDocs(contractDocs: ContractDoc[], docsPath: string): vo
       markdown += `\n`;
     }
 
-    if (doc.functions.length > 0) {
+    if (doc.tags.length > 0) {
+      markdown += renderTags(doc.tags);
+    }
+
+    if (doc.structs.length > 0) {
+      markdown += `## Structs\n\n`;
+      if (doc.structs.some((struct) => struct.fields.some((field) => field.encrypted))) {
+        markdown += `Fields marked 🔒 are encrypted: the contract stores an FHE handle, which only accounts granted access with \`FHE.allow()\` can decrypt.\n\n`;
+      }
+      doc.structs.forEach((struct) => {
+        markdown += renderStruct(struct);
+      });
+    }
+
+    if (doc.enums.length > 0) {
+      markdown += `## Enums\n\n`;
+      doc.enums.forEach((definition) => {
+        markdown += renderEnum(definition);
+      });
+    }
+
+    const external = doc.functions.filter((func) => func.visibility === "public" || func.visibility === "external");
+    const internal = doc.functions.filter((func) => !external.includes(func));
+
+    if (external.length > 0) {
       markdown += `## Functions\n\n`;
+      external.forEach((func) => {
+        markdown += renderFunction(func, doc);
+      });
+    }
+
+    if (internal.length > 0) {
+      markdown += `## Internal Functions\n\n`;
+      internal.forEach((func) => {
+        markdown += renderFunction(func, doc);
+      });
+    }
 
-      doc.functions.forEach((func) => {
-        markdown += `### ${func.name}\n\n`;
-        markdown += `${func.description}\n\n`;
-
-        if (func.params.length > 0) {
-          markdown += `**Parameters:**\n\n`;
-          func.params.forEach((param) => {
-            markdown += `- \`${param.name}\`: ${param.description}\n`;
-          });
-          markdown += `\n`;
-        }
-
-        if (func.returns) {
-          markdown += `**Returns:** ${func.returns}\n\n`;
-        }
-
-        if (Object.keys(func.tags).length > 0) {
-          markdown += `**Tags:**\n\n`;
-          Object.entries(func.tags).forEach(([key, value]) => {
-            markdown += `- **${key}**: ${value}\n`;
-          });
-          markdown += `\n`;
-        }
-
-        markdown += `---\n\n`;
+    if (doc.modifiers.length > 0) {
+      markdown += `## Modifiers\n\n`;
+      doc.modifiers.forEach((modifier) => {
+        markdown += renderMember(modifier.name, modifier.declaration, modifier);
+      });
+    }
+
+    if (doc.events.length > 0) {
+      markdown += `## Events\n\n`;
+      doc.events.forEach((event) => {
+        const overloaded = doc.events.filter((other) => other.name === event.name).length > 1;
+        markdown += renderMember(overloaded ? event.signature : event.name, event.declaration, event);
       });
     }
 
@@ -292,13 +575,194 @@ function generateContractDocs(contractDocs: ContractDoc[], docsPath: string): vo
   });
 }
 
+/**
+ * @notice Markdown section of one function
+ * @dev Overloaded functions are headed by their signature, others by their name.
+ *      Modifiers and events defined in the contract link to their sections.
+ */
+function renderFunction(func: FunctionDoc, doc: ContractDoc): string {
+  const overloaded = doc.functions.filter((other) => other.name === func.name).length > 1;
+
+  let markdown = `### ${overloaded ? func.signature : func.name}\n\n`;
+  markdown += `\`\`\`solidity\n${func.declaration}\n\`\`\`\n\n`;
+  markdown += renderNotes(func);
+
+  if (func.modifiers.length > 0) {
+    const modifiers = doc.modifiers.map((modifier) => modifier.name);
+    markdown += `**Modifiers:** ${func.modifiers.map((name) => crossLink(name, modifiers)).join(", ")}\n\n`;
+  }
+
+  if (func.params.length > 0) {
+    markdown += `**Parameters:**\n\n`;
+    func.params.forEach((param) => {
+      markdown += `- ${renderParam(param)}\n`;
+    });
+    markdown += `\n`;
+  }
+
+  if (func.returns.length > 0) {
+    markdown += `**Returns:**\n\n`;
+    func.returns.forEach((param) => {
+      markdown += `- ${renderParam(param)}\n`;
+    });
+    markdown += `\n`;
+  }
+
+  if (func.events.length > 0) {
+    const events = doc.events.map((event) => event.name);
+    markdown += `**Emits:** ${func.events.map((name) => crossLink(name, events)).join(", ")}\n\n`;
+  }
+
+  if (func.tags.length > 0) {
+    markdown += renderTags(func.tags);
+  }
+
+  markdown += `---\n\n`;
+  return markdown;
+}
+
+/**
+ * @notice Markdown section of a struct, with a table of its fields
+ */
+function renderStruct(struct: StructDoc): string {
+  let markdown = `### ${struct.name}\n\n`;
+  markdown += renderNotes(struct);
+
+  markdown += `| Field | Type | Description |\n`;
+  markdown += `|-------|------|-------------|\n`;
+  struct.fields.forEach((field) => {
+    const type = field.encrypted ? `🔒 \`${field.type}\`` : `\`${field.type}\``;
+    const description = markdownText(field.description).replace(/\n+/g, " ").replace(/\|/g, "\\|");
+    markdown += `| \`${field.name}\` | ${type} | ${description} |\n`;
+  });
+  markdown += `\n`;
+
+  if (struct.tags.length > 0) {
+    markdown += renderTags(struct.tags);
+  }
+  return markdown;
+}
+
+function renderEnum(definition: EnumDoc): string {
+  let markdown = `### ${definition.name}\n\n`;
+  markdown += renderNotes(definition);
+  markdown += `Values: ${definition.values.map((value, i) => `\`${value}\` (${i})`).join(", ")}\n\n`;
+
+  if (definition.tags.length > 0) {
+    markdown += renderTags(definition.tags);
+  }
+  return markdown;
+}
+
+/**
+ * @notice Markdown section of a modifier or an event
+ */
+function renderMember(heading: string, declaration: string, member: ModifierDoc | EventDoc): string {
+  let markdown = `### ${heading}\n\n`;
+  markdown += `\`\`\`solidity\n${declaration}\n\`\`\`\n\n`;
+  markdown += renderNotes(member);
+
+  if (member.params.length > 0) {
+    markdown += `**Parameters:**\n\n`;
+    member.params.forEach((param) => {
+      markdown += `- ${renderParam(param)}\n`;
+    });
+    markdown += `\n`;
+  }
+
+  if (member.tags.length > 0) {
+    markdown += renderTags(member.tags);
+  }
+  return markdown;
+}
+
+function renderNotes(member: { description: string; details: string }): string {
+  let markdown = "";
+  if (member.description) {
+    markdown += `${markdownText(member.description)}\n\n`;
+  }
+  if (member.details) {
+    markdown += `${markdownText(member.details)}\n\n`;
+  }
+  return markdown;
+}
+
+/**
+ * @notice Link to the section of a modifier or event defined in the contract, plain code otherwise
+ * @dev Section anchors are the lowercased headings
+ */
+function crossLink(name: string, defined: string[]): string {
+  return defined.includes(name) ? `[\`${name}\`](#${name.toLowerCase()})` : `\`${name}\``;
+}
+
+function renderParam(param: ParamDoc): string {
+  const type = ENCRYPTED_TYPE.test(param.type) ? `🔒 \`${param.type}\`` : `\`${param.type}\``;
+  const label = param.name ? `\`${param.name}\` (${type})` : type;
+  return param.description ? `${label}: ${markdownText(param.description).replace(/\n+/g, " ")}` : label;
+}
+
+function renderTags(tags: NatSpecTag[]): string {
+  let markdown = `**Tags:**\n\n`;
+  tags.forEach((tag) => {
+    // Lists inside a tag become nested lists
+    markdown += `- **${tag.name.replace(/^custom:/, "")}**: ${markdownText(tag.text).replace(/\n+/g, "\n  ")}\n`;
+  });
+  markdown += `\n`;
+  return markdown;
+}
+
+/**
+ * @notice Turn NatSpec text into Markdown
+ * @dev NatSpec wraps lines at will: wrapped lines are joined, while lines starting
+ *      with "-" or "1." are list items, as in the @dev blocks of the contracts.
+ *      Wrapped list items are indented deeper than their marker; a line back at
+ *      the marker's indentation starts a new paragraph after the list
+ */
+function markdownText(text: string): string {
+  const lines: string[] = [];
+  // Indentation of the current list's markers, undefined outside a list
+  let listIndent: number | undefined;
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    const indent = rawLine.length - rawLine.trimStart().length;
+    const last = lines.length > 0 ? lines[lines.length - 1] : "";
+    if (!line) {
+      listIndent = undefined;
+      lines.push("");
+    } else if (/^(-|\*|\d+\.)\s/.test(line)) {
+      if (listIndent === undefined && last) {
+        lines.push("");
+      }
+      lines.push(line);
+      listIndent = indent;
+    } else if (listIndent !== undefined && indent <= listIndent) {
+      listIndent = undefined;
+      lines.push("", line);
+    } else if (last) {
+      lines[lines.length - 1] = `${last} ${line}`;
+    } else {
+      lines.push(line);
+    }
+  }
+  return lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/**
+ * @notice File name of a contract's documentation page
+ */
+function contractDocFilename(doc: ContractDoc): string {
+  return `${doc.name.toLowerCase()}.md`;
+}
+
 /**
  * @notice Generate test documentation files
- * @dev Creates documentation from test files
+ * @dev Writes the testing guide with an overview of the chapters, and one page
+ *      per @chapter with the code of every test in it
  */
-function generateTestDocs(testDocs: any[], docsPath: string): void {
+function generateTestDocs(testSuites: TestSuite[], docsPath: string): void {
   const filename = "testing-guide.md";
   const filepath = path.join(docsPath, filename);
+  const chapters = groupByChapter(testSuites);
 
   let markdown = `# Testing Guide\n\n`;
   markdown += `This guide covers the test suite and testing patterns used in this FHEVM example.\n\n`;
@@ -310,40 +774,77 @@ function generateTestDocs(testDocs: any[], docsPath: string): void {
   markdown += `npm run test:coverage\n`;
   markdown += `\`\`\`\n\n`;
 
-  markdown += `## Test Structure\n\n`;
-  markdown += `The test suite is organized into logical sections:\n\n`;
-  markdown += `- **Deployment Tests**: Verify initial contract state\n`;
-  markdown += `- **Registration Tests**: Test user registration with encrypted data\n`;
-  markdown += `- **Session Management Tests**: Verify trading session lifecycle\n`;
-  markdown += `- **Order Placement Tests**: Test private order creation\n`;
-  markdown += `- **Execution Tests**: Verify order processing\n`;
-  markdown += `- **Edge Cases**: Test error handling and boundary conditions\n\n`;
-
-  markdown += `## Key Testing Patterns\n\n`;
-  markdown += `### Testing Encrypted Data\n\n`;
-  markdown += `\`\`\`typescript\n`;
-  markdown += `// Encrypted values are created but not directly readable in tests\n`;
-  markdown += `await contract.registerTrader(initialBalance);\n`;
-  markdown += `// We verify state changes and events, not encrypted values\n`;
-  markdown += `\`\`\`\n\n`;
-
-  markdown += `### Testing Access Control\n\n`;
-  markdown += `\`\`\`typescript\n`;
-  markdown += `// Verify that unauthorized access is prevented\n`;
-  markdown += `await expect(\n`;
-  markdown += `  contract.connect(unauthorizedUser).privilegedFunction()\n`;
-  markdown += `).to.be.revertedWith("Not authorized");\n`;
-  markdown += `\`\`\`\n\n`;
+  markdown += `## Chapters\n\n`;
+  markdown += `Each test suite is tagged with the FHEVM concept it demonstrates:\n\n`;
+  markdown += `| Chapter | Suites | Tests |\n`;
+  markdown += `|---------|--------|-------|\n`;
+  chapters.forEach((suites, chapter) => {
+    const tests = suites.reduce((count, suite) => count + suite.tests.length, 0);
+    markdown += `| [${chapterTitle(chapter)}](./${chapterDocFilename(chapter)}) | ${suites.length} | ${tests} |\n`;
+  });
+  markdown += `\n`;
 
-  markdown += `### Testing Time-Dependent Logic\n\n`;
+  markdown += `## Tagging Tests\n\n`;
+  markdown += `Put \`@chapter\` and \`@description\` in the doc comment of a \`describe\` block. `;
+  markdown += `Nested suites without \`@chapter\` belong to the chapter of the suite around them.\n\n`;
   markdown += `\`\`\`typescript\n`;
-  markdown += `// Use Hardhat network helpers to manipulate time\n`;
-  markdown += `await time.increase(SESSION_DURATION + 1);\n`;
-  markdown += `await contract.executeOrders();\n`;
-  markdown += `\`\`\`\n\n`;
+  markdown += `/**\n`;
+  markdown += ` * @chapter access-control\n`;
+  markdown += ` * @description Test access control enforcement\n`;
+  markdown += ` */\n`;
+  markdown += `describe("Access Control", function () {\n`;
+  markdown += `  it("Should enforce permissions", async function () {\n`;
+  markdown += `    // Test implementation\n`;
+  markdown += `  });\n`;
+  markdown += `});\n`;
+  markdown += `\`\`\`\n`;
 
   fs.writeFileSync(filepath, markdown);
   console.log(`   ✓ Generated ${filename}`);
+
+  chapters.forEach((suites, chapter) => {
+    const chapterFilename = chapterDocFilename(chapter);
+    fs.writeFileSync(path.join(docsPath, chapterFilename), renderChapter(chapter, suites));
+    console.log(`   ✓ Generated ${chapterFilename}`);
+  });
+}
+
+function renderChapter(chapter: string, suites: TestSuite[]): string {
+  let markdown = `# Tests: ${chapterTitle(chapter)}\n\n`;
+
+  suites.forEach((suite) => {
+    markdown += `## ${[...suite.parents, suite.name].join(" › ")}\n\n`;
+    if (suite.description) {
+      markdown += `${suite.description}\n\n`;
+    }
+    markdown += `**Source:** \`${suite.file}:${suite.line}\`\n\n`;
+
+    suite.tests.forEach((test) => {
+      markdown += `### ${test.name}\n\n`;
+      markdown += `\`\`\`typescript\n${test.code}\n\`\`\`\n\n`;
+    });
+  });
+  return markdown;
+}
+
+/**
+ * @notice Heading of a chapter, e.g. "Access Control" for access-control
+ */
+function chapterTitle(chapter: string): string {
+  if (!chapter) {
+    return "Other";
+  }
+  return chapter
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+/**
+ * @notice File name of a chapter's test documentation page
+ */
+function chapterDocFilename(chapter: string): string {
+  return `testing-${chapter || "other"}.md`;
 }
 
 /**
@@ -364,8 +865,7 @@ function generateIndexFile(contractDocs: ContractDoc[], docsPath: string): void
   markdown += `- [Concepts Guide](./concepts-guide.md)\n`;
   markdown += `- [Testing Guide](./testing-guide.md)\n`;
   contractDocs.forEach((doc) => {
-    const filename = doc.title.replace(/\s+/g, "-").toLowerCase();
-    markdown += `- [${doc.title}](./${filename}.md)\n`;
+    markdown += `- [${doc.title}](./${contractDocFilename(doc)})\n`;
   });
   markdown += `\n`;
 
@@ -384,7 +884,7 @@ function generateIndexFile(contractDocs: ContractDoc[], docsPath: string): void
  * @notice Generate GitBook SUMMARY.md file
  * @dev Creates the table of contents for GitBook
  */
-function generateSummaryFile(contractDocs: ContractDoc[], testDocs: any[], docsPath: string): void {
+function generateSummaryFile(contractDocs: ContractDoc[], testSuites: TestSuite[], docsPath: string): void {
   const filepath = path.join(docsPath, "SUMMARY.md");
 
   let markdown = `# Summary\n\n`;
@@ -394,12 +894,14 @@ function generateSummaryFile(contractDocs: ContractDoc[], testDocs: any[], docsP
   markdown += `\n## Contracts\n\n`;
 
   contractDocs.forEach((doc) => {
-    const filename = doc.title.replace(/\s+/g, "-").toLowerCase();
-    markdown += `* [${doc.title}](${filename}.md)\n`;
+    markdown += `* [${doc.title}](${contractDocFilename(doc)})\n`;
   });
 
   markdown += `\n## Testing\n\n`;
   markdown += `* [Testing Guide](testing-guide.md)\n`;
+  [...groupByChapter(testSuites).keys()].forEach((chapter) => {
+    markdown += `  * [${chapterTitle(chapter)}](${chapterDocFilename(chapter)})\n`;
+  });
 
   fs.writeFileSync(filepath, markdown);
   console.log(`   ✓ Generated SUMMARY.md`);
@@ -0,0 +1,82 @@
+/**
+ * @title NatSpec
+ * @notice Parses the NatSpec comments the compiler attaches to AST nodes
+ * @dev solc keeps the text of each doc comment in the node's `documentation`,
+ *      with the comment markers stripped. Unlike devdoc/userdoc, this covers
+ *      private functions, structs and modifiers too, and keeps repeated tags
+ *      such as several @custom:category lines.
+ *      Lines without a tag continue the tag above, keeping their indentation so
+ *      wrapped list items stay apart from the text after the list; text before
+ *      any tag is the notice.
+ */
+
+export interface NatSpecTag {
+  /** Tag name without "@", e.g. "custom:category" */
+  name: string;
+  text: string;
+}
+
+export interface NatSpec {
+  title: string;
+  notice: string;
+  details: string;
+  /** @param descriptions by parameter name */
+  params: Record<string, string>;
+  /** @return descriptions in order, including a leading return name if the comment has one */
+  returns: string[];
+  /** @custom:* tags in source order */
+  custom: NatSpecTag[];
+  /** Set by @inheritdoc: the documentation comes from the named base contract */
+  inheritdoc: string;
+}
+
+const TAG = /^@(\w+(?::[\w-]+)?)\s*([\s\S]*)$/;
+
+/**
+ * @notice Parse the text of a StructuredDocumentation node
+ * @param text Documentation text, or undefined for undocumented nodes
+ */
+export function parseNatSpec(text: string | undefined): NatSpec {
+  const natspec: NatSpec = { title: "", notice: "", details: "", params: {}, returns: [], custom: [], inheritdoc: "" };
+
+  const tags: NatSpecTag[] = [];
+  for (const rawLine of (text ?? "").split(/\r?\n/)) {
+    // solc strips the comment markers, but keep to text that still has them
+    const content = rawLine.replace(/^\s*\*(?!\*)\s?/, "").trimEnd();
+    const line = content.trim();
+    const match = TAG.exec(line);
+    if (match) {
+      tags.push({ name: match[1], text: match[2] });
+    } else if (tags.length > 0) {
+      tags[tags.length - 1].text += `\n${content}`;
+    } else if (line) {
+      tags.push({ name: "notice", text: line });
+    }
+  }
+
+  for (const { name, text: rawText } of tags) {
+    const tagText = rawText.trim();
+    if (name === "param") {
+      const [, param, description] = /^(\w+)\s*([\s\S]*)$/.exec(tagText) ?? [];
+      if (param) {
+        natspec.params[param] = description;
+      }
+    } else if (name === "return") {
+      natspec.returns.push(tagText);
+    } else if (name.startsWith("custom:")) {
+      natspec.custom.push({ name, text: tagText });
+    } else if (name === "title" || name === "notice" || name === "inheritdoc") {
+      natspec[name] = natspec[name] ? `${natspec[name]}\n${tagText}` : tagText;
+    } else if (name === "dev") {
+      natspec.details = natspec.details ? `${natspec.details}\n${tagText}` : tagText;
+    }
+  }
+  return natspec;
+}
+
+/**
+ * @notice Values of a custom tag, e.g. every @custom:category of a contract
+ */
+export function customTagValues(natspec: NatSpec, tag: string): string[] {
+  return natspec.custom.filter((custom) => custom.name === `custom:${tag}`).map((custom) => custom.text);
+}
@@ -0,0 +1,327 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * @title Solc AST
+ * @notice Loads the compiler output of the last `hardhat compile` for the tools
+ * @dev Hardhat keeps the full solc input and output of every compilation in
+ *      artifacts/build-info/*.json. Each source comes with its content and its
+ *      compact JSON AST, so the tools never have to parse Solidity themselves,
+ *      and with the compiler output of its contracts (devdoc, userdoc, method
+ *      identifiers). When a source appears in several build-info files, the
+ *      newest one wins. AST ids are only unique within one build-info file.
+ *
+ * @custom:usage const sources = loadBuildSources(); walk(sources.get("contracts/X.sol")!.ast, visit);
+ */
+
+/**
+ * A node of the solc compact JSON AST; its other fields depend on nodeType, read them
+ * through child(), children() and stringField()
+ */
+export interface AstNode {
+  id: number;
+  nodeType: string;
+  src: string;
+  /** Type of an expression or declaration, e.g. "euint64" or "struct X storage ref" */
+  typeDescriptions?: { typeIdentifier?: string | null; typeString?: string | null };
+  [field: string]: unknown;
+}
+
+export interface BuildSource {
+  /** Source unit name, e.g. "contracts/PrivateForexTrading.sol" */
+  path: string;
+  /** Build-info file the source was read from; its AST ids refer to nodes of the same build */
+  build: string;
+  content: string;
+  ast: AstNode;
+  /** Compiler output of the contracts defined in the source, by contract name */
+  contracts: Record<string, CompiledContract>;
+}
+
+/**
+ * Compiler output of one contract; hardhat selects metadata rather than devdoc/userdoc
+ */
+export interface CompiledContract {
+  metadata?: string;
+  devdoc?: DevDoc;
+  userdoc?: UserDoc;
+  evm?: {
+    /** Function selectors by canonical signature, e.g. "deposit(uint64)": "b6b55f25" */
+    methodIdentifiers?: Record<string, string>;
+  };
+}
+
+/**
+ * Developer documentation of a contract: @title, @dev, @param, @return and @custom tags
+ */
+export interface DevDoc {
+  title?: string;
+  details?: string;
+  methods?: Record<string, DevDocEntry>;
+  events?: Record<string, DevDocEntry>;
+  stateVariables?: Record<string, DevDocEntry>;
+  [custom: `custom:${string}`]: string;
+}
+
+export interface DevDocEntry {
+  details?: string;
+  params?: Record<string, string>;
+  /** Return descriptions by return variable name, "_0", "_1"... for unnamed ones */
+  returns?: Record<string, string>;
+  [custom: `custom:${string}`]: string;
+}
+
+/**
+ * User documentation of a contract: the @notice tags
+ */
+export interface UserDoc {
+  notice?: string;
+  methods?: Record<string, { notice?: string }>;
+  events?: Record<string, { notice?: string }>;
+}
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * @notice Read every source of the build-info files under the artifacts directory
+ * @param artifactsPath Hardhat artifacts directory
+ * @return Sources keyed by source unit name
+ * @throws Error if there are no build-info files, i.e. nothing was compiled yet
+ */
+export function loadBuildSources(artifactsPath = path.join(process.cwd(), "artifacts")): Map<string, BuildSource> {
+  const buildInfoPath = path.join(artifactsPath, "build-info");
+  const files = fs.existsSync(buildInfoPath)
+    ? fs
+        .readdirSync(buildInfoPath)
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => path.join(buildInfoPath, file))
+    : [];
+  if (files.length === 0) {
+    throw new Error(`No build info in ${buildInfoPath}, run "npx hardhat compile" first`);
+  }
+
+  // Oldest first, so the newest compilation of a source overrides older ones
+  files.sort((a, b) => fs.statSync(a).mtimeMs - fs.statSync(b).mtimeMs);
+
+  const sources = new Map<string, BuildSource>();
+  for (const file of files) {
+    const buildInfo = JSON.parse(fs.readFileSync(file, "utf8"));
+    for (const [sourcePath, output] of Object.entries<{ ast: AstNode }>(buildInfo.output.sources ?? {})) {
+      sources.set(sourcePath, {
+        path: sourcePath,
+        build: path.basename(file, ".json"),
+        content: buildInfo.input.sources[sourcePath]?.content ?? "",
+        ast: output.ast,
+        contracts: buildInfo.output.contracts?.[sourcePath] ?? {},
+      });
+    }
+  }
+  return sources;
+}
+
+/**
+ * @notice devdoc and userdoc of a compiled contract, read from its metadata if not selected directly
+ */
+export function compilerDocs(contract: CompiledContract | undefined): { devdoc: DevDoc; userdoc: UserDoc } {
+  if (contract?.devdoc && contract.userdoc) {
+    return { devdoc: contract.devdoc, userdoc: contract.userdoc };
+  }
+  const output = contract?.metadata ? JSON.parse(contract.metadata).output : undefined;
+  return { devdoc: output?.devdoc ?? {}, userdoc: output?.userdoc ?? {} };
+}
+
+/**
+ * @notice Visit a node and all nodes below it, depth first in source order
+ * @dev Returning false from the visitor skips the children of that node.
+ *      A missing node, such as the body of an unimplemented function, is skipped
+ */
+export function walk(node: AstNode | undefined, visit: (node: AstNode) => boolean | void): void {
+  if (!node || visit(node) === false) {
+    return;
+  }
+  for (const value of Object.values(node)) {
+    for (const child of Array.isArray(value) ? value : [value]) {
+      if (isAstNode(child)) {
+        walk(child, visit);
+      }
+    }
+  }
+}
+
+/**
+ * @notice All nodes of a type below a node, the node itself included
+ */
+export function findAll(node: AstNode, nodeType: string): AstNode[] {
+  const found: AstNode[] = [];
+  walk(node, (child) => {
+    if (child.nodeType === nodeType) {
+      found.push(child);
+    }
+  });
+  return found;
+}
+
+/**
+ * @notice Index every node of the sources by its AST id
+ * @dev Identifiers and member accesses refer to their declaration by
+ *      referencedDeclaration, which can point into another source.
+ *      Pass sources of one build only: ids of different builds collide
+ */
+export function indexNodes(sources: Iterable<BuildSource>): Map<number, AstNode> {
+  const nodes = new Map<number, AstNode>();
+  for (const source of sources) {
+    walk(source.ast, (node) => {
+      nodes.set(node.id, node);
+    });
+  }
+  return nodes;
+}
+
+/**
+ * @notice The node in a field that every node of its type has, e.g. the expression of a MemberAccess
+ * @throws Error if the field holds no node
+ */
+export function child(node: AstNode, field: string): AstNode {
+  const value = node[field];
+  if (!isAstNode(value)) {
+    throw new Error(`${node.nodeType} ${node.id} has no ${field} node`);
+  }
+  return value;
+}
+
+/**
+ * @notice The node in an optional field, e.g. the body of a function
+ */
+export function optionalChild(node: AstNode, field: string): AstNode | undefined {
+  const value = node[field];
+  return isAstNode(value) ? value : undefined;
+}
+
+/**
+ * @notice The nodes in a list field, e.g. the arguments of a FunctionCall; empty without a node or field
+ */
+export function children(node: AstNode | undefined, field: string): AstNode[] {
+  return nullableChildren(node, field).filter((value): value is AstNode => value !== null);
+}
+
+/**
+ * @notice The nodes in a list field with gaps, e.g. the components of (a, ) = f(), null where one is omitted
+ */
+export function nullableChildren(node: AstNode | undefined, field: string): (AstNode | null)[] {
+  const value = node?.[field];
+  return Array.isArray(value) ? value.map((item: unknown) => (isAstNode(item) ? item : null)) : [];
+}
+
+/**
+ * @notice A string field such as name, kind or visibility; empty if the node has none
+ */
+export function stringField(node: AstNode, field: string): string {
+  const value = node[field];
+  return typeof value === "string" ? value : "";
+}
+
+/**
+ * @notice The declaration an Identifier or MemberAccess refers to
+ * @param nodes Nodes by AST id, of the same build as the node
+ */
+export function referencedDeclaration(node: AstNode, nodes: Map<number, AstNode>): AstNode | undefined {
+  return typeof node.referencedDeclaration === "number" ? nodes.get(node.referencedDeclaration) : undefined;
+}
+
+function isAstNode(value: unknown): value is AstNode {
+  return typeof value === "object" && value !== null && typeof (value as AstNode).nodeType === "string";
+}
+
+/**
+ * @title Source Text
+ * @notice Maps AST source ranges back to the text and lines of a source
+ * @dev solc ranges ("start:length:sourceIndex") count UTF-8 bytes, not characters
+ */
+export class SourceText {
+  private readonly bytes: Buffer;
+  private readonly lineStarts: number[] = [0];
+
+  constructor(content: string) {
+    this.bytes = Buffer.from(content, "utf8");
+    for (let i = 0; i < this.bytes.length; i++) {
+      if (this.bytes[i] === 0x0a) {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  /**
+   * @notice Text of a source range
+   */
+  slice(src: string): string {
+    const [start, length] = src.split(":").map(Number);
+    return this.bytes.subarray(start, start + length).toString("utf8");
+  }
+
+  /**
+   * @notice 1-based line and column of the start of a source range
+   */
+  position(src: string): SourcePosition {
+    const start = Number(src.split(":")[0]);
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.lineStarts[middle] <= start) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    const column = this.bytes.subarray(this.lineStarts[low], start).toString("utf8").length;
+    return { line: low + 1, column: column + 1 };
+  }
+
+  /**
+   * @notice Text of the doc comment right before a source range
+   * @dev For nodes solc keeps no documentation for. Either a /** block or
+   *      consecutive /// lines, with nothing but whitespace up to the range.
+   */
+  docCommentBefore(src: string): string | undefined {
+    const start = Number(src.split(":")[0]);
+    const before = this.bytes.subarray(0, start).toString("utf8").trimEnd();
+
+    if (before.endsWith("*/")) {
+      const open = before.lastIndexOf("/*");
+      return before.startsWith("/**", open) ? before.slice(open + 3, -2) : undefined;
+    }
+
+    const lines: string[] = [];
+    for (const line of before.split("\n").reverse()) {
+      if (!line.trim().startsWith("///")) {
+        break;
+      }
+      lines.unshift(line.trim().slice(3));
+    }
+    return lines.length > 0 ? lines.join("\n") : undefined;
+  }
+
+  /**
+   * @notice Text of the // comment at the end of the line a source range ends on
+   */
+  trailingComment(src: string): string {
+    const [start, length] = src.split(":").map(Number);
+    const line = this.line(this.position(`${start + length}:0`).line);
+    const comment = line.indexOf("//");
+    return comment === -1 ? "" : line.slice(comment + 2).trim();
+  }
+
+  /**
+   * @notice Text of a 1-based line, without its line break
+   */
+  line(line: number): string {
+    if (line < 1 || line > this.lineStarts.length) {
+      return "";
+    }
+    const end = line < this.lineStarts.length ? this.lineStarts[line] : this.bytes.length;
+    return this.bytes.subarray(this.lineStarts[line - 1], end).toString("utf8").replace(/\r?\n$/, "");
+  }
+}
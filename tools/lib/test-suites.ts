@@ -0,0 +1,153 @@
+import * as ts from "typescript";
+
+/**
+ * @title Test Suites
+ * @notice Reads the describe/it blocks of mocha test files and their TSDoc tags
+ * @dev Parses each file with the TypeScript compiler API instead of scanning its
+ *      text, so tests declared inside loops or helpers are found too. A suite is
+ *      documented with the @chapter and @description tags of the doc comment
+ *      right above its describe() call; a suite without @chapter belongs to the
+ *      chapter of the suite around it.
+ *
+ * @custom:usage const suites = parseTestFile("test/X.test.ts", content); groupByChapter(suites);
+ */
+
+export interface TestSuite {
+  name: string;
+  /** Names of the enclosing suites, outermost first */
+  parents: string[];
+  /** Own @chapter, or the chapter of the nearest enclosing suite with one; "" if none */
+  chapter: string;
+  /** Own @description, with wrapped lines joined */
+  description: string;
+  file: string;
+  /** 1-based line of the describe() call */
+  line: number;
+  /** Tests directly inside the suite, not in nested suites */
+  tests: TestCase[];
+}
+
+export interface TestCase {
+  name: string;
+  /** 1-based line of the it() call */
+  line: number;
+  /** Body of the test function, dedented */
+  code: string;
+}
+
+/**
+ * @notice Every describe block of a test file, outer suites before the suites they contain
+ * @param file Path the suites are reported with, e.g. "test/PrivateForexTrading.test.ts"
+ * @param content Source text of the file
+ */
+export function parseTestFile(file: string, content: string): TestSuite[] {
+  const sourceFile = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const suites: TestSuite[] = [];
+
+  const visit = (node: ts.Node, parent: TestSuite | undefined): void => {
+    const call = mochaCall(node);
+    if (call?.kind === "describe") {
+      const suite: TestSuite = {
+        name: call.name,
+        parents: parent ? [...parent.parents, parent.name] : [],
+        chapter: docTag(node, "chapter") || (parent?.chapter ?? ""),
+        description: docTag(node, "description"),
+        file,
+        line: lineOf(node, sourceFile),
+        tests: [],
+      };
+      suites.push(suite);
+      if (call.body) {
+        ts.forEachChild(call.body, (child) => visit(child, suite));
+      }
+    } else if (call?.kind === "it") {
+      // Tests outside any describe() have no suite to document them under
+      parent?.tests.push({
+        name: call.name,
+        line: lineOf(node, sourceFile),
+        code: call.body ? functionCode(call.body, sourceFile) : "",
+      });
+    } else {
+      ts.forEachChild(node, (child) => visit(child, parent));
+    }
+  };
+
+  ts.forEachChild(sourceFile, (child) => visit(child, undefined));
+  return suites;
+}
+
+/**
+ * @notice Suites that contain tests, by chapter, chapters in alphabetical order
+ */
+export function groupByChapter(suites: TestSuite[]): Map<string, TestSuite[]> {
+  const chapters = new Map<string, TestSuite[]>();
+  for (const suite of suites) {
+    if (suite.tests.length > 0) {
+      chapters.set(suite.chapter, [...(chapters.get(suite.chapter) ?? []), suite]);
+    }
+  }
+  return new Map([...chapters].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+interface MochaCall {
+  kind: "describe" | "it";
+  name: string;
+  body?: ts.ConciseBody;
+}
+
+/**
+ * @notice The describe() or it() call of an expression statement, if it is one
+ */
+function mochaCall(node: ts.Node): MochaCall | undefined {
+  if (!ts.isExpressionStatement(node) || !ts.isCallExpression(node.expression)) {
+    return undefined;
+  }
+  const { expression: callee, arguments: args } = node.expression;
+  if (!ts.isIdentifier(callee) || (callee.text !== "describe" && callee.text !== "it") || args.length === 0) {
+    return undefined;
+  }
+
+  const [title, fn] = args;
+  return {
+    kind: callee.text === "describe" ? "describe" : "it",
+    name: ts.isStringLiteralLike(title) ? title.text : title.getText(),
+    body: fn && (ts.isFunctionExpression(fn) || ts.isArrowFunction(fn)) ? fn.body : undefined,
+  };
+}
+
+/**
+ * @notice Text of a TSDoc tag of the doc comment above a statement, "" if it has none
+ */
+function docTag(node: ts.Node, name: string): string {
+  const tag = ts.getJSDocTags(node).find((candidate) => candidate.tagName.text === name);
+  return (ts.getTextOfJSDocComment(tag?.comment) ?? "")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * @notice Statements of a function body without the braces, or an arrow function's expression
+ */
+function functionCode(body: ts.ConciseBody, sourceFile: ts.SourceFile): string {
+  if (!ts.isBlock(body)) {
+    return body.getText(sourceFile);
+  }
+
+  const lines = sourceFile.text.slice(body.getStart(sourceFile) + 1, body.end - 1).split(/\r?\n/);
+  while (lines.length > 0 && !lines[0].trim()) {
+    lines.shift();
+  }
+  while (lines.length > 0 && !lines[lines.length - 1].trim()) {
+    lines.pop();
+  }
+
+  const indents = lines.filter((line) => line.trim()).map((line) => line.length - line.trimStart().length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(indent).trimEnd()).join("\n");
+}
+
+function lineOf(node: ts.Node, sourceFile: ts.SourceFile): number {
+  return sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+}
@@ -0,0 +1,698 @@
+#!/usr/bin/env ts-node
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  AstNode,
+  BuildSource,
+  SourceText,
+  child,
+  children,
+  findAll,
+  indexNodes,
+  loadBuildSources,
+  nullableChildren,
+  optionalChild,
+  referencedDeclaration,
+  stringField,
+  walk,
+} from "./lib/solc-ast";
+
+/**
+ * @title FHE ACL Linter
+ * @notice Flags encrypted handles in the contracts that end up without the ACL permissions they need
+ * @dev Works on the solc AST of the last `hardhat compile` (artifacts/build-info).
+ *      Every FHE operation returns a new handle that only the current transaction
+ *      may use, so the contract has to grant access again each time it stores one:
+ *      - state-without-allow-this: an encrypted value is stored to state without
+ *        FHE.allowThis(), so the contract cannot use it in a later transaction
+ *      - returned-without-allow: a public function returns a stored handle that is
+ *        never granted with FHE.allow(), so nobody can decrypt it
+ *      - unchecked-sender-handle: a public function takes an encrypted handle as
+ *        argument without FHE.isSenderAllowed(), so callers can use handles of others
+ *      Grants are matched within the function that stores the value, including
+ *      grants made by the internal functions it passes the value to.
+ *      A `// fhe-acl-ignore <rule>` comment on the line of a finding, or the line
+ *      above, suppresses it.
+ *
+ * @custom:usage npm run lint:fhe -- [--json] [--out <file>] [contracts/File.sol ...]
+ * @custom:exit-code 0 without findings, 1 with findings, 2 if the contracts are not compiled
+ */
+
+export type Rule = "state-without-allow-this" | "returned-without-allow" | "unchecked-sender-handle";
+
+export type Severity = "error" | "warning";
+
+export const RULES: Record<Rule, { severity: Severity; description: string }> = {
+  "state-without-allow-this": {
+    severity: "error",
+    description: "Encrypted value stored to state without FHE.allowThis()",
+  },
+  "returned-without-allow": {
+    severity: "error",
+    description: "Handle returned to users but never granted with FHE.allow()",
+  },
+  "unchecked-sender-handle": {
+    severity: "warning",
+    description: "Encrypted handle argument used without FHE.isSenderAllowed()",
+  },
+};
+
+export interface Finding {
+  rule: Rule;
+  severity: Severity;
+  file: string;
+  line: number;
+  column: number;
+  contract: string;
+  function: string;
+  message: string;
+}
+
+export interface LintReport {
+  findings: Finding[];
+  summary: {
+    files: number;
+    contracts: number;
+    errors: number;
+    warnings: number;
+  };
+}
+
+/**
+ * Libraries whose allow* and isSenderAllowed calls manage the ACL
+ */
+const FHE_LIBRARIES = ["FHE", "TFHE"];
+
+const ENCRYPTED_TYPE = /^(euint\d+|ebool|eaddress)$/;
+
+const IGNORE_COMMENT = /fhe-acl-ignore(?:\s+([\w-]+))?/;
+
+/**
+ * An encrypted value written to state
+ */
+interface StoreSite {
+  node: AstNode;
+  /** "Struct.member" for struct fields, the variable name otherwise */
+  field: string;
+  /** Expression of the stored value, undefined when it comes from a multi-value call */
+  value?: AstNode;
+  /** Storage expression written, undefined inside struct constructors and pushes */
+  target?: AstNode;
+}
+
+/**
+ * ACL grants made by a function, as keys of the granted expressions
+ */
+interface Grants {
+  contract: Set<string>;
+  users: Set<string>;
+  senderChecked: Set<string>;
+}
+
+interface FunctionAnalysis {
+  fn: AstNode;
+  stores: StoreSite[];
+  grants: Grants;
+}
+
+/**
+ * @notice Lint the contracts of a set of compiled sources
+ * @param sources All sources of the compilation, libraries included
+ * @param files Source unit names to lint; defaults to everything under contracts/
+ * @return Findings sorted by file and line, with a summary
+ */
+export function lintSources(sources: Iterable<BuildSource>, files?: string[]): LintReport {
+  const all = [...sources];
+  // Incremental compiles leave several build-info files, and a reference only resolves within its own build
+  const builds = new Map<string, Map<number, AstNode>>();
+  const nodesOf = (build: string): Map<number, AstNode> => {
+    if (!builds.has(build)) {
+      builds.set(build, indexNodes(all.filter((source) => source.build === build)));
+    }
+    return builds.get(build)!;
+  };
+  const linted = all.filter((source) => (files ? files.includes(source.path) : source.path.startsWith("contracts/")));
+
+  const findings: Finding[] = [];
+  let contracts = 0;
+  for (const source of linted) {
+    const text = new SourceText(source.content);
+    for (const contract of findAll(source.ast, "ContractDefinition")) {
+      if (contract.contractKind !== "contract" && contract.contractKind !== "library") {
+        continue;
+      }
+      contracts++;
+      findings.push(
+        ...new ContractLinter(contract, nodesOf(source.build), text, source.path).lint().filter((finding) => !isIgnored(finding, text))
+      );
+    }
+  }
+
+  findings.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column);
+  return {
+    findings,
+    summary: {
+      files: linted.length,
+      contracts,
+      errors: findings.filter((finding) => finding.severity === "error").length,
+      warnings: findings.filter((finding) => finding.severity === "warning").length,
+    },
+  };
+}
+
+function isIgnored(finding: Finding, text: SourceText): boolean {
+  return [finding.line, finding.line - 1].some((line) => {
+    const match = IGNORE_COMMENT.exec(text.line(line));
+    return match !== null && (match[1] === undefined || match[1] === finding.rule);
+  });
+}
+
+/**
+ * @title Contract Linter
+ * @notice Runs the ACL rules over the functions of one contract
+ */
+class ContractLinter {
+  private readonly analyses = new Map<number, FunctionAnalysis>();
+  private readonly summaries = new Map<number, Grants>();
+
+  constructor(
+    private readonly contract: AstNode,
+    private readonly nodes: Map<number, AstNode>,
+    private readonly text: SourceText,
+    private readonly file: string
+  ) {}
+
+  lint(): Finding[] {
+    for (const fn of this.functions()) {
+      this.analyses.set(fn.id, this.analyze(fn));
+    }
+    return [...this.checkStateStores(), ...this.checkReturnedHandles(), ...this.checkSenderHandles()];
+  }
+
+  // ============ Rules ============
+
+  /**
+   * @notice state-without-allow-this: every new handle stored needs FHE.allowThis()
+   */
+  private checkStateStores(): Finding[] {
+    const findings: Finding[] = [];
+    for (const { fn, stores, grants } of this.analyses.values()) {
+      for (const store of stores) {
+        if (store.value && this.isStoredHandle(store.value, fn)) {
+          continue;
+        }
+        if (!this.isGranted(store, grants.contract)) {
+          findings.push(
+            this.finding(
+              "state-without-allow-this",
+              store.node,
+              fn,
+              `Encrypted value stored to ${store.field} without FHE.allowThis(); the contract cannot use it in later transactions`
+            )
+          );
+        }
+      }
+    }
+    return findings;
+  }
+
+  /**
+   * @notice returned-without-allow: a handle returned by a public function must be granted to someone
+   * @dev A field counts as granted if the contract ever calls FHE.allow() on it, or
+   *      if every write to it grants the value written. Otherwise the writes that
+   *      do not are reported.
+   */
+  private checkReturnedHandles(): Finding[] {
+    const returned = new Map<string, string>();
+    const grantedFields = new Set<string>();
+    for (const { fn } of this.analyses.values()) {
+      walk(fn, (node) => {
+        const call = this.fheCall(node);
+        if ((call === "allow" || call === "makePubliclyDecryptable") && !this.isThisGrant(node)) {
+          const [handle] = children(node, "arguments");
+          if (handle && this.isStorage(handle)) {
+            grantedFields.add(this.fieldOf(handle));
+          }
+        }
+      });
+
+      if (!this.isPublic(fn)) {
+        continue;
+      }
+      for (const statement of findAll(optionalChild(fn, "body") ?? fn, "Return")) {
+        for (const expression of this.components(optionalChild(statement, "expression"))) {
+          if (this.isEncrypted(expression) && this.isStorage(expression) && !returned.has(this.fieldOf(expression))) {
+            returned.set(this.fieldOf(expression), this.functionName(fn));
+          }
+        }
+      }
+    }
+
+    const findings: Finding[] = [];
+    for (const { fn, stores, grants } of this.analyses.values()) {
+      for (const store of stores) {
+        const getter = returned.get(store.field);
+        if (getter === undefined || grantedFields.has(store.field)) {
+          continue;
+        }
+        if (store.value && this.isStoredHandle(store.value, fn)) {
+          continue;
+        }
+        if (!this.isGranted(store, grants.users)) {
+          findings.push(
+            this.finding(
+              "returned-without-allow",
+              store.node,
+              fn,
+              `Handle stored to ${store.field} is returned by ${getter}() but never granted with FHE.allow(); nobody can decrypt it`
+            )
+          );
+        }
+      }
+    }
+    return findings;
+  }
+
+  /**
+   * @notice unchecked-sender-handle: handle arguments of public functions must be checked
+   */
+  private checkSenderHandles(): Finding[] {
+    const findings: Finding[] = [];
+    for (const { fn, grants } of this.analyses.values()) {
+      if (!this.isPublic(fn) || !fn.body) {
+        continue;
+      }
+      for (const parameter of children(child(fn, "parameters"), "parameters")) {
+        if (this.isEncrypted(parameter) && !grants.senderChecked.has(`#${parameter.id}`)) {
+          findings.push(
+            this.finding(
+              "unchecked-sender-handle",
+              parameter,
+              fn,
+              `Handle argument ${parameter.name} is used without FHE.isSenderAllowed(); callers can pass handles they were never granted`
+            )
+          );
+        }
+      }
+    }
+    return findings;
+  }
+
+  // ============ Function analysis ============
+
+  /**
+   * @notice Functions of the contract that have a body
+   */
+  private functions(): AstNode[] {
+    return children(this.contract, "nodes").filter((node) => node.nodeType === "FunctionDefinition" && node.body);
+  }
+
+  private analyze(fn: AstNode): FunctionAnalysis {
+    const stores: StoreSite[] = [];
+    walk(optionalChild(fn, "body"), (node) => {
+      if (node.nodeType === "Assignment") {
+        this.collectAssignment(node, fn, stores);
+      } else if (node.nodeType === "FunctionCall" && child(node, "expression").memberName === "push") {
+        const array = child(child(node, "expression"), "expression");
+        const [value] = children(node, "arguments");
+        if (value && this.isStorage(array)) {
+          this.collectStore(value, undefined, this.fieldOf(array), fn, stores);
+        }
+      }
+    });
+    return { fn, stores, grants: this.grants(fn) };
+  }
+
+  private collectAssignment(assignment: AstNode, fn: AstNode, stores: StoreSite[]): void {
+    const left = child(assignment, "leftHandSide");
+    const right = child(assignment, "rightHandSide");
+    if (left.nodeType !== "TupleExpression") {
+      if (this.isStorage(left)) {
+        this.collectStore(right, left, this.fieldOf(left), fn, stores);
+      }
+      return;
+    }
+
+    // (a, b) = (x, y) pairs up the components, (a, b) = f() stores call results
+    const targets = nullableChildren(left, "components");
+    const values = right.nodeType === "TupleExpression" ? nullableChildren(right, "components") : [];
+    targets.forEach((target, i) => {
+      if (target && this.isStorage(target) && this.isEncrypted(target)) {
+        const value = values[i] ?? undefined;
+        stores.push({ node: value ?? target, field: this.fieldOf(target), value, target });
+      }
+    });
+  }
+
+  /**
+   * @notice Record the encrypted values of a store: the value itself, or the fields of a struct value
+   */
+  private collectStore(
+    value: AstNode,
+    target: AstNode | undefined,
+    field: string,
+    fn: AstNode,
+    stores: StoreSite[]
+  ): void {
+    if (this.isEncrypted(value)) {
+      stores.push({ node: target ?? value, field, value, target });
+      return;
+    }
+
+    const structCall = this.structConstructor(value, fn);
+    const struct = structCall && referencedDeclaration(child(structCall, "expression"), this.nodes);
+    if (!structCall || !struct) {
+      return;
+    }
+    // Arguments are positional, or named in any order
+    const names = Array.isArray(structCall.names) ? structCall.names.map(String) : [];
+    const args = children(structCall, "arguments");
+    children(struct, "members").forEach((member, i) => {
+      const argument: AstNode | undefined =
+        names.length > 0 ? args[names.indexOf(stringField(member, "name"))] : args[i];
+      if (argument && this.isEncrypted(member)) {
+        stores.push({ node: argument, field: `${struct.name}.${member.name}`, value: argument });
+      }
+    });
+  }
+
+  /**
+   * @notice The struct constructor call behind a value: the value itself or the initializer of a memory local
+   */
+  private structConstructor(value: AstNode, fn: AstNode): AstNode | undefined {
+    if (value.nodeType === "FunctionCall" && value.kind === "structConstructorCall") {
+      return value;
+    }
+    if (value.nodeType === "Identifier") {
+      const initialValue = this.initialValue(value, fn);
+      if (initialValue?.nodeType === "FunctionCall" && initialValue.kind === "structConstructorCall") {
+        return initialValue;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * @notice ACL grants of a function body, including those of the internal functions it calls
+   */
+  private grants(fn: AstNode): Grants {
+    const grants: Grants = { contract: new Set(), users: new Set(), senderChecked: new Set() };
+    walk(optionalChild(fn, "body"), (node) => {
+      if (node.nodeType !== "FunctionCall") {
+        return;
+      }
+      const call = this.fheCall(node);
+      const [handle] = children(node, "arguments");
+      if (call === "allowThis" || (call === "allow" && this.isThisGrant(node))) {
+        grants.contract.add(this.key(handle));
+      } else if (call === "allow" || call === "makePubliclyDecryptable") {
+        grants.users.add(this.key(handle));
+      } else if (call === "isSenderAllowed") {
+        grants.senderChecked.add(this.key(handle));
+      } else if (call === undefined) {
+        this.addCalleeGrants(node, grants);
+      }
+    });
+    return grants;
+  }
+
+  /**
+   * @notice Count the arguments an internal function grants access to as granted by the caller
+   */
+  private addCalleeGrants(call: AstNode, grants: Grants): void {
+    const target = child(call, "expression");
+    const callee = target.nodeType === "Identifier" ? referencedDeclaration(target, this.nodes) : undefined;
+    if (callee?.nodeType !== "FunctionDefinition" || !callee.body) {
+      return;
+    }
+    const summary = this.summary(callee);
+    const args = children(call, "arguments");
+    children(child(callee, "parameters"), "parameters").forEach((parameter, i) => {
+      const argument = args[i];
+      if (!argument) {
+        return;
+      }
+      for (const kind of ["contract", "users", "senderChecked"] as const) {
+        if (summary[kind].has(`#${parameter.id}`)) {
+          grants[kind].add(this.key(argument));
+        }
+      }
+    });
+  }
+
+  private summary(fn: AstNode): Grants {
+    let summary = this.summaries.get(fn.id);
+    if (!summary) {
+      // Seed with no grants first, so recursive calls terminate
+      this.summaries.set(fn.id, { contract: new Set(), users: new Set(), senderChecked: new Set() });
+      summary = this.grants(fn);
+      this.summaries.set(fn.id, summary);
+    }
+    return summary;
+  }
+
+  // ============ Expression helpers ============
+
+  /**
+   * @notice Name of the FHE library function a call invokes, undefined for other calls
+   */
+  private fheCall(node: AstNode): string | undefined {
+    const callee = node.nodeType === "FunctionCall" ? child(node, "expression") : undefined;
+    if (
+      callee?.nodeType === "MemberAccess" &&
+      FHE_LIBRARIES.includes(stringField(child(callee, "expression"), "name"))
+    ) {
+      return stringField(callee, "memberName");
+    }
+    return undefined;
+  }
+
+  /**
+   * @notice True for FHE.allow(handle, address(this)), which is FHE.allowThis(handle)
+   */
+  private isThisGrant(call: AstNode): boolean {
+    const account = children(call, "arguments")[1];
+    const [converted] = children(account, "arguments");
+    return (
+      account?.nodeType === "FunctionCall" &&
+      account.kind === "typeConversion" &&
+      converted?.nodeType === "Identifier" &&
+      converted.name === "this"
+    );
+  }
+
+  /**
+   * @notice True if a store site's value or target expression was granted
+   */
+  private isGranted(store: StoreSite, granted: Set<string>): boolean {
+    return (
+      (store.value !== undefined && granted.has(this.key(store.value))) ||
+      (store.target !== undefined && granted.has(this.key(store.target)))
+    );
+  }
+
+  /**
+   * @notice True if an expression refers to a storage location
+   */
+  private isStorage(expression: AstNode): boolean {
+    switch (expression.nodeType) {
+      case "Identifier": {
+        const declaration = referencedDeclaration(expression, this.nodes);
+        return (
+          declaration?.nodeType === "VariableDeclaration" &&
+          (declaration.stateVariable === true || declaration.storageLocation === "storage")
+        );
+      }
+      case "MemberAccess":
+        return this.typeString(child(expression, "expression")).includes("storage");
+      case "IndexAccess": {
+        const base = this.typeString(child(expression, "baseExpression"));
+        return base.startsWith("mapping(") || base.includes("storage");
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * @notice True if a value copies a handle that was already stored, or wraps a constant handle
+   * @dev Such handles were granted when they were first stored
+   */
+  private isStoredHandle(value: AstNode, fn: AstNode): boolean {
+    if (this.isStorage(value)) {
+      return true;
+    }
+    if (value.nodeType === "FunctionCall" && child(value, "expression").memberName === "wrap") {
+      return true;
+    }
+    if (value.nodeType === "Identifier") {
+      const initialValue = this.initialValue(value, fn);
+      return initialValue !== undefined && !this.isReassigned(value, fn) && this.isStorage(initialValue);
+    }
+    return false;
+  }
+
+  /**
+   * @notice Initializer of the local variable an identifier refers to, if declared in the function
+   */
+  private initialValue(identifier: AstNode, fn: AstNode): AstNode | undefined {
+    for (const statement of findAll(fn, "VariableDeclarationStatement")) {
+      const declarations = nullableChildren(statement, "declarations");
+      if (declarations.length === 1 && declarations[0]?.id === identifier.referencedDeclaration) {
+        return optionalChild(statement, "initialValue");
+      }
+    }
+    return undefined;
+  }
+
+  private isReassigned(identifier: AstNode, fn: AstNode): boolean {
+    return findAll(fn, "Assignment").some((assignment) =>
+      this.components(child(assignment, "leftHandSide")).some(
+        (target) =>
+          target.nodeType === "Identifier" && target.referencedDeclaration === identifier.referencedDeclaration
+      )
+    );
+  }
+
+  /**
+   * @notice Name of the state a storage expression writes: "Struct.member" or the variable name
+   */
+  private fieldOf(expression: AstNode): string {
+    switch (expression.nodeType) {
+      case "MemberAccess": {
+        const base = child(expression, "expression");
+        const struct = /^struct ([\w.]+)/.exec(this.typeString(base));
+        return struct ? `${struct[1].split(".").pop()}.${stringField(expression, "memberName")}` : this.fieldOf(base);
+      }
+      case "IndexAccess":
+        return this.fieldOf(child(expression, "baseExpression"));
+      case "Identifier":
+        return stringField(expression, "name");
+      default:
+        return this.text.slice(expression.src);
+    }
+  }
+
+  /**
+   * @notice Key identifying an expression across a function: its declaration for
+   *         plain identifiers, its whitespace-free source text otherwise
+   */
+  private key(expression: AstNode | undefined): string {
+    if (!expression) {
+      return "";
+    }
+    if (expression.nodeType === "Identifier") {
+      return `#${expression.referencedDeclaration}`;
+    }
+    return this.text.slice(expression.src).replace(/\s+/g, "");
+  }
+
+  private components(expression: AstNode | null | undefined): AstNode[] {
+    if (!expression) {
+      return [];
+    }
+    return expression.nodeType === "TupleExpression" ? children(expression, "components") : [expression];
+  }
+
+  private isEncrypted(node: AstNode): boolean {
+    return ENCRYPTED_TYPE.test(this.typeString(node));
+  }
+
+  private typeString(node: AstNode): string {
+    return node.typeDescriptions?.typeString ?? "";
+  }
+
+  private isPublic(fn: AstNode): boolean {
+    return fn.visibility === "public" || fn.visibility === "external";
+  }
+
+  private functionName(fn: AstNode): string {
+    return stringField(fn, "name") || stringField(fn, "kind");
+  }
+
+  private finding(rule: Rule, node: AstNode, fn: AstNode, message: string): Finding {
+    const { line, column } = this.text.position(node.src);
+    return {
+      rule,
+      severity: RULES[rule].severity,
+      file: this.file,
+      line,
+      column,
+      contract: stringField(this.contract, "name"),
+      function: this.functionName(fn),
+      message,
+    };
+  }
+}
+
+// ============ CLI ============
+
+/**
+ * @notice Print a report for humans
+ */
+function printReport(report: LintReport): void {
+  for (const finding of report.findings) {
+    const icon = finding.severity === "error" ? "❌" : "⚠️ ";
+    console.log(`${icon} ${finding.file}:${finding.line}:${finding.column} [${finding.rule}]`);
+    console.log(`   ${finding.contract}.${finding.function}: ${finding.message}`);
+  }
+
+  const { files, contracts, errors, warnings } = report.summary;
+  console.log(`\n📄 ${files} file(s), ${contracts} contract(s) checked`);
+  if (report.findings.length === 0) {
+    console.log("✅ No ACL issues found");
+  } else {
+    console.log(`❌ ${errors} error(s), ${warnings} warning(s)`);
+  }
+}
+
+/**
+ * @notice Lint the compiled contracts and exit with the result
+ */
+function main(): void {
+  const args = process.argv.slice(2);
+  const json = args.includes("--json");
+  const outIndex = args.indexOf("--out");
+  if (outIndex !== -1 && !args[outIndex + 1]) {
+    console.error("❌ Error: --out needs a file path");
+    process.exit(2);
+  }
+  const out = outIndex === -1 ? undefined : args[outIndex + 1];
+  const files = args
+    .filter((arg, i) => !arg.startsWith("--") && (outIndex === -1 || i !== outIndex + 1))
+    .map((file) => path.relative(process.cwd(), path.resolve(file)).split(path.sep).join("/"));
+
+  let sources: Map<string, BuildSource>;
+  try {
+    sources = loadBuildSources();
+  } catch (error) {
+    console.error(`❌ Error: ${(error as Error).message}`);
+    process.exit(2);
+  }
+
+  const missing = files.filter((file) => !sources.has(file));
+  if (missing.length > 0) {
+    console.error(`❌ Error: not in the last compilation: ${missing.join(", ")}`);
+    process.exit(2);
+  }
+
+  const report = lintSources(sources.values(), files.length > 0 ? files : undefined);
+  if (out) {
+    fs.writeFileSync(out, JSON.stringify(report, null, 2));
+  }
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log("🔐 FHE ACL Linter\n");
+    printReport(report);
+    if (out) {
+      console.log(`📂 Report written to ${out}`);
+    }
+  }
+  process.exit(report.findings.length > 0 ? 1 : 0);
+}
+
+if (require.main === module) {
+  main();
+}